@@ -36,6 +36,21 @@ const schemas = [
       "model-extension-file.schema.json",
     ),
   },
+  {
+    path: join(
+      extensionDirectory,
+      "src",
+      "model-editor",
+      "model-templates-file.ts",
+    ),
+    type: "ModelTemplatesFile",
+    schemaPath: join(
+      extensionDirectory,
+      "src",
+      "model-editor",
+      "model-templates-file.schema.json",
+    ),
+  },
 ];
 
 async function generateSchema(
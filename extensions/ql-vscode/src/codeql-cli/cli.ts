@@ -134,6 +134,12 @@ export type GenerateExtensiblePredicateMetadataResult = {
   extensible_predicates: Array<{
     // pack relative path
     path: string;
+    // Only included by newer versions of the CLI
+    name?: string;
+    parameters?: Array<{
+      name: string;
+      type: string;
+    }>;
   }>;
 };
 
@@ -960,6 +966,76 @@ export class CodeQLCliServer implements Disposable {
     );
   }
 
+  /**
+   * Creates a database by extracting the source code in a directory. This does not use the CLI
+   * server, since creating a database can take a long time and would otherwise block all other
+   * commands. The output of the command is streamed to the logger as it is produced.
+   * @param databasePath The directory to create the database in.
+   * @param sourceRoot The root directory of the source code to extract.
+   * @param language The language to extract.
+   * @param options Additional options.
+   */
+  async databaseCreate(
+    databasePath: string,
+    sourceRoot: string,
+    language: string,
+    {
+      buildCommand,
+      cancellationToken,
+      logger,
+    }: {
+      buildCommand?: string;
+      cancellationToken?: CancellationToken;
+      logger?: BaseLogger;
+    } = {},
+  ): Promise<void> {
+    const args = [
+      "database",
+      "create",
+      ...LOGGING_FLAGS,
+      "--language",
+      language,
+      "--source-root",
+      sourceRoot,
+      ...(buildCommand ? ["--command", buildCommand] : []),
+      databasePath,
+    ];
+    const codeqlPath = await this.getCodeQlPath();
+    const output = logger ?? this.logger;
+    void output.log(
+      `Creating database using CodeQL CLI: ${codeqlPath} ${args.join(" ")}...`,
+    );
+
+    const childPromise = spawn(codeqlPath, args);
+    const child = childPromise.childProcess;
+
+    let cancellationRegistration: Disposable | undefined = undefined;
+    try {
+      if (cancellationToken !== undefined) {
+        cancellationRegistration = cancellationToken.onCancellationRequested(
+          (_e) => {
+            tk(child.pid || 0);
+          },
+        );
+      }
+
+      await Promise.all([
+        logStream(child.stdout!, output),
+        logStream(child.stderr!, output),
+        childPromise,
+      ]);
+      void output.log("CLI command succeeded.");
+    } catch (e) {
+      throw new Error(
+        `Creating database at ${databasePath} failed: ${getErrorMessage(e)}`,
+      );
+    } finally {
+      if (cancellationRegistration !== undefined) {
+        cancellationRegistration.dispose();
+      }
+    }
+  }
+
   /**
    * Uses a .qhelp file to generate Query Help documentation in a specified format.
    * @param pathToQhelp The path to the .qhelp file
@@ -1491,6 +1567,31 @@ export class CodeQLCliServer implements Disposable {
     );
   }
 
+  /**
+   * Compiles a query and gets its optimized DIL, which declares all external predicates
+   * that the query uses, including those declared in the libraries that it imports.
+   * @param queryPath The path to the query.
+   * @param workspaces The current open workspaces.
+   * @param outFile The path to write the compiled query to.
+   */
+  async compileQueryToDil(
+    queryPath: string,
+    workspaces: string[],
+    outFile: string,
+  ): Promise<string> {
+    return await this.runCodeQlCliCommand(
+      ["query", "compile"],
+      [
+        "--dump-dil",
+        "-o",
+        outFile,
+        ...this.getAdditionalPacksArg(workspaces),
+        queryPath,
+      ],
+      "Compiling query",
+    );
+  }
+
   async generateExtensiblePredicateMetadata(
     packRoot: string,
   ): Promise<GenerateExtensiblePredicateMetadataResult> {
@@ -3,7 +3,10 @@ import type { Uri, Range, TextDocumentShowOptions } from "vscode";
 import type { AstItem } from "../language-support";
 import type { DbTreeViewItem } from "../databases/ui/db-tree-view-item";
 import type { DatabaseItem } from "../databases/local-databases";
-import type { QueryHistoryInfo } from "../query-history/query-history-info";
+import type {
+  QueryHistoryInfo,
+  QueryHistoryTreeItem,
+} from "../query-history/query-history-info";
 import type { TestTreeNode } from "../query-testing/test-tree-node";
 import type {
   VariantAnalysis,
@@ -12,6 +15,7 @@ import type {
 } from "../variant-analysis/shared/variant-analysis";
 import type { QLDebugConfiguration } from "../debugger/debug-configuration";
 import type { QueryTreeViewItem } from "../queries-panel/query-tree-view-item";
+import type { QueryQueueItem } from "../query-queue/query-queue";
 import type { LanguageSelectionTreeViewItem } from "../language-selection-panel/language-selection-data-provider";
 import type { Method, Usage } from "../model-editor/method";
 
@@ -139,6 +143,9 @@ export type LocalQueryCommands = {
   "codeQLQueries.createQuery": () => Promise<void>;
   "codeQL.runLocalQueryFromFileTab": (uri: Uri) => Promise<void>;
   "codeQL.runQueries": ExplorerSelectionCommandFunction<Uri>;
+  "codeQL.runQuerySuite": (uri?: Uri) => Promise<void>;
+  "codeQLQueryHistory.rerunQuery": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.rerunQueryOnDatabase": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQL.quickEval": (uri: Uri) => Promise<void>;
   "codeQL.quickEvalCount": (uri: Uri) => Promise<void>;
   "codeQL.quickEvalContextEditor": (uri: Uri) => Promise<void>;
@@ -166,6 +173,7 @@ export type ResultsViewCommands = {
   "codeQLQueryResults.right": () => Promise<void>;
   "codeQLQueryResults.nextPathStep": () => Promise<void>;
   "codeQLQueryResults.previousPathStep": () => Promise<void>;
+  "codeQL.openSarifFile": (uri?: Uri) => Promise<void>;
 };
 
 // Commands used for the query history panel
@@ -174,16 +182,27 @@ export type QueryHistoryCommands = {
   "codeQLQueryHistory.sortByName": () => Promise<void>;
   "codeQLQueryHistory.sortByDate": () => Promise<void>;
   "codeQLQueryHistory.sortByCount": () => Promise<void>;
+  "codeQLQueryHistory.groupBy": () => Promise<void>;
+  "codeQLQueryHistory.filter": () => Promise<void>;
+  "codeQLQueryHistory.clearFilter": () => Promise<void>;
+  "codeQLQueryHistory.archivePinnedQueries": () => Promise<void>;
+  "codeQLQueryHistory.importRunBundle": () => Promise<void>;
 
   // Commands in the context menu or in the hover menu
   "codeQLQueryHistory.openQueryContextMenu": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
-  "codeQLQueryHistory.removeHistoryItemContextMenu": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
-  "codeQLQueryHistory.removeHistoryItemContextInline": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.removeHistoryItemContextMenu": TreeViewContextMultiSelectionCommandFunction<QueryHistoryTreeItem>;
+  "codeQLQueryHistory.removeHistoryItemContextInline": TreeViewContextMultiSelectionCommandFunction<QueryHistoryTreeItem>;
   "codeQLQueryHistory.renameItem": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.pin": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.unpin": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.addTag": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.removeTag": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.compareWith": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.comparePerformanceWith": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.showEvalLog": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.showEvalLogSummary": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.showEvalLogViewer": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.showEvalLogFlameGraph": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.showQueryLog": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.showQueryText": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.openQueryDirectory": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
@@ -196,11 +215,26 @@ export type QueryHistoryCommands = {
   "codeQLQueryHistory.itemClicked": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.openOnGithub": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
   "codeQLQueryHistory.copyRepoList": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.exportRunBundle": TreeViewContextMultiSelectionCommandFunction<QueryHistoryInfo>;
+  "codeQLQueryHistory.exportQuerySuiteSarif": TreeViewContextMultiSelectionCommandFunction<QueryHistoryTreeItem>;
 
   // Commands in the command palette
   "codeQL.exportSelectedVariantAnalysisResults": () => Promise<void>;
 };
 
+// Commands used for the query queue panel
+export type QueryQueueCommands = {
+  "codeQL.addQueryToQueue": (uri?: Uri) => Promise<void>;
+  "codeQL.addQueriesToQueue": ExplorerSelectionCommandFunction<Uri>;
+  "codeQLQueryQueue.pause": () => Promise<void>;
+  "codeQLQueryQueue.resume": () => Promise<void>;
+  "codeQLQueryQueue.clear": () => Promise<void>;
+  "codeQLQueryQueue.moveUp": TreeViewContextSingleSelectionCommandFunction<QueryQueueItem>;
+  "codeQLQueryQueue.moveDown": TreeViewContextSingleSelectionCommandFunction<QueryQueueItem>;
+  "codeQLQueryQueue.setPriority": TreeViewContextSingleSelectionCommandFunction<QueryQueueItem>;
+  "codeQLQueryQueue.cancel": TreeViewContextSingleSelectionCommandFunction<QueryQueueItem>;
+};
+
 // Commands user for the language selector panel
 export type LanguageSelectionCommands = {
   "codeQLLanguageSelection.setSelectedItem": (
@@ -215,6 +249,7 @@ export type LocalDatabasesCommands = {
   "codeQL.chooseDatabaseArchive": () => Promise<void>;
   "codeQL.chooseDatabaseInternet": () => Promise<void>;
   "codeQL.chooseDatabaseGithub": () => Promise<void>;
+  "codeQL.createDatabaseFromWorkspaceFolder": () => Promise<void>;
   "codeQL.upgradeCurrentDatabase": () => Promise<void>;
   "codeQL.clearCache": () => Promise<void>;
   "codeQL.trimCache": () => Promise<void>;
@@ -242,6 +277,7 @@ export type LocalDatabasesCommands = {
   "codeQLDatabases.renameDatabase": TreeViewContextMultiSelectionCommandFunction<DatabaseItem>;
   "codeQLDatabases.openDatabaseFolder": TreeViewContextMultiSelectionCommandFunction<DatabaseItem>;
   "codeQLDatabases.addDatabaseSource": TreeViewContextMultiSelectionCommandFunction<DatabaseItem>;
+  "codeQLDatabases.rebuildDatabase": TreeViewContextMultiSelectionCommandFunction<DatabaseItem>;
 
   // Codespace template commands
   "codeQL.setDefaultTourDatabase": () => Promise<void>;
@@ -317,6 +353,8 @@ export type PackagingCommands = {
 export type ModelEditorCommands = {
   "codeQL.openModelEditor": () => Promise<void>;
   "codeQL.openModelEditorFromModelingPanel": () => Promise<void>;
+  "codeQL.openModelCoverageReport": () => Promise<void>;
+  "codeQL.validateExtensionPack": () => Promise<void>;
   "codeQLModelEditor.jumpToMethod": (
     method: Method,
     usage: Usage,
@@ -354,6 +392,7 @@ export type AllExtensionCommands = BaseCommands &
   QueryEditorCommands &
   ResultsViewCommands &
   QueryHistoryCommands &
+  QueryQueueCommands &
   LanguageSelectionCommands &
   LocalDatabasesCommands &
   DebuggerCommands &
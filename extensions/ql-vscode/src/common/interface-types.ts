@@ -25,6 +25,14 @@ import {
 } from "../model-editor/shared/view-state";
 import { Mode } from "../model-editor/shared/mode";
 import { QueryLanguage } from "./query-language";
+import { PredicatePerformanceComparison } from "../log-insights/performance-comparison";
+import { FlameGraphNode, PredicateNode } from "../log-insights/predicate-graph";
+import {
+  ModelCoverageReport,
+  ModelCoverageReportFormat,
+} from "../model-editor/model-coverage-report";
+import { ModelImpactPreview } from "../model-editor/shared/model-impact-preview";
+import { BulkModel } from "../model-editor/shared/model-template";
 
 /**
  * This module contains types and code that are shared between
@@ -88,6 +96,22 @@ interface InterpretationT<T> {
   numTruncatedResults: number;
   numTotalResults: number;
   data: T;
+  /**
+   * The number of results that are in the alert baseline, and whether those results are
+   * hidden. Undefined if the results have not been compared to the alert baseline.
+   */
+  baseline?: {
+    numResults: number;
+    hidden: boolean;
+  };
+  /**
+   * The filter applied to the alerts, and the number of alerts that match it. Undefined if
+   * the alerts are not filtered.
+   */
+  filter?: {
+    state: RawResultsFilterState;
+    numResults: number;
+  };
 }
 
 export type Interpretation = InterpretationT<InterpretationData>;
@@ -198,9 +222,13 @@ export type FromResultsViewMsg =
   | ViewSourceFileMsg
   | ToggleDiagnostics
   | ChangeRawResultsSortMsg
+  | ChangeRawResultsFilterMsg
   | ChangeInterpretedResultsSortMsg
   | ChangePage
-  | OpenFileMsg;
+  | OpenFileMsg
+  | ExportResultsMsg
+  | ChangeAlertBaselineMsg
+  | ToggleBaselineAlertsMsg;
 
 /**
  * Message from the results view to open a database source
@@ -234,6 +262,24 @@ interface ToggleDiagnostics {
   kind?: string;
 }
 
+/**
+ * Message from the results view to accept alerts, which adds them to the alert baseline,
+ * or to remove alerts from the baseline.
+ */
+interface ChangeAlertBaselineMsg {
+  t: "changeAlertBaseline";
+  results: sarif.Result[];
+  accepted: boolean;
+}
+
+/**
+ * Message from the results view to hide or show the alerts in the alert baseline.
+ */
+interface ToggleBaselineAlertsMsg {
+  t: "toggleBaselineAlerts";
+  hidden: boolean;
+}
+
 /**
  * Message from a view signal that loading is complete.
  */
@@ -267,6 +313,15 @@ interface ChangePage {
   selectedTable: string;
 }
 
+/**
+ * Message from the results view to export the selected result set.
+ */
+interface ExportResultsMsg {
+  t: "exportResults";
+  pageNumber: number; // 0-indexed
+  selectedTable: string;
+}
+
 export enum SortDirection {
   asc,
   desc,
@@ -277,6 +332,41 @@ export interface RawResultsSortState {
   sortDirection: SortDirection;
 }
 
+/**
+ * A filter on a single column of a raw result set.
+ *
+ * - `substring` matches cells containing the text, ignoring case.
+ * - `regex` matches cells matching the regular expression.
+ * - `range` matches numeric cells between `min` and `max`, inclusive.
+ * - `glob` matches entities whose file path matches the glob pattern.
+ */
+export type RawResultsColumnFilter = {
+  columnIndex: number;
+} & (
+  | { kind: "substring"; text: string }
+  | { kind: "regex"; pattern: string }
+  | { kind: "range"; min?: number; max?: number }
+  | { kind: "glob"; pattern: string }
+);
+
+export type RawResultsColumnFilterKind = RawResultsColumnFilter["kind"];
+
+export interface RawResultsFilterState {
+  /** Text that must appear in at least one cell of a row, ignoring case. */
+  searchText: string;
+  /** Filters that must all match a row. */
+  columnFilters: RawResultsColumnFilter[];
+}
+
+/**
+ * The columns that alerts can be filtered on. Alerts are filtered as if they were rows
+ * of a raw result set with these columns: the message and the file path of the alert.
+ */
+export const ALERTS_FILTER_COLUMNS: Column[] = [
+  { name: "Message", kind: "s" },
+  { name: "File", kind: "s" },
+];
+
 type InterpretedResultsSortColumn = "alert-message";
 
 export interface InterpretedResultsSortState {
@@ -297,6 +387,18 @@ interface ChangeRawResultsSortMsg {
   sortState?: RawResultsSortState;
 }
 
+/**
+ * Message from the results view to request a filter change.
+ */
+interface ChangeRawResultsFilterMsg {
+  t: "changeFilter";
+  resultSetName: string;
+  /**
+   * filterState being undefined means don't filter, and show all rows of the result set.
+   */
+  filterState?: RawResultsFilterState;
+}
+
 /**
  * Message from the results view to request a sorting change in interpreted results.
  */
@@ -315,6 +417,7 @@ interface ChangeInterpretedResultsSortMsg {
 export type FromCompareViewMessage =
   | CommonFromViewMessages
   | ChangeCompareMessage
+  | ChangeCompareKeyColumnsMessage
   | ViewSourceFileMsg
   | OpenQueryMessage;
 
@@ -334,6 +437,15 @@ interface ChangeCompareMessage {
   newResultSetName: string;
 }
 
+/**
+ * Message from the compare view to request changing the columns that are used
+ * to match up rows between the two queries.
+ */
+interface ChangeCompareKeyColumnsMessage {
+  t: "changeCompareKeyColumns";
+  keyColumns: number[];
+}
+
 export type ToCompareViewMessage = SetComparisonsMessage;
 
 /**
@@ -356,25 +468,57 @@ export interface SetComparisonsMessage {
   readonly columns: readonly Column[];
   readonly commonResultSetNames: string[];
   readonly currentResultSetName: string;
-  readonly rows: QueryCompareResult | undefined;
+  /**
+   * The indices of the columns that are used to match up rows between the
+   * two queries. If empty, rows can only be added or removed.
+   */
+  readonly keyColumns: number[];
+  readonly result: QueryCompareResult | undefined;
   readonly message: string | undefined;
   readonly databaseUri: string;
 }
 
 /**
- * from is the set of rows that have changes in the "from" query.
- * to is the set of rows that have changes in the "to" query.
- * They are in the same order, so element 1 in "from" corresponds to
- * element 1 in "to".
- *
- * If an array element is null, that means that the element was removed
- * (or added) in the comparison.
+ * A pair of rows that have the same key in both queries, but differ in at
+ * least one other column.
  */
-export type QueryCompareResult = {
+export interface ChangedResultRow {
+  from: ResultRow;
+  to: ResultRow;
+  /**
+   * The indices of the columns whose values differ between the two rows.
+   */
+  changedColumns: number[];
+}
+
+/**
+ * from is the set of rows that only appear in the "from" query (removed rows).
+ * to is the set of rows that only appear in the "to" query (added rows).
+ * changed is the set of rows that appear in both queries with the same key,
+ * but with different values in the other columns.
+ */
+export type RawQueryCompareResult = {
+  kind: "raw";
   from: ResultRow[];
   to: ResultRow[];
+  changed: ChangedResultRow[];
+};
+
+/**
+ * from is the set of alerts that only appear in the "from" query (fixed alerts).
+ * to is the set of alerts that only appear in the "to" query (new alerts).
+ */
+export type InterpretedQueryCompareResult = {
+  kind: "interpreted";
+  sourceLocationPrefix: string;
+  from: sarif.Result[];
+  to: sarif.Result[];
 };
 
+export type QueryCompareResult =
+  | RawQueryCompareResult
+  | InterpretedQueryCompareResult;
+
 /**
  * Extract the name of the default result. Prefer returning
  * 'alerts', or '#select'. Otherwise return the first in the list.
@@ -407,6 +551,10 @@ export interface ParsedResultSets {
   selectedTable?: string; // when undefined, means 'show default table'
   resultSetNames: string[];
   resultSet: ResultSet;
+  /** The filter applied to the selected raw result set, if any. */
+  filterState?: RawResultsFilterState;
+  /** The number of rows of the selected raw result set that match `filterState`. */
+  numFilteredRows?: number;
 }
 
 interface SetVariantAnalysisMessage {
@@ -495,6 +643,36 @@ export type ToDataFlowPathsMessage = SetDataFlowPathsMessage;
 
 export type FromDataFlowPathsMessage = CommonFromViewMessages;
 
+/**
+ * Message to the performance comparison view that specifies the evaluator
+ * logs to compare.
+ */
+interface SetPerformanceComparisonMessage {
+  t: "setPerformanceComparison";
+  fromName: string;
+  toName: string;
+  comparisons: PredicatePerformanceComparison[];
+}
+
+export type ToComparePerformanceViewMessage = SetPerformanceComparisonMessage;
+
+export type FromComparePerformanceViewMessage = CommonFromViewMessages;
+
+/**
+ * Message to the evaluator log flame graph view that specifies the predicates
+ * of the evaluator log to show.
+ */
+interface SetEvalLogFlameGraphMessage {
+  t: "setEvalLogFlameGraph";
+  queryName: string;
+  flameGraph: FlameGraphNode;
+  predicates: PredicateNode[];
+}
+
+export type ToEvalLogFlameGraphViewMessage = SetEvalLogFlameGraphMessage;
+
+export type FromEvalLogFlameGraphViewMessage = CommonFromViewMessages;
+
 interface SetExtensionPackStateMessage {
   t: "setModelEditorViewState";
   viewState: ModelEditorViewState;
@@ -547,6 +725,10 @@ interface SaveModeledMethods {
   methodSignatures?: string[];
 }
 
+interface PreviewModelImpactMessage {
+  t: "previewModelImpact";
+}
+
 interface GenerateMethodMessage {
   t: "generateMethod";
 }
@@ -577,6 +759,21 @@ interface SetMultipleModeledMethodsMessage {
   modeledMethods: ModeledMethod[];
 }
 
+interface SetBulkModeledMethodsMessage {
+  t: "setBulkModeledMethods";
+  modeledMethods: Record<string, ModeledMethod[]>;
+}
+
+interface SaveModelTemplateMessage {
+  t: "saveModelTemplate";
+  methodSignatures: string[];
+  model: BulkModel;
+}
+
+interface ApplyModelTemplatesMessage {
+  t: "applyModelTemplates";
+}
+
 interface SetInModelingModeMessage {
   t: "setInModelingMode";
   inModelingMode: boolean;
@@ -608,12 +805,16 @@ export type FromModelEditorMessage =
   | OpenExtensionPackMessage
   | JumpToMethodMessage
   | SaveModeledMethods
+  | PreviewModelImpactMessage
   | GenerateMethodMessage
   | GenerateMethodsFromLlmMessage
   | StopGeneratingMethodsFromLlmMessage
   | ModelDependencyMessage
   | HideModeledMethodsMessage
-  | SetMultipleModeledMethodsMessage;
+  | SetMultipleModeledMethodsMessage
+  | SetBulkModeledMethodsMessage
+  | SaveModelTemplateMessage
+  | ApplyModelTemplatesMessage;
 
 interface RevealInEditorMessage {
   t: "revealInModelEditor";
@@ -661,3 +862,36 @@ export type ToMethodModelingMessage =
   | SetSelectedMethodMessage
   | SetInModelingModeMessage
   | SetInProgressMessage;
+
+/**
+ * Message to the model coverage report view that specifies the report to show.
+ */
+interface SetModelCoverageReportMessage {
+  t: "setModelCoverageReport";
+  report: ModelCoverageReport;
+}
+
+export type ToModelCoverageReportMessage = SetModelCoverageReportMessage;
+
+interface ExportModelCoverageReportMessage {
+  t: "exportModelCoverageReport";
+  format: ModelCoverageReportFormat;
+}
+
+export type FromModelCoverageReportMessage =
+  | CommonFromViewMessages
+  | ExportModelCoverageReportMessage;
+
+/**
+ * Message to the model impact preview view that specifies the preview to show.
+ */
+interface SetModelImpactPreviewMessage {
+  t: "setModelImpactPreview";
+  preview: ModelImpactPreview;
+}
+
+export type ToModelImpactPreviewMessage = SetModelImpactPreviewMessage;
+
+export type FromModelImpactPreviewMessage =
+  | CommonFromViewMessages
+  | ViewSourceFileMsg;
@@ -1,4 +1,4 @@
-import { join } from "path";
+import { dirname, join, parse } from "path";
 import { pathExists } from "fs-extra";
 
 export const QLPACK_FILENAMES = ["qlpack.yml", "codeql-pack.yml"];
@@ -21,3 +21,23 @@ export async function getQlPackPath(
 
   return undefined;
 }
+
+export async function findPackRoot(queryFile: string): Promise<string> {
+  // recursively find the directory containing qlpack.yml or codeql-pack.yml
+  let dir = dirname(queryFile);
+  while (!(await getQlPackPath(dir))) {
+    dir = dirname(dir);
+    if (isFileSystemRoot(dir)) {
+      // there is no qlpack.yml or codeql-pack.yml in this directory or any parent directory.
+      // just use the query file's directory as the pack root.
+      return dirname(queryFile);
+    }
+  }
+
+  return dir;
+}
+
+function isFileSystemRoot(dir: string): boolean {
+  const pathObj = parse(dir);
+  return pathObj.root === dir && pathObj.base === "";
+}
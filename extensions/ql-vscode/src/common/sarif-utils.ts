@@ -250,3 +250,67 @@ export function parseHighlightedLine(
 
   return { plainSection1, highlightedSection, plainSection2 };
 }
+
+/**
+ * Adds an offset to the indices of all artifact locations in a SARIF object.
+ */
+function offsetArtifactIndices<T>(value: T, offset: number): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => offsetArtifactIndices(item, offset)) as T;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] =
+      key === "artifactLocation" && typeof item?.index === "number"
+        ? { ...item, index: item.index + offset }
+        : offsetArtifactIndices(item, offset);
+  }
+  return result as T;
+}
+
+/**
+ * Merges the runs of a SARIF log into a single run, such as the runs of the queries of a query
+ * suite. The tool of the first run is used. The rules and artifacts of all runs are kept, and
+ * the indices of the results into them are updated, so that the results still resolve their
+ * rules and artifacts.
+ */
+export function mergeSarifRuns(runs: Sarif.Run[]): Sarif.Run | undefined {
+  if (runs.length <= 1) {
+    return runs[0];
+  }
+
+  const rules: Sarif.ReportingDescriptor[] = [];
+  const artifacts: Sarif.Artifact[] = [];
+  const results: Sarif.Result[] = [];
+  for (const run of runs) {
+    const ruleOffset = rules.length;
+    const artifactOffset = artifacts.length;
+    for (const result of run.results ?? []) {
+      const mergedResult = offsetArtifactIndices(result, artifactOffset);
+      if (mergedResult.ruleIndex !== undefined) {
+        mergedResult.ruleIndex += ruleOffset;
+      }
+      if (mergedResult.rule?.index !== undefined) {
+        mergedResult.rule.index += ruleOffset;
+      }
+      results.push(mergedResult);
+    }
+    rules.push(...(run.tool.driver.rules ?? []));
+    artifacts.push(...(run.artifacts ?? []));
+  }
+
+  const [firstRun] = runs;
+  return {
+    ...firstRun,
+    tool: {
+      ...firstRun.tool,
+      driver: { ...firstRun.tool.driver, rules },
+    },
+    artifacts: artifacts.length > 0 ? artifacts : undefined,
+    results,
+  };
+}
@@ -6,10 +6,14 @@ import { App } from "../app";
 export type WebviewKind =
   | "results"
   | "compare"
+  | "compare-performance"
+  | "eval-log-flame-graph"
   | "variant-analysis"
   | "data-flow-paths"
   | "model-editor"
-  | "method-modeling";
+  | "method-modeling"
+  | "model-coverage-report"
+  | "model-impact-preview";
 
 export interface WebviewMessage {
   t: string;
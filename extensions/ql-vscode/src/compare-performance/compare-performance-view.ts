@@ -0,0 +1,101 @@
+import { ViewColumn } from "vscode";
+
+import {
+  FromComparePerformanceViewMessage,
+  ToComparePerformanceViewMessage,
+} from "../common/interface-types";
+import { showAndLogExceptionWithTelemetry } from "../common/logging";
+import { extLogger } from "../common/logging/vscode";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { LocalQueryInfo } from "../query-results";
+import { assertNever } from "../common/helpers-pure";
+import { HistoryItemLabelProvider } from "../query-history/history-item-label-provider";
+import {
+  AbstractWebview,
+  WebviewPanelConfig,
+} from "../common/vscode/abstract-webview";
+import { telemetryListener } from "../common/vscode/telemetry";
+import { redactableError } from "../common/errors";
+import { App } from "../common/app";
+import { parsePredicatePerformance } from "../log-insights/log-summary-parser";
+import { comparePredicatePerformance } from "../log-insights/performance-comparison";
+import { ensureJsonEvalLogSummary } from "../query-evaluation-logging";
+
+export class ComparePerformanceView extends AbstractWebview<
+  ToComparePerformanceViewMessage,
+  FromComparePerformanceViewMessage
+> {
+  constructor(
+    app: App,
+    private readonly cliServer: CodeQLCliServer,
+    private readonly labelProvider: HistoryItemLabelProvider,
+  ) {
+    super(app);
+  }
+
+  async showResults(from: LocalQueryInfo, to: LocalQueryInfo) {
+    const fromSummaryPath = await ensureJsonEvalLogSummary(
+      this.cliServer,
+      from,
+    );
+    const toSummaryPath = await ensureJsonEvalLogSummary(this.cliServer, to);
+
+    const comparisons = comparePredicatePerformance(
+      await parsePredicatePerformance(fromSummaryPath),
+      await parsePredicatePerformance(toSummaryPath),
+    );
+
+    const panel = await this.getPanel();
+    panel.reveal(undefined, true);
+
+    await this.waitForPanelLoaded();
+
+    await this.postMessage({
+      t: "setPerformanceComparison",
+      fromName: this.labelProvider.getShortLabel(from),
+      toName: this.labelProvider.getShortLabel(to),
+      comparisons,
+    });
+  }
+
+  protected getPanelConfig(): WebviewPanelConfig {
+    return {
+      viewId: "comparePerformanceView",
+      title: "Compare CodeQL Performance",
+      viewColumn: ViewColumn.Active,
+      preserveFocus: true,
+      view: "compare-performance",
+    };
+  }
+
+  protected onPanelDispose(): void {
+    // Nothing to dispose
+  }
+
+  protected async onMessage(
+    msg: FromComparePerformanceViewMessage,
+  ): Promise<void> {
+    switch (msg.t) {
+      case "viewLoaded":
+        this.onWebViewLoaded();
+        break;
+
+      case "telemetry":
+        telemetryListener?.sendUIInteraction(msg.action);
+        break;
+
+      case "unhandledError":
+        void showAndLogExceptionWithTelemetry(
+          extLogger,
+          telemetryListener,
+          redactableError(
+            msg.error,
+          )`Unhandled error in performance comparison view: ${msg.error.message}`,
+        );
+        break;
+
+      default:
+        assertNever(msg);
+    }
+  }
+}
@@ -1,22 +1,30 @@
-import { ViewColumn } from "vscode";
+import { Uri, ViewColumn } from "vscode";
+import * as sarif from "sarif";
 
 import {
+  ALERTS_TABLE_NAME,
   FromCompareViewMessage,
+  InterpretedQueryCompareResult,
   ToCompareViewMessage,
   QueryCompareResult,
+  RawQueryCompareResult,
 } from "../common/interface-types";
 import { Logger, showAndLogExceptionWithTelemetry } from "../common/logging";
 import { extLogger } from "../common/logging/vscode";
-import { CodeQLCliServer } from "../codeql-cli/cli";
+import { CodeQLCliServer, SourceInfo } from "../codeql-cli/cli";
 import { DatabaseManager } from "../databases/local-databases";
 import { jumpToLocation } from "../databases/local-databases/locations";
 import {
   transformBqrsResultSet,
   RawResultSet,
-  BQRSInfo,
+  Column,
 } from "../common/bqrs-cli-types";
 import resultsDiff from "./resultsDiff";
-import { CompletedLocalQueryInfo } from "../query-results";
+import { sarifDiff } from "./sarif-diff";
+import {
+  CompletedLocalQueryInfo,
+  interpretResultsSarif,
+} from "../query-results";
 import { assertNever, getErrorMessage } from "../common/helpers-pure";
 import { HistoryItemLabelProvider } from "../query-history/history-item-label-provider";
 import {
@@ -27,9 +35,18 @@ import { telemetryListener } from "../common/vscode/telemetry";
 import { redactableError } from "../common/errors";
 import { App } from "../common/app";
 
+interface CommonResultSetNames {
+  commonResultSetNames: string[];
+  currentResultSetName: string;
+  fromResultSetName: string;
+  toResultSetName: string;
+}
+
 interface ComparePair {
   from: CompletedLocalQueryInfo;
   to: CompletedLocalQueryInfo;
+  selectedResultSetName?: string;
+  keyColumns: number[];
 }
 
 export class CompareView extends AbstractWebview<
@@ -55,23 +72,38 @@ export class CompareView extends AbstractWebview<
     from: CompletedLocalQueryInfo,
     to: CompletedLocalQueryInfo,
     selectedResultSetName?: string,
+    keyColumns: number[] = [],
   ) {
-    this.comparePair = { from, to };
+    this.comparePair = { from, to, selectedResultSetName, keyColumns };
     const panel = await this.getPanel();
     panel.reveal(undefined, true);
 
     await this.waitForPanelLoaded();
-    const [
+    const {
       commonResultSetNames,
       currentResultSetName,
-      fromResultSet,
-      toResultSet,
-    ] = await this.findCommonResultSetNames(from, to, selectedResultSetName);
+      fromResultSetName,
+      toResultSetName,
+    } = await this.findCommonResultSetNames(from, to, selectedResultSetName);
     if (currentResultSetName) {
-      let rows: QueryCompareResult | undefined;
+      let columns: readonly Column[] = [];
+      let result: QueryCompareResult | undefined;
       let message: string | undefined;
       try {
-        rows = this.compareResults(fromResultSet, toResultSet);
+        if (currentResultSetName === ALERTS_TABLE_NAME) {
+          result = await this.compareInterpretedResults(from, to);
+        } else {
+          const fromResultSet = await this.getResultSet(
+            from.completedQuery.query.resultsPaths.resultsPath,
+            fromResultSetName,
+          );
+          const toResultSet = await this.getResultSet(
+            to.completedQuery.query.resultsPaths.resultsPath,
+            toResultSetName,
+          );
+          columns = fromResultSet.schema.columns;
+          result = this.compareResults(fromResultSet, toResultSet, keyColumns);
+        }
       } catch (e) {
         message = getErrorMessage(e);
       }
@@ -93,10 +125,11 @@ export class CompareView extends AbstractWebview<
             time: to.startTime,
           },
         },
-        columns: fromResultSet.schema.columns,
+        columns,
         commonResultSetNames,
         currentResultSetName,
-        rows,
+        keyColumns,
+        result,
         message,
         databaseUri: to.initialInfo.databaseInfo.databaseUri,
       });
@@ -130,6 +163,11 @@ export class CompareView extends AbstractWebview<
         );
         break;
 
+      case "changeCompareKeyColumns":
+        await this.changeKeyColumns(msg.keyColumns);
+        telemetryListener?.sendUIInteraction("compare-view-change-key-columns");
+        break;
+
       case "viewSourceFile":
         await jumpToLocation(
           msg.databaseUri,
@@ -169,7 +207,7 @@ export class CompareView extends AbstractWebview<
     from: CompletedLocalQueryInfo,
     to: CompletedLocalQueryInfo,
     selectedResultSetName: string | undefined,
-  ): Promise<[string[], string, RawResultSet, RawResultSet]> {
+  ): Promise<CommonResultSetNames> {
     const fromSchemas = await this.cliServer.bqrsInfo(
       from.completedQuery.query.resultsPaths.resultsPath,
     );
@@ -184,6 +222,14 @@ export class CompareView extends AbstractWebview<
       toSchemaNames.includes(name),
     );
 
+    // Prefer comparing alerts if both queries can produce interpreted results.
+    if (
+      canCompareInterpretedResults(from) &&
+      canCompareInterpretedResults(to)
+    ) {
+      commonResultSetNames.unshift(ALERTS_TABLE_NAME);
+    }
+
     // Fall back on the default result set names if there are no common ones.
     const defaultFromResultSetName = fromSchemaNames.find((name) =>
       name.startsWith("#"),
@@ -203,23 +249,14 @@ export class CompareView extends AbstractWebview<
 
     const currentResultSetName =
       selectedResultSetName || commonResultSetNames[0];
-    const fromResultSet = await this.getResultSet(
-      fromSchemas,
-      currentResultSetName || defaultFromResultSetName!,
-      from.completedQuery.query.resultsPaths.resultsPath,
-    );
-    const toResultSet = await this.getResultSet(
-      toSchemas,
-      currentResultSetName || defaultToResultSetName!,
-      to.completedQuery.query.resultsPaths.resultsPath,
-    );
-    return [
+    return {
       commonResultSetNames,
-      currentResultSetName ||
+      currentResultSetName:
+        currentResultSetName ||
         `${defaultFromResultSetName} <-> ${defaultToResultSetName}`,
-      fromResultSet,
-      toResultSet,
-    ];
+      fromResultSetName: currentResultSetName || defaultFromResultSetName!,
+      toResultSetName: currentResultSetName || defaultToResultSetName!,
+    };
   }
 
   private async changeTable(newResultSetName: string) {
@@ -233,11 +270,23 @@ export class CompareView extends AbstractWebview<
     );
   }
 
+  private async changeKeyColumns(keyColumns: number[]) {
+    if (!this.comparePair?.from || !this.comparePair.to) {
+      return;
+    }
+    await this.showResults(
+      this.comparePair.from,
+      this.comparePair.to,
+      this.comparePair.selectedResultSetName,
+      keyColumns,
+    );
+  }
+
   private async getResultSet(
-    bqrsInfo: BQRSInfo,
-    resultSetName: string,
     resultsPath: string,
+    resultSetName: string,
   ): Promise<RawResultSet> {
+    const bqrsInfo = await this.cliServer.bqrsInfo(resultsPath);
     const schema = bqrsInfo["result-sets"].find(
       (schema) => schema.name === resultSetName,
     );
@@ -248,12 +297,54 @@ export class CompareView extends AbstractWebview<
     return transformBqrsResultSet(schema, chunk);
   }
 
+  private async getInterpretedResults(
+    query: CompletedLocalQueryInfo,
+    sourceInfo: SourceInfo | undefined,
+  ): Promise<sarif.Result[]> {
+    const { metadata, resultsPaths } = query.completedQuery.query;
+    const interpretation = await interpretResultsSarif(
+      this.cliServer,
+      metadata,
+      resultsPaths,
+      sourceInfo,
+    );
+    return interpretation.runs[0]?.results ?? [];
+  }
+
+  private async compareInterpretedResults(
+    from: CompletedLocalQueryInfo,
+    to: CompletedLocalQueryInfo,
+  ): Promise<InterpretedQueryCompareResult> {
+    // The database may not be available, such as for imported run bundles. The
+    // results can still be compared, but without the contents of the source archive.
+    const database = this.databaseManager.findDatabaseItem(
+      Uri.parse(to.initialInfo.databaseInfo.databaseUri),
+    );
+    const sourceLocationPrefix =
+      database === undefined
+        ? ""
+        : await database.getSourceLocationPrefix(this.cliServer);
+    const sourceArchiveUri = database?.sourceArchive;
+    const sourceInfo =
+      sourceArchiveUri === undefined
+        ? undefined
+        : {
+            sourceArchive: sourceArchiveUri.fsPath,
+            sourceLocationPrefix,
+          };
+
+    const fromResults = await this.getInterpretedResults(from, sourceInfo);
+    const toResults = await this.getInterpretedResults(to, sourceInfo);
+
+    return sarifDiff(fromResults, toResults, sourceLocationPrefix);
+  }
+
   private compareResults(
     fromResults: RawResultSet,
     toResults: RawResultSet,
-  ): QueryCompareResult {
-    // Only compare columns that have the same name
-    return resultsDiff(fromResults, toResults);
+    keyColumns: number[],
+  ): RawQueryCompareResult {
+    return resultsDiff(fromResults, toResults, keyColumns);
   }
 
   private async openQuery(kind: "from" | "to") {
@@ -264,3 +355,16 @@ export class CompareView extends AbstractWebview<
     }
   }
 }
+
+/**
+ * Holds if the alerts of the given query can be compared. Quick evaluation
+ * never produces interpreted results.
+ */
+function canCompareInterpretedResults(query: CompletedLocalQueryInfo): boolean {
+  const { completedQuery } = query;
+  return (
+    completedQuery.query.quickEvalPosition === undefined &&
+    completedQuery.query.metadata?.kind !== "graph" &&
+    completedQuery.query.canHaveInterpretedResults()
+  );
+}
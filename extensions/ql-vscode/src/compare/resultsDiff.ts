@@ -1,57 +1,132 @@
-import { RawResultSet } from "../common/bqrs-cli-types";
-import { QueryCompareResult } from "../common/interface-types";
+import { RawResultSet, ResultRow } from "../common/bqrs-cli-types";
+import {
+  ChangedResultRow,
+  RawQueryCompareResult,
+} from "../common/interface-types";
 
 /**
- * Compare the rows of two queries. Use deep equality to determine if
- * rows have been added or removed across two invocations of a query.
+ * Compare the rows of two queries.
+ *
+ * Rows that are deeply equal in both queries are considered unchanged. Of the
+ * remaining rows, those that have the same values in all of the `keyColumns`
+ * are paired up and reported as changed, together with the indices of the
+ * columns whose values differ. Everything else is reported as having been
+ * removed (present only in the "from" query) or added (present only in the
+ * "to" query).
+ *
+ * When no key columns are given, rows can only be added or removed.
  *
  * Assumptions:
  *
- * 1. Queries have the same sort order
- * 2. Queries have same number and order of columns
- * 3. Rows are not changed or re-ordered, they are only added or removed
+ * 1. Queries have same number and order of columns
  *
  * @param fromResults the source query
  * @param toResults the target query
+ * @param keyColumns the indices of the columns used to match up rows
  *
  * @throws Error when:
  *  1. number of columns do not match
- *  2. If either query is empty
- *  3. If the queries are 100% disjoint
+ *  2. a key column is out of range
  */
 export default function resultsDiff(
   fromResults: RawResultSet,
   toResults: RawResultSet,
-): QueryCompareResult {
-  if (fromResults.schema.columns.length !== toResults.schema.columns.length) {
+  keyColumns: readonly number[] = [],
+): RawQueryCompareResult {
+  const columnCount = fromResults.schema.columns.length;
+  if (columnCount !== toResults.schema.columns.length) {
     throw new Error("CodeQL Compare: Columns do not match.");
   }
 
-  if (!fromResults.rows.length) {
-    throw new Error("CodeQL Compare: Source query has no results.");
+  for (const keyColumn of keyColumns) {
+    if (keyColumn < 0 || keyColumn >= columnCount) {
+      throw new Error(`CodeQL Compare: Invalid key column ${keyColumn}.`);
+    }
   }
 
-  if (!toResults.rows.length) {
-    throw new Error("CodeQL Compare: Target query has no results.");
+  const removed = arrayDiff(fromResults.rows, toResults.rows);
+  const added = arrayDiff(toResults.rows, fromResults.rows);
+
+  if (keyColumns.length === 0) {
+    return {
+      kind: "raw",
+      from: removed,
+      to: added,
+      changed: [],
+    };
   }
 
-  const results = {
-    from: arrayDiff(fromResults.rows, toResults.rows),
-    to: arrayDiff(toResults.rows, fromResults.rows),
-  };
+  // Pair up the remaining rows by their key. If several rows share the same
+  // key, they are paired in the order in which they appear.
+  const addedByKey = new Map<string, ResultRow[]>();
+  for (const row of added) {
+    const key = rowKey(row, keyColumns);
+    const rows = addedByKey.get(key) ?? [];
+    rows.push(row);
+    addedByKey.set(key, rows);
+  }
 
-  if (
-    fromResults.rows.length === results.from.length &&
-    toResults.rows.length === results.to.length
-  ) {
-    throw new Error("CodeQL Compare: No overlap between the selected queries.");
+  const from: ResultRow[] = [];
+  const changed: ChangedResultRow[] = [];
+  for (const row of removed) {
+    const candidates = addedByKey.get(rowKey(row, keyColumns));
+    const match = candidates?.shift();
+    if (match === undefined) {
+      from.push(row);
+    } else {
+      changed.push({
+        from: row,
+        to: match,
+        changedColumns: changedColumns(row, match),
+      });
+    }
   }
 
-  return results;
+  const to = added.filter(
+    (row) => addedByKey.get(rowKey(row, keyColumns))?.includes(row),
+  );
+
+  return {
+    kind: "raw",
+    from,
+    to,
+    changed,
+  };
 }
 
+/**
+ * Returns the elements of `source` that do not occur in `toRemove`. Elements
+ * are compared by deep equality, and each element of `toRemove` cancels out at
+ * most one element of `source`.
+ */
 function arrayDiff<T>(source: readonly T[], toRemove: readonly T[]): T[] {
-  // Stringify the object so that we can compare hashes in the set
-  const rest = new Set(toRemove.map((item) => JSON.stringify(item)));
-  return source.filter((element) => !rest.has(JSON.stringify(element)));
+  // Stringify the object so that we can compare hashes in the map
+  const rest = new Map<string, number>();
+  for (const item of toRemove) {
+    const hash = JSON.stringify(item);
+    rest.set(hash, (rest.get(hash) ?? 0) + 1);
+  }
+  return source.filter((element) => {
+    const hash = JSON.stringify(element);
+    const count = rest.get(hash) ?? 0;
+    if (count > 0) {
+      rest.set(hash, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function rowKey(row: ResultRow, keyColumns: readonly number[]): string {
+  return JSON.stringify(keyColumns.map((column) => row[column]));
+}
+
+function changedColumns(from: ResultRow, to: ResultRow): number[] {
+  const columns: number[] = [];
+  for (let i = 0; i < from.length; i++) {
+    if (JSON.stringify(from[i]) !== JSON.stringify(to[i])) {
+      columns.push(i);
+    }
+  }
+  return columns;
 }
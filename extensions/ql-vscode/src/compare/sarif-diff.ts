@@ -0,0 +1,117 @@
+import * as sarif from "sarif";
+import { InterpretedQueryCompareResult } from "../common/interface-types";
+
+/**
+ * Compare the alerts of two queries.
+ *
+ * Alerts are matched by their rule, location and message. Matching happens in
+ * two passes:
+ *
+ * 1. Alerts with the same rule, file, region and message are matched exactly.
+ * 2. Of the remaining alerts, those with the same rule, file, message, start
+ *    column and region length are matched in the order in which they appear in
+ *    the file. This makes the comparison tolerant of alerts that have moved to
+ *    a different line because code was added or removed above them.
+ *
+ * Alerts that cannot be matched are reported as fixed (present only in the
+ * "from" query) or new (present only in the "to" query).
+ *
+ * @param fromResults the alerts of the source query
+ * @param toResults the alerts of the target query
+ * @param sourceLocationPrefix the source location prefix of the database
+ */
+export function sarifDiff(
+  fromResults: readonly sarif.Result[],
+  toResults: readonly sarif.Result[],
+  sourceLocationPrefix: string,
+): InterpretedQueryCompareResult {
+  const [exactFrom, exactTo] = matchResults(fromResults, toResults, exactKey);
+  const [from, to] = matchResults(
+    sortByLine(exactFrom),
+    sortByLine(exactTo),
+    shiftTolerantKey,
+  );
+
+  return {
+    kind: "interpreted",
+    sourceLocationPrefix,
+    from,
+    to,
+  };
+}
+
+/**
+ * Removes all pairs of results with the same key, and returns the results that
+ * could not be matched on each side.
+ */
+function matchResults(
+  fromResults: readonly sarif.Result[],
+  toResults: readonly sarif.Result[],
+  getKey: (result: sarif.Result) => string,
+): [sarif.Result[], sarif.Result[]] {
+  const toByKey = new Map<string, sarif.Result[]>();
+  for (const result of toResults) {
+    const key = getKey(result);
+    const results = toByKey.get(key) ?? [];
+    results.push(result);
+    toByKey.set(key, results);
+  }
+
+  const unmatchedFrom = fromResults.filter(
+    (result) => toByKey.get(getKey(result))?.shift() === undefined,
+  );
+  const unmatchedTo = toResults.filter(
+    (result) => toByKey.get(getKey(result))?.includes(result),
+  );
+
+  return [unmatchedFrom, unmatchedTo];
+}
+
+function sortByLine(results: readonly sarif.Result[]): sarif.Result[] {
+  return [...results].sort(
+    (a, b) =>
+      (getRegion(a)?.startLine ?? 0) - (getRegion(b)?.startLine ?? 0) ||
+      (getRegion(a)?.startColumn ?? 0) - (getRegion(b)?.startColumn ?? 0),
+  );
+}
+
+function exactKey(result: sarif.Result): string {
+  const region = getRegion(result);
+  return JSON.stringify([
+    getRuleId(result),
+    getUri(result),
+    region?.startLine,
+    region?.startColumn,
+    region?.endLine,
+    region?.endColumn,
+    result.message.text,
+  ]);
+}
+
+function shiftTolerantKey(result: sarif.Result): string {
+  const region = getRegion(result);
+  const lineCount =
+    region?.startLine === undefined || region.endLine === undefined
+      ? undefined
+      : region.endLine - region.startLine;
+  return JSON.stringify([
+    getRuleId(result),
+    getUri(result),
+    region?.startColumn,
+    lineCount,
+    region?.endColumn,
+    result.message.text,
+  ]);
+}
+
+function getRuleId(result: sarif.Result): string | undefined {
+  return result.ruleId ?? result.rule?.id;
+}
+
+function getUri(result: sarif.Result): string | undefined {
+  return result.locations?.[0]?.physicalLocation?.artifactLocation?.uri;
+}
+
+function getRegion(result: sarif.Result): sarif.Region | undefined {
+  return result.locations?.[0]?.physicalLocation?.region;
+}
@@ -15,6 +15,7 @@ import {
   FilterKey,
   SortKey,
 } from "./variant-analysis/shared/variant-analysis-filter-sort";
+import { LogScannerSettings } from "./log-insights/log-scanner";
 
 export const ALL_SETTINGS: Setting[] = [];
 
@@ -485,6 +486,29 @@ export function joinOrderWarningThreshold(): number {
   return JOIN_ORDER_WARNING_THRESHOLD.getValue<number>();
 }
 
+/**
+ * Creates the settings for a log scanner, which are nested under `codeQL.logInsights.<name>`.
+ */
+function logScannerSettings(name: string): () => LogScannerSettings {
+  const scannerSetting = new Setting(name, LOG_INSIGHTS_SETTING);
+  const enabled = new Setting("enabled", scannerSetting);
+  const threshold = new Setting("threshold", scannerSetting);
+  return () => ({
+    enabled: enabled.getValue<boolean>(),
+    threshold: threshold.getValue<number>(),
+  });
+}
+
+export const recursiveIterationScannerSettings = logScannerSettings(
+  "recursiveIterations",
+);
+export const duplicationScannerSettings = logScannerSettings("duplication");
+export const cartesianProductScannerSettings =
+  logScannerSettings("cartesianProduct");
+export const extensionalCacheMissScannerSettings = logScannerSettings(
+  "extensionalCacheMisses",
+);
+
 const AST_VIEWER_SETTING = new Setting("astViewer", ROOT_SETTING);
 /**
  * Hidden setting: Avoids caching in the AST viewer if the user is also a canary user.
@@ -735,6 +759,9 @@ const LLM_GENERATION_DEV_ENDPOINT = new Setting(
 );
 const EXTENSIONS_DIRECTORY = new Setting("extensionsDirectory", MODEL_SETTING);
 const ENABLE_RUBY = new Setting("enableRuby", MODEL_SETTING);
+const ENABLE_PYTHON = new Setting("enablePython", MODEL_SETTING);
+const ENABLE_JAVASCRIPT = new Setting("enableJavascript", MODEL_SETTING);
+const ENABLE_GO = new Setting("enableGo", MODEL_SETTING);
 
 export interface ModelConfig {
   flowGeneration: boolean;
@@ -742,6 +769,9 @@ export interface ModelConfig {
   getExtensionsDirectory(languageId: string): string | undefined;
   showMultipleModels: boolean;
   enableRuby: boolean;
+  enablePython: boolean;
+  enableJavascript: boolean;
+  enableGo: boolean;
 }
 
 export class ModelConfigListener extends ConfigListener implements ModelConfig {
@@ -786,6 +816,18 @@ export class ModelConfigListener extends ConfigListener implements ModelConfig {
   public get enableRuby(): boolean {
     return !!ENABLE_RUBY.getValue<boolean>();
   }
+
+  public get enablePython(): boolean {
+    return !!ENABLE_PYTHON.getValue<boolean>();
+  }
+
+  public get enableJavascript(): boolean {
+    return !!ENABLE_JAVASCRIPT.getValue<boolean>();
+  }
+
+  public get enableGo(): boolean {
+    return !!ENABLE_GO.getValue<boolean>();
+  }
 }
 
 const GITHUB_DATABASE_SETTING = new Setting("githubDatabase", ROOT_SETTING);
@@ -0,0 +1,233 @@
+import { basename, join } from "path";
+import { ensureDir, pathExists, realpath, remove } from "fs-extra";
+import { CancellationToken, Uri, window, workspace } from "vscode";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import {
+  ProgressCallback,
+  UserCancellationException,
+} from "../common/vscode/progress";
+import { extLogger } from "../common/logging/vscode";
+import { QueryLanguage } from "../common/query-language";
+import { DatabaseItem, DatabaseManager } from "./local-databases";
+import { DatabaseOriginWorkspace } from "./local-databases/database-origin";
+import { promptForLanguage } from "./database-fetcher";
+import { getSourceSnapshot } from "./local-databases/source-snapshot";
+
+/**
+ * Languages that need a build command to be extracted. If no build command is given for these
+ * languages, the CLI tries to build the code automatically.
+ */
+const COMPILED_LANGUAGES: string[] = [
+  QueryLanguage.Cpp,
+  QueryLanguage.CSharp,
+  QueryLanguage.Go,
+  QueryLanguage.Java,
+  QueryLanguage.Swift,
+];
+
+const MAX_CREATE_DATABASE_PROGRESS_STEPS = 3;
+
+/**
+ * Prompts the user for a workspace folder, a language and an optional build command, and creates
+ * a database from the source code in the workspace folder. The database is added to the list of
+ * databases and selected.
+ *
+ * @returns The created database, or `undefined` if the user cancelled.
+ */
+export async function promptCreateDatabaseFromWorkspaceFolder(
+  databaseManager: DatabaseManager,
+  storagePath: string,
+  cliServer: CodeQLCliServer,
+  progress: ProgressCallback,
+  token: CancellationToken,
+): Promise<DatabaseItem | undefined> {
+  const sourceRoot = await promptForWorkspaceFolder();
+  if (sourceRoot === undefined) {
+    return undefined;
+  }
+
+  progress({
+    message: "Choose language",
+    step: 1,
+    maxStep: MAX_CREATE_DATABASE_PROGRESS_STEPS,
+  });
+  const language = await promptForLanguage(
+    await cliServer.getSupportedLanguages(),
+    undefined,
+    "Select the language to extract:",
+  );
+  if (language === undefined) {
+    return undefined;
+  }
+
+  let buildCommand: string | undefined;
+  if (COMPILED_LANGUAGES.includes(language)) {
+    buildCommand = await window.showInputBox({
+      title: "Build command",
+      prompt:
+        "Enter the command that builds the code, or leave this empty to let CodeQL build it automatically.",
+      ignoreFocusOut: true,
+    });
+    if (buildCommand === undefined) {
+      throw new UserCancellationException("No build command entered", true);
+    }
+  }
+
+  const databasePath = await getDatabaseFolder(
+    storagePath,
+    `${basename(sourceRoot)}-${language}`,
+  );
+  const origin = await createDatabaseFromSource(
+    cliServer,
+    databasePath,
+    {
+      type: "workspace",
+      sourceRoot,
+      language,
+      buildCommand: buildCommand || undefined,
+    },
+    progress,
+    token,
+  );
+
+  progress({
+    message: "Opening database",
+    step: 3,
+    maxStep: MAX_CREATE_DATABASE_PROGRESS_STEPS,
+  });
+  return await databaseManager.openDatabase(Uri.file(databasePath), origin);
+}
+
+/**
+ * Recreates a database that was created from a workspace folder from the current source code,
+ * and replaces the existing database with it. The existing database is kept if creating the new
+ * database fails.
+ */
+export async function rebuildDatabase(
+  databaseManager: DatabaseManager,
+  cliServer: CodeQLCliServer,
+  databaseItem: DatabaseItem,
+  progress: ProgressCallback,
+  token: CancellationToken,
+): Promise<void> {
+  if (databaseItem.origin?.type !== "workspace") {
+    throw new Error(
+      `Cannot rebuild ${databaseItem.name} because it was not created from a workspace folder.`,
+    );
+  }
+
+  const rebuildPath = `${databaseItem.databaseUri.fsPath}.rebuild`;
+  await remove(rebuildPath);
+  const origin = await createDatabaseFromSource(
+    cliServer,
+    rebuildPath,
+    databaseItem.origin,
+    progress,
+    token,
+  );
+
+  progress({
+    message: "Replacing database",
+    step: 3,
+    maxStep: MAX_CREATE_DATABASE_PROGRESS_STEPS,
+  });
+  await databaseManager.replaceDatabase(databaseItem, rebuildPath, origin);
+}
+
+/**
+ * Creates a database in `databasePath` from the source code described by `origin`. If creating
+ * the database fails, the partially created database is removed.
+ *
+ * @returns The origin of the new database, including a snapshot of the source code. The snapshot
+ * is taken after the database has been created, since building compiled languages writes to the
+ * source tree.
+ */
+async function createDatabaseFromSource(
+  cliServer: CodeQLCliServer,
+  databasePath: string,
+  origin: DatabaseOriginWorkspace,
+  progress: ProgressCallback,
+  token: CancellationToken,
+): Promise<DatabaseOriginWorkspace> {
+  progress({
+    message: "Creating database (see the CodeQL Extension Log for details)",
+    step: 2,
+    maxStep: MAX_CREATE_DATABASE_PROGRESS_STEPS,
+  });
+
+  try {
+    await cliServer.databaseCreate(
+      databasePath,
+      origin.sourceRoot,
+      origin.language,
+      {
+        buildCommand: origin.buildCommand,
+        cancellationToken: token,
+        logger: extLogger,
+      },
+    );
+  } catch (e) {
+    await remove(databasePath);
+    if (token.isCancellationRequested) {
+      throw new UserCancellationException("Creating database cancelled");
+    }
+    throw e;
+  }
+
+  return {
+    ...origin,
+    ...(await getSourceSnapshot(origin.sourceRoot)),
+  };
+}
+
+async function promptForWorkspaceFolder(): Promise<string | undefined> {
+  // Source archives of databases are also added as workspace folders, but
+  // they cannot be used to create a database.
+  const folders = (workspace.workspaceFolders ?? []).filter(
+    (folder) => folder.uri.scheme === "file",
+  );
+  if (folders.length === 0) {
+    throw new Error(
+      "There are no workspace folders to create a database from. Open a folder and try again.",
+    );
+  }
+  if (folders.length === 1) {
+    return folders[0].uri.fsPath;
+  }
+
+  const folder = await window.showQuickPick(
+    folders.map((folder) => ({
+      label: folder.name,
+      description: folder.uri.fsPath,
+      folder,
+    })),
+    {
+      placeHolder: "Select the workspace folder to create a database from",
+      ignoreFocusOut: true,
+    },
+  );
+  return folder?.folder.uri.fsPath;
+}
+
+/**
+ * Finds a directory in the storage path to create a new database in, without
+ * overwriting any existing databases.
+ */
+async function getDatabaseFolder(
+  storagePath: string,
+  name: string,
+): Promise<string> {
+  await ensureDir(storagePath);
+  const storageRealpath = await realpath(storagePath);
+
+  let folderName = join(storageRealpath, name);
+  let counter = 0;
+  while (await pathExists(folderName)) {
+    counter++;
+    folderName = join(storageRealpath, `${name}-${counter}`);
+    if (counter > 100) {
+      throw new Error("Could not find a unique name for the new database.");
+    }
+  }
+  return folderName;
+}
@@ -632,6 +632,7 @@ export async function convertGithubNwoToDatabaseUrl(
 export async function promptForLanguage(
   languages: string[],
   progress: ProgressCallback | undefined,
+  placeHolder = "Select the database language to download:",
 ): Promise<string | undefined> {
   progress?.({
     message: "Choose language",
@@ -654,7 +655,7 @@ export async function promptForLanguage(
     .sort((a, b) => a.label.localeCompare(b.label));
 
   const selectedItem = await window.showQuickPick(items, {
-    placeHolder: "Select the database language to download:",
+    placeHolder,
     ignoreFocusOut: true,
   });
   if (!selectedItem) {
@@ -41,6 +41,10 @@ import {
   promptImportGithubDatabase,
   promptImportInternetDatabase,
 } from "./database-fetcher";
+import {
+  promptCreateDatabaseFromWorkspaceFolder,
+  rebuildDatabase,
+} from "./database-creator";
 import { asError, asyncFilter, getErrorMessage } from "../common/helpers-pure";
 import { QueryRunner } from "../query-server";
 import { isCanary } from "../config";
@@ -129,15 +133,31 @@ class DatabaseTreeDataProvider
 
   public getTreeItem(element: DatabaseItem): TreeItem {
     const item = new TreeItem(element.name);
+    const contextValues: string[] = [];
     if (element === this.currentDatabaseItem) {
       item.iconPath = new ThemeIcon("check");
 
-      item.contextValue = "currentDatabase";
+      contextValues.push("currentDatabase");
     } else if (element.error !== undefined) {
       item.iconPath = new ThemeIcon("error", new ThemeColor("errorForeground"));
+    } else if (element.stale) {
+      item.iconPath = new ThemeIcon(
+        "warning",
+        new ThemeColor("list.warningForeground"),
+      );
+    }
+    if (element.origin?.type === "workspace") {
+      contextValues.push("canBeRebuilt");
     }
     item.tooltip = element.databaseUri.fsPath;
     item.description = element.language;
+    if (element.stale) {
+      contextValues.push("isStale");
+      item.tooltip = `${element.databaseUri.fsPath}\nThe source code has changed since this database was created.`;
+      item.description = `${element.language} (stale)`;
+    }
+    item.contextValue =
+      contextValues.length > 0 ? contextValues.join(",") : undefined;
     return item;
   }
 
@@ -260,6 +280,8 @@ export class DatabaseUI extends DisposableObject {
       "codeQL.chooseDatabaseInternet":
         this.handleChooseDatabaseInternet.bind(this),
       "codeQL.chooseDatabaseGithub": this.handleChooseDatabaseGithub.bind(this),
+      "codeQL.createDatabaseFromWorkspaceFolder":
+        this.handleCreateDatabaseFromWorkspaceFolder.bind(this),
       "codeQL.setCurrentDatabase": this.handleSetCurrentDatabase.bind(this),
       "codeQL.setDefaultTourDatabase":
         this.handleSetDefaultTourDatabase.bind(this),
@@ -297,6 +319,11 @@ export class DatabaseUI extends DisposableObject {
       "codeQLDatabases.addDatabaseSource": createMultiSelectionCommand(
         this.handleAddSource.bind(this),
       ),
+      "codeQLDatabases.rebuildDatabase": createSingleSelectionCommand(
+        this.app.logger,
+        this.handleRebuildDatabase.bind(this),
+        "database",
+      ),
       "codeQLDatabases.removeOrphanedDatabases":
         this.handleRemoveOrphanedDatabases.bind(this),
     };
@@ -557,6 +584,58 @@ export class DatabaseUI extends DisposableObject {
     );
   }
 
+  private async handleCreateDatabaseFromWorkspaceFolder(): Promise<void> {
+    return withProgress(
+      async (progress, token) => {
+        const cliServer = this.queryServer?.cliServer;
+        if (cliServer === undefined) {
+          throw new Error(
+            "Cannot create a database because the CodeQL CLI is not available.",
+          );
+        }
+
+        await promptCreateDatabaseFromWorkspaceFolder(
+          this.databaseManager,
+          this.storagePath,
+          cliServer,
+          progress,
+          token,
+        );
+      },
+      {
+        title: "Creating database from workspace folder",
+        cancellable: true,
+      },
+    );
+  }
+
+  private async handleRebuildDatabase(
+    databaseItem: DatabaseItem,
+  ): Promise<void> {
+    return withProgress(
+      async (progress, token) => {
+        const cliServer = this.queryServer?.cliServer;
+        if (cliServer === undefined) {
+          throw new Error(
+            "Cannot rebuild the database because the CodeQL CLI is not available.",
+          );
+        }
+
+        await rebuildDatabase(
+          this.databaseManager,
+          cliServer,
+          databaseItem,
+          progress,
+          token,
+        );
+      },
+      {
+        title: `Rebuilding database ${databaseItem.name}`,
+        cancellable: true,
+      },
+    );
+  }
+
   private async handleSortByName() {
     if (this.treeDataProvider.sortOrder === SortOrder.NameAsc) {
       this.treeDataProvider.sortOrder = SortOrder.NameDesc;
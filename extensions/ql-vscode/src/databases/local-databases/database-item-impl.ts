@@ -19,6 +19,7 @@ import { DatabaseOrigin } from "./database-origin";
 export class DatabaseItemImpl implements DatabaseItem {
   // These are only public in the implementation, they are readonly in the interface
   public error: Error | undefined = undefined;
+  public stale = false;
   public contents: DatabaseContents | undefined;
   /** A cache of database info */
   private _dbinfo: cli.DbInfo | undefined;
@@ -66,6 +67,10 @@ export class DatabaseItemImpl implements DatabaseItem {
     return this.options.origin;
   }
 
+  public set origin(newOrigin: DatabaseOrigin | undefined) {
+    this.options.origin = newOrigin;
+  }
+
   public resolveSourceFile(uriStr: string | undefined): vscode.Uri {
     const sourceArchive = this.sourceArchive;
     const uri = uriStr ? vscode.Uri.parse(uriStr, true) : undefined;
@@ -34,6 +34,12 @@ export interface DatabaseItem {
   /** If the database is invalid, describes why. */
   readonly error: Error | undefined;
 
+  /**
+   * Whether the source code the database was created from has changed since the database was
+   * created. Only databases created from a workspace folder can be stale.
+   */
+  readonly stale: boolean;
+
   /**
    * Resolves a filename to its URI in the source archive.
    *
@@ -12,7 +12,7 @@ import {
   isCodespacesTemplate,
   setAutogenerateQlPacks,
 } from "../../config";
-import { join } from "path";
+import { join, relative, sep } from "path";
 import { FullDatabaseOptions } from "./database-options";
 import { DatabaseItemImpl } from "./database-item-impl";
 import { showNeverAskAgainDialog } from "../../common/vscode/dialog";
@@ -29,13 +29,19 @@ import { QlPackGenerator } from "../../local-queries/qlpack-generator";
 import { asError, getErrorMessage } from "../../common/helpers-pure";
 import { DatabaseItem, PersistedDatabaseItem } from "./database-item";
 import { redactableError } from "../../common/errors";
-import { remove } from "fs-extra";
+import { move, remove, rename, stat } from "fs-extra";
 import { containsPath } from "../../common/files";
 import { DatabaseChangedEvent, DatabaseEventKind } from "./database-events";
 import { DatabaseResolver } from "./database-resolver";
 import { telemetryListener } from "../../common/vscode/telemetry";
 import { LanguageContextStore } from "../../language-context-store";
 import { DatabaseOrigin } from "./database-origin";
+import { MultiFileSystemWatcher } from "../../common/vscode/multi-file-system-watcher";
+import {
+  getSourceSnapshot,
+  isSourcePath,
+  isSourceSnapshotStale,
+} from "./source-snapshot";
 
 /**
  * The name of the key in the workspaceState dictionary in which we
@@ -101,6 +107,9 @@ export class DatabaseManager extends DisposableObject {
   private readonly _databaseItems: DatabaseItemImpl[] = [];
   private _currentDatabaseItem: DatabaseItem | undefined = undefined;
 
+  /** Watches the source code of databases created from workspace folders. */
+  private readonly sourceWatcher = this.push(new MultiFileSystemWatcher());
+
   constructor(
     private readonly ctx: ExtensionContext,
     private readonly app: App,
@@ -113,6 +122,12 @@ export class DatabaseManager extends DisposableObject {
 
     qs.onStart(this.reregisterDatabases.bind(this));
 
+    this.push(
+      this.sourceWatcher.onDidChange(
+        (uri) => void this.handleDidChangeSourceFile(uri),
+      ),
+    );
+
     this.push(
       this.languageContext.onLanguageContextChanged(async () => {
         if (
@@ -430,6 +445,10 @@ export class DatabaseManager extends DisposableObject {
           try {
             await this.refreshDatabase(databaseItem);
             await this.registerDatabase(databaseItem);
+            // Only check the commit of each database, since checking the modification times
+            // walks the whole source tree. The modification times of the current database are
+            // checked when it is selected.
+            void this.updateStaleness(databaseItem, false);
             if (currentDatabaseUri === database.uri) {
               await this.setCurrentDatabaseItem(databaseItem, true);
             }
@@ -493,6 +512,10 @@ export class DatabaseManager extends DisposableObject {
         item,
         kind: DatabaseEventKind.Change,
       });
+
+      if (item instanceof DatabaseItemImpl) {
+        void this.updateStaleness(item, true);
+      }
     }
   }
 
@@ -528,6 +551,7 @@ export class DatabaseManager extends DisposableObject {
     updatePersistedState = true,
   ) {
     this._databaseItems.push(item);
+    this.updateSourceWatches();
 
     if (updatePersistedState) {
       await this.updatePersistedDatabaseList();
@@ -566,6 +590,7 @@ export class DatabaseManager extends DisposableObject {
     if (index >= 0) {
       this._databaseItems.splice(index, 1);
     }
+    this.updateSourceWatches();
     await this.updatePersistedDatabaseList();
 
     // Delete folder from workspace, if it is still there
@@ -607,6 +632,152 @@ export class DatabaseManager extends DisposableObject {
     }
   }
 
+  /**
+   * Replaces a database with the database at `newDatabasePath`, for example after the database
+   * has been rebuilt from its source code. The new database is moved to the location of the
+   * existing database and re-registered with the query server. The existing database is only
+   * deleted once the new database is in place, and is restored if that fails.
+   */
+  public async replaceDatabase(
+    item: DatabaseItem,
+    newDatabasePath: string,
+    origin: DatabaseOrigin,
+  ): Promise<void> {
+    const databaseItem = this._databaseItems.find(
+      (searchItem) => searchItem === item,
+    );
+    if (databaseItem === undefined) {
+      throw new Error(`Database ${item.name} is not in the list of databases.`);
+    }
+
+    const databasePath = databaseItem.databaseUri.fsPath;
+    const backupPath = `${databasePath}.backup`;
+    await this.deregisterDatabase(databaseItem);
+    try {
+      // A leftover backup of a previous failed replacement would make the rename fail.
+      await remove(backupPath);
+      await rename(databasePath, backupPath);
+      try {
+        await move(newDatabasePath, databasePath);
+      } catch (e) {
+        // Moving across devices copies the database, so part of it may have been copied.
+        await remove(databasePath);
+        await rename(backupPath, databasePath);
+        throw e;
+      }
+    } catch (e) {
+      await this.registerDatabase(databaseItem);
+      throw e;
+    }
+    await remove(backupPath);
+
+    databaseItem.origin = origin;
+    this.updateSourceWatches();
+    await this.updatePersistedDatabaseList();
+
+    await this.refreshDatabase(databaseItem);
+    await this.registerDatabase(databaseItem);
+
+    // The snapshot in the new origin was taken after the database was rebuilt.
+    this.setStale(databaseItem, false);
+  }
+
+  /**
+   * Checks whether the source code of a database created from a workspace folder has changed
+   * since the database was created.
+   *
+   * @param checkModificationTimes Whether to also check the modification times of the source
+   * files, which walks the whole source tree. Otherwise, only a changed commit makes the
+   * database stale, and a database is never marked as not stale.
+   */
+  private async updateStaleness(
+    databaseItem: DatabaseItemImpl,
+    checkModificationTimes: boolean,
+  ) {
+    const origin = databaseItem.origin;
+    if (origin?.type !== "workspace") {
+      return;
+    }
+
+    const snapshot = await getSourceSnapshot(
+      origin.sourceRoot,
+      checkModificationTimes,
+    );
+    const stale = isSourceSnapshotStale(origin, snapshot);
+    if (stale || checkModificationTimes) {
+      this.setStale(databaseItem, stale);
+    }
+  }
+
+  /**
+   * Watches the source roots of the databases created from workspace folders, so that only
+   * changes to their source code are reported.
+   */
+  private updateSourceWatches() {
+    const sourceRoots = new Set<string>();
+    for (const databaseItem of this._databaseItems) {
+      if (databaseItem.origin?.type === "workspace") {
+        sourceRoots.add(databaseItem.origin.sourceRoot);
+      }
+    }
+
+    this.sourceWatcher.clear();
+    for (const sourceRoot of sourceRoots) {
+      this.sourceWatcher.addWatch(
+        new vscode.RelativePattern(vscode.Uri.file(sourceRoot), "**/*"),
+      );
+    }
+  }
+
+  private async handleDidChangeSourceFile(uri: vscode.Uri): Promise<void> {
+    if (uri.scheme !== "file") {
+      return;
+    }
+
+    // Events are reported with a delay, so they may be for changes that were made before the
+    // snapshot of a database was taken, such as the output of the build that created it. Deleted
+    // files don't have a modification time, so they are always a change.
+    const modifiedAt = await stat(uri.fsPath).then(
+      (stats) => stats.mtimeMs,
+      () => undefined,
+    );
+
+    for (const databaseItem of this._databaseItems) {
+      const origin = databaseItem.origin;
+      if (
+        databaseItem.stale ||
+        origin?.type !== "workspace" ||
+        !containsPath(origin.sourceRoot, uri.fsPath) ||
+        containsPath(databaseItem.databaseUri.fsPath, uri.fsPath)
+      ) {
+        continue;
+      }
+
+      const isSourceFile = relative(origin.sourceRoot, uri.fsPath)
+        .split(sep)
+        .every(isSourcePath);
+      const changedAfterSnapshot =
+        modifiedAt === undefined ||
+        origin.sourceModifiedAt === undefined ||
+        modifiedAt > origin.sourceModifiedAt;
+      if (isSourceFile && changedAfterSnapshot) {
+        this.setStale(databaseItem, true);
+      }
+    }
+  }
+
+  private setStale(databaseItem: DatabaseItemImpl, stale: boolean) {
+    if (databaseItem.stale === stale) {
+      return;
+    }
+
+    databaseItem.stale = stale;
+    this._onDidChangeDatabaseItem.fire({
+      kind: DatabaseEventKind.Refresh,
+      item: databaseItem,
+    });
+  }
+
   private async deregisterDatabase(dbItem: DatabaseItem) {
     try {
       await this.qs.deregisterDatabase(dbItem);
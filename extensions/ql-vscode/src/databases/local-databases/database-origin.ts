@@ -1,3 +1,5 @@
+import { SourceSnapshot } from "./source-snapshot";
+
 interface DatabaseOriginFolder {
   type: "folder";
 }
@@ -24,9 +26,22 @@ interface DatabaseOriginDebugger {
   type: "debugger";
 }
 
+/**
+ * A database created from a workspace folder. The snapshot of the source code at the time the
+ * database was created is used to detect whether the database is stale.
+ */
+export interface DatabaseOriginWorkspace extends SourceSnapshot {
+  type: "workspace";
+  /** The root directory of the source code the database was created from. */
+  sourceRoot: string;
+  language: string;
+  buildCommand?: string;
+}
+
 export type DatabaseOrigin =
   | DatabaseOriginFolder
   | DatabaseOriginArchive
   | DatabaseOriginGitHub
   | DatabaseOriginInternet
-  | DatabaseOriginDebugger;
+  | DatabaseOriginDebugger
+  | DatabaseOriginWorkspace;
@@ -24,6 +24,12 @@ import { Logger } from "../../common/logging";
 import { DatabaseItem } from "./database-item";
 import { DatabaseManager } from "./database-manager";
 
+/**
+ * Resolves the files of CodeQL locations to URIs, such as into the source archive of a
+ * database.
+ */
+export type SourceFileResolver = Pick<DatabaseItem, "resolveSourceFile">;
+
 const findMatchBackground = new ThemeColor("editor.findMatchBackground");
 const findRangeHighlightBackground = new ThemeColor(
   "editor.findRangeHighlightBackground",
@@ -46,7 +52,7 @@ export const shownLocationLineDecoration =
  */
 function resolveFivePartLocation(
   loc: LineColumnLocation,
-  databaseItem: DatabaseItem,
+  databaseItem: SourceFileResolver,
 ): Location {
   // `Range` is a half-open interval, and is zero-based. CodeQL locations are closed intervals, and
   // are one-based. Adjust accordingly.
@@ -67,7 +73,7 @@ function resolveFivePartLocation(
  */
 function resolveWholeFileLocation(
   loc: WholeFileLocation,
-  databaseItem: DatabaseItem,
+  databaseItem: SourceFileResolver,
 ): Location {
   // A location corresponding to the start of the file.
   const range = new Range(0, 0, 0, 0);
@@ -82,7 +88,7 @@ function resolveWholeFileLocation(
  */
 export function tryResolveLocation(
   loc: UrlValue | undefined,
-  databaseItem: DatabaseItem,
+  databaseItem: SourceFileResolver,
 ): Location | undefined {
   const resolvableLoc = tryGetResolvableLocation(loc);
   if (!resolvableLoc || typeof resolvableLoc === "string") {
@@ -96,7 +102,7 @@ export function tryResolveLocation(
 
 export async function showResolvableLocation(
   loc: ResolvableLocationValue,
-  databaseItem: DatabaseItem,
+  databaseItem: SourceFileResolver,
   logger: Logger,
 ): Promise<void> {
   try {
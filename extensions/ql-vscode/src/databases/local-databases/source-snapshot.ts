@@ -0,0 +1,126 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { opendir, stat } from "fs-extra";
+import { join } from "path";
+
+/**
+ * The state of the source code a database was created from. This is used to
+ * detect whether the source code has changed since the database was created.
+ */
+export interface SourceSnapshot {
+  /** The commit checked out in the source root, if it is a git repository. */
+  commitOid?: string;
+  /** The latest modification time of any source file, as a unix timestamp. */
+  sourceModifiedAt?: number;
+}
+
+/**
+ * Directories that are never part of the extracted source code, and that can
+ * be very large, so we don't look at them. This includes the usual output
+ * directories of builds, since building the code to create a database writes
+ * to them.
+ */
+const IGNORED_DIRECTORIES = [
+  "node_modules",
+  "bin",
+  "build",
+  "dist",
+  "obj",
+  "out",
+  "target",
+];
+
+/**
+ * Checks whether a file or directory in the source root is relevant for the
+ * database. Hidden files and directories, such as `.git`, are ignored.
+ */
+export function isSourcePath(name: string): boolean {
+  return !name.startsWith(".") && !IGNORED_DIRECTORIES.includes(name);
+}
+
+/**
+ * Takes a snapshot of the source code in `sourceRoot`.
+ *
+ * @param includeModificationTime Whether to find the latest modification time of
+ * the source files, which requires walking the whole source tree. If this is false,
+ * only the commit is included.
+ */
+export async function getSourceSnapshot(
+  sourceRoot: string,
+  includeModificationTime = true,
+): Promise<SourceSnapshot> {
+  return {
+    commitOid: await getCommitOid(sourceRoot),
+    sourceModifiedAt: includeModificationTime
+      ? await getLatestModificationTime(sourceRoot)
+      : undefined,
+  };
+}
+
+/**
+ * Checks whether the source code has changed since the `recorded` snapshot
+ * was taken. If nothing was recorded, the database is never considered stale.
+ */
+export function isSourceSnapshotStale(
+  recorded: SourceSnapshot,
+  current: SourceSnapshot,
+): boolean {
+  if (
+    recorded.commitOid !== undefined &&
+    recorded.commitOid !== current.commitOid
+  ) {
+    return true;
+  }
+  return (
+    recorded.sourceModifiedAt !== undefined &&
+    current.sourceModifiedAt !== undefined &&
+    current.sourceModifiedAt > recorded.sourceModifiedAt
+  );
+}
+
+async function getCommitOid(sourceRoot: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await promisify(execFile)("git", ["rev-parse", "HEAD"], {
+      cwd: sourceRoot,
+    });
+    return stdout.trim() || undefined;
+  } catch {
+    // Either git is not installed, or the source root is not a git repository.
+    return undefined;
+  }
+}
+
+/**
+ * Gets the latest modification time of any file or directory in `dir`. The
+ * modification times of directories are included so that deleted files are
+ * also detected.
+ */
+async function getLatestModificationTime(
+  dir: string,
+): Promise<number | undefined> {
+  let latest: number | undefined = undefined;
+  try {
+    latest = (await stat(dir)).mtimeMs;
+    for await (const entry of await opendir(dir)) {
+      if (!isSourcePath(entry.name)) {
+        continue;
+      }
+      const path = join(dir, entry.name);
+      let modifiedAt: number | undefined;
+      if (entry.isDirectory()) {
+        modifiedAt = await getLatestModificationTime(path);
+      } else if (entry.isFile()) {
+        modifiedAt = (await stat(path)).mtimeMs;
+      }
+      if (
+        modifiedAt !== undefined &&
+        (latest === undefined || modifiedAt > latest)
+      ) {
+        latest = modifiedAt;
+      }
+    }
+  } catch {
+    // The directory may have been removed while we were reading it.
+  }
+  return latest;
+}
@@ -0,0 +1,296 @@
+import { EventEmitter, Uri } from "vscode";
+import { DisposableObject } from "../common/disposable-object";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { DatabaseItem, DatabaseManager } from "../databases/local-databases";
+import { LocalQueries, QuickEvalType } from "../local-queries";
+import { QueryHistoryManager } from "../query-history/query-history-manager";
+import { VariantAnalysisManager } from "../variant-analysis/variant-analysis-manager";
+import { LocalQueryInfo } from "../query-results";
+import { CoreCompletedQuery } from "../query-server";
+import { QueryResultType } from "../query-server/new-messages";
+import { withProgress } from "../common/vscode/progress";
+import { PAGE_SIZE } from "../config";
+import { SELECT_TABLE_NAME } from "../common/interface-types";
+import {
+  CellValue,
+  Column,
+  ColumnKindCode,
+  EntityValue,
+  getResultSetSchema,
+  UrlValue,
+} from "../common/bqrs-cli-types";
+import {
+  tryGetResolvableLocation,
+  isLineColumnLoc,
+} from "../common/bqrs-utils";
+import {
+  AddDatabaseOptions,
+  ApiCellValue,
+  ApiColumn,
+  ApiColumnKind,
+  ApiCompletedQuery,
+  ApiDatabase,
+  ApiEntity,
+  ApiLocation,
+  ApiRange,
+  ApiResultsPage,
+  CodeQLExtensionApi,
+  ReadResultsOptions,
+  RunQueryOptions,
+} from "./extension-api";
+
+/**
+ * Implements the public API of the extension on top of the internal managers. None of the
+ * internal objects are returned to users of the API, so that the internals can change without
+ * breaking the API.
+ */
+export class CodeQLExtensionApiImpl
+  extends DisposableObject
+  implements CodeQLExtensionApi
+{
+  public readonly version = 1;
+
+  private readonly _onDidCompleteQuery = this.push(
+    new EventEmitter<ApiCompletedQuery>(),
+  );
+  public readonly onDidCompleteQuery = this._onDidCompleteQuery.event;
+
+  private readonly _onDidChangeDatabases = this.push(new EventEmitter<void>());
+  public readonly onDidChangeDatabases = this._onDidChangeDatabases.event;
+
+  public constructor(
+    private readonly cliServer: CodeQLCliServer,
+    private readonly databaseManager: DatabaseManager,
+    private readonly localQueries: LocalQueries,
+    queryHistoryManager: QueryHistoryManager,
+    private readonly variantAnalysisManager: VariantAnalysisManager,
+  ) {
+    super();
+
+    this.push(
+      queryHistoryManager.onDidCompleteQuery((queryInfo) => {
+        const completedQuery = localQueryInfoToApiCompletedQuery(queryInfo);
+        if (completedQuery !== undefined) {
+          this._onDidCompleteQuery.fire(completedQuery);
+        }
+      }),
+    );
+    this.push(
+      databaseManager.onDidChangeDatabaseItem(() =>
+        this._onDidChangeDatabases.fire(),
+      ),
+    );
+    this.push(
+      databaseManager.onDidChangeCurrentDatabaseItem(() =>
+        this._onDidChangeDatabases.fire(),
+      ),
+    );
+  }
+
+  public getDatabases(): ApiDatabase[] {
+    return this.databaseManager.databaseItems.map((item) =>
+      this.toApiDatabase(item),
+    );
+  }
+
+  public getSelectedDatabase(): ApiDatabase | undefined {
+    const item = this.databaseManager.currentDatabaseItem;
+    return item === undefined ? undefined : this.toApiDatabase(item);
+  }
+
+  public async addDatabase(
+    databaseUri: Uri,
+    { name, select = true }: AddDatabaseOptions = {},
+  ): Promise<ApiDatabase> {
+    const item = await this.databaseManager.openDatabase(
+      databaseUri,
+      { type: "folder" },
+      select,
+      name,
+    );
+    return this.toApiDatabase(item);
+  }
+
+  public async selectDatabase(databaseUri: Uri): Promise<void> {
+    await this.databaseManager.setCurrentDatabaseItem(
+      this.getDatabaseItem(databaseUri),
+    );
+  }
+
+  public async runQuery(
+    queryUri: Uri,
+    { databaseUri }: RunQueryOptions = {},
+  ): Promise<ApiCompletedQuery> {
+    const databaseItem =
+      databaseUri === undefined ? undefined : this.getDatabaseItem(databaseUri);
+
+    const completedQuery = await withProgress(
+      (progress, token) =>
+        this.localQueries.compileAndRunQuery(
+          QuickEvalType.None,
+          queryUri,
+          progress,
+          token,
+          databaseItem,
+        ),
+      {
+        title: "Running query",
+        cancellable: true,
+      },
+    );
+    return coreCompletedQueryToApiCompletedQuery(completedQuery);
+  }
+
+  public async readResults(
+    query: ApiCompletedQuery,
+    { resultSetName, pageNumber = 0, pageSize }: ReadResultsOptions = {},
+  ): Promise<ApiResultsPage> {
+    const resultsPath = query.resultsUri.fsPath;
+    pageSize = pageSize ?? PAGE_SIZE.getValue<number>();
+
+    const bqrsInfo = await this.cliServer.bqrsInfo(resultsPath, pageSize);
+    const resultSets = bqrsInfo["result-sets"];
+    const schema =
+      resultSetName === undefined
+        ? getResultSetSchema(SELECT_TABLE_NAME, bqrsInfo) ?? resultSets[0]
+        : getResultSetSchema(resultSetName, bqrsInfo);
+    if (schema === undefined) {
+      throw new Error(
+        resultSetName === undefined
+          ? `There are no result sets in ${resultsPath}.`
+          : `Result set '${resultSetName}' not found in ${resultsPath}.`,
+      );
+    }
+
+    // Pages after the last page are empty.
+    let rows: ApiResultsPage["rows"] = [];
+    if (pageNumber * pageSize < schema.rows) {
+      const chunk = await this.cliServer.bqrsDecode(resultsPath, schema.name, {
+        pageSize,
+        offset: schema.pagination?.offsets[pageNumber],
+      });
+      rows = chunk.tuples.map((row) => row.map(cellValueToApiCellValue));
+    }
+
+    return {
+      resultSetName: schema.name,
+      columns: schema.columns.map(columnToApiColumn),
+      rows,
+      pageNumber,
+      pageSize,
+      totalRowCount: schema.rows,
+    };
+  }
+
+  public async runVariantAnalysis(queryUri: Uri): Promise<number | undefined> {
+    return withProgress(
+      (progress, token) =>
+        this.variantAnalysisManager.runVariantAnalysis(
+          queryUri,
+          progress,
+          token,
+        ),
+      {
+        title: "Run Variant Analysis",
+        cancellable: true,
+      },
+    );
+  }
+
+  private getDatabaseItem(databaseUri: Uri): DatabaseItem {
+    const item = this.databaseManager.findDatabaseItem(databaseUri);
+    if (item === undefined) {
+      throw new Error(
+        `Database ${databaseUri.toString()} has not been added. Add it using addDatabase first.`,
+      );
+    }
+    return item;
+  }
+
+  private toApiDatabase(item: DatabaseItem): ApiDatabase {
+    return {
+      uri: item.databaseUri,
+      name: item.name,
+      language: item.language,
+      selected: item === this.databaseManager.currentDatabaseItem,
+    };
+  }
+}
+
+function coreCompletedQueryToApiCompletedQuery(
+  completedQuery: CoreCompletedQuery,
+): ApiCompletedQuery {
+  return {
+    queryUri: Uri.file(completedQuery.queryTarget.queryPath),
+    databaseUri: Uri.file(completedQuery.dbPath),
+    successful: completedQuery.resultType === QueryResultType.SUCCESS,
+    message: completedQuery.message,
+    evaluationTime: completedQuery.evaluationTime,
+    resultsUri: Uri.file(completedQuery.outputDir.bqrsPath),
+  };
+}
+
+function localQueryInfoToApiCompletedQuery(
+  queryInfo: LocalQueryInfo,
+): ApiCompletedQuery | undefined {
+  const completedQuery = queryInfo.completedQuery;
+  if (completedQuery === undefined) {
+    return undefined;
+  }
+
+  return {
+    queryUri: Uri.file(queryInfo.initialInfo.queryPath),
+    databaseUri: Uri.file(completedQuery.query.dbItemPath),
+    successful: completedQuery.successful ?? false,
+    message: completedQuery.message,
+    evaluationTime: completedQuery.result.evaluationTime,
+    resultsUri: Uri.file(completedQuery.query.bqrsPath),
+  };
+}
+
+const apiColumnKinds: Record<Column["kind"], ApiColumnKind> = {
+  [ColumnKindCode.FLOAT]: "float",
+  [ColumnKindCode.INTEGER]: "integer",
+  [ColumnKindCode.STRING]: "string",
+  [ColumnKindCode.BOOLEAN]: "boolean",
+  [ColumnKindCode.DATE]: "date",
+  [ColumnKindCode.ENTITY]: "entity",
+};
+
+function columnToApiColumn(column: Column): ApiColumn {
+  return {
+    name: column.name,
+    kind: apiColumnKinds[column.kind],
+  };
+}
+
+function cellValueToApiCellValue(value: CellValue): ApiCellValue {
+  return typeof value === "object" ? entityValueToApiEntity(value) : value;
+}
+
+function entityValueToApiEntity(value: EntityValue): ApiEntity {
+  return {
+    label: value.label,
+    location: urlValueToApiLocation(value.url),
+  };
+}
+
+function urlValueToApiLocation(
+  url: UrlValue | undefined,
+): ApiLocation | undefined {
+  const location = tryGetResolvableLocation(url);
+  if (location === undefined) {
+    return undefined;
+  }
+
+  let range: ApiRange | undefined;
+  if (isLineColumnLoc(location)) {
+    range = {
+      startLine: location.startLine,
+      startColumn: location.startColumn,
+      endLine: location.endLine,
+      endColumn: location.endColumn,
+    };
+  }
+  return { uri: location.uri, range };
+}
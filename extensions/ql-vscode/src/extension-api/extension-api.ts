@@ -0,0 +1,167 @@
+import { Event, Uri } from "vscode";
+
+/**
+ * The types in this file form the public API of the extension, which other extensions can get
+ * using `getApi` on the exports of the extension:
+ *
+ * ```ts
+ * const codeql = extensions.getExtension("GitHub.vscode-codeql");
+ * const api = (await codeql.activate())?.getApi(1);
+ * ```
+ *
+ * Breaking changes to these types must only be made by adding a new version of the API, so that
+ * existing users of the API keep working. Adding optional properties and new methods is allowed.
+ */
+export type CodeQLExtensionApiVersion = 1;
+
+export const LATEST_EXTENSION_API_VERSION: CodeQLExtensionApiVersion = 1;
+
+export interface CodeQLExtensionApi {
+  readonly version: CodeQLExtensionApiVersion;
+
+  /** Gets all databases in the databases view. */
+  getDatabases(): ApiDatabase[];
+
+  /** Gets the database that queries are run against by default, if any. */
+  getSelectedDatabase(): ApiDatabase | undefined;
+
+  /**
+   * Adds the database in the folder `databaseUri` to the databases view. If the database has
+   * already been added, the existing database is returned.
+   */
+  addDatabase(
+    databaseUri: Uri,
+    options?: AddDatabaseOptions,
+  ): Promise<ApiDatabase>;
+
+  /**
+   * Selects a database that has already been added, so that queries are run against it by
+   * default.
+   */
+  selectDatabase(databaseUri: Uri): Promise<void>;
+
+  /**
+   * Runs a query against a database, and waits for the query to complete. The query is added to
+   * the query history in the same way as queries run by the user.
+   *
+   * @throws Error if the query fails to compile or the evaluation fails.
+   */
+  runQuery(
+    queryUri: Uri,
+    options?: RunQueryOptions,
+  ): Promise<ApiCompletedQuery>;
+
+  /**
+   * Reads a page of a result set of a completed query. If no result set is given, the `#select`
+   * result set is read, or the first result set if there is no `#select` result set.
+   */
+  readResults(
+    query: ApiCompletedQuery,
+    options?: ReadResultsOptions,
+  ): Promise<ApiResultsPage>;
+
+  /**
+   * Runs a variant analysis of a query against the repositories selected in the variant
+   * analysis repositories view.
+   *
+   * @returns The ID of the variant analysis, or `undefined` if it could not be submitted.
+   */
+  runVariantAnalysis(queryUri: Uri): Promise<number | undefined>;
+
+  /** Fired when any local query completes, whether it was run using this API or not. */
+  readonly onDidCompleteQuery: Event<ApiCompletedQuery>;
+
+  /** Fired when databases are added, removed or renamed, or another database is selected. */
+  readonly onDidChangeDatabases: Event<void>;
+}
+
+export interface ApiDatabase {
+  readonly uri: Uri;
+  readonly name: string;
+  /** The language of the database, or an empty string if it is unknown. */
+  readonly language: string;
+  readonly selected: boolean;
+}
+
+export interface AddDatabaseOptions {
+  /** The name to show in the databases view. Defaults to the name of the database. */
+  name?: string;
+  /** Whether to select the database after adding it. Defaults to `true`. */
+  select?: boolean;
+}
+
+export interface RunQueryOptions {
+  /** The database to run the query against. Defaults to the selected database. */
+  databaseUri?: Uri;
+}
+
+export interface ApiCompletedQuery {
+  readonly queryUri: Uri;
+  readonly databaseUri: Uri;
+  readonly successful: boolean;
+  /** A message describing the outcome of the query, for example an error message. */
+  readonly message: string | undefined;
+  /** The time it took to evaluate the query, in milliseconds. */
+  readonly evaluationTime: number;
+  /** The BQRS file containing the results of the query. */
+  readonly resultsUri: Uri;
+}
+
+export interface ReadResultsOptions {
+  resultSetName?: string;
+  /** The page to read, starting at 0. Defaults to 0. */
+  pageNumber?: number;
+  /** The number of rows on each page. Defaults to the `codeQL.resultsDisplay.pageSize` setting. */
+  pageSize?: number;
+}
+
+/** A page of a result set. */
+export interface ApiResultsPage {
+  readonly resultSetName: string;
+  readonly columns: readonly ApiColumn[];
+  readonly rows: ReadonlyArray<readonly ApiCellValue[]>;
+  readonly pageNumber: number;
+  readonly pageSize: number;
+  /** The total number of rows in the result set. */
+  readonly totalRowCount: number;
+}
+
+export type ApiColumnKind =
+  | "float"
+  | "integer"
+  | "string"
+  | "boolean"
+  | "date"
+  | "entity";
+
+export interface ApiColumn {
+  readonly name: string | undefined;
+  readonly kind: ApiColumnKind;
+}
+
+/**
+ * The value of a cell of a result set. Dates are strings, and entities, such as elements of the
+ * source code, are `ApiEntity` objects.
+ */
+export type ApiCellValue = ApiEntity | number | string | boolean;
+
+export interface ApiEntity {
+  readonly label: string | undefined;
+  /** The location of the entity, or `undefined` if it has no location in a file. */
+  readonly location: ApiLocation | undefined;
+}
+
+export interface ApiLocation {
+  /** The URI of the file, for example `file:///path/to/file.js`. */
+  readonly uri: string;
+  /** The range in the file, or `undefined` if the location is the whole file. */
+  readonly range: ApiRange | undefined;
+}
+
+/** A range in a file. Lines and columns start at 1, and the end column is inclusive. */
+export interface ApiRange {
+  readonly startLine: number;
+  readonly startColumn: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+}
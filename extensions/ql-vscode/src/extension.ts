@@ -30,6 +30,10 @@ import {
   DistributionConfigListener,
   isCanary,
   joinOrderWarningThreshold,
+  recursiveIterationScannerSettings,
+  duplicationScannerSettings,
+  cartesianProductScannerSettings,
+  extensionalCacheMissScannerSettings,
   QueryHistoryConfigListener,
   QueryServerConfigListener,
 } from "./config";
@@ -87,7 +91,7 @@ import {
   queryServerLogger,
 } from "./common/logging/vscode";
 import { QueryHistoryManager } from "./query-history/query-history-manager";
-import { CompletedLocalQueryInfo } from "./query-results";
+import { CompletedLocalQueryInfo, LocalQueryInfo } from "./query-results";
 import {
   LegacyQueryRunner,
   QueryServerClient as LegacyQueryServerClient,
@@ -95,6 +99,7 @@ import {
 import { QLTestAdapterFactory } from "./query-testing/test-adapter";
 import { TestUIService } from "./query-testing/test-ui";
 import { CompareView } from "./compare/compare-view";
+import { ComparePerformanceView } from "./compare-performance/compare-performance-view";
 import {
   initializeTelemetry,
   telemetryListener,
@@ -103,10 +108,20 @@ import { ProgressCallback, withProgress } from "./common/vscode/progress";
 import { CodeQlStatusBarHandler } from "./status-bar";
 import { getPackagingCommands } from "./packaging";
 import { HistoryItemLabelProvider } from "./query-history/history-item-label-provider";
-import { EvalLogViewer } from "./query-evaluation-logging";
+import {
+  EvalLogFlameGraphView,
+  EvalLogViewer,
+} from "./query-evaluation-logging";
 import { SummaryLanguageSupport } from "./log-insights/summary-language-support";
 import { JoinOrderScannerProvider } from "./log-insights/join-order";
+import {
+  CartesianProductScannerProvider,
+  DuplicationScannerProvider,
+  ExtensionalCacheMissScannerProvider,
+  RecursiveIterationScannerProvider,
+} from "./log-insights/builtin-scanners";
 import { LogScannerService } from "./log-insights/log-scanner-service";
+import { PredicateHoverProvider } from "./log-insights/predicate-hover-provider";
 import { VariantAnalysisView } from "./variant-analysis/variant-analysis-view";
 import { VariantAnalysisViewSerializer } from "./variant-analysis/variant-analysis-view-serializer";
 import { VariantAnalysisManager } from "./variant-analysis/variant-analysis-manager";
@@ -138,6 +153,13 @@ import { OpenReferencedFileCodeLensProvider } from "./local-queries/open-referen
 import { LanguageContextStore } from "./language-context-store";
 import { LanguageSelectionPanel } from "./language-selection-panel/language-selection-panel";
 import { GitHubDatabasesModule } from "./databases/github-databases";
+import {
+  CodeQLExtensionApi,
+  CodeQLExtensionApiVersion,
+  LATEST_EXTENSION_API_VERSION,
+} from "./extension-api/extension-api";
+import { CodeQLExtensionApiImpl } from "./extension-api/extension-api-impl";
+import { QueryQueueManager } from "./query-queue/query-queue-manager";
 
 /**
  * extension.ts
@@ -290,6 +312,11 @@ export interface CodeQLExtensionInterface {
   readonly localQueries: LocalQueries;
   readonly variantAnalysisManager: VariantAnalysisManager;
   readonly dispose: () => void;
+  /**
+   * Gets a version of the public API of the extension. Unlike the other properties of this
+   * interface, the public API does not change in breaking ways between releases.
+   */
+  readonly getApi: (version: CodeQLExtensionApiVersion) => CodeQLExtensionApi;
 }
 
 interface DistributionUpdateConfig {
@@ -900,6 +927,13 @@ async function activateWithInstalledDistribution(
       from: CompletedLocalQueryInfo,
       to: CompletedLocalQueryInfo,
     ): Promise<void> => showResultsForComparison(compareView, from, to),
+    async (
+      from: CompletedLocalQueryInfo,
+      to: CompletedLocalQueryInfo,
+    ): Promise<void> =>
+      showPerformanceComparison(comparePerformanceView, from, to),
+    async (item: LocalQueryInfo): Promise<void> =>
+      showEvalLogFlameGraph(evalLogFlameGraphView, item),
   );
 
   ctx.subscriptions.push(qhm);
@@ -912,6 +946,31 @@ async function activateWithInstalledDistribution(
       new JoinOrderScannerProvider(() => joinOrderWarningThreshold()),
     ),
   );
+  ctx.subscriptions.push(
+    logScannerService.scanners.registerLogScannerProvider(
+      new RecursiveIterationScannerProvider(recursiveIterationScannerSettings),
+    ),
+  );
+  ctx.subscriptions.push(
+    logScannerService.scanners.registerLogScannerProvider(
+      new DuplicationScannerProvider(duplicationScannerSettings),
+    ),
+  );
+  ctx.subscriptions.push(
+    logScannerService.scanners.registerLogScannerProvider(
+      new CartesianProductScannerProvider(cartesianProductScannerSettings),
+    ),
+  );
+  ctx.subscriptions.push(
+    logScannerService.scanners.registerLogScannerProvider(
+      new ExtensionalCacheMissScannerProvider(
+        extensionalCacheMissScannerSettings,
+      ),
+    ),
+  );
+
+  void extLogger.log("Initializing evaluation log hovers.");
+  ctx.subscriptions.push(new PredicateHoverProvider(qhm, cliServer));
 
   void extLogger.log("Initializing compare view.");
   const compareView = new CompareView(
@@ -925,6 +984,18 @@ async function activateWithInstalledDistribution(
   );
   ctx.subscriptions.push(compareView);
 
+  void extLogger.log("Initializing performance comparison view.");
+  const comparePerformanceView = new ComparePerformanceView(
+    app,
+    cliServer,
+    labelProvider,
+  );
+  ctx.subscriptions.push(comparePerformanceView);
+
+  void extLogger.log("Initializing evaluator log flame graph view.");
+  const evalLogFlameGraphView = new EvalLogFlameGraphView(app, cliServer);
+  ctx.subscriptions.push(evalLogFlameGraphView);
+
   void extLogger.log("Initializing source archive filesystem provider.");
   archiveFilesystemProvider_activate(ctx);
 
@@ -957,6 +1028,10 @@ async function activateWithInstalledDistribution(
     localQueries.setSelectedQueryTreeViewItems(event.selection),
   );
 
+  void extLogger.log("Initializing query queue.");
+  const queryQueueManager = new QueryQueueManager(app, dbm, localQueries);
+  ctx.subscriptions.push(queryQueueManager);
+
   void extLogger.log("Initializing debugger factory.");
   ctx.subscriptions.push(
     new QLDebugAdapterDescriptorFactory(queryStorageDir, qs, localQueries),
@@ -1032,6 +1107,7 @@ async function activateWithInstalledDistribution(
     }),
     ...localQueryResultsView.getCommands(),
     ...qhm.getCommands(),
+    ...queryQueueManager.getCommands(),
     ...variantAnalysisManager.getCommands(),
     ...databaseUI.getCommands(),
     ...dbModule.getCommands(),
@@ -1112,9 +1188,21 @@ async function activateWithInstalledDistribution(
 
   await app.commands.execute("codeQLDatabases.removeOrphanedDatabases");
 
+  const extensionApi = new CodeQLExtensionApiImpl(
+    cliServer,
+    dbm,
+    localQueries,
+    qhm,
+    variantAnalysisManager,
+  );
+  ctx.subscriptions.push(extensionApi);
+
   void extLogger.log("Reading query history");
   await qhm.readQueryHistory();
 
+  void extLogger.log("Starting query queue");
+  await queryQueueManager.initialize();
+
   void extLogger.log("Successfully finished extension initialization.");
 
   return {
@@ -1129,6 +1217,14 @@ async function activateWithInstalledDistribution(
     dispose: () => {
       ctx.subscriptions.forEach((d) => d.dispose());
     },
+    getApi: (version) => {
+      if (version !== extensionApi.version) {
+        throw new Error(
+          `Version ${version} of the CodeQL extension API is not supported. The latest version is ${LATEST_EXTENSION_API_VERSION}.`,
+        );
+      }
+      return extensionApi;
+    },
   };
 }
 
@@ -1178,6 +1274,41 @@ async function showResultsForComparison(
   }
 }
 
+async function showPerformanceComparison(
+  comparePerformanceView: ComparePerformanceView,
+  from: CompletedLocalQueryInfo,
+  to: CompletedLocalQueryInfo,
+): Promise<void> {
+  try {
+    await comparePerformanceView.showResults(from, to);
+  } catch (e) {
+    void showAndLogExceptionWithTelemetry(
+      extLogger,
+      telemetryListener,
+      redactableError(
+        asError(e),
+      )`Failed to compare performance: ${getErrorMessage(e)}`,
+    );
+  }
+}
+
+async function showEvalLogFlameGraph(
+  evalLogFlameGraphView: EvalLogFlameGraphView,
+  item: LocalQueryInfo,
+): Promise<void> {
+  try {
+    await evalLogFlameGraphView.showFlameGraph(item);
+  } catch (e) {
+    void showAndLogExceptionWithTelemetry(
+      extLogger,
+      telemetryListener,
+      redactableError(
+        asError(e),
+      )`Failed to show evaluator log flame graph: ${getErrorMessage(e)}`,
+    );
+  }
+}
+
 function addUnhandledRejectionListener() {
   const handler = (error: unknown) => {
     // This listener will be triggered for errors from other extensions as
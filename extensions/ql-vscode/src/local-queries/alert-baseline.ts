@@ -0,0 +1,168 @@
+import * as Sarif from "sarif";
+import { createHash } from "crypto";
+import { pathExists, readJson, writeJson } from "fs-extra";
+import { parseSarifLocation } from "../common/sarif-utils";
+import { isLineColumnLoc } from "../common/bqrs-utils";
+
+/**
+ * The name of the alert baseline file, which is stored in the first workspace folder so
+ * that it can be shared with the queries it belongs to.
+ */
+export const ALERT_BASELINE_FILE_NAME = "codeql-alert-baseline.json";
+
+const ALERT_BASELINE_VERSION = 1;
+
+/**
+ * An alert that has been accepted. Alerts are identified by their rule ID and a
+ * fingerprint of their primary location and message. The message and location are
+ * also stored to make the baseline file easier to review.
+ */
+export interface AlertBaselineEntry {
+  ruleId: string;
+  fingerprint: string;
+  message: string;
+  location?: string;
+}
+
+interface AlertBaselineFile {
+  version: number;
+  alerts: AlertBaselineEntry[];
+}
+
+function getPrimaryLocation(result: Sarif.Result) {
+  const location = result.locations?.[0];
+  if (location === undefined) {
+    return undefined;
+  }
+  const parsedLocation = parseSarifLocation(location, "");
+  return "hint" in parsedLocation ? undefined : parsedLocation;
+}
+
+function getAlertKey({
+  ruleId,
+  fingerprint,
+}: Pick<AlertBaselineEntry, "ruleId" | "fingerprint">): string {
+  return `${ruleId}/${fingerprint}`;
+}
+
+/**
+ * Creates the baseline entry of an alert. The fingerprint uses the path of the primary
+ * location as it appears in the SARIF file, which is relative to the source root for
+ * alerts produced by CodeQL, so that it does not depend on where the database is.
+ */
+export function createAlertBaselineEntry(
+  result: Sarif.Result,
+): AlertBaselineEntry {
+  const ruleId = result.ruleId ?? result.rule?.id ?? "";
+  const message = result.message.text ?? "";
+  const location = getPrimaryLocation(result);
+  const region =
+    location !== undefined && isLineColumnLoc(location)
+      ? [
+          location.startLine,
+          location.startColumn,
+          location.endLine,
+          location.endColumn,
+        ]
+      : [];
+
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify([location?.userVisibleFile, ...region, message]))
+    .digest("hex")
+    .substring(0, 16);
+
+  return {
+    ruleId,
+    fingerprint,
+    message,
+    location:
+      region.length > 0
+        ? `${location?.userVisibleFile}:${region[0]}`
+        : location?.userVisibleFile,
+  };
+}
+
+/**
+ * Reads the alert baseline from a file.
+ *
+ * @returns The accepted alerts, which are empty if the file does not exist.
+ */
+export async function readAlertBaseline(
+  baselinePath: string,
+): Promise<AlertBaselineEntry[]> {
+  if (!(await pathExists(baselinePath))) {
+    return [];
+  }
+
+  const baseline: AlertBaselineFile = await readJson(baselinePath, {
+    encoding: "utf8",
+  });
+  if (baseline.version !== ALERT_BASELINE_VERSION) {
+    throw new Error(
+      `Unsupported alert baseline format in ${baselinePath}: v${baseline.version}.`,
+    );
+  }
+  return baseline.alerts;
+}
+
+export async function writeAlertBaseline(
+  baselinePath: string,
+  alerts: AlertBaselineEntry[],
+): Promise<void> {
+  const baseline: AlertBaselineFile = {
+    version: ALERT_BASELINE_VERSION,
+    alerts,
+  };
+  await writeJson(baselinePath, baseline, { spaces: 2 });
+}
+
+/**
+ * Adds alerts to or removes alerts from the baseline.
+ *
+ * @returns The new baseline, sorted by rule ID and location so that changes to the
+ * baseline file are easy to review.
+ */
+export function updateAlertBaseline(
+  baseline: AlertBaselineEntry[],
+  results: Sarif.Result[],
+  accepted: boolean,
+): AlertBaselineEntry[] {
+  const alerts = new Map(baseline.map((entry) => [getAlertKey(entry), entry]));
+  for (const result of results) {
+    const entry = createAlertBaselineEntry(result);
+    if (accepted) {
+      alerts.set(getAlertKey(entry), entry);
+    } else {
+      alerts.delete(getAlertKey(entry));
+    }
+  }
+  return [...alerts.values()].sort(
+    (a, b) =>
+      a.ruleId.localeCompare(b.ruleId) ||
+      (a.location ?? "").localeCompare(b.location ?? "") ||
+      a.fingerprint.localeCompare(b.fingerprint),
+  );
+}
+
+/**
+ * Sets the `baselineState` of each result to `unchanged` if the result is in the baseline,
+ * or `new` if it is not.
+ *
+ * @returns The number of results that are in the baseline.
+ */
+export function markAlertBaselineResults(
+  results: Sarif.Result[],
+  baseline: AlertBaselineEntry[],
+): number {
+  const acceptedKeys = new Set(baseline.map(getAlertKey));
+  let numBaselineResults = 0;
+  for (const result of results) {
+    if (acceptedKeys.has(getAlertKey(createAlertBaselineEntry(result)))) {
+      result.baselineState = "unchanged";
+      numBaselineResults++;
+    } else {
+      result.baselineState = "new";
+    }
+  }
+  return numBaselineResults;
+}
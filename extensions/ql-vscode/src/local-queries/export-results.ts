@@ -0,0 +1,318 @@
+import * as Sarif from "sarif";
+import {
+  CellValue,
+  Column,
+  EntityValue,
+  ResolvableLocationValue,
+} from "../common/bqrs-cli-types";
+import {
+  isLineColumnLoc,
+  tryGetResolvableLocation,
+} from "../common/bqrs-utils";
+import {
+  isNoLocation,
+  parseSarifLocation,
+  parseSarifPlainTextMessage,
+} from "../common/sarif-utils";
+
+export type ResultsExportFormat =
+  | "csv"
+  | "tsv"
+  | "jsonl"
+  | "markdown"
+  | "sarif";
+
+/**
+ * How entity columns are written to the exported file. Entities are either
+ * written as their label, or as a `file:line:col` link to their location.
+ */
+export type EntityExportStyle = "label" | "location";
+
+/**
+ * A table of results that can be exported, such as a page of a raw result set
+ * or a page of alerts.
+ */
+export interface ExportableResults {
+  columns: readonly string[];
+  rows: ReadonlyArray<readonly CellValue[]>;
+}
+
+export function getExportFileExtension(format: ResultsExportFormat): string {
+  switch (format) {
+    case "csv":
+      return "csv";
+    case "tsv":
+      return "tsv";
+    case "jsonl":
+      return "jsonl";
+    case "markdown":
+      return "md";
+    case "sarif":
+      return "sarif";
+  }
+}
+
+/**
+ * Gets the names of the columns of a raw result set. Unnamed columns are
+ * named after their index, in the same way as in the results view.
+ */
+export function getColumnNames(columns: readonly Column[]): string[] {
+  return columns.map((column, index) => column.name || `[${index}]`);
+}
+
+/**
+ * Converts a location to a `file:line:col` link. Locations that refer to a
+ * whole file are converted to the path of the file.
+ */
+function formatLocationLink(location: ResolvableLocationValue): string {
+  const path = decodeURIComponent(location.uri.replace(/^file:/, ""));
+  if (isLineColumnLoc(location)) {
+    return `${path}:${location.startLine}:${location.startColumn}`;
+  }
+  return path;
+}
+
+/**
+ * Converts a single cell to text. Entities without a resolvable location are
+ * always written as their label.
+ */
+export function formatCell(
+  value: CellValue,
+  entityStyle: EntityExportStyle,
+): string {
+  if (typeof value !== "object") {
+    return value.toString();
+  }
+
+  if (entityStyle === "location") {
+    const location = tryGetResolvableLocation(value.url);
+    if (location !== undefined) {
+      return formatLocationLink(location);
+    }
+  }
+  return value.label ?? "";
+}
+
+/**
+ * Converts a page of alerts to a table with the message and the primary
+ * location of each alert.
+ */
+export function alertsToExportableResults(
+  results: readonly Sarif.Result[],
+  sourceLocationPrefix: string,
+): ExportableResults {
+  const rows = results.map((result): CellValue[] => {
+    const message = parseSarifPlainTextMessage(result.message.text ?? "")
+      .map((component) =>
+        typeof component === "string" ? component : component.text,
+      )
+      .join("");
+
+    const sarifLocation = result.locations?.[0];
+    const location =
+      sarifLocation === undefined
+        ? undefined
+        : parseSarifLocation(sarifLocation, sourceLocationPrefix);
+    const entity: EntityValue =
+      location === undefined || isNoLocation(location)
+        ? { label: "" }
+        : {
+            label: location.userVisibleFile,
+            url: {
+              uri: location.uri,
+              startLine: location.startLine,
+              startColumn: location.startColumn,
+              endLine: location.endLine,
+              endColumn: location.endColumn,
+            } as ResolvableLocationValue,
+          };
+
+    return [message, entity];
+  });
+
+  return { columns: ["Message", "Location"], rows };
+}
+
+/**
+ * Exports a table of results in the given format. SARIF is exported by
+ * creating one result for each row, located at the first entity of the row
+ * that has a location.
+ */
+export function exportResults(
+  results: ExportableResults,
+  format: ResultsExportFormat,
+  entityStyle: EntityExportStyle,
+): string {
+  switch (format) {
+    case "csv":
+      return exportSeparatedValues(results, entityStyle, ",", escapeCsvField);
+    case "tsv":
+      return exportSeparatedValues(results, entityStyle, "\t", escapeTsvField);
+    case "jsonl":
+      return exportJsonLines(results, entityStyle);
+    case "markdown":
+      return exportMarkdownTable(results, entityStyle);
+    case "sarif":
+      return `${JSON.stringify(
+        createSarifLog(results, entityStyle),
+        null,
+        2,
+      )}\n`;
+  }
+}
+
+function exportSeparatedValues(
+  results: ExportableResults,
+  entityStyle: EntityExportStyle,
+  separator: string,
+  escapeField: (field: string) => string,
+): string {
+  const lines = [results.columns.map(escapeField).join(separator)];
+  for (const row of results.rows) {
+    lines.push(
+      row
+        .map((value) => escapeField(formatCell(value, entityStyle)))
+        .join(separator),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeCsvField(field: string): string {
+  if (/[",\r\n]/.test(field)) {
+    return `"${field.replaceAll('"', '""')}"`;
+  }
+  return field;
+}
+
+function escapeTsvField(field: string): string {
+  return field
+    .replaceAll("\\", "\\\\")
+    .replaceAll("\t", "\\t")
+    .replaceAll("\r", "\\r")
+    .replaceAll("\n", "\\n");
+}
+
+function exportJsonLines(
+  results: ExportableResults,
+  entityStyle: EntityExportStyle,
+): string {
+  return results.rows
+    .map((row) => {
+      const object: Record<string, string | number | boolean> = {};
+      row.forEach((value, index) => {
+        object[results.columns[index]] =
+          typeof value === "object" ? formatCell(value, entityStyle) : value;
+      });
+      return `${JSON.stringify(object)}\n`;
+    })
+    .join("");
+}
+
+function exportMarkdownTable(
+  results: ExportableResults,
+  entityStyle: EntityExportStyle,
+): string {
+  const lines = [
+    `| ${results.columns.map(escapeMarkdownCell).join(" | ")} |`,
+    `|${" --- |".repeat(results.columns.length)}`,
+  ];
+  for (const row of results.rows) {
+    const cells = row.map((value) =>
+      escapeMarkdownCell(formatCell(value, entityStyle)),
+    );
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeMarkdownCell(cell: string): string {
+  // `|` characters and line breaks break the table, so we need to escape them
+  return cell.replaceAll("|", "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function createSarifLog(
+  results: ExportableResults,
+  entityStyle: EntityExportStyle,
+): Sarif.Log {
+  return {
+    version: "2.1.0",
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "CodeQL",
+          },
+        },
+        results: results.rows.map((row) => {
+          const location = row
+            .map((value) =>
+              typeof value === "object"
+                ? tryGetResolvableLocation(value.url)
+                : undefined,
+            )
+            .find((location) => location !== undefined);
+
+          return {
+            message: {
+              text: row
+                .map((value) => formatCell(value, entityStyle))
+                .join(" | "),
+            },
+            locations:
+              location === undefined ? [] : [createSarifLocation(location)],
+          };
+        }),
+      },
+    ],
+  };
+}
+
+function createSarifLocation(
+  location: ResolvableLocationValue,
+): Sarif.Location {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: location.uri,
+      },
+      region: isLineColumnLoc(location)
+        ? {
+            startLine: location.startLine,
+            startColumn: location.startColumn,
+            endLine: location.endLine,
+            // CodeQL end columns are inclusive, while SARIF end columns are exclusive.
+            endColumn: location.endColumn + 1,
+          }
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Creates a SARIF log for a page of alerts, keeping the tool and rule
+ * information of the run the alerts came from.
+ */
+export function createSarifLogForAlerts(
+  log: Sarif.Log,
+  results: Sarif.Result[],
+): Sarif.Log {
+  return {
+    version: log.version,
+    $schema: log.$schema,
+    runs: [{ ...log.runs[0], results }],
+  };
+}
+
+/**
+ * Combines the SARIF logs of several queries into a single SARIF log, with one
+ * run for each query.
+ */
+export function createCombinedSarifLog(logs: Sarif.Log[]): Sarif.Log {
+  return {
+    version: "2.1.0",
+    $schema: logs[0]?.$schema,
+    runs: logs.flatMap((log) => log.runs),
+  };
+}
@@ -0,0 +1,338 @@
+import { pathExists, readdir, readFile, writeFile } from "fs-extra";
+import { load } from "js-yaml";
+import { basename, dirname, extname, join } from "path";
+import type { ExternalPredicateValues } from "../query-results";
+import { findPackRoot } from "../common/ql";
+
+interface ExternalPredicateParameter {
+  type: string;
+  name: string;
+}
+
+/**
+ * An `external` predicate used by a query, such as `external string sourceName();`
+ * or `external predicate sink(string name, int arity);`.
+ */
+export interface ExternalPredicate {
+  name: string;
+  parameters: ExternalPredicateParameter[];
+  /** The result type, or `undefined` if this predicate has no result. */
+  resultType: string | undefined;
+}
+
+/**
+ * Matches the declaration of an external predicate in DIL. Predicates that are declared in a
+ * module are qualified with the name of the module, as in `external string Config::sourceName()`.
+ */
+const EXTERNAL_PREDICATE_REGEX =
+  /\bexternal\s+(predicate|[A-Za-z_@][\w@]*)\s+(?:\w+::)*([a-z]\w*)\s*\(([^)]*)\)/g;
+
+/**
+ * Finds the QL library files in a directory and its subdirectories, except for hidden
+ * directories such as the compilation cache.
+ */
+async function* findLibraryFiles(dir: string): AsyncIterableIterator<string> {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith(".")) {
+      yield* findLibraryFiles(path);
+    } else if (entry.isFile() && extname(entry.name) === ".qll") {
+      yield path;
+    }
+  }
+}
+
+/**
+ * Holds if the query or a library in its pack contains the `external` keyword, so that the
+ * query may use external predicates. This avoids compiling the query to find its external
+ * predicates if it can't have any. External predicates declared in the dependencies of the
+ * pack are not found.
+ */
+export async function mayUseExternalPredicates(
+  queryPath: string,
+): Promise<boolean> {
+  const externalKeywordRegex = /\bexternal\b/;
+  if (externalKeywordRegex.test(await readFile(queryPath, "utf8"))) {
+    return true;
+  }
+
+  for await (const libraryPath of findLibraryFiles(
+    await findPackRoot(queryPath),
+  )) {
+    if (externalKeywordRegex.test(await readFile(libraryPath, "utf8"))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parses the declarations of the external predicates in the DIL of a query, which is
+ * generated by the CLI.
+ *
+ * @returns The external predicates, and warnings about parameters that could not be parsed.
+ */
+export function parseExternalPredicates(dil: string): {
+  predicates: ExternalPredicate[];
+  warnings: string[];
+} {
+  // Remove comments, so that commented out declarations are not found.
+  const text = dil.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, "");
+
+  const predicates = new Map<string, ExternalPredicate>();
+  const warnings: string[] = [];
+  for (const [, resultType, name, parameterList] of text.matchAll(
+    EXTERNAL_PREDICATE_REGEX,
+  )) {
+    if (predicates.has(name)) {
+      continue;
+    }
+
+    const parameters: ExternalPredicateParameter[] = [];
+    for (const parameter of parameterList.split(",")) {
+      const parts = parameter.trim().split(/\s+/);
+      if (parts.length === 2) {
+        parameters.push({ type: parts[0], name: parts[1] });
+      } else if (parameter.trim() !== "") {
+        warnings.push(
+          `Ignoring parameter '${parameter.trim()}' of external predicate ${name}, because it is not of the form '<type> <name>'.`,
+        );
+      }
+    }
+
+    predicates.set(name, {
+      name,
+      parameters,
+      resultType: resultType === "predicate" ? undefined : resultType,
+    });
+  }
+
+  return { predicates: [...predicates.values()], warnings };
+}
+
+/**
+ * Holds if the predicate has a single value, such as `external string sourceName();`.
+ * The values of these predicates are passed to the query server directly, rather
+ * than in a CSV file.
+ */
+export function isSingletonExternalPredicate(
+  predicate: ExternalPredicate,
+): boolean {
+  return (
+    predicate.parameters.length === 0 && predicate.resultType !== undefined
+  );
+}
+
+/**
+ * Gets the types of the columns of the predicate. The result, if any, is the last column.
+ */
+function getExternalPredicateColumnTypes(
+  predicate: ExternalPredicate,
+): string[] {
+  const columnTypes = predicate.parameters.map((parameter) => parameter.type);
+  if (predicate.resultType !== undefined) {
+    columnTypes.push(predicate.resultType);
+  }
+  return columnTypes;
+}
+
+export function getExternalPredicateSignature(
+  predicate: ExternalPredicate,
+): string {
+  return `${predicate.resultType ?? "predicate"} ${
+    predicate.name
+  }(${predicate.parameters
+    .map((parameter) => `${parameter.type} ${parameter.name}`)
+    .join(", ")})`;
+}
+
+/**
+ * Parses CSV text into rows. Fields may be quoted with `"`, in which case they can contain
+ * commas, quotes (escaped as `""`) and row separators. Empty rows are ignored.
+ */
+export function parseExternalPredicateRows(
+  text: string,
+  rowSeparator = "\n",
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field.trim());
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === rowSeparator) {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+function formatExternalPredicateRows(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((field) =>
+          /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field,
+        )
+        .join(","),
+    )
+    .join("\n");
+}
+
+/**
+ * Checks that the rows have the right number of columns for the predicate, and that
+ * the values of numeric and boolean columns are valid.
+ *
+ * @returns An error message, or `undefined` if the rows are valid.
+ */
+export function validateExternalPredicateRows(
+  predicate: ExternalPredicate,
+  rows: string[][],
+): string | undefined {
+  const columnTypes = getExternalPredicateColumnTypes(predicate);
+  for (const row of rows) {
+    if (row.length !== columnTypes.length) {
+      return `Expected ${columnTypes.length} values in each row of ${predicate.name}, but found ${row.length}.`;
+    }
+    for (const [index, value] of row.entries()) {
+      const type = columnTypes[index];
+      if (type === "int" && !/^-?\d+$/.test(value)) {
+        return `'${value}' is not a valid int.`;
+      }
+      if (type === "float" && isNaN(Number(value))) {
+        return `'${value}' is not a valid float.`;
+      }
+      if (type === "boolean" && value !== "true" && value !== "false") {
+        return `'${value}' is not a valid boolean.`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the values of the external predicates of a query from the sidecar files next to
+ * the query. For a query `foo.ql`, the values can be given either in `foo.externals.yml`,
+ * which maps predicate names to a value or a list of rows, or in `foo.<predicate>.csv`.
+ *
+ * @returns The values of the predicates that have a sidecar file.
+ */
+export async function readExternalPredicateValuesFromFiles(
+  queryPath: string,
+  predicates: ExternalPredicate[],
+): Promise<ExternalPredicateValues> {
+  const queryBasePath = join(
+    dirname(queryPath),
+    basename(queryPath, extname(queryPath)),
+  );
+  const values: ExternalPredicateValues = {};
+
+  const yamlPath = `${queryBasePath}.externals.yml`;
+  if (await pathExists(yamlPath)) {
+    const contents = load(await readFile(yamlPath, "utf8"));
+    if (typeof contents !== "object" || contents === null) {
+      throw new Error(
+        `${yamlPath} must map external predicate names to values.`,
+      );
+    }
+    for (const [name, value] of Object.entries(contents)) {
+      values[name] = Array.isArray(value)
+        ? value.map((row) =>
+            Array.isArray(row) ? row.map((v) => String(v)) : [String(row)],
+          )
+        : [[String(value)]];
+    }
+  }
+
+  for (const predicate of predicates) {
+    const csvPath = `${queryBasePath}.${predicate.name}.csv`;
+    if (values[predicate.name] === undefined && (await pathExists(csvPath))) {
+      values[predicate.name] = parseExternalPredicateRows(
+        await readFile(csvPath, "utf8"),
+      );
+    }
+  }
+
+  for (const predicate of predicates) {
+    const rows = values[predicate.name];
+    const error =
+      rows === undefined
+        ? undefined
+        : validateExternalPredicateRows(predicate, rows);
+    if (error !== undefined) {
+      throw new Error(
+        `Invalid values in sidecar file of ${queryPath}: ${error}`,
+      );
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Converts the values of the external predicates to the inputs of the query server.
+ * Singleton predicates are passed directly, while the values of other predicates are
+ * written to CSV files in the given directory.
+ */
+export async function createExternalInputs(
+  predicates: ExternalPredicate[],
+  values: ExternalPredicateValues,
+  directory: string,
+): Promise<{
+  singletonExternalInputs: Record<string, string>;
+  externalInputs: Record<string, string>;
+}> {
+  const singletonExternalInputs: Record<string, string> = {};
+  const externalInputs: Record<string, string> = {};
+
+  for (const predicate of predicates) {
+    const rows = values[predicate.name];
+    if (rows === undefined) {
+      throw new Error(
+        `No values were given for the external predicate ${predicate.name}.`,
+      );
+    }
+
+    if (isSingletonExternalPredicate(predicate)) {
+      singletonExternalInputs[predicate.name] = rows[0]?.[0] ?? "";
+    } else {
+      const csvPath = join(directory, `${predicate.name}.csv`);
+      await writeFile(
+        csvPath,
+        `${formatExternalPredicateRows(rows)}\n`,
+        "utf8",
+      );
+      externalInputs[predicate.name] = csvPath;
+    }
+  }
+
+  return { singletonExternalInputs, externalInputs };
+}
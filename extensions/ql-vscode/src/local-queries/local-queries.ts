@@ -1,6 +1,7 @@
 import {
   ProgressCallback,
   ProgressUpdate,
+  UserCancellationException,
   withProgress,
 } from "../common/vscode/progress";
 import {
@@ -19,12 +20,15 @@ import {
 } from "../common/logging";
 import { isCanary, MAX_QUERIES } from "../config";
 import { gatherQlFiles } from "../common/files";
-import { basename } from "path";
+import { basename, extname, join } from "path";
+import { ensureDir, mkdtemp, readFile, remove } from "fs-extra";
+import { nanoid } from "nanoid";
 import { showBinaryChoiceDialog } from "../common/vscode/dialog";
 import { getOnDiskWorkspaceFolders } from "../common/vscode/workspace-folders";
 import { displayQuickQuery } from "./quick-query";
 import { CoreCompletedQuery, QueryRunner } from "../query-server";
 import { QueryHistoryManager } from "../query-history/query-history-manager";
+import { QueryHistoryInfo } from "../query-history/query-history-info";
 import { DatabaseUI } from "../databases/local-databases-ui";
 import { ResultsView } from "./results-view";
 import { DatabaseItem, DatabaseManager } from "../databases/local-databases";
@@ -33,11 +37,19 @@ import {
   createTimestampFile,
   getQuickEvalContext,
   QueryOutputDir,
+  QuickEvalContext,
   saveBeforeStart,
   SelectedQuery,
   validateQueryUri,
 } from "../run-queries-shared";
-import { CompletedLocalQueryInfo, LocalQueryInfo } from "../query-results";
+import {
+  CompletedLocalQueryInfo,
+  ExternalPredicateValues,
+  InitialQueryInfo,
+  LocalQueryInfo,
+  QueryRunInfo,
+  QuerySuiteInfo,
+} from "../query-results";
 import { WebviewReveal } from "./webview";
 import { asError, getErrorMessage } from "../common/helpers-pure";
 import { CliVersionConstraint, CodeQLCliServer } from "../codeql-cli/cli";
@@ -45,17 +57,40 @@ import { LocalQueryCommands } from "../common/commands";
 import { DisposableObject } from "../common/disposable-object";
 import { SkeletonQueryWizard } from "./skeleton-query-wizard";
 import { LocalQueryRun } from "./local-query-run";
-import { createMultiSelectionCommand } from "../common/vscode/selection-commands";
+import {
+  createMultiSelectionCommand,
+  createSingleSelectionCommand,
+} from "../common/vscode/selection-commands";
 import { findLanguage } from "../codeql-cli/query-language";
 import type { QueryTreeViewItem } from "../queries-panel/query-tree-view-item";
 import { tryGetQueryLanguage } from "../common/query-language";
 import { LanguageContextStore } from "../language-context-store";
 import { ExtensionApp } from "../common/vscode/vscode-app";
+import { tmpDir } from "../tmp-dir";
+import {
+  createExternalInputs,
+  ExternalPredicate,
+  getExternalPredicateSignature,
+  isSingletonExternalPredicate,
+  mayUseExternalPredicates,
+  parseExternalPredicateRows,
+  parseExternalPredicates,
+  readExternalPredicateValuesFromFiles,
+  validateExternalPredicateRows,
+} from "./external-predicates";
+import { getQuickEvalText, writeQuerySnapshot } from "./query-snapshot";
 
 interface DatabaseQuickPickItem extends QuickPickItem {
   databaseItem: DatabaseItem;
 }
 
+interface LocalQueryRunOptions extends QueryRunInfo {
+  /** The QuickEval selection, if it is not the selection in the active editor. */
+  quickEval?: QuickEvalContext;
+  /** The text of the query, if it is not the current contents of the query file. */
+  queryText?: string;
+}
+
 export enum QuickEvalType {
   None,
   QuickEval,
@@ -106,6 +141,17 @@ export class LocalQueries extends DisposableObject {
       "codeQL.runQueries": createMultiSelectionCommand(
         this.runQueries.bind(this),
       ),
+      "codeQL.runQuerySuite": this.runQuerySuite.bind(this),
+      "codeQLQueryHistory.rerunQuery": createSingleSelectionCommand(
+        this.app.logger,
+        this.rerunQueryFromHistory.bind(this),
+        "query",
+      ),
+      "codeQLQueryHistory.rerunQueryOnDatabase": createSingleSelectionCommand(
+        this.app.logger,
+        this.rerunQueryFromHistoryOnDatabase.bind(this),
+        "query",
+      ),
       "codeQL.quickEval": this.quickEval.bind(this),
       "codeQL.quickEvalCount": this.quickEvalCount.bind(this),
       "codeQL.quickEvalContextEditor": this.quickEval.bind(this),
@@ -238,6 +284,241 @@ export class LocalQueries extends DisposableObject {
     );
   }
 
+  private async runQuerySuite(uri: Uri | undefined): Promise<void> {
+    await withProgress(
+      async (progress, token) => {
+        const suitePath =
+          uri?.fsPath ?? window.activeTextEditor?.document.uri.fsPath;
+        if (suitePath === undefined || extname(suitePath) !== ".qls") {
+          throw new Error("Select a query suite (.qls file) to run.");
+        }
+
+        progress({
+          step: 1,
+          maxStep: 2,
+          message: "Resolving queries in the query suite",
+        });
+        const queryPaths = await this.cliServer.resolveQueriesInSuite(
+          suitePath,
+          getOnDiskWorkspaceFolders(),
+        );
+        if (queryPaths.length === 0) {
+          throw new Error(
+            `The query suite ${basename(
+              suitePath,
+            )} does not contain any queries.`,
+          );
+        }
+
+        // Run all queries against the same database, even if the selected
+        // database changes while the suite is running.
+        const databaseItem = await this.databaseUI.getDatabaseItem(
+          progress,
+          token,
+        );
+        if (databaseItem === undefined) {
+          throw new Error("Can't run query suite without a selected database");
+        }
+
+        const querySuite: QuerySuiteInfo = {
+          id: nanoid(),
+          name: basename(suitePath, ".qls"),
+          suitePath,
+        };
+        await this.compileAndRunQuerySuite(
+          queryPaths.map((queryPath) => Uri.file(queryPath)),
+          progress,
+          token,
+          databaseItem,
+          querySuite,
+        );
+      },
+      {
+        title: "Running query suite",
+        cancellable: true,
+      },
+    );
+  }
+
+  /**
+   * Runs the queries of a query suite, with at most `codeQL.runningQueries.maxQueries`
+   * queries running at the same time. A failing query does not stop the other queries
+   * of the suite from running; the first error is rethrown once all queries have finished.
+   */
+  private async compileAndRunQuerySuite(
+    queryUris: Uri[],
+    progress: ProgressCallback,
+    token: CancellationToken,
+    databaseItem: DatabaseItem,
+    querySuite: QuerySuiteInfo,
+  ): Promise<void> {
+    const maxQueryCount = MAX_QUERIES.getValue() as number;
+
+    // Use a wrapped progress so that messages appear with the queries remaining in it.
+    let queriesRemaining = queryUris.length;
+
+    function wrappedProgress(update: ProgressUpdate) {
+      const message =
+        queriesRemaining > 1
+          ? `${queriesRemaining} remaining. ${update.message}`
+          : update.message;
+      progress({
+        ...update,
+        message,
+      });
+    }
+
+    wrappedProgress({
+      maxStep: queryUris.length,
+      step: queryUris.length - queriesRemaining,
+      message: "",
+    });
+
+    const pendingQueryUris = [...queryUris];
+    const errors: unknown[] = [];
+    const runPendingQueries = async () => {
+      for (
+        let uri = pendingQueryUris.shift();
+        uri !== undefined && !token.isCancellationRequested;
+        uri = pendingQueryUris.shift()
+      ) {
+        try {
+          await this.compileAndRunQuery(
+            QuickEvalType.None,
+            uri,
+            wrappedProgress,
+            token,
+            databaseItem,
+            undefined,
+            undefined,
+            { querySuite },
+          );
+        } catch (e) {
+          errors.push(e);
+        }
+        queriesRemaining--;
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(maxQueryCount, queryUris.length) },
+        runPendingQueries,
+      ),
+    );
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Runs the query of a query history item again, with the same query text, database,
+   * extension packs and values of external predicates.
+   */
+  private async rerunQueryFromHistory(item: QueryHistoryInfo): Promise<void> {
+    const { initialInfo } = getLocalQueryInfo(item);
+    const databaseItem = this.databaseManager.findDatabaseItem(
+      Uri.parse(initialInfo.databaseInfo.databaseUri, true),
+    );
+    if (databaseItem === undefined) {
+      throw new Error(
+        `Database ${initialInfo.databaseInfo.name} is no longer in the list of databases.`,
+      );
+    }
+
+    await this.rerunQuery(initialInfo, databaseItem, {
+      // Only the selected text of a QuickEval is recorded, so QuickEvals are run on
+      // the current contents of the query file.
+      queryText: initialInfo.isQuickEval ? undefined : initialInfo.queryText,
+      externalPredicateValues: initialInfo.externalPredicateValues,
+      extensionPacks: initialInfo.extensionPacks,
+    });
+  }
+
+  /**
+   * Runs the current contents of the query file of a query history item against a
+   * database selected by the user.
+   */
+  private async rerunQueryFromHistoryOnDatabase(
+    item: QueryHistoryInfo,
+  ): Promise<void> {
+    const { initialInfo } = getLocalQueryInfo(item);
+    const databaseItem = await this.promptForDatabase(
+      initialInfo.databaseInfo.language,
+    );
+
+    await this.rerunQuery(initialInfo, databaseItem, {
+      externalPredicateValues: initialInfo.externalPredicateValues,
+    });
+  }
+
+  private async rerunQuery(
+    initialInfo: InitialQueryInfo,
+    databaseItem: DatabaseItem,
+    options: LocalQueryRunOptions,
+  ): Promise<void> {
+    const quickEval = initialInfo.isQuickEval
+      ? initialInfo.isQuickEvalCount
+        ? QuickEvalType.QuickEvalCount
+        : QuickEvalType.QuickEval
+      : QuickEvalType.None;
+    const quickEvalContext = initialInfo.isQuickEval
+      ? await getQuickEvalContextFromHistory(initialInfo)
+      : undefined;
+
+    await withProgress(
+      async (progress, token) => {
+        await this.compileAndRunQuery(
+          quickEval,
+          Uri.file(initialInfo.queryPath),
+          progress,
+          token,
+          databaseItem,
+          undefined,
+          undefined,
+          { ...options, quickEval: quickEvalContext },
+        );
+      },
+      {
+        title: `Re-running ${basename(initialInfo.queryPath)}`,
+        cancellable: true,
+      },
+    );
+  }
+
+  private async promptForDatabase(
+    language: string | undefined,
+  ): Promise<DatabaseItem> {
+    // If possible, only show databases with the right language (otherwise show all databases).
+    const databaseItems = this.databaseManager.databaseItems.filter(
+      (databaseItem) =>
+        language === undefined || databaseItem.language === language,
+    );
+    if (databaseItems.length === 0) {
+      throw new Error(
+        `No databases found${
+          language === undefined ? "" : ` for language ${language}`
+        }. Please add a suitable database to your workspace.`,
+      );
+    }
+
+    const quickPickItems = databaseItems.map<DatabaseQuickPickItem>(
+      (databaseItem) => ({
+        databaseItem,
+        label: databaseItem.name,
+        description: databaseItem.language,
+      }),
+    );
+    const selected = await window.showQuickPick(quickPickItems, {
+      placeHolder: "Select the database to run the query against",
+      ignoreFocusOut: true,
+    });
+    if (selected === undefined) {
+      throw new UserCancellationException("No database selected", true);
+    }
+    return selected.databaseItem;
+  }
+
   private async quickEval(uri: Uri): Promise<void> {
     await withProgress(
       async (progress, token) => {
@@ -366,6 +647,7 @@ export class LocalQueries extends DisposableObject {
     dbItem: DatabaseItem,
     outputDir: QueryOutputDir,
     tokenSource: CancellationTokenSource,
+    runInfo: QueryRunInfo = {},
   ): Promise<LocalQueryRun> {
     await createTimestampFile(outputDir.querySaveDir);
 
@@ -384,6 +666,7 @@ export class LocalQueries extends DisposableObject {
         language: tryGetQueryLanguage(dbItem.language),
       },
       outputDir,
+      runInfo,
     );
 
     // When cancellation is requested from the query history view, we just stop the debug session.
@@ -410,8 +693,9 @@ export class LocalQueries extends DisposableObject {
     databaseItem: DatabaseItem | undefined,
     range?: Range,
     templates?: Record<string, string>,
-  ): Promise<void> {
-    await this.compileAndRunQueryInternal(
+    options: LocalQueryRunOptions = {},
+  ): Promise<CoreCompletedQuery> {
+    return await this.compileAndRunQueryInternal(
       quickEval,
       queryUri,
       progress,
@@ -419,6 +703,7 @@ export class LocalQueries extends DisposableObject {
       databaseItem,
       range,
       templates,
+      options,
     );
   }
 
@@ -431,6 +716,7 @@ export class LocalQueries extends DisposableObject {
     databaseItem: DatabaseItem | undefined,
     range?: Range,
     templates?: Record<string, string>,
+    options: LocalQueryRunOptions = {},
   ): Promise<CoreCompletedQuery> {
     await saveBeforeStart();
 
@@ -447,11 +733,13 @@ export class LocalQueries extends DisposableObject {
     const selectedQuery: SelectedQuery = {
       queryPath,
       quickEval: quickEval
-        ? await getQuickEvalContext(
+        ? options.quickEval ??
+          (await getQuickEvalContext(
             range,
             quickEval === QuickEvalType.QuickEvalCount,
-          )
+          ))
         : undefined,
+      queryText: options.queryText,
     };
 
     // If no databaseItem is specified, use the database currently selected in the Databases UI
@@ -462,60 +750,157 @@ export class LocalQueries extends DisposableObject {
     }
 
     const additionalPacks = getOnDiskWorkspaceFolders();
-    const extensionPacks = await this.getDefaultExtensionPacks(additionalPacks);
+    const extensionPacks =
+      options.extensionPacks ??
+      (await this.getDefaultExtensionPacks(additionalPacks));
 
-    const coreQueryRun = this.queryRunner.createQueryRun(
-      databaseItem.databaseUri.fsPath,
-      {
-        queryPath: selectedQuery.queryPath,
-        quickEvalPosition: selectedQuery.quickEval?.quickEvalPosition,
-        quickEvalCountOnly: selectedQuery.quickEval?.quickEvalCount,
-      },
-      true,
-      additionalPacks,
-      extensionPacks,
-      {},
-      this.queryStorageDir,
-      undefined,
-      templates,
+    const snapshot = await writeQuerySnapshot(
+      queryPath,
+      options.queryText,
+      tmpDir.name,
     );
-
-    // handle cancellation from the history view.
-    const source = new CancellationTokenSource();
     try {
-      token.onCancellationRequested(() => source.cancel());
+      // Queries that are run with templates, such as the queries of the AST viewer,
+      // get the values of their external predicates from the templates.
+      const externalPredicates =
+        templates === undefined
+          ? await this.resolveExternalPredicates(
+              snapshot?.queryPath ?? queryPath,
+              additionalPacks,
+            )
+          : [];
+      let singletonExternalInputs = templates;
+      let externalInputs: Record<string, string> = {};
+      let externalPredicateValues: ExternalPredicateValues | undefined;
+      if (externalPredicates.length > 0) {
+        externalPredicateValues = await this.getExternalPredicateValues(
+          queryPath,
+          externalPredicates,
+          options.externalPredicateValues,
+        );
+        ({ singletonExternalInputs, externalInputs } =
+          await createExternalInputs(
+            externalPredicates,
+            externalPredicateValues,
+            await mkdtemp(join(tmpDir.name, "external-inputs-")),
+          ));
+      }
+      if (
+        Object.keys(externalInputs).length > 0 &&
+        !this.queryRunner.supportsExternalInputs
+      ) {
+        void showAndLogWarningMessage(
+          this.app.logger,
+          `The query server of this version of the CodeQL CLI only supports external predicates with a single value. The values of ${Object.keys(
+            externalInputs,
+          ).join(", ")} are ignored. Upgrade the CodeQL CLI to use them.`,
+        );
+      }
 
-      const localQueryRun = await this.createLocalQueryRun(
-        selectedQuery,
-        databaseItem,
-        coreQueryRun.outputDir,
-        source,
+      const coreQueryRun = this.queryRunner.createQueryRun(
+        databaseItem.databaseUri.fsPath,
+        {
+          queryPath: snapshot?.queryPath ?? selectedQuery.queryPath,
+          quickEvalPosition: selectedQuery.quickEval?.quickEvalPosition,
+          quickEvalCountOnly: selectedQuery.quickEval?.quickEvalCount,
+        },
+        true,
+        additionalPacks,
+        extensionPacks,
+        Object.keys(externalInputs).length > 0 ? { externalInputs } : {},
+        this.queryStorageDir,
+        undefined,
+        singletonExternalInputs,
       );
 
+      // handle cancellation from the history view.
+      const source = new CancellationTokenSource();
       try {
-        const results = await coreQueryRun.evaluate(
-          progress,
-          source.token,
-          localQueryRun.logger,
+        token.onCancellationRequested(() => source.cancel());
+
+        const localQueryRun = await this.createLocalQueryRun(
+          selectedQuery,
+          databaseItem,
+          coreQueryRun.outputDir,
+          source,
+          {
+            querySuite: options.querySuite,
+            externalPredicateValues,
+            extensionPacks,
+          },
         );
 
-        await localQueryRun.complete(results);
-
-        return results;
-      } catch (e) {
-        // It's odd that we have two different ways for a query evaluation to fail: by throwing an
-        // exception, and by returning a result with a failure code. This is how the code worked
-        // before the refactoring, so it's been preserved, but we should probably figure out how
-        // to unify both error handling paths.
-        const err = asError(e);
-        await localQueryRun.fail(err);
-        throw e;
+        try {
+          const results = await coreQueryRun.evaluate(
+            progress,
+            source.token,
+            localQueryRun.logger,
+          );
+
+          await localQueryRun.complete(results);
+
+          return results;
+        } catch (e) {
+          // It's odd that we have two different ways for a query evaluation to fail: by throwing an
+          // exception, and by returning a result with a failure code. This is how the code worked
+          // before the refactoring, so it's been preserved, but we should probably figure out how
+          // to unify both error handling paths.
+          const err = asError(e);
+          await localQueryRun.fail(err);
+          throw e;
+        }
+      } finally {
+        source.dispose();
       }
     } finally {
-      source.dispose();
+      await snapshot?.cleanup();
     }
   }
 
+  /**
+   * Finds the external predicates that a query uses, including those declared in the
+   * libraries that it imports, by compiling the query with the CLI. Queries that can't use
+   * external predicates are not compiled.
+   *
+   * @returns The external predicates, or none if the query could not be compiled. In that
+   * case, the compilation errors are reported when the query is run.
+   */
+  private async resolveExternalPredicates(
+    queryPath: string,
+    additionalPacks: string[],
+  ): Promise<ExternalPredicate[]> {
+    if (!(await mayUseExternalPredicates(queryPath))) {
+      return [];
+    }
+
+    const compiledQueryDir = join(tmpDir.name, "external-predicates");
+    const compiledQueryPath = join(compiledQueryDir, `${nanoid()}.qlo`);
+    let dil: string;
+    try {
+      await ensureDir(compiledQueryDir);
+      dil = await this.cliServer.compileQueryToDil(
+        queryPath,
+        additionalPacks,
+        compiledQueryPath,
+      );
+    } catch (e) {
+      void this.app.logger.log(
+        `Could not find the external predicates of ${queryPath}: ${getErrorMessage(
+          e,
+        )}`,
+      );
+      return [];
+    } finally {
+      await remove(compiledQueryPath);
+    }
+
+    const { predicates, warnings } = parseExternalPredicates(dil);
+    for (const warning of warnings) {
+      void showAndLogWarningMessage(this.app.logger, warning);
+    }
+    return predicates;
+  }
+
   private async compileAndRunQueryOnMultipleDatabases(
     progress: ProgressCallback,
     token: CancellationToken,
@@ -587,6 +972,57 @@ export class LocalQueries extends DisposableObject {
     }
   }
 
+  /**
+   * Gets the values of the external predicates of a query from the given known values
+   * and the sidecar files of the query, and prompts the user for the values of the
+   * remaining predicates.
+   */
+  private async getExternalPredicateValues(
+    queryPath: string,
+    predicates: ExternalPredicate[],
+    knownValues: ExternalPredicateValues = {},
+  ): Promise<ExternalPredicateValues> {
+    const valuesFromFiles = await readExternalPredicateValuesFromFiles(
+      queryPath,
+      predicates,
+    );
+
+    const values: ExternalPredicateValues = {};
+    for (const predicate of predicates) {
+      const knownRows =
+        knownValues[predicate.name] ?? valuesFromFiles[predicate.name];
+      if (
+        knownRows !== undefined &&
+        validateExternalPredicateRows(predicate, knownRows) === undefined
+      ) {
+        values[predicate.name] = knownRows;
+        continue;
+      }
+
+      const singleton = isSingletonExternalPredicate(predicate);
+      const parseInput = (input: string) =>
+        singleton ? [[input]] : parseExternalPredicateRows(input, ";");
+      const signature = getExternalPredicateSignature(predicate);
+      const input = await window.showInputBox({
+        title: `Value of external predicate ${predicate.name}`,
+        prompt: singleton
+          ? `Enter the value of ${signature}.`
+          : `Enter the rows of ${signature} as comma-separated values. Separate rows with ';'.`,
+        ignoreFocusOut: true,
+        validateInput: (input) =>
+          validateExternalPredicateRows(predicate, parseInput(input)),
+      });
+      if (input === undefined) {
+        throw new UserCancellationException(
+          `No value given for external predicate ${predicate.name}`,
+          true,
+        );
+      }
+      values[predicate.name] = parseInput(input);
+    }
+    return values;
+  }
+
   public async showResultsForCompletedQuery(
     query: CompletedLocalQueryInfo,
     forceReveal: WebviewReveal,
@@ -603,6 +1039,47 @@ export class LocalQueries extends DisposableObject {
   }
 }
 
+function getLocalQueryInfo(item: QueryHistoryInfo): LocalQueryInfo {
+  if (item.t !== "local") {
+    throw new Error("Only local queries can be re-run.");
+  }
+  return item;
+}
+
+/**
+ * Gets the QuickEval selection of a query history item. If the selected text has changed
+ * since the item was run, the user is asked whether to evaluate the current text instead.
+ */
+async function getQuickEvalContextFromHistory(
+  initialInfo: InitialQueryInfo,
+): Promise<QuickEvalContext> {
+  const quickEvalPosition = initialInfo.quickEvalPosition;
+  if (quickEvalPosition === undefined) {
+    throw new Error("The selection of this quick evaluation was not recorded.");
+  }
+
+  const quickEvalText = getQuickEvalText(
+    await readFile(quickEvalPosition.fileName, "utf8"),
+    quickEvalPosition,
+  );
+  if (
+    quickEvalText !== initialInfo.queryText &&
+    !(await showBinaryChoiceDialog(
+      `The selected text in ${basename(
+        quickEvalPosition.fileName,
+      )} has changed since the quick evaluation was run. Evaluate the current text instead?`,
+    ))
+  ) {
+    throw new UserCancellationException("The selected text has changed", true);
+  }
+
+  return {
+    quickEvalPosition,
+    quickEvalText,
+    quickEvalCount: initialInfo.isQuickEvalCount === true,
+  };
+}
+
 function isTabInputText(input: any): input is TabInputText {
   return input?.uri !== undefined;
 }
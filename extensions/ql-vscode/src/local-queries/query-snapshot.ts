@@ -0,0 +1,84 @@
+import { copy, outputFile, pathExists, readFile, stat } from "fs-extra";
+import { dir } from "tmp-promise";
+import { basename, extname, join, relative } from "path";
+import type { Position } from "../query-server/messages-shared";
+import { findPackRoot, getQlPackPath } from "../common/ql";
+
+/**
+ * The files of a pack that a query snapshot may need to resolve its imports and its
+ * dependencies: libraries, pack files and database schemes.
+ */
+const SNAPSHOT_PACK_FILE_EXTENSIONS = [".qll", ".yml", ".dbscheme"];
+
+/**
+ * Writes a snapshot of a query to a temporary directory. The pack of the query is copied
+ * to the directory as well, without its queries, so that the snapshot resolves its imports
+ * and its pack in the same way as the query itself.
+ *
+ * @returns The path of the snapshot and a function that removes the directory, or
+ * `undefined` if the query file already contains the text of the snapshot.
+ */
+export async function writeQuerySnapshot(
+  queryPath: string,
+  queryText: string | undefined,
+  tmpDirPath: string,
+): Promise<{ queryPath: string; cleanup: () => Promise<void> } | undefined> {
+  if (
+    queryText === undefined ||
+    ((await pathExists(queryPath)) &&
+      (await readFile(queryPath, "utf8")) === queryText)
+  ) {
+    return undefined;
+  }
+
+  const packRoot = await findPackRoot(queryPath);
+  // A query that is not in a pack can only import the libraries next to it
+  const isPack = (await getQlPackPath(packRoot)) !== undefined;
+  const { path: snapshotDir, cleanup } = await dir({
+    dir: tmpDirPath,
+    prefix: "query-snapshot-",
+    unsafeCleanup: true,
+  });
+  const snapshotPackRoot = join(snapshotDir, basename(packRoot));
+
+  await copy(packRoot, snapshotPackRoot, {
+    filter: async (path) => {
+      if (path === packRoot) {
+        return true;
+      }
+      if ((await stat(path)).isDirectory()) {
+        // Don't copy hidden directories, such as the compilation cache
+        return isPack && !basename(path).startsWith(".");
+      }
+      return SNAPSHOT_PACK_FILE_EXTENSIONS.includes(extname(path));
+    },
+  });
+
+  const snapshotPath = join(snapshotPackRoot, relative(packRoot, queryPath));
+  await outputFile(snapshotPath, queryText, "utf8");
+  return { queryPath: snapshotPath, cleanup };
+}
+
+/**
+ * Gets the text that is evaluated by a QuickEval at the given position of a file. As
+ * in the editor, an empty selection evaluates the entire line.
+ */
+export function getQuickEvalText(fileText: string, position: Position): string {
+  const lines = fileText.split("\n");
+  if (
+    position.line === position.endLine &&
+    position.column === position.endColumn
+  ) {
+    return (lines[position.line - 1] ?? "").trim();
+  }
+
+  const selectedLines = lines.slice(position.line - 1, position.endLine);
+  if (selectedLines.length === 0) {
+    return "";
+  }
+  selectedLines[selectedLines.length - 1] = selectedLines[
+    selectedLines.length - 1
+  ].slice(0, position.endColumn - 1);
+  selectedLines[0] = selectedLines[0].slice(position.column - 1);
+  return selectedLines.join("\n").trim();
+}
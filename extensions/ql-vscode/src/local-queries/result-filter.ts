@@ -0,0 +1,163 @@
+import * as Sarif from "sarif";
+import { CellValue, ResultRow } from "../common/bqrs-cli-types";
+import { tryGetResolvableLocation } from "../common/bqrs-utils";
+import {
+  RawResultsColumnFilter,
+  RawResultsFilterState,
+} from "../common/interface-types";
+
+/**
+ * Checks whether a filter state would remove any rows, i.e. whether it has a
+ * search text or at least one column filter.
+ */
+export function isFilterActive(
+  filterState: RawResultsFilterState | undefined,
+): filterState is RawResultsFilterState {
+  return (
+    filterState !== undefined &&
+    (filterState.searchText.trim() !== "" ||
+      filterState.columnFilters.length > 0)
+  );
+}
+
+/**
+ * Creates a predicate that returns whether a row of a raw result set matches
+ * the filter state.
+ *
+ * @throws Error if a column filter contains an invalid regular expression.
+ */
+export function createRowFilter(
+  filterState: RawResultsFilterState,
+): (row: ResultRow) => boolean {
+  const searchText = filterState.searchText.trim().toLowerCase();
+  const columnFilters = filterState.columnFilters.map(createCellFilter);
+
+  return (row) =>
+    (searchText === "" ||
+      row.some((cell) =>
+        getCellText(cell).toLowerCase().includes(searchText),
+      )) &&
+    columnFilters.every(
+      ({ columnIndex, matches }) =>
+        columnIndex < row.length && matches(row[columnIndex]),
+    );
+}
+
+/**
+ * Creates a predicate that returns whether an alert matches the filter state. The
+ * columns of the filter are those of `ALERTS_FILTER_COLUMNS`.
+ *
+ * @throws Error if a column filter contains an invalid regular expression.
+ */
+export function createAlertFilter(
+  filterState: RawResultsFilterState,
+): (result: Sarif.Result) => boolean {
+  const rowFilter = createRowFilter(filterState);
+
+  return (result) => {
+    const uri =
+      result.locations?.[0]?.physicalLocation?.artifactLocation?.uri ?? "";
+    return rowFilter([result.message.text ?? "", decodeURIComponent(uri)]);
+  };
+}
+
+function createCellFilter(filter: RawResultsColumnFilter): {
+  columnIndex: number;
+  matches: (cell: CellValue) => boolean;
+} {
+  const { columnIndex } = filter;
+  switch (filter.kind) {
+    case "substring": {
+      const text = filter.text.toLowerCase();
+      return {
+        columnIndex,
+        matches: (cell) => getCellText(cell).toLowerCase().includes(text),
+      };
+    }
+    case "regex": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(filter.pattern);
+      } catch (e) {
+        throw new Error(
+          `Invalid regular expression '${filter.pattern}' in the filter of column ${columnIndex}.`,
+        );
+      }
+      return {
+        columnIndex,
+        matches: (cell) => regex.test(getCellText(cell)),
+      };
+    }
+    case "range": {
+      const { min, max } = filter;
+      return {
+        columnIndex,
+        matches: (cell) =>
+          typeof cell === "number" &&
+          (min === undefined || cell >= min) &&
+          (max === undefined || cell <= max),
+      };
+    }
+    case "glob": {
+      const regex = globToRegExp(filter.pattern);
+      return {
+        columnIndex,
+        matches: (cell) => {
+          const path = getCellPath(cell);
+          return path !== undefined && regex.test(path);
+        },
+      };
+    }
+  }
+}
+
+function getCellText(cell: CellValue): string {
+  return typeof cell === "object" ? cell.label ?? "" : cell.toString();
+}
+
+/**
+ * Gets the file path of a cell. For entities this is the path of their
+ * location, and for strings this is the string itself.
+ */
+function getCellPath(cell: CellValue): string | undefined {
+  if (typeof cell === "string") {
+    return cell;
+  }
+  if (typeof cell !== "object") {
+    return undefined;
+  }
+  const location = tryGetResolvableLocation(cell.url);
+  if (location === undefined) {
+    return undefined;
+  }
+  return decodeURIComponent(location.uri.replace(/^file:/, ""));
+}
+
+/**
+ * Converts a file path glob to a regular expression. `*` and `?` match within
+ * a single path segment, and `**` matches any number of segments. Since file
+ * paths in a database are absolute, the pattern may match any trailing
+ * segments of the path, so `src/*.js` matches `/home/user/project/src/a.js`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`(?:^|/)${source}$`);
+}
@@ -5,11 +5,17 @@ import {
   DiagnosticRelatedInformation,
   DiagnosticSeverity,
   languages,
+  QuickPickItem,
   Uri,
   window as Window,
+  workspace,
   env,
   WebviewPanel,
+  WorkspaceFolder,
 } from "vscode";
+import { homedir } from "os";
+import { basename, extname, join } from "path";
+import { writeFile } from "fs-extra";
 import * as cli from "../codeql-cli/cli";
 import { CodeQLCliServer } from "../codeql-cli/cli";
 import {
@@ -24,6 +30,7 @@ import {
   getErrorStack,
 } from "../common/helpers-pure";
 import {
+  DatabaseInfo,
   FromResultsViewMsg,
   Interpretation,
   IntoResultsViewMsg,
@@ -39,9 +46,14 @@ import {
   NavigationDirection,
   getDefaultResultSetName,
   ParsedResultSets,
+  RawResultsFilterState,
 } from "../common/interface-types";
 import { extLogger } from "../common/logging/vscode";
-import { Logger, showAndLogExceptionWithTelemetry } from "../common/logging";
+import {
+  Logger,
+  showAndLogExceptionWithTelemetry,
+  showAndLogWarningMessage,
+} from "../common/logging";
 import {
   CompletedQueryInfo,
   interpretResultsSarif,
@@ -50,6 +62,7 @@ import {
 } from "../query-results";
 import { QueryEvaluationInfo } from "../run-queries-shared";
 import {
+  mergeSarifRuns,
   parseSarifLocation,
   parseSarifPlainTextMessage,
 } from "../common/sarif-utils";
@@ -59,10 +72,13 @@ import {
   shownLocationDecoration,
   shownLocationLineDecoration,
   jumpToLocation,
+  showResolvableLocation,
+  SourceFileResolver,
 } from "../databases/local-databases/locations";
 import {
   RawResultSet,
   transformBqrsResultSet,
+  ResultRow,
   ResultSetSchema,
 } from "../common/bqrs-cli-types";
 import {
@@ -76,6 +92,30 @@ import { redactableError } from "../common/errors";
 import { ResultsViewCommands } from "../common/commands";
 import { App } from "../common/app";
 import { Disposable } from "../common/disposable-object";
+import { showInformationMessageWithAction } from "../common/vscode/dialog";
+import {
+  alertsToExportableResults,
+  createSarifLogForAlerts,
+  EntityExportStyle,
+  exportResults,
+  getColumnNames,
+  getExportFileExtension,
+  ResultsExportFormat,
+} from "./export-results";
+import {
+  createAlertFilter,
+  createRowFilter,
+  isFilterActive,
+} from "./result-filter";
+import { sarifParser } from "../common/sarif-parser";
+import { tryGetQueryLanguage } from "../common/query-language";
+import {
+  ALERT_BASELINE_FILE_NAME,
+  markAlertBaselineResults,
+  readAlertBaseline,
+  updateAlertBaseline,
+  writeAlertBaseline,
+} from "./alert-baseline";
 
 /**
  * results-view.ts
@@ -141,6 +181,35 @@ function numPagesOfResultSet(
   return Math.ceil(n / pageSize);
 }
 
+/**
+ * Gets the results of the first run of the interpretation, without the results that are
+ * in the alert baseline if those are hidden.
+ */
+function getUnfilteredSarifResults(
+  interpretation: Interpretation,
+): Sarif.Result[] {
+  if (interpretation.data.t !== "SarifInterpretationData") {
+    return [];
+  }
+  const results = interpretation.data.runs[0]?.results ?? [];
+  return interpretation.baseline?.hidden
+    ? results.filter((result) => result.baselineState !== "unchanged")
+    : results;
+}
+
+/**
+ * Gets the results of the first run of the interpretation that are shown in the results
+ * view: those that are not hidden by the alert baseline and that match the filter.
+ */
+function getDisplayedSarifResults(
+  interpretation: Interpretation,
+): Sarif.Result[] {
+  const results = getUnfilteredSarifResults(interpretation);
+  return interpretation.filter
+    ? results.filter(createAlertFilter(interpretation.filter.state))
+    : results;
+}
+
 function numInterpretedPages(
   interpretation: Interpretation | undefined,
 ): number {
@@ -153,11 +222,101 @@ function numInterpretedPages(
   const n =
     interpretation.data.t === "GraphInterpretationData"
       ? interpretation.data.dot.length
-      : interpretation.data.runs[0].results?.length || 0;
+      : getDisplayedSarifResults(interpretation).length;
 
   return Math.ceil(n / pageSize);
 }
 
+async function promptForExportFormat(): Promise<
+  ResultsExportFormat | undefined
+> {
+  const options: Array<QuickPickItem & { format: ResultsExportFormat }> = [
+    { label: "CSV", description: "Comma-separated values", format: "csv" },
+    { label: "TSV", description: "Tab-separated values", format: "tsv" },
+    { label: "JSON Lines", description: "One object per row", format: "jsonl" },
+    { label: "Markdown", description: "Markdown table", format: "markdown" },
+    { label: "SARIF", description: "SARIF log", format: "sarif" },
+  ];
+  const choice = await Window.showQuickPick(options, {
+    placeHolder: "Select export format",
+    ignoreFocusOut: true,
+  });
+  return choice?.format;
+}
+
+async function promptForEntityExportStyle(): Promise<
+  EntityExportStyle | undefined
+> {
+  const options: Array<QuickPickItem & { style: EntityExportStyle }> = [
+    {
+      label: "Labels",
+      description: "Write entities as their label",
+      style: "label",
+    },
+    {
+      label: "Locations",
+      description: "Write entities as file:line:col links",
+      style: "location",
+    },
+  ];
+  const choice = await Window.showQuickPick(options, {
+    placeHolder: "Select how entity columns are exported",
+    ignoreFocusOut: true,
+  });
+  return choice?.style;
+}
+
+async function promptForExportScope(): Promise<"page" | "all" | undefined> {
+  const options: Array<QuickPickItem & { scope: "page" | "all" }> = [
+    { label: "Current page", scope: "page" },
+    { label: "All results", scope: "all" },
+  ];
+  const choice = await Window.showQuickPick(options, {
+    placeHolder: "Select which results to export",
+    ignoreFocusOut: true,
+  });
+  return choice?.scope;
+}
+
+/**
+ * A SARIF file that is shown in the results view, rather than the results of a query
+ * history item. The file may have been produced outside of the extension, such as by
+ * `codeql database analyze`.
+ */
+interface DisplayedSarifFile {
+  path: string;
+  /** The database or workspace folder that the source locations are resolved against. */
+  database: DatabaseInfo;
+  sourceFileResolver: SourceFileResolver;
+  /** The results in the order of the file, used when the results are no longer sorted. */
+  results: Sarif.Result[];
+}
+
+interface SourceLocationsQuickPickItem extends QuickPickItem {
+  databaseItem?: DatabaseItem;
+  workspaceFolder?: WorkspaceFolder;
+}
+
+function getAlertBaselinePath(): string | undefined {
+  const workspaceFolder = workspace.workspaceFolders?.[0];
+  return workspaceFolder === undefined
+    ? undefined
+    : join(workspaceFolder.uri.fsPath, ALERT_BASELINE_FILE_NAME);
+}
+
+/**
+ * Resolves the files of source locations against a workspace folder, in the same way
+ * as a database without a source archive.
+ */
+export function createWorkspaceFolderSourceFileResolver(
+  workspaceFolder: WorkspaceFolder,
+): SourceFileResolver {
+  return {
+    resolveSourceFile: (uri) =>
+      uri === undefined ? workspaceFolder.uri : Uri.parse(uri, true),
+  };
+}
+
 /**
  * The results view is used for displaying the results of a local query. It is a singleton; only 1 results view exists
  * in the extension. It is created when the extension is activated and disposed of when the extension is deactivated.
@@ -169,7 +328,24 @@ export class ResultsView extends AbstractWebview<
   FromResultsViewMsg
 > {
   private _displayedQuery?: CompletedLocalQueryInfo;
+  private _displayedSarifFile?: DisplayedSarifFile;
   private _interpretation?: Interpretation;
+  /** The page of interpreted results that was most recently shown. */
+  private _interpretedPageNumber = 0;
+  /** Whether the alerts in the alert baseline are hidden, rather than de-emphasised. */
+  private _hideBaselineAlerts = false;
+  /** The filter of the alerts of the displayed query or SARIF file. */
+  private _alertsFilter?: RawResultsFilterState;
+  /** The filters of the raw result sets of the displayed query, keyed by result set name. */
+  private readonly _rawResultsFilters = new Map<
+    string,
+    RawResultsFilterState
+  >();
+  /**
+   * The rows of the most recently filtered result set. This avoids reading and filtering the
+   * whole result set again when changing pages.
+   */
+  private _filteredRowsCache?: { key: string; rows: ResultRow[] };
 
   private readonly _diagnosticCollection = languages.createDiagnosticCollection(
     "codeql-query-results",
@@ -236,6 +412,7 @@ export class ResultsView extends AbstractWebview<
         this,
         NavigationDirection.up,
       ),
+      "codeQL.openSarifFile": this.openSarifFile.bind(this),
     };
   }
 
@@ -262,6 +439,7 @@ export class ResultsView extends AbstractWebview<
 
   protected onPanelDispose(): void {
     this._displayedQuery = undefined;
+    this._displayedSarifFile = undefined;
   }
 
   protected async onMessage(msg: FromResultsViewMsg): Promise<void> {
@@ -271,16 +449,33 @@ export class ResultsView extends AbstractWebview<
           this.onWebViewLoaded();
           break;
         case "viewSourceFile": {
-          await jumpToLocation(
-            msg.databaseUri,
-            msg.loc,
-            this.databaseManager,
-            this.logger,
-          );
+          if (this._displayedSarifFile !== undefined) {
+            await showResolvableLocation(
+              msg.loc,
+              this._displayedSarifFile.sourceFileResolver,
+              this.logger,
+            );
+          } else {
+            await jumpToLocation(
+              msg.databaseUri,
+              msg.loc,
+              this.databaseManager,
+              this.logger,
+            );
+          }
           break;
         }
         case "toggleDiagnostics": {
-          if (msg.visible) {
+          if (
+            msg.visible &&
+            this._displayedSarifFile !== undefined &&
+            this._interpretation !== undefined
+          ) {
+            await this.showInterpretationAsDiagnostics(
+              this._interpretation,
+              this._displayedSarifFile.sourceFileResolver,
+            );
+          } else if (msg.visible) {
             const databaseItem = this.databaseManager.findDatabaseItem(
               Uri.parse(msg.databaseUri),
             );
@@ -301,6 +496,9 @@ export class ResultsView extends AbstractWebview<
           await this.changeRawSortState(msg.resultSetName, msg.sortState);
           telemetryListener?.sendUIInteraction("local-results-column-sorting");
           break;
+        case "changeFilter":
+          await this.changeRawFilterState(msg.resultSetName, msg.filterState);
+          break;
         case "changeInterpretedSort":
           await this.changeInterpretedSortState(msg.sortState);
           break;
@@ -327,6 +525,17 @@ export class ResultsView extends AbstractWebview<
         case "openFile":
           await this.openFile(msg.filePath);
           break;
+        case "exportResults":
+          await this.exportSelectedResults(msg.selectedTable, msg.pageNumber);
+          telemetryListener?.sendUIInteraction("local-results-export");
+          break;
+        case "changeAlertBaseline":
+          await this.changeAlertBaseline(msg.results, msg.accepted);
+          break;
+        case "toggleBaselineAlerts":
+          this._hideBaselineAlerts = msg.hidden;
+          await this.refreshAlertBaseline(0);
+          break;
         case "telemetry":
           telemetryListener?.sendUIInteraction(msg.action);
           break;
@@ -393,6 +602,18 @@ export class ResultsView extends AbstractWebview<
   private async changeInterpretedSortState(
     sortState: InterpretedResultsSortState | undefined,
   ): Promise<void> {
+    if (
+      this._displayedSarifFile !== undefined &&
+      this._interpretation?.data.t === "SarifInterpretationData"
+    ) {
+      const results = [...this._displayedSarifFile.results];
+      sortInterpretedResults(results, sortState);
+      this._interpretation.data.runs[0].results = results;
+      this._interpretation.data.sortState = sortState;
+      await this.applyAlertBaseline(this._interpretation);
+      await this.showPageOfInterpretedResults(0);
+      return;
+    }
     if (this._displayedQuery === undefined) {
       void showAndLogExceptionWithTelemetry(
         extLogger,
@@ -435,6 +656,64 @@ export class ResultsView extends AbstractWebview<
     await this.showPageOfRawResults(resultSetName, 0, true);
   }
 
+  private async changeRawFilterState(
+    resultSetName: string,
+    filterState: RawResultsFilterState | undefined,
+  ): Promise<void> {
+    if (resultSetName === ALERTS_TABLE_NAME) {
+      await this.changeAlertsFilterState(filterState);
+      return;
+    }
+    if (this._displayedQuery === undefined) {
+      void showAndLogExceptionWithTelemetry(
+        extLogger,
+        telemetryListener,
+        redactableError`Failed to filter results since evaluation info was unknown.`,
+      );
+      return;
+    }
+    if (isFilterActive(filterState)) {
+      // Check that the filter is valid before storing it.
+      createRowFilter(filterState);
+      this._rawResultsFilters.set(resultSetName, filterState);
+    } else {
+      this._rawResultsFilters.delete(resultSetName);
+    }
+    // Notify the webview that it should expect new results.
+    await this.postMessage({ t: "resultsUpdating" });
+    // Filtering resets to the first page, since the current page may no
+    // longer exist.
+    await this.showPageOfRawResults(
+      resultSetName,
+      0,
+      !!this._displayedQuery.completedQuery.sortedResultsInfo[resultSetName],
+    );
+  }
+
+  private async changeAlertsFilterState(
+    filterState: RawResultsFilterState | undefined,
+  ): Promise<void> {
+    if (this._interpretation === undefined) {
+      void showAndLogExceptionWithTelemetry(
+        extLogger,
+        telemetryListener,
+        redactableError`Failed to filter alerts since the results were not interpreted.`,
+      );
+      return;
+    }
+    if (isFilterActive(filterState)) {
+      // Check that the filter is valid before storing it.
+      createAlertFilter(filterState);
+      this._alertsFilter = filterState;
+    } else {
+      this._alertsFilter = undefined;
+    }
+    this.applyAlertsFilter(this._interpretation);
+    // Notify the webview that it should expect new results.
+    await this.postMessage({ t: "resultsUpdating" });
+    await this.showPageOfInterpretedResults(0);
+  }
+
   /**
    * Show query results in webview panel.
    * @param fullQuery Evaluation info for the executed query.
@@ -455,7 +734,12 @@ export class ResultsView extends AbstractWebview<
 
     const panel = await this.getPanel();
 
+    this._displayedSarifFile = undefined;
     this._interpretation = undefined;
+    this._interpretedPageNumber = 0;
+    this._rawResultsFilters.clear();
+    this._filteredRowsCache = undefined;
+    this._alertsFilter = undefined;
     const interpretationPage = await this.interpretResultsInfo(
       fullQuery.completedQuery.query,
       fullQuery.completedQuery.interpretedResultsSortState,
@@ -556,10 +840,151 @@ export class ResultsView extends AbstractWebview<
     });
   }
 
+  /**
+   * Opens a SARIF file in the results view. The user chooses whether the source
+   * locations of the results are resolved against a database or a workspace folder.
+   *
+   * @param uri The SARIF file, or `undefined` to ask the user for a file.
+   */
+  async openSarifFile(uri?: Uri): Promise<void> {
+    const sarifUri = uri ?? (await this.promptForSarifFile());
+    if (sarifUri === undefined) {
+      return;
+    }
+
+    const item = await this.promptForSourceLocations();
+    if (item === undefined) {
+      return;
+    }
+
+    if (item.databaseItem !== undefined) {
+      const { databaseItem } = item;
+      await this.showSarifFile(
+        sarifUri.fsPath,
+        {
+          databaseUri: databaseItem.databaseUri.toString(),
+          name: databaseItem.name,
+          language: tryGetQueryLanguage(databaseItem.language),
+        },
+        databaseItem,
+        await databaseItem.getSourceLocationPrefix(this.cliServer),
+      );
+    } else if (item.workspaceFolder !== undefined) {
+      const { workspaceFolder } = item;
+      await this.showSarifFile(
+        sarifUri.fsPath,
+        {
+          databaseUri: workspaceFolder.uri.toString(),
+          name: workspaceFolder.name,
+        },
+        createWorkspaceFolderSourceFileResolver(workspaceFolder),
+        workspaceFolder.uri.fsPath,
+      );
+    }
+  }
+
+  private async promptForSarifFile(): Promise<Uri | undefined> {
+    const uris = await Window.showOpenDialog({
+      title: "Open SARIF File",
+      openLabel: "Open",
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      filters: { SARIF: ["sarif", "json"] },
+    });
+    return uris?.[0];
+  }
+
+  private async promptForSourceLocations(): Promise<
+    SourceLocationsQuickPickItem | undefined
+  > {
+    const currentDatabaseItem = this.databaseManager.currentDatabaseItem;
+    const databaseItems = [...this.databaseManager.databaseItems].sort(
+      (a, b) =>
+        Number(b === currentDatabaseItem) - Number(a === currentDatabaseItem),
+    );
+    const items: SourceLocationsQuickPickItem[] = [
+      ...databaseItems.map((databaseItem) => ({
+        label: `$(database) ${databaseItem.name}`,
+        description: databaseItem.language,
+        databaseItem,
+      })),
+      ...(workspace.workspaceFolders ?? []).map((workspaceFolder) => ({
+        label: `$(folder) ${workspaceFolder.name}`,
+        description: "Workspace folder",
+        workspaceFolder,
+      })),
+    ];
+    if (items.length === 0) {
+      throw new Error(
+        "Add a database or open a workspace folder to resolve the source locations of the SARIF file.",
+      );
+    }
+
+    return Window.showQuickPick(items, {
+      title: "Resolve the source locations of the SARIF file against",
+      placeHolder: "Select a database or workspace folder",
+      ignoreFocusOut: true,
+    });
+  }
+
+  /**
+   * Shows the results of a SARIF file. The results of all runs are merged into a single run.
+   *
+   * @param sarifPath The path to the SARIF file.
+   * @param database The database or workspace folder that source locations are resolved against.
+   * @param sourceFileResolver Resolves the files of source locations.
+   * @param sourceLocationPrefix The path that relative source locations are relative to.
+   */
+  private async showSarifFile(
+    sarifPath: string,
+    database: DatabaseInfo,
+    sourceFileResolver: SourceFileResolver,
+    sourceLocationPrefix: string,
+  ): Promise<void> {
+    const sarif = await sarifParser(sarifPath);
+    const run = mergeSarifRuns(sarif.runs);
+    const results = run?.results ?? [];
+
+    const panel = await this.getPanel();
+
+    this._displayedQuery = undefined;
+    this._rawResultsFilters.clear();
+    this._filteredRowsCache = undefined;
+    this._alertsFilter = undefined;
+    this._interpretation = {
+      data: {
+        ...sarif,
+        runs: run === undefined ? [] : [run],
+        t: "SarifInterpretationData",
+      },
+      sourceLocationPrefix,
+      numTruncatedResults: 0,
+      numTotalResults: results.length,
+    };
+    this._displayedSarifFile = {
+      path: sarifPath,
+      database,
+      sourceFileResolver,
+      results: [...results],
+    };
+    await this.applyAlertBaseline(this._interpretation);
+    this.applyAlertsFilter(this._interpretation);
+
+    await this.waitForPanelLoaded();
+    panel.reveal(undefined, true);
+    await this.showPageOfInterpretedResults(0);
+  }
+
   /**
    * Show a page of interpreted results
    */
   public async showPageOfInterpretedResults(pageNumber: number): Promise<void> {
+    this._interpretedPageNumber = pageNumber;
+    if (this._displayedSarifFile !== undefined) {
+      await this.showPageOfSarifFile(this._displayedSarifFile, pageNumber);
+      return;
+    }
     if (this._displayedQuery === undefined) {
       throw new Error(
         "Trying to show interpreted results but displayed query was undefined",
@@ -598,6 +1023,29 @@ export class ResultsView extends AbstractWebview<
     });
   }
 
+  private async showPageOfSarifFile(
+    sarifFile: DisplayedSarifFile,
+    pageNumber: number,
+  ): Promise<void> {
+    if (this._interpretation === undefined) {
+      throw new Error(
+        "Trying to show a SARIF file but interpretation was undefined",
+      );
+    }
+
+    await this.postMessage({
+      t: "showInterpretedPage",
+      interpretation: this.getPageOfInterpretedResults(pageNumber),
+      database: sarifFile.database,
+      pageNumber,
+      resultSetNames: [],
+      pageSize: interpretedPageSize(this._interpretation),
+      numPages: numInterpretedPages(this._interpretation),
+      queryName: basename(sarifFile.path),
+      queryPath: sarifFile.path,
+    });
+  }
+
   private async getResultSetSchemas(
     completedQuery: CompletedQueryInfo,
     selectedTable = "",
@@ -615,6 +1063,158 @@ export class ResultsView extends AbstractWebview<
     await vscode.window.showTextDocument(textDocument, vscode.ViewColumn.One);
   }
 
+  /**
+   * Exports the selected result set to a file chosen by the user. The user is
+   * prompted for the export format, how entities should be written, and
+   * whether to export only the current page or all results. The current sort
+   * order and filter of the results are kept.
+   */
+  private async exportSelectedResults(
+    selectedTable: string,
+    pageNumber: number,
+  ): Promise<void> {
+    const query = this._displayedQuery;
+    const sarifFile = this._displayedSarifFile;
+    let queryName: string;
+    if (sarifFile !== undefined) {
+      queryName = basename(sarifFile.path, extname(sarifFile.path));
+    } else if (query !== undefined) {
+      queryName = query.getQueryName().replace(/\.ql$/, "");
+    } else {
+      throw new Error("Trying to export results but no query is displayed");
+    }
+    if (selectedTable === GRAPH_TABLE_NAME) {
+      throw new Error("Graph results cannot be exported.");
+    }
+
+    const format = await promptForExportFormat();
+    if (format === undefined) {
+      return;
+    }
+    const entityStyle = await promptForEntityExportStyle();
+    if (entityStyle === undefined) {
+      return;
+    }
+    const scope = await promptForExportScope();
+    if (scope === undefined) {
+      return;
+    }
+
+    const extension = getExportFileExtension(format);
+    const destination = await Window.showSaveDialog({
+      title: "Export Query Results",
+      defaultUri: Uri.file(
+        join(
+          workspace.workspaceFolders?.[0]?.uri.fsPath ?? homedir(),
+          `${queryName}.${extension}`,
+        ),
+      ),
+      filters: { [format.toUpperCase()]: [extension] },
+    });
+    if (destination === undefined) {
+      return;
+    }
+
+    const pageSize = PAGE_SIZE.getValue<number>();
+    let contents: string;
+    if (selectedTable === ALERTS_TABLE_NAME) {
+      const interpretation = this._interpretation;
+      if (
+        interpretation === undefined ||
+        interpretation.data.t !== "SarifInterpretationData"
+      ) {
+        throw new Error(
+          "Trying to export alerts but interpretation was undefined",
+        );
+      }
+      // The interpreted results are already sorted in the current sort order.
+      const allResults = getDisplayedSarifResults(interpretation);
+      const results =
+        scope === "page"
+          ? allResults.slice(pageSize * pageNumber, pageSize * (pageNumber + 1))
+          : allResults;
+      contents =
+        format === "sarif"
+          ? `${JSON.stringify(
+              createSarifLogForAlerts(interpretation.data, results),
+              null,
+              2,
+            )}\n`
+          : exportResults(
+              alertsToExportableResults(
+                results,
+                interpretation.sourceLocationPrefix,
+              ),
+              format,
+              entityStyle,
+            );
+    } else {
+      if (query === undefined) {
+        throw new Error(
+          "Trying to export raw results but no query is displayed",
+        );
+      }
+      // When we are in an unsorted state, sortedResultsInfo doesn't have an
+      // entry for the result set, in which case the unsorted bqrs file is used.
+      const sorted = !!query.completedQuery.sortedResultsInfo[selectedTable];
+      const schema = (
+        await this.getResultSetSchemas(
+          query.completedQuery,
+          sorted ? selectedTable : "",
+        )
+      ).find((resultSet) => resultSet.name === selectedTable);
+      if (schema === undefined) {
+        throw new Error(`Query result set '${selectedTable}' not found.`);
+      }
+
+      const resultsPath = query.completedQuery.getResultsPath(
+        selectedTable,
+        sorted,
+      );
+      const filterState = this._rawResultsFilters.get(selectedTable);
+      let rows: ResultRow[];
+      if (isFilterActive(filterState)) {
+        const filteredRows = await this.getFilteredRows(
+          resultsPath,
+          schema,
+          filterState,
+        );
+        rows =
+          scope === "page"
+            ? filteredRows.slice(
+                pageSize * pageNumber,
+                pageSize * (pageNumber + 1),
+              )
+            : filteredRows;
+      } else {
+        const chunk = await this.cliServer.bqrsDecode(
+          resultsPath,
+          schema.name,
+          scope === "page"
+            ? { offset: schema.pagination?.offsets[pageNumber], pageSize }
+            : {},
+        );
+        rows = chunk.tuples;
+      }
+      contents = exportResults(
+        { columns: getColumnNames(schema.columns), rows },
+        format,
+        entityStyle,
+      );
+    }
+
+    await writeFile(destination.fsPath, contents, "utf8");
+
+    if (
+      await showInformationMessageWithAction(
+        `Exported results to ${destination.fsPath}.`,
+        "Open",
+      )
+    ) {
+      await Window.showTextDocument(destination);
+    }
+  }
+
   /**
    * Show a page of raw results from the chosen table.
    */
@@ -660,24 +1260,43 @@ export class ResultsView extends AbstractWebview<
     }
 
     const pageSize = PAGE_SIZE.getValue<number>();
-    const chunk = await this.cliServer.bqrsDecode(
-      results.completedQuery.getResultsPath(selectedTable, sorted),
-      schema.name,
-      {
+    const resultsPath = results.completedQuery.getResultsPath(
+      selectedTable,
+      sorted,
+    );
+    const filterState = this._rawResultsFilters.get(selectedTable);
+    let resultSet: RawResultSet;
+    let numPages: number;
+    let numFilteredRows: number | undefined;
+    if (isFilterActive(filterState)) {
+      // Filtering needs the whole result set, so that paging works over the
+      // filtered rows rather than over the rows of the unfiltered pages.
+      const rows = await this.getFilteredRows(resultsPath, schema, filterState);
+      resultSet = {
+        schema,
+        rows: rows.slice(pageSize * pageNumber, pageSize * (pageNumber + 1)),
+      };
+      numPages = Math.ceil(rows.length / pageSize);
+      numFilteredRows = rows.length;
+    } else {
+      const chunk = await this.cliServer.bqrsDecode(resultsPath, schema.name, {
         offset: schema.pagination?.offsets[pageNumber],
         pageSize,
-      },
-    );
-    const resultSet = transformBqrsResultSet(schema, chunk);
+      });
+      resultSet = transformBqrsResultSet(schema, chunk);
+      numPages = numPagesOfResultSet(resultSet);
+    }
 
     const parsedResultSets: ParsedResultSets = {
       pageNumber,
       pageSize,
       resultSet: { t: "RawResultSet", ...resultSet },
-      numPages: numPagesOfResultSet(resultSet),
+      numPages,
       numInterpretedPages: numInterpretedPages(this._interpretation),
       selectedTable,
       resultSetNames,
+      filterState,
+      numFilteredRows,
     };
 
     await this.postMessage({
@@ -698,6 +1317,26 @@ export class ResultsView extends AbstractWebview<
     });
   }
 
+  /**
+   * Gets the rows of a raw result set that match the filter state, in the
+   * order in which they appear in the given results file.
+   */
+  private async getFilteredRows(
+    resultsPath: string,
+    schema: ResultSetSchema,
+    filterState: RawResultsFilterState,
+  ): Promise<ResultRow[]> {
+    const key = JSON.stringify([resultsPath, schema.name, filterState]);
+    if (this._filteredRowsCache?.key === key) {
+      return this._filteredRowsCache.rows;
+    }
+
+    const chunk = await this.cliServer.bqrsDecode(resultsPath, schema.name);
+    const rows = chunk.tuples.filter(createRowFilter(filterState));
+    this._filteredRowsCache = { key, rows };
+    return rows;
+  }
+
   private async _getInterpretedResults(
     metadata: QueryMetadata | undefined,
     resultsPaths: ResultsPaths,
@@ -750,10 +1389,106 @@ export class ResultsView extends AbstractWebview<
       numTruncatedResults: 0,
       numTotalResults,
     };
+    await this.applyAlertBaseline(interpretation);
+    this.applyAlertsFilter(interpretation);
     this._interpretation = interpretation;
     return interpretation;
   }
 
+  /**
+   * Marks the alerts of the interpretation that are in the alert baseline of the workspace.
+   */
+  private async applyAlertBaseline(
+    interpretation: Interpretation,
+  ): Promise<void> {
+    if (interpretation.data.t !== "SarifInterpretationData") {
+      return;
+    }
+    const results = interpretation.data.runs[0]?.results;
+    const baselinePath = getAlertBaselinePath();
+    if (results === undefined || baselinePath === undefined) {
+      return;
+    }
+
+    let baseline;
+    try {
+      baseline = await readAlertBaseline(baselinePath);
+    } catch (e) {
+      void this.logger.log(
+        `Could not read the alert baseline: ${getErrorMessage(e)}`,
+      );
+      return;
+    }
+
+    const numResults = markAlertBaselineResults(results, baseline);
+    interpretation.baseline = {
+      numResults,
+      hidden: this._hideBaselineAlerts,
+    };
+    interpretation.numTotalResults =
+      getUnfilteredSarifResults(interpretation).length;
+  }
+
+  /**
+   * Counts the alerts of the interpretation that match the alerts filter.
+   */
+  private applyAlertsFilter(interpretation: Interpretation): void {
+    if (
+      interpretation.data.t !== "SarifInterpretationData" ||
+      !isFilterActive(this._alertsFilter)
+    ) {
+      interpretation.filter = undefined;
+      return;
+    }
+
+    interpretation.filter = {
+      state: this._alertsFilter,
+      numResults: getUnfilteredSarifResults(interpretation).filter(
+        createAlertFilter(this._alertsFilter),
+      ).length,
+    };
+  }
+
+  private async changeAlertBaseline(
+    results: Sarif.Result[],
+    accepted: boolean,
+  ): Promise<void> {
+    const baselinePath = getAlertBaselinePath();
+    if (baselinePath === undefined) {
+      void showAndLogWarningMessage(
+        this.app.logger,
+        `Open a workspace folder to accept alerts. Accepted alerts are stored in ${ALERT_BASELINE_FILE_NAME} in the first workspace folder.`,
+      );
+      return;
+    }
+
+    await writeAlertBaseline(
+      baselinePath,
+      updateAlertBaseline(
+        await readAlertBaseline(baselinePath),
+        results,
+        accepted,
+      ),
+    );
+    await this.refreshAlertBaseline(this._interpretedPageNumber);
+  }
+
+  /**
+   * Shows the interpreted results again after the alert baseline has changed, staying on
+   * the same page if it still exists.
+   */
+  private async refreshAlertBaseline(pageNumber: number): Promise<void> {
+    if (this._interpretation === undefined) {
+      return;
+    }
+    await this.applyAlertBaseline(this._interpretation);
+    this.applyAlertsFilter(this._interpretation);
+    const numPages = numInterpretedPages(this._interpretation);
+    await this.showPageOfInterpretedResults(
+      Math.max(0, Math.min(pageNumber, numPages - 1)),
+    );
+  }
+
   private getPageOfInterpretedResults(pageNumber: number): Interpretation {
     function getPageOfRun(run: Sarif.Run): Sarif.Run {
       return {
@@ -786,7 +1521,12 @@ export class ResultsView extends AbstractWebview<
       ...interp,
       data: {
         ...interp.data,
-        runs: [getPageOfRun(interp.data.runs[0])],
+        runs: [
+          getPageOfRun({
+            ...interp.data.runs[0],
+            results: getDisplayedSarifResults(interp),
+          }),
+        ],
       },
     };
   }
@@ -803,15 +1543,18 @@ export class ResultsView extends AbstractWebview<
         const dbItem = this.databaseManager.findDatabaseItem(
           Uri.file(query.dbItemPath),
         );
-        if (!dbItem) {
+        // Results that have already been interpreted, such as those of an imported
+        // run bundle, can be shown without the database.
+        if (!dbItem && !(await query.hasInterpretedResults())) {
           throw new Error(
             `Could not find database item for ${query.dbItemPath}`,
           );
         }
-        const sourceLocationPrefix = await dbItem.getSourceLocationPrefix(
-          this.cliServer,
-        );
-        const sourceArchiveUri = dbItem.sourceArchive;
+        const sourceLocationPrefix =
+          dbItem === undefined
+            ? ""
+            : await dbItem.getSourceLocationPrefix(this.cliServer);
+        const sourceArchiveUri = dbItem?.sourceArchive;
         const sourceInfo =
           sourceArchiveUri === undefined
             ? undefined
@@ -872,8 +1615,18 @@ export class ResultsView extends AbstractWebview<
       return;
     }
 
+    await this.showInterpretationAsDiagnostics(interpretation, database);
+  }
+
+  private async showInterpretationAsDiagnostics(
+    interpretation: Interpretation,
+    sourceFileResolver: SourceFileResolver,
+  ): Promise<void> {
     try {
-      await this.showProblemResultsAsDiagnostics(interpretation, database);
+      await this.showProblemResultsAsDiagnostics(
+        interpretation,
+        sourceFileResolver,
+      );
     } catch (e) {
       void this.logger.log(
         `Exception while computing problem results as diagnostics: ${getErrorMessage(
@@ -886,7 +1639,7 @@ export class ResultsView extends AbstractWebview<
 
   private async showProblemResultsAsDiagnostics(
     interpretation: Interpretation,
-    databaseItem: DatabaseItem,
+    databaseItem: SourceFileResolver,
   ): Promise<void> {
     const { data, sourceLocationPrefix } = interpretation;
 
@@ -903,7 +1656,8 @@ export class ResultsView extends AbstractWebview<
 
     const diagnostics: Array<[Uri, readonly Diagnostic[]]> = [];
 
-    for (const result of data.runs[0].results) {
+    // The Problems view shows all alerts, regardless of the filter of the results view
+    for (const result of getUnfilteredSarifResults(interpretation)) {
       const message = result.message.text;
       if (message === undefined) {
         void this.logger.log("Sarif had result without plaintext message");
@@ -963,7 +1717,10 @@ export class ResultsView extends AbstractWebview<
       const diagnostic = new Diagnostic(
         resultLocation.range,
         resultMessageChunks.join(""),
-        DiagnosticSeverity.Warning,
+        // Accepted alerts are shown with a lower severity, unless they are hidden.
+        result.baselineState === "unchanged"
+          ? DiagnosticSeverity.Information
+          : DiagnosticSeverity.Warning,
       );
       diagnostic.relatedInformation = relatedInformation;
 
@@ -0,0 +1,284 @@
+import {
+  ConfigurableLogScannerProvider,
+  EvaluationLogProblemReporter,
+  EvaluationLogScanner,
+  LogScannerSettings,
+} from "./log-scanner";
+import {
+  ComputeRecursive,
+  ComputeSimple,
+  InLayer,
+  PipelineRun,
+  SummaryEvent,
+} from "./log-summary";
+import { formatDecimal } from "../common/number";
+
+/**
+ * The minimum number of tuples a pipeline step must produce before its duplication is reported.
+ * Small steps with a high duplication are common and cheap, so they are not worth reporting.
+ */
+const MIN_DUPLICATION_TUPLE_COUNT = 10_000;
+
+type PipelineEvent = ComputeSimple | ComputeRecursive | InLayer;
+
+function isSuccessful(event: SummaryEvent): boolean {
+  return (
+    event.completionType === undefined || event.completionType === "SUCCESS"
+  );
+}
+
+/**
+ * Returns the pipeline runs of an event, together with the iteration in which each run happened.
+ * A non-recursive predicate only has a single run in iteration zero. A recursive predicate has one
+ * run for each iteration in which it was evaluated, where an iteration time of -1 indicates that
+ * the predicate was not evaluated in that iteration.
+ */
+function getPipelineRuns(
+  event: SummaryEvent,
+): Array<{ event: PipelineEvent; run: PipelineRun; iteration: number }> {
+  switch (event.evaluationStrategy) {
+    case "COMPUTE_SIMPLE":
+      return (event.pipelineRuns ?? []).map((run) => ({
+        event,
+        run,
+        iteration: 0,
+      }));
+    case "COMPUTE_RECURSIVE":
+    case "IN_LAYER": {
+      const iterations = event.predicateIterationMillis
+        .map((millis, iteration) => (millis === -1 ? -1 : iteration))
+        .filter((iteration) => iteration !== -1);
+      return event.pipelineRuns.map((run, index) => ({
+        event,
+        run,
+        iteration: iterations[index] ?? 0,
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Reports recursive predicates that needed an unusually large number of iterations to reach a
+ * fixed point. This often indicates a recursion that only adds a few tuples per iteration, such as
+ * a transitive closure computed one step at a time.
+ */
+class RecursiveIterationScanner implements EvaluationLogScanner {
+  constructor(
+    private readonly problemReporter: EvaluationLogProblemReporter,
+    private readonly threshold: number,
+  ) {}
+
+  public onEvent(event: SummaryEvent): void {
+    if (!isSuccessful(event)) {
+      return;
+    }
+    if (
+      event.evaluationStrategy !== "COMPUTE_RECURSIVE" &&
+      event.evaluationStrategy !== "IN_LAYER"
+    ) {
+      return;
+    }
+
+    const iterationCount = event.predicateIterationMillis.length;
+    if (iterationCount > this.threshold) {
+      this.problemReporter.reportProblemWithFallbackLocation(
+        event.predicateName,
+        event.raHash,
+        iterationCount - 1,
+        `Recursive relation '${event.predicateName}' needed ${formatDecimal(
+          iterationCount,
+        )} iterations to be evaluated, which is more than the threshold of ${formatDecimal(
+          this.threshold,
+        )}.`,
+      );
+    }
+  }
+
+  public onDone(): void {
+    void this;
+  }
+}
+
+/**
+ * Reports predicates with a pipeline step in which a large percentage of the produced tuples are
+ * duplicates. The work spent producing duplicate tuples is wasted, so this usually indicates that
+ * the predicate could be restructured to avoid it.
+ */
+class DuplicationScanner implements EvaluationLogScanner {
+  private readonly reportedHashes = new Set<string>();
+
+  constructor(
+    private readonly problemReporter: EvaluationLogProblemReporter,
+    private readonly threshold: number,
+  ) {}
+
+  public onEvent(event: SummaryEvent): void {
+    if (!isSuccessful(event)) {
+      return;
+    }
+
+    for (const { run, iteration } of getPipelineRuns(event)) {
+      if (this.reportedHashes.has(event.raHash)) {
+        return;
+      }
+
+      const step = (run.duplicationPercentages ?? []).findIndex(
+        (percentage, i) =>
+          percentage > this.threshold &&
+          (run.counts?.[i] ?? 0) >= MIN_DUPLICATION_TUPLE_COUNT,
+      );
+      if (step !== -1) {
+        this.reportedHashes.add(event.raHash);
+        this.problemReporter.reportProblemWithFallbackLocation(
+          event.predicateName,
+          event.raHash,
+          iteration,
+          `Relation '${event.predicateName}' has a pipeline step in which ${
+            run.duplicationPercentages[step]
+          }% of the ${formatDecimal(
+            run.counts[step],
+          )} tuples produced are duplicates, which is more than the threshold of ${
+            this.threshold
+          }%.`,
+        );
+      }
+    }
+  }
+
+  public onDone(): void {
+    void this;
+  }
+}
+
+/**
+ * Reports predicates with a pipeline step that computes a Cartesian product producing a large
+ * number of tuples. Cartesian products are usually the result of a missing join condition.
+ */
+class CartesianProductScanner implements EvaluationLogScanner {
+  private readonly reportedHashes = new Set<string>();
+
+  constructor(
+    private readonly problemReporter: EvaluationLogProblemReporter,
+    private readonly threshold: number,
+  ) {}
+
+  public onEvent(event: SummaryEvent): void {
+    if (!isSuccessful(event)) {
+      return;
+    }
+
+    for (const { event: pipelineEvent, run, iteration } of getPipelineRuns(
+      event,
+    )) {
+      if (this.reportedHashes.has(event.raHash)) {
+        return;
+      }
+
+      // The tuple counts of a pipeline run correspond to the lines of its RA.
+      const operations = pipelineEvent.ra[run.raReference] ?? [];
+      const step = operations.findIndex(
+        (operation, i) =>
+          operation.includes("CARTESIAN PRODUCT") &&
+          (run.counts?.[i] ?? 0) > this.threshold,
+      );
+      if (step !== -1) {
+        this.reportedHashes.add(event.raHash);
+        this.problemReporter.reportProblemWithFallbackLocation(
+          event.predicateName,
+          event.raHash,
+          iteration,
+          `Relation '${
+            event.predicateName
+          }' computes a Cartesian product that produces ${formatDecimal(
+            run.counts[step],
+          )} tuples, which is more than the threshold of ${formatDecimal(
+            this.threshold,
+          )}.`,
+        );
+      }
+    }
+  }
+
+  public onDone(): void {
+    void this;
+  }
+}
+
+/**
+ * Reports large extensional predicates that had to be computed rather than being read from the
+ * cache, for example because the cache was cleared or was too small to hold them.
+ */
+class ExtensionalCacheMissScanner implements EvaluationLogScanner {
+  constructor(
+    private readonly problemReporter: EvaluationLogProblemReporter,
+    private readonly threshold: number,
+  ) {}
+
+  public onEvent(event: SummaryEvent): void {
+    if (!isSuccessful(event)) {
+      return;
+    }
+    if (event.evaluationStrategy !== "COMPUTED_EXTENSIONAL") {
+      return;
+    }
+
+    if (event.resultSize > this.threshold) {
+      this.problemReporter.reportProblemWithFallbackLocation(
+        event.predicateName,
+        event.raHash,
+        0,
+        `Extensional relation '${event.predicateName}' with ${formatDecimal(
+          event.resultSize,
+        )} tuples was not found in the cache and had to be computed. Its size is larger than the threshold of ${formatDecimal(
+          this.threshold,
+        )}.`,
+      );
+    }
+  }
+
+  public onDone(): void {
+    void this;
+  }
+}
+
+export class RecursiveIterationScannerProvider extends ConfigurableLogScannerProvider {
+  constructor(getSettings: () => LogScannerSettings) {
+    super(
+      getSettings,
+      (problemReporter, threshold) =>
+        new RecursiveIterationScanner(problemReporter, threshold),
+    );
+  }
+}
+
+export class DuplicationScannerProvider extends ConfigurableLogScannerProvider {
+  constructor(getSettings: () => LogScannerSettings) {
+    super(
+      getSettings,
+      (problemReporter, threshold) =>
+        new DuplicationScanner(problemReporter, threshold),
+    );
+  }
+}
+
+export class CartesianProductScannerProvider extends ConfigurableLogScannerProvider {
+  constructor(getSettings: () => LogScannerSettings) {
+    super(
+      getSettings,
+      (problemReporter, threshold) =>
+        new CartesianProductScanner(problemReporter, threshold),
+    );
+  }
+}
+
+export class ExtensionalCacheMissScannerProvider extends ConfigurableLogScannerProvider {
+  constructor(getSettings: () => LogScannerSettings) {
+    super(
+      getSettings,
+      (problemReporter, threshold) =>
+        new ExtensionalCacheMissScanner(problemReporter, threshold),
+    );
+  }
+}
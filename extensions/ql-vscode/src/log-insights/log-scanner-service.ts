@@ -1,25 +1,39 @@
-import { Diagnostic, DiagnosticSeverity, languages, Range, Uri } from "vscode";
+import {
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  CodeActionProvider,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  DiagnosticSeverity,
+  languages,
+  Location,
+  Range,
+  TextDocument,
+  Uri,
+} from "vscode";
+import { SourceMapConsumer } from "source-map";
 import { DisposableObject } from "../common/disposable-object";
 import { QueryHistoryInfo } from "../query-history/query-history-info";
 import {
   EvaluationLogProblemReporter,
   EvaluationLogScannerSet,
 } from "./log-scanner";
-import { PipelineInfo, SummarySymbols } from "./summary-parser";
+import {
+  PipelineInfo,
+  predicateSymbolKey,
+  SummarySymbols,
+} from "./summary-parser";
+import {
+  getQLPositionForLines,
+  readSummarySourceMap,
+} from "./summary-source-map";
 import { readFile } from "fs-extra";
 import { extLogger } from "../common/logging/vscode";
 import { QueryHistoryManager } from "../query-history/query-history-manager";
 
-/**
- * Compute the key used to find a predicate in the summary symbols.
- * @param name The name of the predicate.
- * @param raHash The RA hash of the predicate.
- * @returns The key of the predicate, consisting of `name@shortHash`, where `shortHash` is the first
- * eight characters of `raHash`.
- */
-function predicateSymbolKey(name: string, raHash: string): string {
-  return `${name}@${raHash.substring(0, 8)}`;
-}
+/** The `source` of the diagnostics reported by the log scanners. */
+const LOG_SCANNER_DIAGNOSTIC_SOURCE = "CodeQL log insights";
 
 /**
  * Implementation of `EvaluationLogProblemReporter` that generates `Diagnostic` objects to display
@@ -28,7 +42,10 @@ function predicateSymbolKey(name: string, raHash: string): string {
 class ProblemReporter implements EvaluationLogProblemReporter {
   public readonly diagnostics: Diagnostic[] = [];
 
-  constructor(private readonly symbols: SummarySymbols | undefined) {}
+  constructor(
+    private readonly symbols: SummarySymbols | undefined,
+    private readonly sourceMap: SourceMapConsumer | undefined,
+  ) {}
 
   public reportProblem(
     predicateName: string,
@@ -36,28 +53,117 @@ class ProblemReporter implements EvaluationLogProblemReporter {
     iteration: number,
     message: string,
   ): void {
-    const nameWithHash = predicateSymbolKey(predicateName, raHash);
-    const predicateSymbol = this.symbols?.predicates[nameWithHash];
-    let predicateInfo: PipelineInfo | undefined = undefined;
-    if (predicateSymbol !== undefined) {
-      predicateInfo = predicateSymbol.iterations[iteration];
-    }
+    const predicateInfo = this.getIterations(predicateName, raHash)?.[
+      iteration
+    ];
     if (predicateInfo !== undefined) {
-      const range = new Range(
-        predicateInfo.raStartLine,
-        0,
-        predicateInfo.raEndLine + 1,
-        0,
-      );
-      this.diagnostics.push(
-        new Diagnostic(range, message, DiagnosticSeverity.Error),
-      );
+      this.addDiagnostic(predicateName, predicateInfo, message);
     }
   }
 
+  public reportProblemWithFallbackLocation(
+    predicateName: string,
+    raHash: string,
+    iteration: number,
+    message: string,
+  ): void {
+    const iterations = this.getIterations(predicateName, raHash);
+    // Fall back to the first iteration if the requested iteration has no RA in the summary.
+    const predicateInfo =
+      iterations?.[iteration] ??
+      (iterations === undefined ? undefined : Object.values(iterations)[0]);
+    this.addDiagnostic(predicateName, predicateInfo, message);
+  }
+
   public log(message: string): void {
     void extLogger.log(message);
   }
+
+  private getIterations(
+    predicateName: string,
+    raHash: string,
+  ): Record<number, PipelineInfo> | undefined {
+    const nameWithHash = predicateSymbolKey(predicateName, raHash);
+    return this.symbols?.predicates[nameWithHash]?.iterations;
+  }
+
+  /**
+   * Adds a diagnostic at the RA of the predicate. Problems with no RA are reported at the start of
+   * the summary.
+   */
+  private addDiagnostic(
+    predicateName: string,
+    predicateInfo: PipelineInfo | undefined,
+    message: string,
+  ): void {
+    const range =
+      predicateInfo !== undefined
+        ? new Range(
+            predicateInfo.raStartLine,
+            0,
+            predicateInfo.raEndLine + 1,
+            0,
+          )
+        : new Range(0, 0, 0, 0);
+    const diagnostic = new Diagnostic(range, message, DiagnosticSeverity.Error);
+    diagnostic.source = LOG_SCANNER_DIAGNOSTIC_SOURCE;
+
+    // Link the diagnostic to the QL code that generated the RA of the predicate.
+    const qlPosition =
+      predicateInfo !== undefined && this.sourceMap !== undefined
+        ? getQLPositionForLines(
+            this.sourceMap,
+            predicateInfo.raStartLine,
+            predicateInfo.raEndLine,
+          )
+        : undefined;
+    if (qlPosition !== undefined) {
+      diagnostic.relatedInformation = [
+        new DiagnosticRelatedInformation(
+          new Location(Uri.file(qlPosition.filePath), qlPosition.position),
+          `QL source of '${predicateName}'`,
+        ),
+      ];
+    }
+
+    this.diagnostics.push(diagnostic);
+  }
+}
+
+/**
+ * Provides code actions that open the QL source of the predicates reported by the log scanners.
+ */
+class LogScannerCodeActionProvider implements CodeActionProvider {
+  public provideCodeActions(
+    _document: TextDocument,
+    _range: Range,
+    context: CodeActionContext,
+  ): CodeAction[] {
+    const actions: CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== LOG_SCANNER_DIAGNOSTIC_SOURCE) {
+        continue;
+      }
+
+      for (const related of diagnostic.relatedInformation ?? []) {
+        const action = new CodeAction(
+          `Go to ${related.message}`,
+          CodeActionKind.QuickFix,
+        );
+        action.diagnostics = [diagnostic];
+        action.command = {
+          title: action.title,
+          command: "vscode.open",
+          arguments: [
+            related.location.uri,
+            { selection: related.location.range },
+          ],
+        };
+        actions.push(action);
+      }
+    }
+    return actions;
+  }
 }
 
 export class LogScannerService extends DisposableObject {
@@ -70,6 +176,14 @@ export class LogScannerService extends DisposableObject {
   constructor(qhm: QueryHistoryManager) {
     super();
 
+    this.push(
+      languages.registerCodeActionsProvider(
+        { language: "ql-summary" },
+        new LogScannerCodeActionProvider(),
+        { providedCodeActionKinds: [CodeActionKind.QuickFix] },
+      ),
+    );
+
     this.push(
       qhm.onDidChangeCurrentQueryItem(async (item) => {
         if (item !== this.currentItem) {
@@ -107,6 +221,7 @@ export class LogScannerService extends DisposableObject {
     const diagnostics = await this.scanLog(
       query.jsonEvalLogSummaryLocation,
       query.evalLogSummarySymbolsLocation,
+      query.evalLogSummaryLocation,
     );
     const uri = Uri.file(query.evalLogSummaryLocation);
     this.diagnosticCollection.set(uri, diagnostics);
@@ -116,11 +231,14 @@ export class LogScannerService extends DisposableObject {
    * Scan the evaluator summary log for problems, using the scanners for all registered providers.
    * @param jsonSummaryLocation The file path of the JSON summary log.
    * @param symbolsLocation The file path of the symbols file for the human-readable log summary.
+   * @param summaryLocation The file path of the human-readable log summary, whose sourcemap is used
+   * to link problems to the QL source.
    * @returns An array of `Diagnostic`s representing the problems found by scanners.
    */
   private async scanLog(
     jsonSummaryLocation: string,
     symbolsLocation: string | undefined,
+    summaryLocation: string,
   ): Promise<Diagnostic[]> {
     let symbols: SummarySymbols | undefined = undefined;
     if (symbolsLocation !== undefined) {
@@ -128,10 +246,15 @@ export class LogScannerService extends DisposableObject {
         await readFile(symbolsLocation, { encoding: "utf-8" }),
       );
     }
-    const problemReporter = new ProblemReporter(symbols);
+    const sourceMap = await readSummarySourceMap(summaryLocation);
+    try {
+      const problemReporter = new ProblemReporter(symbols, sourceMap);
 
-    await this.scanners.scanLog(jsonSummaryLocation, problemReporter);
+      await this.scanners.scanLog(jsonSummaryLocation, problemReporter);
 
-    return problemReporter.diagnostics;
+      return problemReporter.diagnostics;
+    } finally {
+      sourceMap?.destroy();
+    }
   }
 }
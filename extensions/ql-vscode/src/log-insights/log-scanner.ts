@@ -22,6 +22,20 @@ export interface EvaluationLogProblemReporter {
     message: string,
   ): void;
 
+  /**
+   * Report a potential problem detected in the evaluation log, in the same way as
+   * `reportProblem()`. Unlike `reportProblem()`, the problem is also reported when the summary has
+   * no RA for the iteration: it is then reported at the RA of another iteration of the predicate,
+   * or at the start of the summary if the predicate has no RA at all, such as an extensional
+   * predicate.
+   */
+  reportProblemWithFallbackLocation(
+    predicateName: string,
+    raHash: string,
+    iteration: number,
+    message: string,
+  ): void;
+
   /**
    * Log a message about a problem in the implementation of the scanner. These will typically be
    * displayed separate from any problems reported via `reportProblem()`.
@@ -63,6 +77,55 @@ export interface EvaluationLogScannerProvider {
   ): EvaluationLogScanner;
 }
 
+/**
+ * The user-configurable settings of a log scanner.
+ */
+export interface LogScannerSettings {
+  /** Whether the scanner should run at all. */
+  enabled: boolean;
+  /** The value above which the scanner reports a problem. */
+  threshold: number;
+}
+
+/**
+ * A scanner that does nothing, used in place of a scanner that has been disabled.
+ */
+const disabledScanner: EvaluationLogScanner = {
+  onEvent: () => {
+    /* no-op */
+  },
+  onDone: () => {
+    /* no-op */
+  },
+};
+
+/**
+ * A provider for a scanner that can be enabled and disabled, and that reports a problem when some
+ * metric exceeds a threshold. The settings are read each time a log is scanned, so changes to them
+ * take effect the next time a log is scanned.
+ */
+export class ConfigurableLogScannerProvider
+  implements EvaluationLogScannerProvider
+{
+  constructor(
+    private readonly getSettings: () => LogScannerSettings,
+    private readonly createConfiguredScanner: (
+      problemReporter: EvaluationLogProblemReporter,
+      threshold: number,
+    ) => EvaluationLogScanner,
+  ) {}
+
+  public createScanner(
+    problemReporter: EvaluationLogProblemReporter,
+  ): EvaluationLogScanner {
+    const { enabled, threshold } = this.getSettings();
+    if (!enabled) {
+      return disabledScanner;
+    }
+    return this.createConfiguredScanner(problemReporter, threshold);
+  }
+}
+
 export class EvaluationLogScannerSet {
   private readonly scannerProviders = new Map<
     number,
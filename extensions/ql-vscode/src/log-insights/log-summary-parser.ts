@@ -1,4 +1,7 @@
 import { readJsonlFile } from "../common/jsonl-reader";
+import { SummaryEvent } from "./log-summary";
+import { PredicatePerformance, predicateKey } from "./performance-comparison";
+import { PredicateNode } from "./predicate-graph";
 
 // TODO(angelapwen): Only load in necessary information and
 // location in bytes for this log to save memory.
@@ -34,3 +37,101 @@ export async function parseViewerData(
 
   return viewerData;
 }
+
+/**
+ * Reads a JSON evaluator log summary and aggregates the performance data of
+ * each predicate. Predicates are identified by their name and RA hash.
+ */
+export async function parsePredicatePerformance(
+  jsonSummaryPath: string,
+): Promise<PredicatePerformance[]> {
+  const predicates = new Map<string, PredicatePerformance>();
+
+  await readJsonlFile(jsonSummaryPath, async (event: SummaryEvent) => {
+    // Skip the summary header, which does not describe a predicate.
+    if (event.predicateName === undefined || event.raHash === undefined) {
+      return;
+    }
+
+    const key = predicateKey(event.predicateName, event.raHash);
+    const performance = predicates.get(key) ?? {
+      predicateName: event.predicateName,
+      raHash: event.raHash,
+      evaluationStrategy: event.evaluationStrategy,
+      millis: 0,
+      resultSize: 0,
+      tupleCount: 0,
+    };
+
+    if ("millis" in event && event.millis !== undefined) {
+      performance.millis += event.millis;
+    }
+    if ("resultSize" in event) {
+      performance.resultSize = event.resultSize;
+    }
+    if ("pipelineRuns" in event && event.pipelineRuns !== undefined) {
+      for (const run of event.pipelineRuns) {
+        for (const count of run.counts ?? []) {
+          performance.tupleCount += count;
+        }
+      }
+    }
+
+    predicates.set(key, performance);
+  });
+
+  return [...predicates.values()];
+}
+
+/**
+ * Reads a JSON evaluator log summary and returns the predicates it contains,
+ * together with their dependencies, in the order in which they were evaluated.
+ * Predicates are identified by their RA hash.
+ */
+export async function parsePredicateGraph(
+  jsonSummaryPath: string,
+): Promise<PredicateNode[]> {
+  const predicates = new Map<string, PredicateNode>();
+
+  await readJsonlFile(jsonSummaryPath, async (event: SummaryEvent) => {
+    // Skip the summary header, which does not describe a predicate.
+    if (event.predicateName === undefined || event.raHash === undefined) {
+      return;
+    }
+
+    const predicate = predicates.get(event.raHash) ?? {
+      raHash: event.raHash,
+      predicateName: event.predicateName,
+      evaluationStrategy: event.evaluationStrategy,
+      millis: 0,
+      resultSize: 0,
+      queryCausingWork: undefined,
+      dependencies: [],
+      ra: {},
+    };
+
+    if ("millis" in event && event.millis !== undefined) {
+      predicate.millis += event.millis;
+    }
+    if ("resultSize" in event) {
+      predicate.resultSize = event.resultSize;
+    }
+    if ("queryCausingWork" in event && event.queryCausingWork !== undefined) {
+      predicate.queryCausingWork ??= event.queryCausingWork;
+    }
+    if ("dependencies" in event && event.dependencies !== undefined) {
+      for (const dependency of Object.values(event.dependencies)) {
+        if (!predicate.dependencies.includes(dependency)) {
+          predicate.dependencies.push(dependency);
+        }
+      }
+    }
+    if ("ra" in event && event.ra !== undefined) {
+      predicate.ra = { ...predicate.ra, ...event.ra };
+    }
+
+    predicates.set(event.raHash, predicate);
+  });
+
+  return [...predicates.values()];
+}
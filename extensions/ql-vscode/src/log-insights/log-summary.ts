@@ -28,6 +28,7 @@ interface SummaryEventBase {
 
 interface ResultEventBase extends SummaryEventBase {
   resultSize: number;
+  millis?: number;
 }
 
 export interface ComputeSimple extends ResultEventBase {
@@ -0,0 +1,113 @@
+/**
+ * The aggregated performance data of a single predicate in an evaluator log.
+ */
+export interface PredicatePerformance {
+  predicateName: string;
+  raHash: string;
+  evaluationStrategy: string;
+  /** The total evaluation time of the predicate in milliseconds. */
+  millis: number;
+  /** The number of tuples in the predicate after evaluation. */
+  resultSize: number;
+  /** The total number of tuples produced by all pipeline runs of the predicate. */
+  tupleCount: number;
+}
+
+/**
+ * The performance of a single predicate in two evaluator logs. Either side is
+ * undefined if the predicate was not evaluated in that log.
+ */
+export interface PredicatePerformanceComparison {
+  predicateName: string;
+  from: PredicatePerformance | undefined;
+  to: PredicatePerformance | undefined;
+}
+
+export type PerformanceComparisonMetric =
+  | "millis"
+  | "resultSize"
+  | "tupleCount";
+
+/**
+ * Matches up the predicates of two evaluator logs.
+ *
+ * Predicates are first matched by their name and RA hash. Any predicates that
+ * remain unmatched are then matched by name only, so that a predicate whose
+ * RA has changed (for example, because it was optimized) can still be
+ * compared with its previous version.
+ *
+ * The result is sorted by the biggest regression in evaluation time first.
+ */
+export function comparePredicatePerformance(
+  fromPredicates: readonly PredicatePerformance[],
+  toPredicates: readonly PredicatePerformance[],
+): PredicatePerformanceComparison[] {
+  const comparisons: PredicatePerformanceComparison[] = [];
+
+  const toByKey = new Map(
+    toPredicates.map((p) => [predicateKey(p.predicateName, p.raHash), p]),
+  );
+  const unmatchedFrom: PredicatePerformance[] = [];
+  for (const from of fromPredicates) {
+    const key = predicateKey(from.predicateName, from.raHash);
+    const to = toByKey.get(key);
+    if (to) {
+      comparisons.push({ predicateName: from.predicateName, from, to });
+      toByKey.delete(key);
+    } else {
+      unmatchedFrom.push(from);
+    }
+  }
+
+  const toByName = new Map<string, PredicatePerformance[]>();
+  for (const to of toByKey.values()) {
+    const predicates = toByName.get(to.predicateName) ?? [];
+    predicates.push(to);
+    toByName.set(to.predicateName, predicates);
+  }
+  for (const from of unmatchedFrom) {
+    const to = toByName.get(from.predicateName)?.shift();
+    comparisons.push({ predicateName: from.predicateName, from, to });
+  }
+  for (const predicates of toByName.values()) {
+    for (const to of predicates) {
+      comparisons.push({
+        predicateName: to.predicateName,
+        from: undefined,
+        to,
+      });
+    }
+  }
+
+  return sortPredicatePerformanceComparisons(comparisons, "millis");
+}
+
+/**
+ * Returns the change in the given metric between the two logs. A predicate
+ * that was not evaluated in a log counts as zero for that log.
+ */
+export function getPerformanceDelta(
+  comparison: PredicatePerformanceComparison,
+  metric: PerformanceComparisonMetric,
+): number {
+  return (comparison.to?.[metric] ?? 0) - (comparison.from?.[metric] ?? 0);
+}
+
+/**
+ * Sorts the comparisons by the biggest regression (largest increase) in the
+ * given metric first.
+ */
+export function sortPredicatePerformanceComparisons(
+  comparisons: readonly PredicatePerformanceComparison[],
+  metric: PerformanceComparisonMetric,
+): PredicatePerformanceComparison[] {
+  return [...comparisons].sort(
+    (a, b) =>
+      getPerformanceDelta(b, metric) - getPerformanceDelta(a, metric) ||
+      a.predicateName.localeCompare(b.predicateName),
+  );
+}
+
+export function predicateKey(predicateName: string, raHash: string): string {
+  return `${predicateName}@${raHash}`;
+}
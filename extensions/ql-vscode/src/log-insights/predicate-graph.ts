@@ -0,0 +1,174 @@
+/**
+ * A predicate in an evaluator log, together with the predicates it depends on.
+ */
+export interface PredicateNode {
+  raHash: string;
+  predicateName: string;
+  evaluationStrategy: string;
+  /** The evaluation time of the predicate itself in milliseconds. */
+  millis: number;
+  resultSize: number;
+  /** The query that caused this predicate to be evaluated. */
+  queryCausingWork: string | undefined;
+  /** The RA hashes of the predicates this predicate depends on. */
+  dependencies: string[];
+  // Key: pipeline identifier; Value: array of pipeline steps
+  ra: Record<string, string[]>;
+}
+
+/**
+ * A node in a cumulative-time flame graph. The root of the graph represents the
+ * whole evaluation, its children represent the queries that were evaluated, and
+ * all other nodes represent predicates.
+ */
+export interface FlameGraphNode {
+  label: string;
+  /** The RA hash of the predicate, or undefined if this node is not a predicate. */
+  raHash: string | undefined;
+  /** The evaluation time of this node itself in milliseconds. */
+  selfMillis: number;
+  /** The evaluation time of this node and all of its children in milliseconds. */
+  totalMillis: number;
+  children: FlameGraphNode[];
+}
+
+/**
+ * Builds a map from the RA hash of each predicate to the RA hashes of the
+ * predicates that depend on it.
+ */
+export function getDependents(
+  predicates: readonly PredicateNode[],
+): Map<string, string[]> {
+  const dependents = new Map<string, string[]>();
+  for (const predicate of predicates) {
+    for (const dependency of predicate.dependencies) {
+      if (dependency === predicate.raHash) {
+        continue;
+      }
+      const predicateDependents = dependents.get(dependency) ?? [];
+      if (!predicateDependents.includes(predicate.raHash)) {
+        predicateDependents.push(predicate.raHash);
+      }
+      dependents.set(dependency, predicateDependents);
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Returns the top-level predicates of the evaluation, i.e. the predicates that
+ * no other predicate in the log depends on.
+ */
+export function getTopLevelPredicates(
+  predicates: readonly PredicateNode[],
+): PredicateNode[] {
+  const dependents = getDependents(predicates);
+  return predicates.filter(
+    (predicate) => !dependents.get(predicate.raHash)?.length,
+  );
+}
+
+/**
+ * Builds a cumulative-time flame graph of the evaluation.
+ *
+ * The dependencies of the predicates form a graph rather than a tree, since a
+ * predicate can be used by many other predicates. To make sure each
+ * predicate's evaluation time is only counted once, a predicate is attributed
+ * to the first predicate that depends on it, visiting dependencies in the
+ * order in which they were evaluated. This matches the evaluator, which
+ * computes a predicate the first time it is needed.
+ *
+ * @param rootLabel The label of the root node.
+ * @param predicates The predicates in the order in which they were evaluated.
+ */
+export function buildFlameGraph(
+  rootLabel: string,
+  predicates: readonly PredicateNode[],
+): FlameGraphNode {
+  const predicatesByHash = new Map(predicates.map((p) => [p.raHash, p]));
+  const evaluationOrder = new Map(predicates.map((p, i) => [p.raHash, i]));
+  const visited = new Set<string>();
+
+  function buildPredicateNode(predicate: PredicateNode): FlameGraphNode {
+    visited.add(predicate.raHash);
+
+    const dependencies = predicate.dependencies
+      .filter((hash) => predicatesByHash.has(hash))
+      .sort(
+        (a, b) => (evaluationOrder.get(a) ?? 0) - (evaluationOrder.get(b) ?? 0),
+      );
+
+    const children: FlameGraphNode[] = [];
+    for (const hash of dependencies) {
+      if (!visited.has(hash)) {
+        children.push(buildPredicateNode(predicatesByHash.get(hash)!));
+      }
+    }
+
+    return createNode(
+      predicate.predicateName,
+      predicate.raHash,
+      predicate.millis,
+      children,
+    );
+  }
+
+  // Group the top-level predicates by the query that caused them to be
+  // evaluated, so that it is clear which query is responsible for the work.
+  const queries = new Map<string, PredicateNode[]>();
+  for (const predicate of getTopLevelPredicates(predicates)) {
+    const query = predicate.queryCausingWork ?? "(unknown query)";
+    const queryPredicates = queries.get(query) ?? [];
+    queryPredicates.push(predicate);
+    queries.set(query, queryPredicates);
+  }
+
+  const queryNodes: FlameGraphNode[] = [];
+  for (const [query, queryPredicates] of queries) {
+    const children: FlameGraphNode[] = [];
+    for (const predicate of queryPredicates) {
+      if (!visited.has(predicate.raHash)) {
+        children.push(buildPredicateNode(predicate));
+      }
+    }
+    queryNodes.push(createNode(query, undefined, 0, children));
+  }
+
+  // Predicates that are only reachable through a cycle of dependencies are not
+  // reachable from any top-level predicate. Attribute them to the root.
+  const unreachable: FlameGraphNode[] = [];
+  for (const predicate of predicates) {
+    if (!visited.has(predicate.raHash)) {
+      unreachable.push(buildPredicateNode(predicate));
+    }
+  }
+
+  return createNode(
+    rootLabel,
+    undefined,
+    0,
+    [...queryNodes, ...unreachable].sort(byTotalMillisDescending),
+  );
+}
+
+function createNode(
+  label: string,
+  raHash: string | undefined,
+  selfMillis: number,
+  children: FlameGraphNode[],
+): FlameGraphNode {
+  children.sort(byTotalMillisDescending);
+  return {
+    label,
+    raHash,
+    selfMillis,
+    totalMillis:
+      selfMillis +
+      children.reduce((total, child) => total + child.totalMillis, 0),
+    children,
+  };
+}
+
+function byTotalMillisDescending(a: FlameGraphNode, b: FlameGraphNode) {
+  return b.totalMillis - a.totalMillis;
+}
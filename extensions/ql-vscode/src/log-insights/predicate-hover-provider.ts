@@ -0,0 +1,183 @@
+import {
+  CancellationToken,
+  Hover,
+  HoverProvider,
+  languages,
+  MarkdownString,
+  Position,
+  TextDocument,
+} from "vscode";
+import { readFile } from "fs-extra";
+import { DisposableObject } from "../common/disposable-object";
+import { extLogger } from "../common/logging/vscode";
+import { getErrorMessage } from "../common/helpers-pure";
+import { formatDecimal } from "../common/number";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { LocalQueryInfo } from "../query-results";
+import { QueryHistoryManager } from "../query-history/query-history-manager";
+import { ensureJsonEvalLogSummary } from "../query-evaluation-logging";
+import { parsePredicatePerformance } from "./log-summary-parser";
+import { PredicatePerformance } from "./performance-comparison";
+import { predicateSymbolKey, SummarySymbols } from "./summary-parser";
+import {
+  getQLPositionForLines,
+  readSummarySourceMap,
+} from "./summary-source-map";
+
+/**
+ * The performance of a predicate, together with the position of the QL code that generated it.
+ */
+interface PredicateSourceInfo {
+  position: Position;
+  performance: PredicatePerformance;
+}
+
+/**
+ * Shows the tuple counts and evaluation time of the predicates from the most recently completed
+ * query when hovering over the QL code that generated them.
+ */
+export class PredicateHoverProvider
+  extends DisposableObject
+  implements HoverProvider
+{
+  private lastQuery: LocalQueryInfo | undefined = undefined;
+  /**
+   * The predicates of `lastQuery`, keyed by the path of the QL file that contains them. This is
+   * only loaded when it is first needed, since it may require generating a JSON log summary.
+   */
+  private predicatesByFile:
+    | Promise<Map<string, PredicateSourceInfo[]>>
+    | undefined = undefined;
+
+  constructor(
+    qhm: QueryHistoryManager,
+    private readonly cliServer: CodeQLCliServer,
+  ) {
+    super();
+
+    this.push(
+      languages.registerHoverProvider({ scheme: "file", language: "ql" }, this),
+    );
+
+    this.push(
+      qhm.onDidCompleteQuery((item) => {
+        this.lastQuery = item;
+        this.predicatesByFile = undefined;
+      }),
+    );
+  }
+
+  public async provideHover(
+    document: TextDocument,
+    position: Position,
+    _token: CancellationToken,
+  ): Promise<Hover | undefined> {
+    const query = this.lastQuery;
+    if (query === undefined) {
+      return undefined;
+    }
+
+    if (this.predicatesByFile === undefined) {
+      this.predicatesByFile = this.loadPredicates(query);
+    }
+
+    let predicatesByFile: Map<string, PredicateSourceInfo[]>;
+    try {
+      predicatesByFile = await this.predicatesByFile;
+    } catch (e) {
+      void extLogger.log(
+        `Could not load the evaluator log of ${query.getQueryName()}: ${getErrorMessage(
+          e,
+        )}`,
+      );
+      return undefined;
+    }
+
+    const predicates = predicatesByFile
+      .get(document.uri.fsPath)
+      ?.filter((predicate) => predicate.position.line === position.line);
+    if (predicates === undefined || predicates.length === 0) {
+      return undefined;
+    }
+
+    const markdown = new MarkdownString();
+    markdown.appendMarkdown(
+      `**Last evaluation (${query.getQueryName()})**\n\n`,
+    );
+    for (const { performance } of predicates) {
+      markdown.appendMarkdown(
+        `- \`${performance.predicateName}\`: ${formatDecimal(
+          performance.millis,
+        )} ms, ${formatDecimal(
+          performance.resultSize,
+        )} tuples in result, ${formatDecimal(
+          performance.tupleCount,
+        )} tuples produced by pipelines\n`,
+      );
+    }
+
+    return new Hover(markdown, document.getWordRangeAtPosition(position));
+  }
+
+  private async loadPredicates(
+    query: LocalQueryInfo,
+  ): Promise<Map<string, PredicateSourceInfo[]>> {
+    const predicatesByFile = new Map<string, PredicateSourceInfo[]>();
+    if (
+      query.evalLogSummaryLocation === undefined ||
+      query.evalLogSummarySymbolsLocation === undefined
+    ) {
+      return predicatesByFile;
+    }
+
+    const symbols: SummarySymbols = JSON.parse(
+      await readFile(query.evalLogSummarySymbolsLocation, {
+        encoding: "utf-8",
+      }),
+    );
+    const performance = await parsePredicatePerformance(
+      await ensureJsonEvalLogSummary(this.cliServer, query),
+    );
+
+    const sourceMap = await readSummarySourceMap(query.evalLogSummaryLocation);
+    if (sourceMap === undefined) {
+      return predicatesByFile;
+    }
+
+    try {
+      for (const predicate of performance) {
+        const symbol =
+          symbols.predicates[
+            predicateSymbolKey(predicate.predicateName, predicate.raHash)
+          ];
+        const pipeline =
+          symbol === undefined
+            ? undefined
+            : Object.values(symbol.iterations)[0];
+        if (pipeline === undefined) {
+          continue;
+        }
+
+        const qlPosition = getQLPositionForLines(
+          sourceMap,
+          pipeline.raStartLine,
+          pipeline.raEndLine,
+        );
+        if (qlPosition === undefined) {
+          continue;
+        }
+
+        const predicates = predicatesByFile.get(qlPosition.filePath) ?? [];
+        predicates.push({
+          position: qlPosition.position,
+          performance: predicate,
+        });
+        predicatesByFile.set(qlPosition.filePath, predicates);
+      }
+    } finally {
+      sourceMap.destroy();
+    }
+
+    return predicatesByFile;
+  }
+}
@@ -1,7 +1,5 @@
-import { readFile } from "fs-extra";
-import { RawSourceMap, SourceMapConsumer } from "source-map";
+import { SourceMapConsumer } from "source-map";
 import {
-  Position,
   Selection,
   TextDocument,
   TextEditor,
@@ -12,16 +10,13 @@ import {
   workspace,
 } from "vscode";
 import { DisposableObject } from "../common/disposable-object";
-import { extLogger } from "../common/logging/vscode";
-import { getErrorMessage } from "../common/helpers-pure";
 import { SummaryLanguageSupportCommands } from "../common/commands";
 import { App } from "../common/app";
-
-/** A `Position` within a specified file on disk. */
-interface PositionInFile {
-  filePath: string;
-  position: Position;
-}
+import {
+  getQLPosition,
+  PositionInFile,
+  readSummarySourceMap,
+} from "./summary-source-map";
 
 /**
  * Opens the specified source location in a text editor.
@@ -104,19 +99,7 @@ export class SummaryLanguageSupport extends DisposableObject {
     if (this.lastDocument !== document) {
       this.clearCache();
 
-      const mapPath = `${document.uri.fsPath}.map`;
-
-      try {
-        const sourceMapText = await readFile(mapPath, "utf-8");
-        const rawMap: RawSourceMap = JSON.parse(sourceMapText);
-        this.sourceMap = await new SourceMapConsumer(rawMap);
-      } catch (e: unknown) {
-        // Error reading sourcemap. Pretend there was no sourcemap.
-        void extLogger.log(
-          `Error reading sourcemap file '${mapPath}': ${getErrorMessage(e)}`,
-        );
-        this.sourceMap = undefined;
-      }
+      this.sourceMap = await readSummarySourceMap(document.uri.fsPath);
       this.lastDocument = document;
     }
 
@@ -124,23 +107,11 @@ export class SummaryLanguageSupport extends DisposableObject {
       return undefined;
     }
 
-    const qlPosition = this.sourceMap.originalPositionFor({
-      line: editor.selection.start.line + 1,
-      column: editor.selection.start.character,
-      bias: SourceMapConsumer.GREATEST_LOWER_BOUND,
-    });
-
-    if (qlPosition.source === null || qlPosition.line === null) {
-      // No position found.
-      return undefined;
-    }
-    const line = qlPosition.line - 1; // In `source-map`, lines are 1-based...
-    const column = qlPosition.column ?? 0; // ...but columns are 0-based :(
-
-    return {
-      filePath: qlPosition.source,
-      position: new Position(line, column),
-    };
+    return getQLPosition(
+      this.sourceMap,
+      editor.selection.start.line,
+      editor.selection.start.character,
+    );
   }
 
   /**
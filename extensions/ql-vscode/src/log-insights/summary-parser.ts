@@ -28,6 +28,17 @@ export interface SummarySymbols {
   predicates: Record<string, PredicateSymbol>;
 }
 
+/**
+ * Compute the key used to find a predicate in the summary symbols.
+ * @param name The name of the predicate.
+ * @param raHash The RA hash of the predicate.
+ * @returns The key of the predicate, consisting of `name@shortHash`, where `shortHash` is the first
+ * eight characters of `raHash`.
+ */
+export function predicateSymbolKey(name: string, raHash: string): string {
+  return `${name}@${raHash.substring(0, 8)}`;
+}
+
 // Tuple counts for Expr::Expr::getParent#dispred#f0820431#ff@76d6745o:
 const NON_RECURSIVE_TUPLE_COUNT_REGEXP =
   /^Evaluated relational algebra for predicate (?<predicateName>\S+) with tuple counts:$/;
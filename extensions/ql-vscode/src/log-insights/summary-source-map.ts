@@ -0,0 +1,92 @@
+import { readFile } from "fs-extra";
+import { RawSourceMap, SourceMapConsumer } from "source-map";
+import { Position } from "vscode";
+import { extLogger } from "../common/logging/vscode";
+import { getErrorMessage } from "../common/helpers-pure";
+
+/** A `Position` within a specified file on disk. */
+export interface PositionInFile {
+  filePath: string;
+  position: Position;
+}
+
+/**
+ * Reads the sourcemap that maps the RA in a human-readable evaluator log summary back to the QL
+ * code that generated it.
+ * @param summaryPath The path to the human-readable log summary.
+ * @returns The sourcemap, or `undefined` if it could not be read.
+ */
+export async function readSummarySourceMap(
+  summaryPath: string,
+): Promise<SourceMapConsumer | undefined> {
+  const mapPath = `${summaryPath}.map`;
+
+  try {
+    const sourceMapText = await readFile(mapPath, "utf-8");
+    const rawMap: RawSourceMap = JSON.parse(sourceMapText);
+    return await new SourceMapConsumer(rawMap);
+  } catch (e: unknown) {
+    // Error reading sourcemap. Pretend there was no sourcemap.
+    void extLogger.log(
+      `Error reading sourcemap file '${mapPath}': ${getErrorMessage(e)}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Gets the location of the QL code that generated the RA at the given position in the summary, or
+ * `undefined` if there is no mapping.
+ * @param line The 0-based line in the summary.
+ * @param column The 0-based column in the summary.
+ * @param bias Whether to use the closest mapping before or after the position.
+ */
+export function getQLPosition(
+  sourceMap: SourceMapConsumer,
+  line: number,
+  column: number,
+  bias = SourceMapConsumer.GREATEST_LOWER_BOUND,
+): PositionInFile | undefined {
+  const qlPosition = sourceMap.originalPositionFor({
+    line: line + 1,
+    column,
+    bias,
+  });
+
+  if (qlPosition.source === null || qlPosition.line === null) {
+    // No position found.
+    return undefined;
+  }
+  const qlLine = qlPosition.line - 1; // In `source-map`, lines are 1-based...
+  const qlColumn = qlPosition.column ?? 0; // ...but columns are 0-based :(
+
+  return {
+    filePath: qlPosition.source,
+    position: new Position(qlLine, qlColumn),
+  };
+}
+
+/**
+ * Gets the location of the QL code that generated a block of RA, such as the pipeline of a
+ * predicate. This is the location of the first line in the block that has a mapping.
+ * @param startLine The 0-based first line of the block in the summary.
+ * @param endLine The 0-based last line of the block in the summary.
+ */
+export function getQLPositionForLines(
+  sourceMap: SourceMapConsumer,
+  startLine: number,
+  endLine: number,
+): PositionInFile | undefined {
+  for (let line = startLine; line <= endLine; line++) {
+    const position = getQLPosition(
+      sourceMap,
+      line,
+      0,
+      SourceMapConsumer.LEAST_UPPER_BOUND,
+    );
+    if (position !== undefined) {
+      return position;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,266 @@
+import type { GenerateExtensiblePredicateMetadataResult } from "../codeql-cli/cli";
+import { QueryLanguage } from "../common/query-language";
+import { assertNever, getErrorMessage } from "../common/helpers-pure";
+import { ModeledMethod } from "./modeled-method";
+import {
+  getModelsAsDataLanguage,
+  ModelsAsDataLanguagePredicate,
+} from "./languages";
+import { validateModelExtensionFile } from "./yaml";
+import { ModelExtensionFile } from "./model-extension-file";
+import { validateModeledMethods } from "./shared/validation";
+
+export type ExtensiblePredicateMetadata = Required<
+  Pick<
+    GenerateExtensiblePredicateMetadataResult["extensible_predicates"][number],
+    "name" | "parameters"
+  >
+>;
+
+/**
+ * Checks whether the metadata of an extensible predicate includes its name and parameters,
+ * which older versions of the CLI don't output.
+ */
+export function isExtensiblePredicateMetadata(
+  metadata: GenerateExtensiblePredicateMetadataResult["extensible_predicates"][number],
+): metadata is ExtensiblePredicateMetadata &
+  GenerateExtensiblePredicateMetadataResult["extensible_predicates"][number] {
+  return metadata.name !== undefined && metadata.parameters !== undefined;
+}
+
+export type DataExtensionValidationError = {
+  message: string;
+  severity: "error" | "warning";
+  /**
+   * The index of the extension in the file that this error applies to. If this is undefined,
+   * the error applies to the file as a whole.
+   */
+  extensionIndex?: number;
+  /**
+   * The index of the data row in the extension that this error applies to. If this is undefined,
+   * the error applies to the extension as a whole.
+   */
+  rowIndex?: number;
+};
+
+type ModeledMethodLocation = {
+  modeledMethod: ModeledMethod;
+  extensionIndex: number;
+  rowIndex: number;
+};
+
+/**
+ * Checks whether the given access path is syntactically valid. An access path consists of
+ * tokens separated by dots, where each token is a name that is optionally followed by
+ * arguments in square brackets, such as `Argument[0].Field[org.example.Foo.bar]`.
+ */
+function isValidAccessPath(accessPath: string): boolean {
+  // The columns of a hand-written row may have any type
+  if (typeof accessPath !== "string") {
+    return false;
+  }
+
+  const tokens: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < accessPath.length; i++) {
+    const char = accessPath[i];
+    if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth < 0) {
+        return false;
+      }
+    } else if (char === "." && depth === 0) {
+      tokens.push(accessPath.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (depth !== 0) {
+    return false;
+  }
+  tokens.push(accessPath.slice(start));
+
+  return tokens.every((token) => /^\w+(\[[^[\]]*\])?$/.test(token));
+}
+
+function getAccessPaths(modeledMethod: ModeledMethod): string[] {
+  switch (modeledMethod.type) {
+    case "source":
+      return [modeledMethod.output];
+    case "sink":
+      return [modeledMethod.input];
+    case "summary":
+      return [modeledMethod.input, modeledMethod.output];
+    case "type":
+      // The path of a type model is empty when the type itself is the related type
+      return modeledMethod.path === "" ? [] : [modeledMethod.path];
+    case "none":
+    case "neutral":
+      return [];
+    default:
+      assertNever(modeledMethod);
+  }
+}
+
+/**
+ * Validates a data extension file against the extensible predicates of the packs it adds to
+ * and the methods in the database.
+ *
+ * @param data The parsed contents of the data extension file.
+ * @param language The language of the database.
+ * @param extensiblePredicates The extensible predicates of each pack, by pack name. Extensions
+ *   that add to a pack that is not in this record are not checked against its predicates.
+ * @param methodSignatures The signatures of all methods in the database. If this is undefined,
+ *   the signatures of the models are not checked.
+ */
+export function validateDataExtensionYaml(
+  data: unknown,
+  language: QueryLanguage,
+  extensiblePredicates: Readonly<
+    Record<string, readonly ExtensiblePredicateMetadata[]>
+  >,
+  methodSignatures: ReadonlySet<string> | undefined,
+): DataExtensionValidationError[] {
+  let file: ModelExtensionFile;
+  try {
+    if (!validateModelExtensionFile(data)) {
+      return [];
+    }
+    file = data;
+  } catch (e) {
+    return [
+      {
+        message: getErrorMessage(e),
+        severity: "error",
+      },
+    ];
+  }
+
+  const modelsAsDataLanguage = getModelsAsDataLanguage(language);
+
+  const errors: DataExtensionValidationError[] = [];
+  const modeledMethodsBySignature = new Map<string, ModeledMethodLocation[]>();
+
+  file.extensions.forEach((extension, extensionIndex) => {
+    const { pack, extensible } = extension.addsTo;
+
+    const packPredicates = extensiblePredicates[pack];
+    const predicate = packPredicates?.find(
+      (predicate) => predicate.name === extensible,
+    );
+    if (packPredicates && !predicate) {
+      errors.push({
+        message: `Unknown extensible predicate ${extensible} in pack ${pack}.`,
+        severity: "error",
+        extensionIndex,
+      });
+      return;
+    }
+
+    const definition = Object.values(modelsAsDataLanguage.predicates).find(
+      (definition) => definition.extensiblePredicate === extensible,
+    ) as ModelsAsDataLanguagePredicate<ModeledMethod> | undefined;
+
+    extension.data.forEach((row, rowIndex) => {
+      if (predicate && row.length !== predicate.parameters.length) {
+        errors.push({
+          message: `Expected ${predicate.parameters.length} columns for ${extensible} but found ${row.length}.`,
+          severity: "error",
+          extensionIndex,
+          rowIndex,
+        });
+        return;
+      }
+
+      // Rows of extensible predicates that the model editor doesn't know about can't be
+      // interpreted as models, so there is nothing more to check.
+      if (!definition) {
+        return;
+      }
+
+      let modeledMethod: ModeledMethod;
+      try {
+        modeledMethod = definition.readModeledMethod(row);
+      } catch (e) {
+        errors.push({
+          message: `Invalid row for ${extensible}: ${getErrorMessage(e)}`,
+          severity: "error",
+          extensionIndex,
+          rowIndex,
+        });
+        return;
+      }
+
+      // Without the metadata of the pack, check the row against the columns of the rows
+      // that the model editor generates for the extensible predicate.
+      if (!predicate) {
+        const columnCount =
+          definition.generateMethodDefinition(modeledMethod).length;
+        if (row.length !== columnCount) {
+          errors.push({
+            message: `Expected ${columnCount} columns for ${extensible} but found ${row.length}.`,
+            severity: "error",
+            extensionIndex,
+            rowIndex,
+          });
+          return;
+        }
+      }
+
+      for (const accessPath of getAccessPaths(modeledMethod)) {
+        if (!isValidAccessPath(accessPath)) {
+          errors.push({
+            message: `Invalid access path "${accessPath}".`,
+            severity: "error",
+            extensionIndex,
+            rowIndex,
+          });
+        }
+      }
+
+      if (
+        methodSignatures &&
+        modeledMethod.type !== "type" &&
+        !methodSignatures.has(modeledMethod.signature)
+      ) {
+        errors.push({
+          message: `${modeledMethod.signature} does not match any method in the database.`,
+          severity: "warning",
+          extensionIndex,
+          rowIndex,
+        });
+      }
+
+      const locations =
+        modeledMethodsBySignature.get(modeledMethod.signature) ?? [];
+      locations.push({ modeledMethod, extensionIndex, rowIndex });
+      modeledMethodsBySignature.set(modeledMethod.signature, locations);
+    });
+  });
+
+  for (const locations of modeledMethodsBySignature.values()) {
+    const validationErrors = validateModeledMethods(
+      locations.map((location) => location.modeledMethod),
+    );
+    for (const validationError of validationErrors) {
+      const { extensionIndex, rowIndex } = locations[validationError.index];
+      errors.push({
+        message: `${validationError.title}: ${validationError.message} ${validationError.actionText}`,
+        severity: "error",
+        extensionIndex,
+        rowIndex,
+      });
+    }
+  }
+
+  // Sort by location so that the errors are always in the same order
+  errors.sort(
+    (a, b) =>
+      (a.extensionIndex ?? -1) - (b.extensionIndex ?? -1) ||
+      (a.rowIndex ?? -1) - (b.rowIndex ?? -1),
+  );
+
+  return errors;
+}
@@ -0,0 +1,260 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  languages,
+  Position,
+  Range,
+  TextDocument,
+  Uri,
+  workspace,
+} from "vscode";
+import { join } from "path";
+import { load as loadYaml, YAMLException } from "js-yaml";
+import { DisposableObject } from "../common/disposable-object";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { QueryLanguage } from "../common/query-language";
+import { getOnDiskWorkspaceFolders } from "../common/vscode/workspace-folders";
+import { containsPath } from "../common/files";
+import { getErrorMessage } from "../common/helpers-pure";
+import { ExtensionPack } from "./shared/extension-pack";
+import { listModelFiles } from "./modeled-method-fs";
+import {
+  DataExtensionValidationError,
+  ExtensiblePredicateMetadata,
+  isExtensiblePredicateMetadata,
+  validateDataExtensionYaml,
+} from "./extension-pack-validation";
+
+type ValidationContext = {
+  extensionPack: ExtensionPack;
+  language: QueryLanguage;
+  extensiblePredicates: Record<string, ExtensiblePredicateMetadata[]>;
+  methodSignatures: Set<string>;
+};
+
+type YamlWithRanges = {
+  data: unknown;
+  /**
+   * The start and end offsets of each object or array in the parsed data.
+   */
+  ranges: Map<unknown, [number, number]>;
+};
+
+/**
+ * Parses the YAML text and records the offsets of each object or array in the result, so
+ * that validation errors can be reported at the location of the row they apply to.
+ */
+function loadYamlWithRanges(text: string, filename: string): YamlWithRanges {
+  const ranges = new Map<unknown, [number, number]>();
+  const starts: number[] = [];
+
+  const data = loadYaml(text, {
+    filename,
+    listener(eventType, state) {
+      if (eventType === "open") {
+        starts.push(state.position);
+        return;
+      }
+
+      const start = starts.pop() ?? 0;
+      // Nested nodes close first and are the most precise, so don't overwrite them
+      if (
+        typeof state.result === "object" &&
+        state.result !== null &&
+        !ranges.has(state.result)
+      ) {
+        // The offsets include any whitespace around the node
+        const nodeText = text.slice(start, state.position);
+        const trimmedStart =
+          start + nodeText.length - nodeText.trimStart().length;
+        const trimmedEnd = start + nodeText.trimEnd().length;
+        ranges.set(state.result, [trimmedStart, trimmedEnd]);
+      }
+    },
+  });
+
+  return { data, ranges };
+}
+
+function getErrorRange(
+  document: TextDocument,
+  { data, ranges }: YamlWithRanges,
+  error: DataExtensionValidationError,
+): Range {
+  const extension =
+    error.extensionIndex === undefined
+      ? undefined
+      : (data as { extensions: Array<{ addsTo: unknown; data: unknown[] }> })
+          .extensions[error.extensionIndex];
+  const node =
+    error.rowIndex === undefined
+      ? extension?.addsTo
+      : extension?.data[error.rowIndex];
+
+  const offsets = ranges.get(node);
+  if (!offsets) {
+    return document.lineAt(0).range;
+  }
+
+  return new Range(
+    document.positionAt(offsets[0]),
+    document.positionAt(offsets[1]),
+  );
+}
+
+/**
+ * Reports problems in the data extension files of an extension pack as diagnostics. After
+ * an extension pack has been validated, its files are validated again whenever they are saved.
+ */
+export class ExtensionPackValidator extends DisposableObject {
+  private readonly diagnosticCollection = this.push(
+    languages.createDiagnosticCollection("codeql-extension-pack"),
+  );
+  private context: ValidationContext | undefined = undefined;
+
+  constructor(private readonly cliServer: CodeQLCliServer) {
+    super();
+
+    this.push(
+      workspace.onDidSaveTextDocument((document) =>
+        this.onDidSaveTextDocument(document),
+      ),
+    );
+  }
+
+  /**
+   * Validates all data extension files in the extension pack.
+   *
+   * @param methodSignatures The signatures of all methods in the database.
+   * @returns The number of problems that were found.
+   */
+  public async validateExtensionPack(
+    extensionPack: ExtensionPack,
+    language: QueryLanguage,
+    methodSignatures: Set<string>,
+  ): Promise<number> {
+    this.context = {
+      extensionPack,
+      language,
+      extensiblePredicates: await this.getExtensiblePredicates(extensionPack),
+      methodSignatures,
+    };
+
+    this.diagnosticCollection.clear();
+
+    let problemCount = 0;
+    const modelFiles = await listModelFiles(extensionPack.path, this.cliServer);
+    for (const modelFile of modelFiles) {
+      const uri = Uri.file(join(extensionPack.path, modelFile));
+      const document = await workspace.openTextDocument(uri);
+      problemCount += this.validateDocument(document, this.context);
+    }
+
+    return problemCount;
+  }
+
+  private onDidSaveTextDocument(document: TextDocument): void {
+    if (
+      this.context === undefined ||
+      !/\.ya?ml$/.test(document.uri.fsPath) ||
+      !containsPath(this.context.extensionPack.path, document.uri.fsPath)
+    ) {
+      return;
+    }
+
+    this.validateDocument(document, this.context);
+  }
+
+  /**
+   * Validates a single data extension file and replaces its diagnostics.
+   *
+   * @returns The number of problems that were found.
+   */
+  private validateDocument(
+    document: TextDocument,
+    context: ValidationContext,
+  ): number {
+    let yaml: YamlWithRanges;
+    try {
+      yaml = loadYamlWithRanges(document.getText(), document.uri.fsPath);
+    } catch (e) {
+      const position =
+        e instanceof YAMLException
+          ? document.validatePosition(new Position(e.mark.line, e.mark.column))
+          : new Position(0, 0);
+      this.diagnosticCollection.set(document.uri, [
+        new Diagnostic(
+          new Range(position, position),
+          getErrorMessage(e),
+          DiagnosticSeverity.Error,
+        ),
+      ]);
+      return 1;
+    }
+
+    const errors = validateDataExtensionYaml(
+      yaml.data,
+      context.language,
+      context.extensiblePredicates,
+      context.methodSignatures,
+    );
+
+    this.diagnosticCollection.set(
+      document.uri,
+      errors.map((error) => {
+        const diagnostic = new Diagnostic(
+          getErrorRange(document, yaml, error),
+          error.message,
+          error.severity === "error"
+            ? DiagnosticSeverity.Error
+            : DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = "CodeQL";
+        return diagnostic;
+      }),
+    );
+
+    return errors.length;
+  }
+
+  /**
+   * Gets the extensible predicates of each pack that the extension pack targets. Packs that
+   * can't be found are left out, so extensions that add to them are not checked.
+   */
+  private async getExtensiblePredicates(
+    extensionPack: ExtensionPack,
+  ): Promise<Record<string, ExtensiblePredicateMetadata[]>> {
+    if (
+      !(await this.cliServer.cliConstraints.supportsGenerateExtensiblePredicateMetadata())
+    ) {
+      return {};
+    }
+
+    const qlpacks = await this.cliServer.resolveQlpacks(
+      getOnDiskWorkspaceFolders(),
+    );
+
+    const extensiblePredicates: Record<string, ExtensiblePredicateMetadata[]> =
+      {};
+    for (const packName of Object.keys(extensionPack.extensionTargets)) {
+      const packDir = qlpacks[packName]?.[0];
+      if (packDir === undefined) {
+        continue;
+      }
+
+      const metadata = await this.cliServer.generateExtensiblePredicateMetadata(
+        packDir,
+      );
+      // Older versions of the CLI only include the path of each extensible predicate,
+      // which is not enough to check the extensions against them.
+      const predicates = metadata.extensible_predicates.filter(
+        isExtensiblePredicateMetadata,
+      );
+      if (predicates.length === metadata.extensible_predicates.length) {
+        extensiblePredicates[packName] = predicates;
+      }
+    }
+
+    return extensiblePredicates;
+  }
+}
@@ -0,0 +1,194 @@
+import { ModelsAsDataLanguagePredicates } from "./models-as-data";
+import { sharedExtensiblePredicates, sharedKinds } from "./shared";
+
+/**
+ * The access path token that selects a method of a type: `Member` for Python and JavaScript,
+ * `Method` for Ruby.
+ */
+type ApiGraphMethodToken = "Member" | "Method";
+
+export function parseApiGraphMethodFromPath(
+  methodToken: ApiGraphMethodToken,
+  path: string,
+): string {
+  const match = path.match(new RegExp(`${methodToken}\\[([^\\]]+)].*`));
+  if (match) {
+    return match[1];
+  } else {
+    return "";
+  }
+}
+
+export function parseApiGraphAccessPath(
+  methodToken: ApiGraphMethodToken,
+  path: string,
+): {
+  methodName: string;
+  path: string;
+} {
+  const match = path.match(new RegExp(`${methodToken}\\[([^\\]]+)]\\.(.*)`));
+  if (match) {
+    return { methodName: match[1], path: match[2] };
+  } else {
+    return { methodName: "", path: "" };
+  }
+}
+
+export function apiGraphMethodSignature(typeName: string, methodName: string) {
+  return `${typeName}#${methodName}`;
+}
+
+/**
+ * Creates the predicates of languages that use API graphs for their models, such as Python,
+ * JavaScript and Ruby. A method is identified by a type and an access path that starts with
+ * the given token selecting the method.
+ */
+export function createApiGraphPredicates(
+  methodToken: ApiGraphMethodToken,
+): ModelsAsDataLanguagePredicates {
+  const parseMethodFromPath = (path: string) =>
+    parseApiGraphMethodFromPath(methodToken, path);
+  const parseAccessPath = (path: string) =>
+    parseApiGraphAccessPath(methodToken, path);
+
+  return {
+    source: {
+      extensiblePredicate: sharedExtensiblePredicates.source,
+      supportedKinds: sharedKinds.source,
+      // extensible predicate sourceModel(
+      //   string type, string path, string kind
+      // );
+      generateMethodDefinition: (method) => [
+        method.typeName,
+        `${methodToken}[${method.methodName}].${method.output}`,
+        method.kind,
+      ],
+      readModeledMethod: (row) => {
+        const typeName = row[0] as string;
+        const { methodName, path: output } = parseAccessPath(row[1] as string);
+        return {
+          type: "source",
+          input: "",
+          output,
+          kind: row[2] as string,
+          provenance: "manual",
+          signature: apiGraphMethodSignature(typeName, methodName),
+          packageName: "",
+          typeName,
+          methodName,
+          methodParameters: "",
+        };
+      },
+    },
+    sink: {
+      extensiblePredicate: sharedExtensiblePredicates.sink,
+      supportedKinds: sharedKinds.sink,
+      // extensible predicate sinkModel(
+      //   string type, string path, string kind
+      // );
+      generateMethodDefinition: (method) => [
+        method.typeName,
+        `${methodToken}[${method.methodName}].${method.input}`,
+        method.kind,
+      ],
+      readModeledMethod: (row) => {
+        const typeName = row[0] as string;
+        const { methodName, path: input } = parseAccessPath(row[1] as string);
+        return {
+          type: "sink",
+          input,
+          output: "",
+          kind: row[2] as string,
+          provenance: "manual",
+          signature: apiGraphMethodSignature(typeName, methodName),
+          packageName: "",
+          typeName,
+          methodName,
+          methodParameters: "",
+        };
+      },
+    },
+    summary: {
+      extensiblePredicate: sharedExtensiblePredicates.summary,
+      supportedKinds: sharedKinds.summary,
+      // extensible predicate summaryModel(
+      //   string type, string path, string input, string output, string kind
+      // );
+      generateMethodDefinition: (method) => [
+        method.typeName,
+        `${methodToken}[${method.methodName}]`,
+        method.input,
+        method.output,
+        method.kind,
+      ],
+      readModeledMethod: (row) => {
+        const typeName = row[0] as string;
+        const methodName = parseMethodFromPath(row[1] as string);
+        return {
+          type: "summary",
+          input: row[2] as string,
+          output: row[3] as string,
+          kind: row[4] as string,
+          provenance: "manual",
+          signature: apiGraphMethodSignature(typeName, methodName),
+          packageName: "",
+          typeName,
+          methodName,
+          methodParameters: "",
+        };
+      },
+    },
+    neutral: {
+      extensiblePredicate: sharedExtensiblePredicates.neutral,
+      supportedKinds: sharedKinds.neutral,
+      // extensible predicate neutralModel(
+      //   string type, string path, string kind
+      // );
+      generateMethodDefinition: (method) => [
+        method.typeName,
+        `${methodToken}[${method.methodName}]`,
+        method.kind,
+      ],
+      readModeledMethod: (row) => {
+        const typeName = row[0] as string;
+        const methodName = parseMethodFromPath(row[1] as string);
+        return {
+          type: "neutral",
+          input: "",
+          output: "",
+          kind: row[2] as string,
+          provenance: "manual",
+          signature: apiGraphMethodSignature(typeName, methodName),
+          packageName: "",
+          typeName,
+          methodName,
+          methodParameters: "",
+        };
+      },
+    },
+    type: {
+      extensiblePredicate: "typeModel",
+      // extensible predicate typeModel(string type1, string type2, string path);
+      generateMethodDefinition: (method) => [
+        method.relatedTypeName,
+        method.typeName,
+        `${methodToken}[${method.methodName}].${method.path}`,
+      ],
+      readModeledMethod: (row) => {
+        const typeName = row[1] as string;
+        const { methodName, path } = parseAccessPath(row[2] as string);
+
+        return {
+          type: "type",
+          relatedTypeName: row[0] as string,
+          path,
+          signature: apiGraphMethodSignature(typeName, methodName),
+          packageName: "",
+          typeName,
+          methodName,
+          methodParameters: "",
+        };
+      },
+    },
+  };
+}
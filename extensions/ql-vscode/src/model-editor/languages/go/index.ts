@@ -0,0 +1,193 @@
+import { ModelsAsDataLanguage } from "../models-as-data";
+import { Provenance } from "../../modeled-method";
+import { sharedExtensiblePredicates, sharedKinds } from "../shared";
+import {
+  filterFlowModelQueries,
+  parseFlowModelResults,
+} from "../static/generate";
+import { getArgumentsList, MethodArgument } from "../../method";
+
+// Go does not have overloading, so the parameters are not part of the signature. Functions
+// that are not methods have an empty type name.
+function goMethodSignature(
+  packageName: string,
+  typeName: string,
+  methodName: string,
+) {
+  if (typeName === "") {
+    return `${packageName}#${methodName}`;
+  }
+  return `${packageName}.${typeName}#${methodName}`;
+}
+
+export const go: ModelsAsDataLanguage = {
+  createMethodSignature: ({ packageName, typeName, methodName }) =>
+    goMethodSignature(packageName, typeName, methodName),
+  predicates: {
+    source: {
+      extensiblePredicate: sharedExtensiblePredicates.source,
+      supportedKinds: sharedKinds.source,
+      // extensible predicate sourceModel(
+      //   string package, string type, boolean subtypes, string name, string signature, string ext,
+      //   string output, string kind, string provenance
+      // );
+      generateMethodDefinition: (method) => [
+        method.packageName,
+        method.typeName,
+        true,
+        method.methodName,
+        "",
+        "",
+        method.output,
+        method.kind,
+        method.provenance,
+      ],
+      readModeledMethod: (row) => ({
+        type: "source",
+        input: "",
+        output: row[6] as string,
+        kind: row[7] as string,
+        provenance: row[8] as Provenance,
+        signature: goMethodSignature(
+          row[0] as string,
+          row[1] as string,
+          row[3] as string,
+        ),
+        packageName: row[0] as string,
+        typeName: row[1] as string,
+        methodName: row[3] as string,
+        methodParameters: row[4] as string,
+      }),
+    },
+    sink: {
+      extensiblePredicate: sharedExtensiblePredicates.sink,
+      supportedKinds: sharedKinds.sink,
+      // extensible predicate sinkModel(
+      //   string package, string type, boolean subtypes, string name, string signature, string ext,
+      //   string input, string kind, string provenance
+      // );
+      generateMethodDefinition: (method) => [
+        method.packageName,
+        method.typeName,
+        true,
+        method.methodName,
+        "",
+        "",
+        method.input,
+        method.kind,
+        method.provenance,
+      ],
+      readModeledMethod: (row) => ({
+        type: "sink",
+        input: row[6] as string,
+        output: "",
+        kind: row[7] as string,
+        provenance: row[8] as Provenance,
+        signature: goMethodSignature(
+          row[0] as string,
+          row[1] as string,
+          row[3] as string,
+        ),
+        packageName: row[0] as string,
+        typeName: row[1] as string,
+        methodName: row[3] as string,
+        methodParameters: row[4] as string,
+      }),
+    },
+    summary: {
+      extensiblePredicate: sharedExtensiblePredicates.summary,
+      supportedKinds: sharedKinds.summary,
+      // extensible predicate summaryModel(
+      //   string package, string type, boolean subtypes, string name, string signature, string ext,
+      //   string input, string output, string kind, string provenance
+      // );
+      generateMethodDefinition: (method) => [
+        method.packageName,
+        method.typeName,
+        true,
+        method.methodName,
+        "",
+        "",
+        method.input,
+        method.output,
+        method.kind,
+        method.provenance,
+      ],
+      readModeledMethod: (row) => ({
+        type: "summary",
+        input: row[6] as string,
+        output: row[7] as string,
+        kind: row[8] as string,
+        provenance: row[9] as Provenance,
+        signature: goMethodSignature(
+          row[0] as string,
+          row[1] as string,
+          row[3] as string,
+        ),
+        packageName: row[0] as string,
+        typeName: row[1] as string,
+        methodName: row[3] as string,
+        methodParameters: row[4] as string,
+      }),
+    },
+    neutral: {
+      extensiblePredicate: sharedExtensiblePredicates.neutral,
+      supportedKinds: sharedKinds.neutral,
+      // extensible predicate neutralModel(
+      //   string package, string type, string name, string signature, string kind, string provenance
+      // );
+      generateMethodDefinition: (method) => [
+        method.packageName,
+        method.typeName,
+        method.methodName,
+        "",
+        method.kind,
+        method.provenance,
+      ],
+      readModeledMethod: (row) => ({
+        type: "neutral",
+        input: "",
+        output: "",
+        kind: row[4] as string,
+        provenance: row[5] as Provenance,
+        signature: goMethodSignature(
+          row[0] as string,
+          row[1] as string,
+          row[2] as string,
+        ),
+        packageName: row[0] as string,
+        typeName: row[1] as string,
+        methodName: row[2] as string,
+        methodParameters: row[3] as string,
+      }),
+    },
+  },
+  modelGeneration: {
+    queryConstraints: {
+      "tags contain": ["modelgenerator"],
+    },
+    filterQueries: filterFlowModelQueries,
+    parseResults: parseFlowModelResults,
+  },
+  getArgumentOptions: (method) => {
+    const argumentsList = getArgumentsList(method.methodParameters).map(
+      (argument, index): MethodArgument => ({
+        path: `Argument[${index}]`,
+        label: `Argument[${index}]: ${argument}`,
+      }),
+    );
+
+    return {
+      options: [
+        {
+          path: "Argument[receiver]",
+          label: "Argument[receiver]",
+        },
+        ...argumentsList,
+      ],
+      // If there are no arguments, we will default to "Argument[receiver]"
+      defaultArgumentPath:
+        argumentsList.length > 0 ? argumentsList[0].path : "Argument[receiver]",
+    };
+  },
+};
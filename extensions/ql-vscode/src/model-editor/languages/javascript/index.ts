@@ -0,0 +1,35 @@
+import { ModelsAsDataLanguage } from "../models-as-data";
+import { Mode } from "../../shared/mode";
+import {
+  apiGraphMethodSignature,
+  createApiGraphPredicates,
+} from "../api-graph";
+import { getArgumentsList, MethodArgument } from "../../method";
+
+export const javascript: ModelsAsDataLanguage = {
+  availableModes: [Mode.Framework],
+  createMethodSignature: ({ typeName, methodName }) =>
+    apiGraphMethodSignature(typeName, methodName),
+  predicates: createApiGraphPredicates("Member"),
+  getArgumentOptions: (method) => {
+    const argumentsList = getArgumentsList(method.methodParameters).map(
+      (argument, index): MethodArgument => ({
+        path: `Argument[${index}]`,
+        label: `Argument[${index}]: ${argument}`,
+      }),
+    );
+
+    return {
+      options: [
+        {
+          path: "Argument[this]",
+          label: "Argument[this]",
+        },
+        ...argumentsList,
+      ],
+      // If there are no arguments, we will default to "Argument[this]"
+      defaultArgumentPath:
+        argumentsList.length > 0 ? argumentsList[0].path : "Argument[this]",
+    };
+  },
+};
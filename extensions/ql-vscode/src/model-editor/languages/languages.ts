@@ -3,12 +3,18 @@ import {
   ModelsAsDataLanguage,
   ModelsAsDataLanguagePredicates,
 } from "./models-as-data";
+import { go } from "./go";
+import { javascript } from "./javascript";
+import { python } from "./python";
 import { ruby } from "./ruby";
 import { staticLanguage } from "./static";
 
 const languages: Partial<Record<QueryLanguage, ModelsAsDataLanguage>> = {
   [QueryLanguage.CSharp]: staticLanguage,
+  [QueryLanguage.Go]: go,
   [QueryLanguage.Java]: staticLanguage,
+  [QueryLanguage.Javascript]: javascript,
+  [QueryLanguage.Python]: python,
   [QueryLanguage.Ruby]: ruby,
 };
 
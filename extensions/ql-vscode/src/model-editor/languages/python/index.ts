@@ -0,0 +1,36 @@
+import { ModelsAsDataLanguage } from "../models-as-data";
+import { Mode } from "../../shared/mode";
+import {
+  apiGraphMethodSignature,
+  createApiGraphPredicates,
+} from "../api-graph";
+import { getArgumentsList, MethodArgument } from "../../method";
+
+export const python: ModelsAsDataLanguage = {
+  availableModes: [Mode.Framework],
+  createMethodSignature: ({ typeName, methodName }) =>
+    apiGraphMethodSignature(typeName, methodName),
+  predicates: createApiGraphPredicates("Member"),
+  getArgumentOptions: (method) => {
+    // Python arguments can be passed by position or by keyword, so we'll match both
+    const argumentsList = getArgumentsList(method.methodParameters).map(
+      (argument, index): MethodArgument => ({
+        path: `Argument[${index},${argument}:]`,
+        label: `Argument[${index},${argument}:]: ${argument}`,
+      }),
+    );
+
+    return {
+      options: [
+        {
+          path: "Argument[self]",
+          label: "Argument[self]",
+        },
+        ...argumentsList,
+      ],
+      // If there are no arguments, we will default to "Argument[self]"
+      defaultArgumentPath:
+        argumentsList.length > 0 ? argumentsList[0].path : "Argument[self]",
+    };
+  },
+};
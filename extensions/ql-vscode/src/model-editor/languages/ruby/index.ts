@@ -1,181 +1,17 @@
 import { ModelsAsDataLanguage } from "../models-as-data";
-import { sharedExtensiblePredicates, sharedKinds } from "../shared";
 import { Mode } from "../../shared/mode";
+import {
+  apiGraphMethodSignature,
+  createApiGraphPredicates,
+} from "../api-graph";
 import { parseGenerateModelResults } from "./generate";
 import { getArgumentsList, MethodArgument } from "../../method";
 
-function parseRubyMethodFromPath(path: string): string {
-  const match = path.match(/Method\[([^\]]+)].*/);
-  if (match) {
-    return match[1];
-  } else {
-    return "";
-  }
-}
-
-function parseRubyAccessPath(path: string): {
-  methodName: string;
-  path: string;
-} {
-  const match = path.match(/Method\[([^\]]+)]\.(.*)/);
-  if (match) {
-    return { methodName: match[1], path: match[2] };
-  } else {
-    return { methodName: "", path: "" };
-  }
-}
-
-function rubyMethodSignature(typeName: string, methodName: string) {
-  return `${typeName}#${methodName}`;
-}
-
 export const ruby: ModelsAsDataLanguage = {
   availableModes: [Mode.Framework],
   createMethodSignature: ({ typeName, methodName }) =>
-    `${typeName}#${methodName}`,
-  predicates: {
-    source: {
-      extensiblePredicate: sharedExtensiblePredicates.source,
-      supportedKinds: sharedKinds.source,
-      // extensible predicate sourceModel(
-      //   string type, string path, string kind
-      // );
-      generateMethodDefinition: (method) => [
-        method.typeName,
-        `Method[${method.methodName}].${method.output}`,
-        method.kind,
-      ],
-      readModeledMethod: (row) => {
-        const typeName = row[0] as string;
-        const { methodName, path: output } = parseRubyAccessPath(
-          row[1] as string,
-        );
-        return {
-          type: "source",
-          input: "",
-          output,
-          kind: row[2] as string,
-          provenance: "manual",
-          signature: rubyMethodSignature(typeName, methodName),
-          packageName: "",
-          typeName,
-          methodName,
-          methodParameters: "",
-        };
-      },
-    },
-    sink: {
-      extensiblePredicate: sharedExtensiblePredicates.sink,
-      supportedKinds: sharedKinds.sink,
-      // extensible predicate sinkModel(
-      //   string type, string path, string kind
-      // );
-      generateMethodDefinition: (method) => {
-        const path = `Method[${method.methodName}].${method.input}`;
-        return [method.typeName, path, method.kind];
-      },
-      readModeledMethod: (row) => {
-        const typeName = row[0] as string;
-        const { methodName, path: input } = parseRubyAccessPath(
-          row[1] as string,
-        );
-        return {
-          type: "sink",
-          input,
-          output: "",
-          kind: row[2] as string,
-          provenance: "manual",
-          signature: rubyMethodSignature(typeName, methodName),
-          packageName: "",
-          typeName,
-          methodName,
-          methodParameters: "",
-        };
-      },
-    },
-    summary: {
-      extensiblePredicate: sharedExtensiblePredicates.summary,
-      supportedKinds: sharedKinds.summary,
-      // extensible predicate summaryModel(
-      //   string type, string path, string input, string output, string kind
-      // );
-      generateMethodDefinition: (method) => [
-        method.typeName,
-        `Method[${method.methodName}]`,
-        method.input,
-        method.output,
-        method.kind,
-      ],
-      readModeledMethod: (row) => {
-        const typeName = row[0] as string;
-        const methodName = parseRubyMethodFromPath(row[1] as string);
-        return {
-          type: "summary",
-          input: row[2] as string,
-          output: row[3] as string,
-          kind: row[4] as string,
-          provenance: "manual",
-          signature: rubyMethodSignature(typeName, methodName),
-          packageName: "",
-          typeName,
-          methodName,
-          methodParameters: "",
-        };
-      },
-    },
-    neutral: {
-      extensiblePredicate: sharedExtensiblePredicates.neutral,
-      supportedKinds: sharedKinds.neutral,
-      // extensible predicate neutralModel(
-      //   string type, string path, string kind
-      // );
-      generateMethodDefinition: (method) => [
-        method.typeName,
-        `Method[${method.methodName}]`,
-        method.kind,
-      ],
-      readModeledMethod: (row) => {
-        const typeName = row[0] as string;
-        const methodName = parseRubyMethodFromPath(row[1] as string);
-        return {
-          type: "neutral",
-          input: "",
-          output: "",
-          kind: row[2] as string,
-          provenance: "manual",
-          signature: rubyMethodSignature(typeName, methodName),
-          packageName: "",
-          typeName,
-          methodName,
-          methodParameters: "",
-        };
-      },
-    },
-    type: {
-      extensiblePredicate: "typeModel",
-      // extensible predicate typeModel(string type1, string type2, string path);
-      generateMethodDefinition: (method) => [
-        method.relatedTypeName,
-        method.typeName,
-        `Method[${method.methodName}].${method.path}`,
-      ],
-      readModeledMethod: (row) => {
-        const typeName = row[1] as string;
-        const { methodName, path } = parseRubyAccessPath(row[2] as string);
-
-        return {
-          type: "type",
-          relatedTypeName: row[0] as string,
-          path,
-          signature: rubyMethodSignature(typeName, methodName),
-          packageName: "",
-          typeName,
-          methodName,
-          methodParameters: "",
-        };
-      },
-    },
-  },
+    apiGraphMethodSignature(typeName, methodName),
+  predicates: createApiGraphPredicates("Method"),
   modelGeneration: {
     queryConstraints: {
       "query path": "queries/modeling/GenerateModel.ql",
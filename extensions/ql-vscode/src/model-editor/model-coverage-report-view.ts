@@ -0,0 +1,129 @@
+import { Uri, ViewColumn, window, workspace } from "vscode";
+import { writeFile } from "fs-extra";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  FromModelCoverageReportMessage,
+  ToModelCoverageReportMessage,
+} from "../common/interface-types";
+import { showAndLogExceptionWithTelemetry } from "../common/logging";
+import { asError, assertNever, getErrorMessage } from "../common/helpers-pure";
+import {
+  AbstractWebview,
+  WebviewPanelConfig,
+} from "../common/vscode/abstract-webview";
+import { telemetryListener } from "../common/vscode/telemetry";
+import { redactableError } from "../common/errors";
+import { App } from "../common/app";
+import {
+  exportModelCoverageReport,
+  ModelCoverageReport,
+  ModelCoverageReportFormat,
+} from "./model-coverage-report";
+
+export class ModelCoverageReportView extends AbstractWebview<
+  ToModelCoverageReportMessage,
+  FromModelCoverageReportMessage
+> {
+  private report: ModelCoverageReport | undefined;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  async showReport(report: ModelCoverageReport) {
+    this.report = report;
+
+    const panel = await this.getPanel();
+    panel.reveal(undefined, true);
+
+    await this.waitForPanelLoaded();
+
+    await this.postMessage({
+      t: "setModelCoverageReport",
+      report,
+    });
+  }
+
+  protected getPanelConfig(): WebviewPanelConfig {
+    return {
+      viewId: "modelCoverageReportView",
+      title: "CodeQL Model Coverage Report",
+      viewColumn: ViewColumn.Active,
+      preserveFocus: true,
+      view: "model-coverage-report",
+    };
+  }
+
+  protected onPanelDispose(): void {
+    this.report = undefined;
+  }
+
+  protected async onMessage(
+    msg: FromModelCoverageReportMessage,
+  ): Promise<void> {
+    switch (msg.t) {
+      case "viewLoaded":
+        this.onWebViewLoaded();
+        break;
+
+      case "exportModelCoverageReport":
+        try {
+          await this.exportReport(msg.format);
+        } catch (e) {
+          void showAndLogExceptionWithTelemetry(
+            this.app.logger,
+            this.app.telemetry,
+            redactableError(
+              asError(e),
+            )`Failed to export model coverage report: ${getErrorMessage(e)}`,
+          );
+        }
+        break;
+
+      case "telemetry":
+        telemetryListener?.sendUIInteraction(msg.action);
+        break;
+
+      case "unhandledError":
+        void showAndLogExceptionWithTelemetry(
+          this.app.logger,
+          telemetryListener,
+          redactableError(
+            msg.error,
+          )`Unhandled error in model coverage report view: ${msg.error.message}`,
+        );
+        break;
+
+      default:
+        assertNever(msg);
+    }
+  }
+
+  private async exportReport(format: ModelCoverageReportFormat) {
+    if (this.report === undefined) {
+      return;
+    }
+
+    const extension = format === "markdown" ? "md" : "csv";
+    const destination = await window.showSaveDialog({
+      title: "Export Model Coverage Report",
+      defaultUri: Uri.file(
+        join(
+          workspace.workspaceFolders?.[0]?.uri.fsPath ?? homedir(),
+          `${this.report.databaseName}-model-coverage.${extension}`,
+        ),
+      ),
+      filters: { [format.toUpperCase()]: [extension] },
+    });
+    if (destination === undefined) {
+      return;
+    }
+
+    await writeFile(
+      destination.fsPath,
+      exportModelCoverageReport(this.report, format),
+      "utf8",
+    );
+  }
+}
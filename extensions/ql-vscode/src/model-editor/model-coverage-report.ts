@@ -0,0 +1,293 @@
+import { Method } from "./method";
+import { ModeledMethod } from "./modeled-method";
+import { exportResults } from "../local-queries/export-results";
+
+type ModelCoverageType = "source" | "sink" | "summary" | "neutral";
+
+export const modelCoverageTypes: ModelCoverageType[] = [
+  "source",
+  "sink",
+  "summary",
+  "neutral",
+];
+
+/**
+ * The provenance of methods that are modeled by the CodeQL libraries themselves rather than
+ * by the extension pack, for which the real provenance is not known.
+ */
+const CODEQL_PROVENANCE = "codeql";
+
+export type ModelCoverageReportFormat = "markdown" | "csv";
+
+interface UnmodeledMethodCoverage {
+  signature: string;
+  usages: number;
+}
+
+export interface LibraryModelCoverage {
+  library: string;
+  libraryVersion?: string;
+  totalMethods: number;
+  modeledMethods: number;
+  modeledPercentage: number;
+  /**
+   * The number of methods that have a model of each type. A method with several
+   * models is counted once for each type.
+   */
+  modeledByType: Record<ModelCoverageType, number>;
+  /**
+   * The number of modeled methods for each provenance, such as `manual` or `df-generated`.
+   */
+  modeledByProvenance: Record<string, number>;
+  /**
+   * The unmodeled methods, ranked by their number of usages.
+   */
+  unmodeledMethods: UnmodeledMethodCoverage[];
+}
+
+export interface ModelCoverageReport {
+  databaseName: string;
+  extensionPackName: string;
+  libraries: LibraryModelCoverage[];
+}
+
+export type LibraryModelCoverageSortColumn =
+  | "library"
+  | "totalMethods"
+  | "modeledMethods"
+  | "modeledPercentage"
+  | ModelCoverageType;
+
+function getModelTypes(
+  method: Method,
+  modeledMethods: readonly ModeledMethod[],
+): ModelCoverageType[] {
+  const types: string[] =
+    modeledMethods.length > 0
+      ? modeledMethods.map((modeledMethod) => modeledMethod.type)
+      : [method.supportedType];
+  return modelCoverageTypes.filter((type) => types.includes(type));
+}
+
+function getProvenances(modeledMethods: readonly ModeledMethod[]): string[] {
+  if (modeledMethods.length === 0) {
+    return [CODEQL_PROVENANCE];
+  }
+  const provenances = new Set<string>();
+  for (const modeledMethod of modeledMethods) {
+    if ("provenance" in modeledMethod) {
+      provenances.add(modeledMethod.provenance);
+    }
+  }
+  return [...provenances];
+}
+
+/**
+ * Creates a coverage report of the given methods. A method is modeled if it is supported by
+ * the CodeQL libraries or if the extension pack contains a model for it.
+ *
+ * @param methods The methods that were found by the model editor queries.
+ * @param modeledMethods The models of the extension pack, by method signature.
+ */
+export function createModelCoverageReport(
+  databaseName: string,
+  extensionPackName: string,
+  methods: readonly Method[],
+  modeledMethods: Readonly<Record<string, readonly ModeledMethod[]>>,
+): ModelCoverageReport {
+  const libraries = new Map<string, LibraryModelCoverage>();
+
+  for (const method of methods) {
+    const libraryKey = `${method.library}@${method.libraryVersion ?? ""}`;
+    let coverage = libraries.get(libraryKey);
+    if (coverage === undefined) {
+      coverage = {
+        library: method.library,
+        libraryVersion: method.libraryVersion,
+        totalMethods: 0,
+        modeledMethods: 0,
+        modeledPercentage: 0,
+        modeledByType: { source: 0, sink: 0, summary: 0, neutral: 0 },
+        modeledByProvenance: {},
+        unmodeledMethods: [],
+      };
+      libraries.set(libraryKey, coverage);
+    }
+
+    coverage.totalMethods++;
+
+    const packModeledMethods = (modeledMethods[method.signature] ?? []).filter(
+      (modeledMethod) => modeledMethod.type !== "none",
+    );
+    if (packModeledMethods.length === 0 && !method.supported) {
+      coverage.unmodeledMethods.push({
+        signature: method.signature,
+        usages: method.usages.length,
+      });
+      continue;
+    }
+
+    coverage.modeledMethods++;
+    for (const type of getModelTypes(method, packModeledMethods)) {
+      coverage.modeledByType[type]++;
+    }
+    for (const provenance of getProvenances(packModeledMethods)) {
+      coverage.modeledByProvenance[provenance] =
+        (coverage.modeledByProvenance[provenance] ?? 0) + 1;
+    }
+  }
+
+  for (const coverage of libraries.values()) {
+    coverage.modeledPercentage =
+      (coverage.modeledMethods / coverage.totalMethods) * 100;
+    coverage.unmodeledMethods.sort(
+      (a, b) => b.usages - a.usages || a.signature.localeCompare(b.signature),
+    );
+  }
+
+  return {
+    databaseName,
+    extensionPackName,
+    libraries: sortLibraryModelCoverage([...libraries.values()], "library"),
+  };
+}
+
+/**
+ * Gets all provenances that occur in the report, in alphabetical order.
+ */
+export function getModelCoverageProvenances(
+  report: ModelCoverageReport,
+): string[] {
+  const provenances = new Set<string>();
+  for (const library of report.libraries) {
+    for (const provenance of Object.keys(library.modeledByProvenance)) {
+      provenances.add(provenance);
+    }
+  }
+  return [...provenances].sort();
+}
+
+/**
+ * Sorts libraries by the given column. The library name is sorted in ascending order and
+ * all numeric columns are sorted in descending order.
+ */
+export function sortLibraryModelCoverage(
+  libraries: readonly LibraryModelCoverage[],
+  column: LibraryModelCoverageSortColumn,
+): LibraryModelCoverage[] {
+  const compareLibraries = (a: LibraryModelCoverage, b: LibraryModelCoverage) =>
+    a.library.localeCompare(b.library) ||
+    (a.libraryVersion ?? "").localeCompare(b.libraryVersion ?? "");
+
+  return [...libraries].sort((a, b) => {
+    switch (column) {
+      case "library":
+        return compareLibraries(a, b);
+      case "totalMethods":
+      case "modeledMethods":
+      case "modeledPercentage":
+        return b[column] - a[column] || compareLibraries(a, b);
+      default:
+        return (
+          b.modeledByType[column] - a.modeledByType[column] ||
+          compareLibraries(a, b)
+        );
+    }
+  });
+}
+
+function formatLibraryName(library: LibraryModelCoverage): string {
+  return library.libraryVersion
+    ? `${library.library}@${library.libraryVersion}`
+    : library.library;
+}
+
+function getLibrarySummaryTable(report: ModelCoverageReport) {
+  const provenances = getModelCoverageProvenances(report);
+  return {
+    columns: [
+      "Library",
+      "Methods",
+      "Modeled",
+      "Modeled %",
+      ...modelCoverageTypes,
+      ...provenances,
+    ],
+    rows: report.libraries.map((library) => [
+      formatLibraryName(library),
+      library.totalMethods,
+      library.modeledMethods,
+      library.modeledPercentage.toFixed(1),
+      ...modelCoverageTypes.map((type) => library.modeledByType[type]),
+      ...provenances.map(
+        (provenance) => library.modeledByProvenance[provenance] ?? 0,
+      ),
+    ]),
+  };
+}
+
+/**
+ * Converts the report to Markdown, with a summary table of all libraries followed by the
+ * unmodeled methods of each library.
+ */
+function exportModelCoverageReportToMarkdown(
+  report: ModelCoverageReport,
+): string {
+  const sections = [
+    `# Model coverage of ${report.databaseName}\n\nExtension pack: ${report.extensionPackName}\n`,
+    exportResults(getLibrarySummaryTable(report), "markdown", "label"),
+  ];
+  for (const library of report.libraries) {
+    if (library.unmodeledMethods.length === 0) {
+      continue;
+    }
+    sections.push(
+      `## Unmodeled methods in ${formatLibraryName(library)}\n`,
+      exportResults(
+        {
+          columns: ["Method", "Usages"],
+          rows: library.unmodeledMethods.map((method) => [
+            method.signature,
+            method.usages,
+          ]),
+        },
+        "markdown",
+        "label",
+      ),
+    );
+  }
+  return sections.join("\n");
+}
+
+/**
+ * Converts the report to CSV, with one row per library. The unmodeled methods of each
+ * library are listed in the last column, ranked by their number of usages.
+ */
+function exportModelCoverageReportToCsv(report: ModelCoverageReport): string {
+  const table = getLibrarySummaryTable(report);
+  return exportResults(
+    {
+      columns: [...table.columns, "Unmodeled methods"],
+      rows: table.rows.map((row, index) => [
+        ...row,
+        report.libraries[index].unmodeledMethods
+          .map((method) => `${method.signature} (${method.usages})`)
+          .join("; "),
+      ]),
+    },
+    "csv",
+    "label",
+  );
+}
+
+export function exportModelCoverageReport(
+  report: ModelCoverageReport,
+  format: ModelCoverageReportFormat,
+): string {
+  switch (format) {
+    case "markdown":
+      return exportModelCoverageReportToMarkdown(report);
+    case "csv":
+      return exportModelCoverageReportToCsv(report);
+  }
+}
@@ -1,3 +1,4 @@
+import { CancellationToken } from "vscode";
 import { ModelEditorView } from "./model-editor-view";
 import { ModelEditorCommands } from "../common/commands";
 import { CliVersionConstraint, CodeQLCliServer } from "../codeql-cli/cli";
@@ -6,12 +7,15 @@ import { DatabaseItem, DatabaseManager } from "../databases/local-databases";
 import { ensureDir } from "fs-extra";
 import { join } from "path";
 import { App } from "../common/app";
-import { withProgress } from "../common/vscode/progress";
+import { ProgressCallback, withProgress } from "../common/vscode/progress";
 import { pickExtensionPack } from "./extension-pack-picker";
-import { showAndLogErrorMessage } from "../common/logging";
+import {
+  showAndLogErrorMessage,
+  showAndLogInformationMessage,
+} from "../common/logging";
 import { dir } from "tmp-promise";
 
-import { isQueryLanguage } from "../common/query-language";
+import { isQueryLanguage, QueryLanguage } from "../common/query-language";
 import { DisposableObject } from "../common/disposable-object";
 import { MethodsUsagePanel } from "./methods-usage/methods-usage-panel";
 import { Method, Usage } from "./method";
@@ -22,8 +26,15 @@ import { showResolvableLocation } from "../databases/local-databases/locations";
 import { ModelConfigListener } from "../config";
 import { ModelingEvents } from "./modeling-events";
 import { getModelsAsDataLanguage } from "./languages";
-import { INITIAL_MODE } from "./shared/mode";
+import { INITIAL_MODE, Mode } from "./shared/mode";
 import { isSupportedLanguage } from "./supported-languages";
+import { runModelEditorQueries } from "./model-editor-queries";
+import { loadModeledMethods } from "./modeled-method-fs";
+import { createModelCoverageReport } from "./model-coverage-report";
+import { ModelCoverageReportView } from "./model-coverage-report-view";
+import { ExtensionPackValidator } from "./extension-pack-validator";
+import { ExtensionPack } from "./shared/extension-pack";
+import { pluralize } from "../common/word";
 
 export class ModelEditorModule extends DisposableObject {
   private readonly queryStorageDir: string;
@@ -32,6 +43,8 @@ export class ModelEditorModule extends DisposableObject {
   private readonly methodsUsagePanel: MethodsUsagePanel;
   private readonly methodModelingPanel: MethodModelingPanel;
   private readonly modelConfig: ModelConfigListener;
+  private readonly modelCoverageReportView: ModelCoverageReportView;
+  private readonly extensionPackValidator: ExtensionPackValidator;
 
   private constructor(
     private readonly app: App,
@@ -51,6 +64,10 @@ export class ModelEditorModule extends DisposableObject {
       new MethodModelingPanel(app, this.modelingStore, this.modelingEvents),
     );
     this.modelConfig = this.push(new ModelConfigListener());
+    this.modelCoverageReportView = this.push(new ModelCoverageReportView(app));
+    this.extensionPackValidator = this.push(
+      new ExtensionPackValidator(cliServer),
+    );
 
     this.registerToModelingEvents();
   }
@@ -79,6 +96,8 @@ export class ModelEditorModule extends DisposableObject {
       "codeQL.openModelEditor": this.openModelEditor.bind(this),
       "codeQL.openModelEditorFromModelingPanel":
         this.openModelEditor.bind(this),
+      "codeQL.openModelCoverageReport": this.openModelCoverageReport.bind(this),
+      "codeQL.validateExtensionPack": this.validateExtensionPack.bind(this),
       "codeQLModelEditor.jumpToMethod": async (
         method: Method,
         usage: Usage,
@@ -111,26 +130,42 @@ export class ModelEditorModule extends DisposableObject {
     await showResolvableLocation(usage.url, databaseItem, this.app.logger);
   }
 
-  private async openModelEditor(): Promise<void> {
-    {
-      const db = this.databaseManager.currentDatabaseItem;
-      if (!db) {
-        void showAndLogErrorMessage(this.app.logger, "No database selected");
-        return;
-      }
+  /**
+   * Gets the current database if the model editor supports its language, or shows an
+   * error message if it does not.
+   */
+  private getModelingDatabase():
+    | { db: DatabaseItem; language: QueryLanguage }
+    | undefined {
+    const db = this.databaseManager.currentDatabaseItem;
+    if (!db) {
+      void showAndLogErrorMessage(this.app.logger, "No database selected");
+      return undefined;
+    }
 
-      const language = db.language;
+    const language = db.language;
 
-      if (
-        !isQueryLanguage(language) ||
-        !isSupportedLanguage(language, this.modelConfig)
-      ) {
-        void showAndLogErrorMessage(
-          this.app.logger,
-          `The CodeQL Model Editor is not supported for ${language} databases.`,
-        );
+    if (
+      !isQueryLanguage(language) ||
+      !isSupportedLanguage(language, this.modelConfig)
+    ) {
+      void showAndLogErrorMessage(
+        this.app.logger,
+        `The CodeQL Model Editor is not supported for ${language} databases.`,
+      );
+      return undefined;
+    }
+
+    return { db, language };
+  }
+
+  private async openModelEditor(): Promise<void> {
+    {
+      const modelingDatabase = this.getModelingDatabase();
+      if (!modelingDatabase) {
         return;
       }
+      const { db, language } = modelingDatabase;
 
       const definition = getModelsAsDataLanguage(language);
 
@@ -242,4 +277,197 @@ export class ModelEditorModule extends DisposableObject {
       );
     }
   }
+
+  /**
+   * Picks an extension pack for the database and runs the model editor queries in each of the
+   * given modes. Returns undefined if no extension pack was picked or the queries failed.
+   */
+  private async pickExtensionPackAndLoadMethods(
+    db: DatabaseItem,
+    language: QueryLanguage,
+    modes: readonly Mode[],
+    progress: ProgressCallback,
+    token: CancellationToken,
+  ): Promise<{ extensionPack: ExtensionPack; methods: Method[] } | undefined> {
+    const maxStep = 4;
+
+    if (!(await this.cliServer.cliConstraints.supportsQlpacksKind())) {
+      void showAndLogErrorMessage(
+        this.app.logger,
+        `This feature requires CodeQL CLI version ${CliVersionConstraint.CLI_VERSION_WITH_QLPACKS_KIND.format()} or later.`,
+      );
+      return undefined;
+    }
+
+    const extensionPack = await pickExtensionPack(
+      this.cliServer,
+      db,
+      this.modelConfig,
+      this.app.logger,
+      progress,
+      maxStep,
+    );
+    if (!extensionPack) {
+      return undefined;
+    }
+
+    progress({
+      message: "Installing dependencies...",
+      step: 3,
+      maxStep,
+    });
+
+    const { path: queryDir, cleanup: cleanupQueryDir } = await dir({
+      unsafeCleanup: true,
+    });
+
+    try {
+      const success = await setUpPack(
+        this.cliServer,
+        this.app.logger,
+        queryDir,
+        language,
+        this.modelConfig,
+      );
+      if (!success) {
+        return undefined;
+      }
+
+      const methods: Method[] = [];
+      for (const mode of modes) {
+        const modeMethods = await runModelEditorQueries(mode, {
+          cliServer: this.cliServer,
+          queryRunner: this.queryRunner,
+          logger: this.app.logger,
+          databaseItem: db,
+          language,
+          queryStorageDir: this.queryStorageDir,
+          queryDir,
+          progress: (update) =>
+            progress({
+              ...update,
+              message: `Loading methods: ${update.message}`,
+            }),
+          token,
+        });
+        if (!modeMethods) {
+          return undefined;
+        }
+        methods.push(...modeMethods);
+      }
+
+      return { extensionPack, methods };
+    } finally {
+      await cleanupQueryDir();
+    }
+  }
+
+  private async openModelCoverageReport(): Promise<void> {
+    const modelingDatabase = this.getModelingDatabase();
+    if (!modelingDatabase) {
+      return;
+    }
+    const { db, language } = modelingDatabase;
+
+    // The report uses the same mode as the model editor would open in, so that the usages
+    // of external methods are counted in application mode.
+    const mode =
+      getModelsAsDataLanguage(language).availableModes?.[0] ?? INITIAL_MODE;
+
+    return withProgress(
+      async (progress, token) => {
+        const result = await this.pickExtensionPackAndLoadMethods(
+          db,
+          language,
+          [mode],
+          progress,
+          token,
+        );
+        if (!result) {
+          return;
+        }
+        const { extensionPack, methods } = result;
+
+        const modeledMethods = await loadModeledMethods(
+          extensionPack,
+          language,
+          this.cliServer,
+          this.app.logger,
+        );
+
+        await this.modelCoverageReportView.showReport(
+          createModelCoverageReport(
+            db.name,
+            extensionPack.name,
+            methods,
+            modeledMethods,
+          ),
+        );
+      },
+      {
+        title: "Creating model coverage report",
+        cancellable: true,
+      },
+    );
+  }
+
+  private async validateExtensionPack(): Promise<void> {
+    const modelingDatabase = this.getModelingDatabase();
+    if (!modelingDatabase) {
+      return;
+    }
+    const { db, language } = modelingDatabase;
+
+    // Models may be written for methods found in any mode, so collect the methods of all modes
+    const modes = getModelsAsDataLanguage(language).availableModes ?? [
+      Mode.Application,
+      Mode.Framework,
+    ];
+
+    return withProgress(
+      async (progress, token) => {
+        const result = await this.pickExtensionPackAndLoadMethods(
+          db,
+          language,
+          modes,
+          progress,
+          token,
+        );
+        if (!result) {
+          return;
+        }
+        const { extensionPack, methods } = result;
+
+        progress({
+          message: "Validating data extensions...",
+          step: 4,
+          maxStep: 4,
+        });
+
+        const problemCount =
+          await this.extensionPackValidator.validateExtensionPack(
+            extensionPack,
+            language,
+            new Set(methods.map((method) => method.signature)),
+          );
+
+        void showAndLogInformationMessage(
+          this.app.logger,
+          problemCount === 0
+            ? `No problems found in extension pack ${extensionPack.name}.`
+            : `Found ${pluralize(
+                problemCount,
+                "problem",
+                "problems",
+              )} in extension pack ${
+                extensionPack.name
+              }. See the Problems view for details.`,
+        );
+      },
+      {
+        title: "Validating extension pack",
+        cancellable: true,
+      },
+    );
+  }
 }
@@ -5,7 +5,9 @@ import {
   Uri,
   ViewColumn,
   window,
+  workspace,
 } from "vscode";
+import { join } from "path";
 import {
   AbstractWebview,
   WebviewPanelConfig,
@@ -19,6 +21,8 @@ import { QueryRunner } from "../query-server";
 import {
   showAndLogErrorMessage,
   showAndLogExceptionWithTelemetry,
+  showAndLogInformationMessage,
+  showAndLogWarningMessage,
 } from "../common/logging";
 import { DatabaseItem, DatabaseManager } from "../databases/local-databases";
 import { CodeQLCliServer } from "../codeql-cli/cli";
@@ -47,6 +51,38 @@ import { ModelingStore } from "./modeling-store";
 import { ModelingEvents } from "./modeling-events";
 import { getModelsAsDataLanguage, ModelsAsDataLanguage } from "./languages";
 import { runGenerateQueries } from "./generate";
+import {
+  BaselineAlertsCache,
+  pickModelImpactQueries,
+  runModelImpactPreview,
+} from "./model-impact-preview";
+import { ModelImpactPreviewView } from "./model-impact-preview-view";
+import {
+  applyModelTemplates,
+  BulkModel,
+  ModelTemplate,
+  suggestModelTemplateSignature,
+} from "./shared/model-template";
+import {
+  addModelTemplate,
+  MODEL_TEMPLATES_FILE_NAME,
+  readModelTemplates,
+  writeModelTemplates,
+} from "./model-template-fs";
+import { pluralize } from "../common/word";
+
+/**
+ * Gets the path of the model templates file. Like the alert baseline, the templates are
+ * always stored in the first workspace folder, also in multi-root workspaces.
+ *
+ * @returns The path, or undefined if no workspace folder is open.
+ */
+function getModelTemplatesPath(): string | undefined {
+  const workspaceFolder = workspace.workspaceFolders?.[0];
+  return workspaceFolder === undefined
+    ? undefined
+    : join(workspaceFolder.uri.fsPath, MODEL_TEMPLATES_FILE_NAME);
+}
 
 export class ModelEditorView extends AbstractWebview<
   ToModelEditorMessage,
@@ -54,6 +90,8 @@ export class ModelEditorView extends AbstractWebview<
 > {
   private readonly autoModeler: AutoModeler;
   private readonly languageDefinition: ModelsAsDataLanguage;
+  private readonly modelImpactPreviewView: ModelImpactPreviewView;
+  private readonly baselineAlerts: BaselineAlertsCache = new Map();
 
   public constructor(
     protected readonly app: App,
@@ -91,6 +129,10 @@ export class ModelEditorView extends AbstractWebview<
       },
     );
     this.languageDefinition = getModelsAsDataLanguage(language);
+    this.modelImpactPreviewView = new ModelImpactPreviewView(
+      app,
+      databaseManager,
+    );
   }
 
   public async openView() {
@@ -162,7 +204,7 @@ export class ModelEditorView extends AbstractWebview<
   }
 
   protected onPanelDispose(): void {
-    // Nothing to do
+    this.modelImpactPreviewView.dispose();
   }
 
   protected async onMessage(msg: FromModelEditorMessage): Promise<void> {
@@ -257,6 +299,13 @@ export class ModelEditorView extends AbstractWebview<
           );
         }
 
+        break;
+      case "previewModelImpact":
+        await this.previewModelImpact();
+        void telemetryListener?.sendUIInteraction(
+          "model-editor-preview-model-impact",
+        );
+
         break;
       case "generateMethod":
         await this.generateModeledMethods();
@@ -316,6 +365,27 @@ export class ModelEditorView extends AbstractWebview<
         this.setModeledMethods(msg.methodSignature, msg.modeledMethods);
         break;
       }
+      case "setBulkModeledMethods":
+        this.setBulkModeledMethods(msg.modeledMethods);
+        void telemetryListener?.sendUIInteraction(
+          "model-editor-set-bulk-modeled-methods",
+        );
+
+        break;
+      case "saveModelTemplate":
+        await this.saveModelTemplate(msg.methodSignatures, msg.model);
+        void telemetryListener?.sendUIInteraction(
+          "model-editor-save-model-template",
+        );
+
+        break;
+      case "applyModelTemplates":
+        await this.applyModelTemplates();
+        void telemetryListener?.sendUIInteraction(
+          "model-editor-apply-model-templates",
+        );
+
+        break;
       case "telemetry":
         telemetryListener?.sendUIInteraction(msg.action);
         break;
@@ -539,6 +609,211 @@ export class ModelEditorView extends AbstractWebview<
     );
   }
 
+  private async previewModelImpact(): Promise<void> {
+    try {
+      const queryPaths = await pickModelImpactQueries(
+        this.cliServer,
+        this.language,
+      );
+      if (!queryPaths || queryPaths.length === 0) {
+        return;
+      }
+
+      const methods = this.modelingStore.getMethods(this.databaseItem);
+      const modeledMethods = this.modelingStore.getModeledMethods(
+        this.databaseItem,
+      );
+      const mode = this.modelingStore.getMode(this.databaseItem);
+
+      await withProgress(
+        async (progress, token) => {
+          const preview = await runModelImpactPreview({
+            cliServer: this.cliServer,
+            queryRunner: this.queryRunner,
+            logger: this.app.logger,
+            databaseItem: this.databaseItem,
+            extensionPack: this.extensionPack,
+            language: this.language,
+            queryStorageDir: this.queryStorageDir,
+            queryPaths,
+            methods,
+            modeledMethods,
+            mode,
+            baselineAlerts: this.baselineAlerts,
+            progress,
+            token,
+          });
+          if (!preview) {
+            return;
+          }
+
+          await this.modelImpactPreviewView.showPreview(preview);
+        },
+        {
+          title: "Previewing impact of model changes",
+          cancellable: true,
+        },
+      );
+    } catch (e: unknown) {
+      void showAndLogExceptionWithTelemetry(
+        this.app.logger,
+        this.app.telemetry,
+        redactableError(
+          asError(e),
+        )`Failed to preview the impact of model changes: ${getErrorMessage(e)}`,
+      );
+    }
+  }
+
+  private async saveModelTemplate(
+    methodSignatures: string[],
+    model: BulkModel,
+  ): Promise<void> {
+    const templatesPath = getModelTemplatesPath();
+    if (templatesPath === undefined) {
+      void showAndLogWarningMessage(
+        this.app.logger,
+        `Open a workspace folder to save model templates. Model templates are stored in ${MODEL_TEMPLATES_FILE_NAME} in the first workspace folder.`,
+      );
+      return;
+    }
+
+    const signature = await window.showInputBox({
+      title: "Save model template",
+      prompt:
+        "Enter the signature of the methods that the template applies to. Use * to match any sequence of characters.",
+      value: suggestModelTemplateSignature(methodSignatures),
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.trim() === "" ? "Enter a method signature." : undefined,
+    });
+    if (signature === undefined) {
+      return;
+    }
+
+    const name = await window.showInputBox({
+      title: "Save model template",
+      prompt: "Enter a name for the model template.",
+      value: `${signature.trim()} ${model.kind || model.type}`,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.trim() === "" ? "Enter a name." : undefined,
+    });
+    if (name === undefined) {
+      return;
+    }
+
+    const template: ModelTemplate = {
+      name: name.trim(),
+      language: this.language,
+      signature: signature.trim(),
+      model,
+    };
+    try {
+      await writeModelTemplates(
+        templatesPath,
+        addModelTemplate(await readModelTemplates(templatesPath), template),
+      );
+    } catch (e: unknown) {
+      void showAndLogExceptionWithTelemetry(
+        this.app.logger,
+        this.app.telemetry,
+        redactableError(
+          asError(e),
+        )`Failed to save model template: ${getErrorMessage(e)}`,
+      );
+      return;
+    }
+
+    void showAndLogInformationMessage(
+      this.app.logger,
+      `Saved model template "${template.name}" to ${templatesPath}.`,
+    );
+  }
+
+  private async applyModelTemplates(): Promise<void> {
+    const templatesPath = getModelTemplatesPath();
+    if (templatesPath === undefined) {
+      void showAndLogWarningMessage(
+        this.app.logger,
+        `Open a workspace folder to apply model templates. Model templates are stored in ${MODEL_TEMPLATES_FILE_NAME} in the first workspace folder.`,
+      );
+      return;
+    }
+
+    let templates: ModelTemplate[];
+    try {
+      templates = (await readModelTemplates(templatesPath)).filter(
+        (template) => template.language === this.language,
+      );
+    } catch (e: unknown) {
+      void showAndLogExceptionWithTelemetry(
+        this.app.logger,
+        this.app.telemetry,
+        redactableError(
+          asError(e),
+        )`Failed to apply model templates: ${getErrorMessage(e)}`,
+      );
+      return;
+    }
+    if (templates.length === 0) {
+      void showAndLogInformationMessage(
+        this.app.logger,
+        `There are no ${getLanguageDisplayName(
+          this.language,
+        )} model templates. Select methods in the model editor and use "Save as template" to create one.`,
+      );
+      return;
+    }
+
+    const items = await window.showQuickPick(
+      templates.map((template) => ({
+        label: template.name,
+        description: template.signature,
+        detail: [
+          template.model.type,
+          template.model.kind,
+          template.model.type === "sink" || template.model.type === "summary"
+            ? template.model.input
+            : undefined,
+          template.model.type === "source" || template.model.type === "summary"
+            ? template.model.output
+            : undefined,
+        ]
+          .filter((part) => !!part)
+          .join(", "),
+        template,
+      })),
+      {
+        title: "Select the model templates to apply",
+        placeHolder:
+          "Templates are applied to all methods that are not modeled yet",
+        canPickMany: true,
+        ignoreFocusOut: true,
+      },
+    );
+    if (!items || items.length === 0) {
+      return;
+    }
+
+    const modeledMethods = applyModelTemplates(
+      items.map((item) => item.template),
+      this.modelingStore.getMethods(this.databaseItem),
+      this.modelingStore.getModeledMethods(this.databaseItem),
+      this.language,
+    );
+    this.setBulkModeledMethods(modeledMethods);
+
+    void showAndLogInformationMessage(
+      this.app.logger,
+      `Applied model templates to ${pluralize(
+        Object.keys(modeledMethods).length,
+        "method",
+        "methods",
+      )}.`,
+    );
+  }
+
   private async generateModeledMethodsFromLlm(
     packageName: string,
     methodSignatures: string[],
@@ -779,6 +1054,19 @@ export class ModelEditorView extends AbstractWebview<
     this.addModeledMethods(modeledMethodsByName);
   }
 
+  private setBulkModeledMethods(
+    modeledMethods: Record<string, ModeledMethod[]>,
+  ) {
+    this.modelingStore.updateMultipleModeledMethods(
+      this.databaseItem,
+      modeledMethods,
+    );
+    this.modelingStore.addModifiedMethods(
+      this.databaseItem,
+      Object.keys(modeledMethods),
+    );
+  }
+
   private setModeledMethods(signature: string, methods: ModeledMethod[]) {
     this.modelingStore.updateModeledMethods(
       this.databaseItem,
@@ -0,0 +1,89 @@
+import { ViewColumn } from "vscode";
+import {
+  FromModelImpactPreviewMessage,
+  ToModelImpactPreviewMessage,
+} from "../common/interface-types";
+import { showAndLogExceptionWithTelemetry } from "../common/logging";
+import { assertNever } from "../common/helpers-pure";
+import {
+  AbstractWebview,
+  WebviewPanelConfig,
+} from "../common/vscode/abstract-webview";
+import { telemetryListener } from "../common/vscode/telemetry";
+import { redactableError } from "../common/errors";
+import { App } from "../common/app";
+import { DatabaseManager } from "../databases/local-databases";
+import { jumpToLocation } from "../databases/local-databases/locations";
+import { ModelImpactPreview } from "./shared/model-impact-preview";
+
+export class ModelImpactPreviewView extends AbstractWebview<
+  ToModelImpactPreviewMessage,
+  FromModelImpactPreviewMessage
+> {
+  constructor(
+    app: App,
+    private readonly databaseManager: DatabaseManager,
+  ) {
+    super(app);
+  }
+
+  async showPreview(preview: ModelImpactPreview) {
+    const panel = await this.getPanel();
+    panel.reveal(undefined, true);
+
+    await this.waitForPanelLoaded();
+
+    await this.postMessage({
+      t: "setModelImpactPreview",
+      preview,
+    });
+  }
+
+  protected getPanelConfig(): WebviewPanelConfig {
+    return {
+      viewId: "modelImpactPreviewView",
+      title: "CodeQL Model Impact Preview",
+      viewColumn: ViewColumn.Beside,
+      preserveFocus: true,
+      view: "model-impact-preview",
+    };
+  }
+
+  protected onPanelDispose(): void {
+    // Nothing to do
+  }
+
+  protected async onMessage(msg: FromModelImpactPreviewMessage): Promise<void> {
+    switch (msg.t) {
+      case "viewLoaded":
+        this.onWebViewLoaded();
+        break;
+
+      case "viewSourceFile":
+        await jumpToLocation(
+          msg.databaseUri,
+          msg.loc,
+          this.databaseManager,
+          this.app.logger,
+        );
+        break;
+
+      case "telemetry":
+        telemetryListener?.sendUIInteraction(msg.action);
+        break;
+
+      case "unhandledError":
+        void showAndLogExceptionWithTelemetry(
+          this.app.logger,
+          telemetryListener,
+          redactableError(
+            msg.error,
+          )`Unhandled error in model impact preview view: ${msg.error.message}`,
+        );
+        break;
+
+      default:
+        assertNever(msg);
+    }
+  }
+}
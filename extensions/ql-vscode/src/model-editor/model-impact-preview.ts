@@ -0,0 +1,393 @@
+import { CancellationToken, QuickPickItem, window } from "vscode";
+import { basename, join, relative } from "path";
+import { copy, readFile, stat, writeFile } from "fs-extra";
+import { dump as dumpYaml, load as loadYaml } from "js-yaml";
+import { dir } from "tmp-promise";
+import * as sarif from "sarif";
+import { CodeQLCliServer, SourceInfo } from "../codeql-cli/cli";
+import { QueryRunner } from "../query-server";
+import { DatabaseItem } from "../databases/local-databases";
+import { ProgressCallback } from "../common/vscode/progress";
+import { getOnDiskWorkspaceFolders } from "../common/vscode/workspace-folders";
+import {
+  NotificationLogger,
+  showAndLogWarningMessage,
+} from "../common/logging";
+import { QueryLanguage } from "../common/query-language";
+import { assertNever } from "../common/helpers-pure";
+import { QueryMetadata } from "../common/interface-types";
+import { walkDirectory } from "../common/files";
+import { interpretResultsSarif } from "../query-results";
+import { runQuery } from "../local-queries/run-query";
+import { resolveQueries } from "../local-queries";
+import { ExtensionPack } from "./shared/extension-pack";
+import { Method } from "./method";
+import { ModeledMethod } from "./modeled-method";
+import { Mode } from "./shared/mode";
+import { saveModeledMethods } from "./modeled-method-fs";
+import {
+  createQueryModelImpact,
+  ModelImpactPreview,
+  QueryModelImpact,
+  sortQueryModelImpacts,
+} from "./shared/model-impact-preview";
+
+interface ImpactQueriesQuickPickItem extends QuickPickItem {
+  queries: "security" | "files";
+}
+
+/**
+ * Asks the user which queries to run to preview the impact of a model change: either the
+ * security queries of the standard query pack or query files of their choice.
+ *
+ * @returns The paths of the queries, or undefined if the user cancelled.
+ */
+export async function pickModelImpactQueries(
+  cliServer: CodeQLCliServer,
+  language: QueryLanguage,
+): Promise<string[] | undefined> {
+  const queryPack = `codeql/${language}-queries`;
+  const items: ImpactQueriesQuickPickItem[] = [
+    {
+      label: "Security queries",
+      description: queryPack,
+      detail: "Run the path-problem queries tagged as security queries.",
+      queries: "security",
+    },
+    {
+      label: "Select query files...",
+      detail: "Run query files of your choice.",
+      queries: "files",
+    },
+  ];
+
+  const item = await window.showQuickPick(items, {
+    title: "Select the queries to preview the impact on",
+    ignoreFocusOut: true,
+  });
+  if (!item) {
+    return undefined;
+  }
+
+  switch (item.queries) {
+    case "security":
+      return resolveQueries(cliServer, [queryPack], "security", {
+        kind: "path-problem",
+        "tags contain": ["security"],
+      });
+    case "files": {
+      const files = await window.showOpenDialog({
+        title: "Select the queries to preview the impact on",
+        canSelectMany: true,
+        filters: { "CodeQL queries": ["ql"] },
+      });
+      return files?.map((file) => file.fsPath);
+    }
+    default:
+      assertNever(item.queries);
+  }
+}
+
+/**
+ * Creates a temporary copy of the extension pack with the given modeled methods saved to it,
+ * in the same way as they would be saved to the extension pack itself. The copy has a
+ * different name so that it can be used instead of the extension pack.
+ */
+async function createPreviewExtensionPack(
+  extensionPack: ExtensionPack,
+  language: QueryLanguage,
+  methods: readonly Method[],
+  modeledMethods: Readonly<Record<string, readonly ModeledMethod[]>>,
+  mode: Mode,
+  cliServer: CodeQLCliServer,
+  logger: NotificationLogger,
+): Promise<{ extensionPack: ExtensionPack; cleanup: () => Promise<void> }> {
+  const { path: packDir, cleanup } = await dir({ unsafeCleanup: true });
+
+  await copy(extensionPack.path, packDir);
+
+  const previewExtensionPack: ExtensionPack = {
+    ...extensionPack,
+    path: packDir,
+    yamlPath: join(
+      packDir,
+      relative(extensionPack.path, extensionPack.yamlPath),
+    ),
+    name: `${extensionPack.name}-impact-preview`,
+  };
+
+  const qlpack = loadYaml(
+    await readFile(previewExtensionPack.yamlPath, "utf8"),
+  ) as Record<string, unknown>;
+  await writeFile(
+    previewExtensionPack.yamlPath,
+    dumpYaml({ ...qlpack, name: previewExtensionPack.name }),
+    "utf8",
+  );
+
+  await saveModeledMethods(
+    previewExtensionPack,
+    language,
+    methods,
+    modeledMethods,
+    mode,
+    cliServer,
+    logger,
+  );
+
+  return { extensionPack: previewExtensionPack, cleanup };
+}
+
+/**
+ * The alerts of queries run with the saved models of the extension pack, by query path. These
+ * don't depend on the unsaved models, so they are only computed again when the query or the
+ * extension pack has been modified since.
+ */
+export type BaselineAlertsCache = Map<
+  string,
+  { modifiedAt: number; results: sarif.Result[] }
+>;
+
+/**
+ * Gets the latest modification time of the query and the files of the extension pack.
+ */
+async function getBaselineModifiedAt(
+  queryPath: string,
+  extensionPack: ExtensionPack,
+): Promise<number> {
+  let modifiedAt = (await stat(queryPath)).mtimeMs;
+  for await (const file of walkDirectory(extensionPack.path)) {
+    modifiedAt = Math.max(modifiedAt, (await stat(file)).mtimeMs);
+  }
+  return modifiedAt;
+}
+
+type ModelImpactPreviewOptions = {
+  cliServer: CodeQLCliServer;
+  queryRunner: QueryRunner;
+  logger: NotificationLogger;
+  databaseItem: DatabaseItem;
+  extensionPack: ExtensionPack;
+  language: QueryLanguage;
+  queryStorageDir: string;
+  queryPaths: string[];
+  methods: readonly Method[];
+  modeledMethods: Readonly<Record<string, readonly ModeledMethod[]>>;
+  mode: Mode;
+  baselineAlerts: BaselineAlertsCache;
+  progress: ProgressCallback;
+  token: CancellationToken;
+};
+
+type QueryPacks = {
+  additionalPacks: string[];
+  extensionPacks: string[];
+};
+
+/**
+ * Runs an alert query with the given packs and interprets its results.
+ *
+ * @returns The alerts, or undefined if the query failed to run.
+ */
+async function runAlertQuery(
+  {
+    cliServer,
+    queryRunner,
+    databaseItem,
+    queryStorageDir,
+    token,
+  }: ModelImpactPreviewOptions,
+  queryPath: string,
+  metadata: QueryMetadata,
+  packs: QueryPacks,
+  sourceInfo: SourceInfo | undefined,
+  progress: ProgressCallback,
+): Promise<sarif.Result[] | undefined> {
+  const completedQuery = await runQuery({
+    queryRunner,
+    databaseItem,
+    queryPath,
+    queryStorageDir,
+    ...packs,
+    progress,
+    token,
+  });
+  if (!completedQuery) {
+    return undefined;
+  }
+
+  const interpretation = await interpretResultsSarif(
+    cliServer,
+    metadata,
+    {
+      resultsPath: completedQuery.outputDir.bqrsPath,
+      interpretedResultsPath: join(
+        completedQuery.outputDir.querySaveDir,
+        "results.sarif",
+      ),
+    },
+    sourceInfo,
+  );
+  return interpretation.runs[0]?.results ?? [];
+}
+
+/**
+ * Runs each query with the saved models of the extension pack and with the given unsaved
+ * modeled methods applied, and compares their alerts.
+ *
+ * @returns The preview, or undefined if any query failed to run.
+ */
+export async function runModelImpactPreview(
+  options: ModelImpactPreviewOptions,
+): Promise<ModelImpactPreview | undefined> {
+  const {
+    cliServer,
+    logger,
+    databaseItem,
+    extensionPack,
+    language,
+    queryPaths,
+    methods,
+    modeledMethods,
+    mode,
+    baselineAlerts,
+    progress,
+  } = options;
+
+  // Each query is run once with the saved models and once with the unsaved models
+  const maxStep = queryPaths.length * 2 + 1;
+  let step = 0;
+
+  progress({
+    message: "Creating preview extension pack",
+    step,
+    maxStep,
+  });
+
+  const additionalPacks = getOnDiskWorkspaceFolders();
+  const workspaceExtensionPacks = Object.keys(
+    await cliServer.resolveQlpacks(additionalPacks, true),
+  );
+
+  const { extensionPack: previewExtensionPack, cleanup } =
+    await createPreviewExtensionPack(
+      extensionPack,
+      language,
+      methods,
+      modeledMethods,
+      mode,
+      cliServer,
+      logger,
+    );
+  step++;
+
+  try {
+    const sourceLocationPrefix = await databaseItem.getSourceLocationPrefix(
+      cliServer,
+    );
+    const sourceInfo = databaseItem.sourceArchive
+      ? {
+          sourceArchive: databaseItem.sourceArchive.fsPath,
+          sourceLocationPrefix,
+        }
+      : undefined;
+
+    const baselinePacks: QueryPacks = {
+      additionalPacks,
+      extensionPacks: workspaceExtensionPacks,
+    };
+    const previewPacks: QueryPacks = {
+      additionalPacks: [...additionalPacks, previewExtensionPack.path],
+      // The preview extension pack replaces the extension pack that is being modeled
+      extensionPacks: [
+        ...workspaceExtensionPacks.filter(
+          (packName) => packName !== extensionPack.name,
+        ),
+        previewExtensionPack.name,
+      ],
+    };
+
+    const queries: QueryModelImpact[] = [];
+    for (const queryPath of queryPaths) {
+      const queryName = basename(queryPath);
+      const metadata = await cliServer.resolveMetadata(queryPath);
+      if (metadata.kind !== "problem" && metadata.kind !== "path-problem") {
+        void showAndLogWarningMessage(
+          logger,
+          `Skipping ${queryName} because it is not an alert query.`,
+        );
+        step += 2;
+        continue;
+      }
+
+      const modifiedAt = await getBaselineModifiedAt(queryPath, extensionPack);
+      const cachedBaseline = baselineAlerts.get(queryPath);
+      let baselineResults =
+        cachedBaseline?.modifiedAt === modifiedAt
+          ? cachedBaseline.results
+          : undefined;
+      if (baselineResults === undefined) {
+        const baselineStep = step;
+        baselineResults = await runAlertQuery(
+          options,
+          queryPath,
+          metadata,
+          baselinePacks,
+          sourceInfo,
+          (update) =>
+            progress({
+              message: `Running ${queryName}: ${update.message}`,
+              step: baselineStep,
+              maxStep,
+            }),
+        );
+        if (baselineResults === undefined) {
+          return undefined;
+        }
+        baselineAlerts.set(queryPath, {
+          modifiedAt,
+          results: baselineResults,
+        });
+      }
+      step++;
+
+      const previewStep = step;
+      const previewResults = await runAlertQuery(
+        options,
+        queryPath,
+        metadata,
+        previewPacks,
+        sourceInfo,
+        (update) =>
+          progress({
+            message: `Previewing ${queryName}: ${update.message}`,
+            step: previewStep,
+            maxStep,
+          }),
+      );
+      if (previewResults === undefined) {
+        return undefined;
+      }
+      step++;
+
+      queries.push(
+        createQueryModelImpact(
+          metadata.name ?? queryName,
+          queryPath,
+          baselineResults,
+          previewResults,
+          sourceLocationPrefix,
+        ),
+      );
+    }
+
+    return {
+      databaseUri: databaseItem.databaseUri.toString(),
+      sourceLocationPrefix,
+      extensionPackName: extensionPack.name,
+      queries: sortQueryModelImpacts(queries),
+    };
+  } finally {
+    await cleanup();
+  }
+}
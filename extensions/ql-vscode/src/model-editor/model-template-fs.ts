@@ -0,0 +1,94 @@
+import Ajv from "ajv";
+import { pathExists, readJson, writeJson } from "fs-extra";
+import { ModelTemplate } from "./shared/model-template";
+import { ModelTemplatesFile } from "./model-templates-file";
+import * as modelTemplatesFileSchemaJson from "./model-templates-file.schema.json";
+import { getErrorMessage } from "../common/helpers-pure";
+
+/**
+ * The name of the model templates file, which is stored in the first workspace folder so
+ * that the templates can be shared and used for all databases of the workspace.
+ */
+export const MODEL_TEMPLATES_FILE_NAME = "codeql-model-templates.json";
+
+const MODEL_TEMPLATES_VERSION = 1;
+
+const ajv = new Ajv({ allErrors: true });
+const modelTemplatesFileValidate = ajv.compile(modelTemplatesFileSchemaJson);
+
+/**
+ * Reads the model templates from a file.
+ *
+ * @returns The templates, which are empty if the file does not exist.
+ */
+export async function readModelTemplates(
+  templatesPath: string,
+): Promise<ModelTemplate[]> {
+  if (!(await pathExists(templatesPath))) {
+    return [];
+  }
+
+  let file: unknown;
+  try {
+    file = await readJson(templatesPath, {
+      encoding: "utf8",
+    });
+  } catch (e) {
+    throw new Error(
+      `Could not read model templates from ${templatesPath}: ${getErrorMessage(
+        e,
+      )}`,
+    );
+  }
+
+  const version = (file as Partial<ModelTemplatesFile> | null)?.version;
+  if (version !== MODEL_TEMPLATES_VERSION) {
+    throw new Error(
+      `Unsupported model templates format in ${templatesPath}: v${version}.`,
+    );
+  }
+
+  modelTemplatesFileValidate(file);
+  if (modelTemplatesFileValidate.errors) {
+    throw new Error(
+      `Invalid model templates in ${templatesPath}: ${modelTemplatesFileValidate.errors
+        .map((error) => `${error.instancePath} ${error.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return (file as ModelTemplatesFile).templates;
+}
+
+export async function writeModelTemplates(
+  templatesPath: string,
+  templates: ModelTemplate[],
+): Promise<void> {
+  const file: ModelTemplatesFile = {
+    version: MODEL_TEMPLATES_VERSION,
+    templates,
+  };
+  await writeJson(templatesPath, file, { spaces: 2 });
+}
+
+/**
+ * Adds a template, replacing any template with the same name for the same language.
+ *
+ * @returns The new templates, sorted by language and name.
+ */
+export function addModelTemplate(
+  templates: readonly ModelTemplate[],
+  template: ModelTemplate,
+): ModelTemplate[] {
+  return [
+    ...templates.filter(
+      (existing) =>
+        existing.name !== template.name ||
+        existing.language !== template.language,
+    ),
+    template,
+  ].sort(
+    (a, b) =>
+      a.language.localeCompare(b.language) || a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,6 @@
+import { ModelTemplate } from "./shared/model-template";
+
+export type ModelTemplatesFile = {
+  version: number;
+  templates: ModelTemplate[];
+};
@@ -245,6 +245,19 @@ export class ModelingStore extends DisposableObject {
     });
   }
 
+  /**
+   * Replaces the modeled methods of multiple methods at once, leaving the modeled methods
+   * of all other methods unchanged.
+   */
+  public updateMultipleModeledMethods(
+    dbItem: DatabaseItem,
+    modeledMethods: Record<string, ModeledMethod[]>,
+  ) {
+    this.changeModeledMethods(dbItem, (state) => {
+      state.modeledMethods = { ...state.modeledMethods, ...modeledMethods };
+    });
+  }
+
   public setModifiedMethods(
     dbItem: DatabaseItem,
     methodSignatures: Set<string>,
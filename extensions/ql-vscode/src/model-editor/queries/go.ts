@@ -0,0 +1,205 @@
+import { Query } from "./query";
+
+export const fetchExternalApisQuery: Query = {
+  applicationModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (application mode)
+ * @description A list of 3rd party endpoints (functions and methods) used in the codebase. Excludes test and generated code.
+ * @kind table
+ * @id go/utils/modeleditor/application-mode-endpoints
+ * @tags modeleditor endpoints application-mode
+ */
+
+private import go
+private import ModelEditor
+
+/**
+ * A function or method from a package that is not part of the source.
+ */
+class ExternalEndpoint extends Endpoint {
+  ExternalEndpoint() { not exists(this.getFuncDecl()) }
+}
+
+from ExternalEndpoint endpoint, boolean supported, CallExpr usage, string type, string classification
+where
+  supported = isSupported(endpoint) and
+  usage = endpoint.getACallExpr() and
+  type = supportedType(endpoint) and
+  classification = usageClassification(usage)
+select usage, endpoint.getPackagePath(), endpoint.getTypeName(), endpoint.getName(),
+  endpoint.getParameterTypes(), supported, endpoint.getModulePath(), endpoint.getModuleVersion(),
+  type, classification
+`,
+  frameworkModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (framework mode)
+ * @description A list of endpoints accessible (functions and methods) for consumers of the library. Excludes test and generated code.
+ * @kind table
+ * @id go/utils/modeleditor/framework-mode-endpoints
+ * @tags modeleditor endpoints framework-mode
+ */
+
+private import go
+private import ModelEditor
+
+/**
+ * An exported function or method from the source.
+ */
+class PublicEndpointFromSource extends Endpoint {
+  PublicEndpointFromSource() {
+    this.getFuncDecl().getFile().fromSource() and
+    this.getName().regexpMatch("[A-Z].*") and
+    not isInTestFile(this.getFuncDecl().getFile())
+  }
+}
+
+from PublicEndpointFromSource endpoint, boolean supported, string type
+where
+  supported = isSupported(endpoint) and
+  type = supportedType(endpoint)
+select endpoint.getFuncDecl(), endpoint.getPackagePath(), endpoint.getTypeName(),
+  endpoint.getName(), endpoint.getParameterTypes(), supported,
+  endpoint.getFuncDecl().getFile().getBaseName(), type
+`,
+  dependencies: {
+    "ModelEditor.qll": `/** Provides classes and predicates related to handling APIs for the VS Code extension. */
+
+private import go
+private import semmle.go.dataflow.ExternalFlow
+private import semmle.go.dataflow.FlowSummary
+
+/**
+ * A function or method from either the standard library, a 3rd party package or from the source.
+ */
+class Endpoint extends Function {
+  Endpoint() { exists(this.getPackage()) }
+
+  /**
+   * Gets the import path of the package of this endpoint.
+   */
+  string getPackagePath() { result = this.getPackage().getPath() }
+
+  /**
+   * Gets the name of the receiver type of this endpoint, or the empty string if it is
+   * not a method.
+   */
+  string getTypeName() {
+    result = this.(Method).getReceiverBaseType().getName()
+    or
+    not this instanceof Method and result = ""
+  }
+
+  /**
+   * Gets the parameter types of this endpoint.
+   */
+  string getParameterTypes() {
+    result =
+      "(" +
+        concat(int i, Type t | t = this.getParameterType(i) | t.pp(), "," order by i) +
+        ")"
+  }
+
+  private GoModRequireLine getRequireLine() {
+    exists(string modulePath | modulePath = result.getPath() |
+      this.getPackagePath() = modulePath or this.getPackagePath().matches(modulePath + "/%")
+    )
+  }
+
+  /** Holds if this endpoint is part of the standard library. */
+  private predicate isInStandardLibrary() {
+    not this.getPackagePath().regexpMatch("[^/]*\\\\..*") and
+    not exists(this.getRequireLine())
+  }
+
+  /**
+   * Gets the path of the module that contains this endpoint, which is "std" for the standard
+   * library.
+   */
+  string getModulePath() {
+    result = this.getRequireLine().getPath()
+    or
+    this.isInStandardLibrary() and result = "std"
+    or
+    not this.isInStandardLibrary() and
+    not exists(this.getRequireLine()) and
+    result = this.getPackagePath()
+  }
+
+  /**
+   * Gets the version of the module that contains this endpoint, which is the Go version for
+   * the standard library. Empty if no version is found.
+   */
+  string getModuleVersion() {
+    result = this.getRequireLine().getVersion()
+    or
+    this.isInStandardLibrary() and result = any(GoModGoLine line).getVersion()
+    or
+    not exists(this.getRequireLine()) and
+    not (this.isInStandardLibrary() and exists(GoModGoLine line)) and
+    result = ""
+  }
+
+  /** Gets a call to this API. */
+  CallExpr getACallExpr() { result.getTarget() = this }
+
+  /** Holds if this API has a supported summary. */
+  pragma[nomagic]
+  predicate hasSummary() { this = any(SummarizedCallable sc).asFunction() }
+
+  /** Holds if this API is a known source. */
+  pragma[nomagic]
+  predicate isSource() {
+    exists(DataFlow::CallNode call | call.getTarget() = this |
+      sourceNode(call.getResult(_), _) or sourceNode(call.getResult(), _)
+    )
+  }
+
+  /** Holds if this API is a known sink. */
+  pragma[nomagic]
+  predicate isSink() {
+    exists(DataFlow::CallNode call | call.getTarget() = this |
+      sinkNode(call.getAnArgument(), _) or sinkNode(call.getReceiver(), _)
+    )
+  }
+
+  /** Holds if this API is a known neutral. */
+  pragma[nomagic]
+  predicate isNeutral() {
+    neutralModel(this.getPackagePath(), this.getTypeName(), this.getName(), _, _, _)
+  }
+
+  /**
+   * Holds if this API is supported by existing CodeQL libraries, that is, it is either a
+   * recognized source, sink or neutral or it has a flow summary.
+   */
+  predicate isSupported() {
+    this.hasSummary() or this.isSource() or this.isSink() or this.isNeutral()
+  }
+}
+
+boolean isSupported(Endpoint endpoint) {
+  endpoint.isSupported() and result = true
+  or
+  not endpoint.isSupported() and result = false
+}
+
+string supportedType(Endpoint endpoint) {
+  endpoint.isSink() and result = "sink"
+  or
+  endpoint.isSource() and result = "source"
+  or
+  endpoint.hasSummary() and result = "summary"
+  or
+  endpoint.isNeutral() and result = "neutral"
+  or
+  not endpoint.isSupported() and result = ""
+}
+
+string usageClassification(CallExpr usage) {
+  isInTestFile(usage.getFile()) and result = "test"
+  or
+  not isInTestFile(usage.getFile()) and result = "source"
+}
+
+predicate isInTestFile(File file) { file.getBaseName().matches("%\\\\_test.go") }
+`,
+  },
+};
@@ -1,11 +1,17 @@
 import { fetchExternalApisQuery as csharpFetchExternalApisQuery } from "./csharp";
+import { fetchExternalApisQuery as goFetchExternalApisQuery } from "./go";
 import { fetchExternalApisQuery as javaFetchExternalApisQuery } from "./java";
+import { fetchExternalApisQuery as javascriptFetchExternalApisQuery } from "./javascript";
+import { fetchExternalApisQuery as pythonFetchExternalApisQuery } from "./python";
 import { fetchExternalApisQuery as rubyFetchExternalApisQuery } from "./ruby";
 import { Query } from "./query";
 import { QueryLanguage } from "../../common/query-language";
 
 export const fetchExternalApiQueries: Partial<Record<QueryLanguage, Query>> = {
   [QueryLanguage.CSharp]: csharpFetchExternalApisQuery,
+  [QueryLanguage.Go]: goFetchExternalApisQuery,
   [QueryLanguage.Java]: javaFetchExternalApisQuery,
+  [QueryLanguage.Javascript]: javascriptFetchExternalApisQuery,
+  [QueryLanguage.Python]: pythonFetchExternalApisQuery,
   [QueryLanguage.Ruby]: rubyFetchExternalApisQuery,
 };
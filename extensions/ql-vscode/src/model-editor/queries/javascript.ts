@@ -0,0 +1,151 @@
+import { Query } from "./query";
+
+export const fetchExternalApisQuery: Query = {
+  applicationModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (application mode)
+ * @description A list of 3rd party endpoints (functions and methods) used in the codebase. Excludes test and generated code.
+ * @kind table
+ * @id js/utils/modeleditor/application-mode-endpoints
+ * @tags modeleditor endpoints application-mode
+ */
+
+import javascript
+
+select "todo", "todo", "todo", "todo", "todo", false, "todo", "todo", "todo", "todo"
+`,
+  frameworkModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (framework mode)
+ * @description A list of endpoints accessible (functions and methods) for consumers of the library. Excludes test and generated code.
+ * @kind table
+ * @id js/utils/modeleditor/framework-mode-endpoints
+ * @tags modeleditor endpoints framework-mode
+ */
+
+import javascript
+import ModelEditor
+
+from Endpoint endpoint, boolean supported, string type
+where
+  supported = isSupported(endpoint) and
+  type = supportedType(endpoint)
+select endpoint, endpoint.getNamespace(), endpoint.getTypeName(), endpoint.getName(),
+  endpoint.getParameterTypes(), supported, endpoint.getFile().getBaseName(), type
+`,
+  dependencies: {
+    "ModelEditor.qll": `/** Provides classes and predicates related to handling APIs for the VS Code extension. */
+
+private import javascript
+private import semmle.javascript.frameworks.data.internal.ApiGraphModelsExtensions as Extensions
+
+/** Holds if the given function is not worth supporting. */
+private predicate isUninteresting(DataFlow::FunctionNode f) {
+  f.getFile().getRelativePath().regexpMatch(".*(test|spec|__tests__)/.*") or
+  f.getFile().getBaseName().regexpMatch(".*\\\\.(test|spec)\\\\.[jt]sx?") or
+  f.getTopLevel().isExterns() or
+  f.getTopLevel().isMinified()
+}
+
+/**
+ * A function or method from the source that is exported by an npm package, either
+ * directly or as a method of an exported class.
+ */
+class Endpoint extends DataFlow::FunctionNode {
+  string packageName;
+  string typeName;
+  string methodName;
+
+  Endpoint() {
+    exists(this.getFile().getRelativePath()) and
+    not isUninteresting(this) and
+    (
+      this = API::moduleExport(packageName).getMember(methodName).asSink().getALocalSource() and
+      typeName = packageName
+      or
+      exists(DataFlow::ClassNode cls, string className |
+        cls = API::moduleExport(packageName).getMember(className).asSink().getALocalSource() and
+        this = cls.getInstanceMethod(methodName) and
+        typeName = packageName + "." + className
+      )
+    )
+  }
+
+  /**
+   * Gets the name of the package that exports this endpoint.
+   */
+  string getNamespace() { result = packageName }
+
+  /**
+   * Gets the type that this endpoint is a member of, which is the package for exported
+   * functions or the package and class name for methods of exported classes.
+   */
+  string getTypeName() { result = typeName }
+
+  override string getName() { result = methodName }
+
+  /**
+   * Gets the names of the parameters of this endpoint. We don't always have type information,
+   * so we can't return type names.
+   */
+  string getParameterTypes() {
+    result =
+      "(" +
+        concat(int i, string name | name = this.getParameter(i).getName() | name, "," order by i) +
+        ")"
+  }
+
+  /** Gets the access path of this endpoint, relative to its type. */
+  private string getAccessPath() { result = "Member[" + methodName + "]" }
+
+  /** Holds if this API has a supported summary. */
+  pragma[nomagic]
+  predicate hasSummary() { Extensions::summaryModel(typeName, this.getAccessPath(), _, _, _) }
+
+  /** Holds if this API is a known source. */
+  pragma[nomagic]
+  predicate isSource() {
+    exists(string path |
+      Extensions::sourceModel(typeName, path, _) and
+      path.matches(this.getAccessPath() + ".%")
+    )
+  }
+
+  /** Holds if this API is a known sink. */
+  pragma[nomagic]
+  predicate isSink() {
+    exists(string path |
+      Extensions::sinkModel(typeName, path, _) and
+      path.matches(this.getAccessPath() + ".%")
+    )
+  }
+
+  /** Holds if this API is a known neutral. */
+  pragma[nomagic]
+  predicate isNeutral() { Extensions::neutralModel(typeName, this.getAccessPath(), _) }
+
+  /**
+   * Holds if this API is supported by existing CodeQL libraries, that is, it is either a
+   * recognized source, sink or neutral or it has a flow summary.
+   */
+  predicate isSupported() {
+    this.hasSummary() or this.isSource() or this.isSink() or this.isNeutral()
+  }
+}
+
+boolean isSupported(Endpoint endpoint) {
+  if endpoint.isSupported() then result = true else result = false
+}
+
+string supportedType(Endpoint endpoint) {
+  endpoint.isSink() and result = "sink"
+  or
+  endpoint.isSource() and result = "source"
+  or
+  endpoint.hasSummary() and result = "summary"
+  or
+  endpoint.isNeutral() and result = "neutral"
+  or
+  not endpoint.isSupported() and result = ""
+}
+`,
+  },
+};
@@ -0,0 +1,158 @@
+import { Query } from "./query";
+
+export const fetchExternalApisQuery: Query = {
+  applicationModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (application mode)
+ * @description A list of 3rd party endpoints (functions and methods) used in the codebase. Excludes test and generated code.
+ * @kind table
+ * @id py/utils/modeleditor/application-mode-endpoints
+ * @tags modeleditor endpoints application-mode
+ */
+
+import python
+
+select "todo", "todo", "todo", "todo", "todo", false, "todo", "todo", "todo", "todo"
+`,
+  frameworkModeQuery: `/**
+ * @name Fetch endpoints for use in the model editor (framework mode)
+ * @description A list of endpoints accessible (functions and methods) for consumers of the library. Excludes test and generated code.
+ * @kind table
+ * @id py/utils/modeleditor/framework-mode-endpoints
+ * @tags modeleditor endpoints framework-mode
+ */
+
+import python
+import ModelEditor
+
+from Endpoint endpoint, boolean supported, string type
+where
+  supported = isSupported(endpoint) and
+  type = supportedType(endpoint)
+select endpoint, endpoint.getNamespace(), endpoint.getTypeName(), endpoint.getName(),
+  endpoint.getParameterTypes(), supported, endpoint.getLocation().getFile().getBaseName(), type
+`,
+  dependencies: {
+    "ModelEditor.qll": `/** Provides classes and predicates related to handling APIs for the VS Code extension. */
+
+private import python
+private import semmle.python.frameworks.data.internal.ApiGraphModelsExtensions as Extensions
+
+/** Holds if the given function is not worth supporting. */
+private predicate isUninteresting(Function f) {
+  f.getLocation().getFile().getRelativePath().regexpMatch(".*(test|tests)/.*") or
+  f.getLocation().getFile().getBaseName().regexpMatch("(test_.*|.*_test)\\\\.py")
+}
+
+/**
+ * A public function or method from the source, which is accessible as a member of a
+ * module or class.
+ */
+class Endpoint extends Function {
+  Endpoint() {
+    exists(this.getLocation().getFile().getRelativePath()) and
+    not this.getName().matches("\\\\_%") and
+    (
+      this.getScope() instanceof Module
+      or
+      this.getScope().(Class).getScope() instanceof Module and
+      not this.getScope().(Class).getName().matches("\\\\_%")
+    ) and
+    not isUninteresting(this)
+  }
+
+  /**
+   * Gets the name of the package that contains this endpoint.
+   */
+  string getNamespace() {
+    exists(string moduleName | moduleName = this.getEnclosingModule().getName() |
+      result = moduleName.regexpCapture("([^.]+).*", 1)
+    )
+  }
+
+  /**
+   * Gets the type that this endpoint is a member of, which is the dotted name of its
+   * module or class.
+   */
+  string getTypeName() {
+    this.getScope() instanceof Module and
+    result = this.getEnclosingModule().getName()
+    or
+    result = this.getEnclosingModule().getName() + "." + this.getScope().(Class).getName()
+  }
+
+  /**
+   * Gets the names of the parameters of this endpoint, excluding \`self\`. We don't always
+   * have type information, so we can't return type names.
+   */
+  string getParameterTypes() {
+    exists(int offset | if this.isMethod() then offset = 1 else offset = 0 |
+      result =
+        "(" +
+          concat(int i, string name |
+            name = this.getArgName(i) and i >= offset
+          |
+            name, "," order by i
+          ) + ")"
+    )
+  }
+
+  /** Gets the access path of this endpoint, relative to its type. */
+  private string getAccessPath() { result = "Member[" + this.getName() + "]" }
+
+  /** Holds if this API has a supported summary. */
+  pragma[nomagic]
+  predicate hasSummary() {
+    Extensions::summaryModel(this.getTypeName(), this.getAccessPath(), _, _, _)
+  }
+
+  /** Holds if this API is a known source. */
+  pragma[nomagic]
+  predicate isSource() {
+    exists(string path |
+      Extensions::sourceModel(this.getTypeName(), path, _) and
+      path.matches(this.getAccessPath() + ".%")
+    )
+  }
+
+  /** Holds if this API is a known sink. */
+  pragma[nomagic]
+  predicate isSink() {
+    exists(string path |
+      Extensions::sinkModel(this.getTypeName(), path, _) and
+      path.matches(this.getAccessPath() + ".%")
+    )
+  }
+
+  /** Holds if this API is a known neutral. */
+  pragma[nomagic]
+  predicate isNeutral() {
+    Extensions::neutralModel(this.getTypeName(), this.getAccessPath(), _)
+  }
+
+  /**
+   * Holds if this API is supported by existing CodeQL libraries, that is, it is either a
+   * recognized source, sink or neutral or it has a flow summary.
+   */
+  predicate isSupported() {
+    this.hasSummary() or this.isSource() or this.isSink() or this.isNeutral()
+  }
+}
+
+boolean isSupported(Endpoint endpoint) {
+  if endpoint.isSupported() then result = true else result = false
+}
+
+string supportedType(Endpoint endpoint) {
+  endpoint.isSink() and result = "sink"
+  or
+  endpoint.isSource() and result = "source"
+  or
+  endpoint.hasSummary() and result = "summary"
+  or
+  endpoint.isNeutral() and result = "neutral"
+  or
+  not endpoint.isSupported() and result = ""
+}
+`,
+  },
+};
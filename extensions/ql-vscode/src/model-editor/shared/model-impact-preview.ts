@@ -0,0 +1,66 @@
+import * as sarif from "sarif";
+import { sarifDiff } from "../../compare/sarif-diff";
+
+export interface QueryModelImpact {
+  queryName: string;
+  queryPath: string;
+  /**
+   * The alerts that are only found when the unsaved models are applied.
+   */
+  addedAlerts: sarif.Result[];
+  /**
+   * The alerts that are no longer found when the unsaved models are applied.
+   */
+  removedAlerts: sarif.Result[];
+}
+
+export interface ModelImpactPreview {
+  databaseUri: string;
+  sourceLocationPrefix: string;
+  extensionPackName: string;
+  queries: QueryModelImpact[];
+}
+
+/**
+ * Compares the alerts of a query with and without the unsaved models.
+ *
+ * @param baselineResults The alerts of the query with the saved models.
+ * @param previewResults The alerts of the query with the unsaved models.
+ */
+export function createQueryModelImpact(
+  queryName: string,
+  queryPath: string,
+  baselineResults: readonly sarif.Result[],
+  previewResults: readonly sarif.Result[],
+  sourceLocationPrefix: string,
+): QueryModelImpact {
+  const { from, to } = sarifDiff(
+    baselineResults,
+    previewResults,
+    sourceLocationPrefix,
+  );
+
+  return {
+    queryName,
+    queryPath,
+    addedAlerts: to,
+    removedAlerts: from,
+  };
+}
+
+/**
+ * Sorts the queries so that the queries whose alerts change the most come first. Queries
+ * with the same number of changed alerts are sorted by name.
+ */
+export function sortQueryModelImpacts(
+  queries: readonly QueryModelImpact[],
+): QueryModelImpact[] {
+  const changedAlerts = (query: QueryModelImpact) =>
+    query.addedAlerts.length + query.removedAlerts.length;
+
+  return [...queries].sort(
+    (a, b) =>
+      changedAlerts(b) - changedAlerts(a) ||
+      a.queryName.localeCompare(b.queryName),
+  );
+}
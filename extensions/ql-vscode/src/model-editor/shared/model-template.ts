@@ -0,0 +1,243 @@
+import { QueryLanguage } from "../../common/query-language";
+import { assertNever } from "../../common/helpers-pure";
+import { Method, MethodSignature } from "../method";
+import { ModeledMethod } from "../modeled-method";
+import { getModelsAsDataLanguage } from "../languages";
+
+/**
+ * A model that can be applied to many methods at once, either by bulk editing the
+ * selected methods or by a model template.
+ */
+export interface BulkModel {
+  type: "source" | "sink" | "summary" | "neutral";
+  /**
+   * The input of sink and summary models.
+   */
+  input: string;
+  /**
+   * The output of source and summary models.
+   */
+  output: string;
+  kind: string;
+}
+
+export interface ModelTemplate {
+  name: string;
+  language: QueryLanguage;
+  /**
+   * A pattern that is matched against the signature of a method, e.g.
+   * `org.sql2o.Connection#execute*`, where `*` matches any sequence of characters.
+   */
+  signature: string;
+  model: BulkModel;
+}
+
+function isArgumentPathValid(
+  path: string,
+  method: MethodSignature,
+  language: QueryLanguage,
+): boolean {
+  // Only the first token of an access path refers to an argument of the method itself
+  const firstToken = path.split(".")[0];
+  if (!firstToken.startsWith("Argument[")) {
+    return true;
+  }
+
+  return getModelsAsDataLanguage(language)
+    .getArgumentOptions(method)
+    .options.some((option) => option.path === firstToken);
+}
+
+/**
+ * Creates the modeled method for a method from a bulk model.
+ *
+ * @returns The modeled method, or undefined if the model can't be applied to the method,
+ * for example because its input refers to an argument the method doesn't have.
+ */
+function createBulkModeledMethod(
+  method: MethodSignature,
+  model: BulkModel,
+  language: QueryLanguage,
+): ModeledMethod | undefined {
+  const predicate = getModelsAsDataLanguage(language).predicates[model.type];
+  if (!predicate) {
+    return undefined;
+  }
+
+  if (
+    predicate.supportedKinds &&
+    !predicate.supportedKinds.includes(model.kind)
+  ) {
+    return undefined;
+  }
+  const kind = predicate.supportedKinds ? model.kind : "";
+
+  const methodSignature: MethodSignature = {
+    packageName: method.packageName,
+    typeName: method.typeName,
+    methodName: method.methodName,
+    methodParameters: method.methodParameters,
+    signature: method.signature,
+  };
+
+  switch (model.type) {
+    case "source":
+      if (!isArgumentPathValid(model.output, method, language)) {
+        return undefined;
+      }
+      return {
+        ...methodSignature,
+        type: "source",
+        output: model.output,
+        kind,
+        provenance: "manual",
+      };
+    case "sink":
+      if (!isArgumentPathValid(model.input, method, language)) {
+        return undefined;
+      }
+      return {
+        ...methodSignature,
+        type: "sink",
+        input: model.input,
+        kind,
+        provenance: "manual",
+      };
+    case "summary":
+      if (
+        !isArgumentPathValid(model.input, method, language) ||
+        !isArgumentPathValid(model.output, method, language)
+      ) {
+        return undefined;
+      }
+      return {
+        ...methodSignature,
+        type: "summary",
+        input: model.input,
+        output: model.output,
+        kind,
+        provenance: "manual",
+      };
+    case "neutral":
+      return {
+        ...methodSignature,
+        type: "neutral",
+        kind,
+        provenance: "manual",
+      };
+    default:
+      assertNever(model.type);
+  }
+}
+
+/**
+ * Creates the modeled methods for applying a bulk model to the given methods. Methods that
+ * the model can't be applied to are left out.
+ */
+export function createBulkModeledMethods(
+  methods: readonly MethodSignature[],
+  model: BulkModel,
+  language: QueryLanguage,
+): Record<string, ModeledMethod[]> {
+  const modeledMethods: Record<string, ModeledMethod[]> = {};
+  for (const method of methods) {
+    const modeledMethod = createBulkModeledMethod(method, model, language);
+    if (modeledMethod) {
+      modeledMethods[method.signature] = [modeledMethod];
+    }
+  }
+  return modeledMethods;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function signatureMatchesPattern(signature: string, pattern: string): boolean {
+  const regex = new RegExp(
+    `^${pattern.split("*").map(escapeRegExp).join(".*")}$`,
+  );
+  return regex.test(signature);
+}
+
+/**
+ * Applies model templates to all methods that are not modeled yet. Methods that are
+ * already modeled, either by CodeQL or in the model editor, are never changed by a template.
+ *
+ * @returns The new modeled methods of the methods that at least one template applies to.
+ */
+export function applyModelTemplates(
+  templates: readonly ModelTemplate[],
+  methods: readonly Method[],
+  modeledMethodsMap: Readonly<Record<string, readonly ModeledMethod[]>>,
+  language: QueryLanguage,
+): Record<string, ModeledMethod[]> {
+  const languageTemplates = templates.filter(
+    (template) => template.language === language,
+  );
+
+  const newModeledMethods: Record<string, ModeledMethod[]> = {};
+  for (const method of methods) {
+    const modeledMethods = modeledMethodsMap[method.signature] ?? [];
+    if (
+      method.supported ||
+      modeledMethods.some((modeledMethod) => modeledMethod.type !== "none")
+    ) {
+      continue;
+    }
+
+    const templateModeledMethods = languageTemplates
+      .filter((template) =>
+        signatureMatchesPattern(method.signature, template.signature),
+      )
+      .map((template) =>
+        createBulkModeledMethod(method, template.model, language),
+      )
+      .filter(
+        (modeledMethod): modeledMethod is ModeledMethod => !!modeledMethod,
+      );
+    if (templateModeledMethods.length > 0) {
+      newModeledMethods[method.signature] = templateModeledMethods;
+    }
+  }
+  return newModeledMethods;
+}
+
+/**
+ * Suggests the signature pattern of a template for the given methods: the signature of the
+ * method if there is only one, or the longest common prefix of their signatures followed by
+ * a `*`, such as `org.sql2o.Connection#execute*` for all overloads of methods starting
+ * with `execute`.
+ */
+export function suggestModelTemplateSignature(
+  methodSignatures: readonly string[],
+): string {
+  const uniqueSignatures = Array.from(new Set(methodSignatures));
+  if (uniqueSignatures.length === 0) {
+    return "*";
+  }
+  if (uniqueSignatures.length === 1) {
+    return uniqueSignatures[0];
+  }
+
+  let prefix = uniqueSignatures[0];
+  for (const signature of uniqueSignatures.slice(1)) {
+    let length = 0;
+    while (
+      length < prefix.length &&
+      length < signature.length &&
+      prefix[length] === signature[length]
+    ) {
+      length++;
+    }
+    prefix = prefix.substring(0, length);
+  }
+
+  // Don't match part of the parameter list, since that would only match some overloads
+  const parametersStart = prefix.indexOf("(");
+  if (parametersStart !== -1) {
+    prefix = prefix.substring(0, parametersStart);
+  }
+
+  return `${prefix}*`;
+}
@@ -18,9 +18,16 @@ export function isSupportedLanguage(
     return true;
   }
 
-  if (language === QueryLanguage.Ruby) {
-    // Ruby is only enabled when the config setting is set
-    return modelConfig.enableRuby;
+  // These languages are only enabled when their config setting is set
+  switch (language) {
+    case QueryLanguage.Ruby:
+      return modelConfig.enableRuby;
+    case QueryLanguage.Python:
+      return modelConfig.enablePython;
+    case QueryLanguage.Javascript:
+      return modelConfig.enableJavascript;
+    case QueryLanguage.Go:
+      return modelConfig.enableGo;
   }
 
   return false;
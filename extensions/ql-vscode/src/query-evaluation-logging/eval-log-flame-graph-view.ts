@@ -0,0 +1,101 @@
+import { ViewColumn } from "vscode";
+
+import {
+  FromEvalLogFlameGraphViewMessage,
+  ToEvalLogFlameGraphViewMessage,
+} from "../common/interface-types";
+import { showAndLogExceptionWithTelemetry } from "../common/logging";
+import { extLogger } from "../common/logging/vscode";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { LocalQueryInfo } from "../query-results";
+import { assertNever } from "../common/helpers-pure";
+import {
+  AbstractWebview,
+  WebviewPanelConfig,
+} from "../common/vscode/abstract-webview";
+import { telemetryListener } from "../common/vscode/telemetry";
+import { redactableError } from "../common/errors";
+import { App } from "../common/app";
+import { parsePredicateGraph } from "../log-insights/log-summary-parser";
+import { buildFlameGraph } from "../log-insights/predicate-graph";
+import { ensureJsonEvalLogSummary } from "./json-eval-log-summary";
+
+/**
+ * A webview that shows the predicates of an evaluator log as a cumulative-time
+ * flame graph and as a dependency graph.
+ */
+export class EvalLogFlameGraphView extends AbstractWebview<
+  ToEvalLogFlameGraphViewMessage,
+  FromEvalLogFlameGraphViewMessage
+> {
+  constructor(
+    app: App,
+    private readonly cliServer: CodeQLCliServer,
+  ) {
+    super(app);
+  }
+
+  async showFlameGraph(item: LocalQueryInfo) {
+    const jsonSummaryPath = await ensureJsonEvalLogSummary(
+      this.cliServer,
+      item,
+    );
+
+    const queryName = item.getQueryName();
+    const predicates = await parsePredicateGraph(jsonSummaryPath);
+    const flameGraph = buildFlameGraph(queryName, predicates);
+
+    const panel = await this.getPanel();
+    panel.reveal(undefined, true);
+
+    await this.waitForPanelLoaded();
+
+    await this.postMessage({
+      t: "setEvalLogFlameGraph",
+      queryName,
+      flameGraph,
+      predicates,
+    });
+  }
+
+  protected getPanelConfig(): WebviewPanelConfig {
+    return {
+      viewId: "evalLogFlameGraphView",
+      title: "CodeQL Evaluator Log Flame Graph",
+      viewColumn: ViewColumn.Active,
+      preserveFocus: true,
+      view: "eval-log-flame-graph",
+    };
+  }
+
+  protected onPanelDispose(): void {
+    // Nothing to dispose
+  }
+
+  protected async onMessage(
+    msg: FromEvalLogFlameGraphViewMessage,
+  ): Promise<void> {
+    switch (msg.t) {
+      case "viewLoaded":
+        this.onWebViewLoaded();
+        break;
+
+      case "telemetry":
+        telemetryListener?.sendUIInteraction(msg.action);
+        break;
+
+      case "unhandledError":
+        void showAndLogExceptionWithTelemetry(
+          extLogger,
+          telemetryListener,
+          redactableError(
+            msg.error,
+          )`Unhandled error in evaluator log flame graph view: ${msg.error.message}`,
+        );
+        break;
+
+      default:
+        assertNever(msg);
+    }
+  }
+}
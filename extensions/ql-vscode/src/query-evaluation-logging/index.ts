@@ -1,2 +1,4 @@
 export * from "./eval-log-tree-builder";
 export * from "./eval-log-viewer";
+export * from "./json-eval-log-summary";
+export * from "./eval-log-flame-graph-view";
@@ -0,0 +1,39 @@
+import { pathExists } from "fs-extra";
+import { CodeQLCliServer } from "../codeql-cli/cli";
+import { LocalQueryInfo } from "../query-results";
+
+/**
+ * Returns the path of the JSON evaluator log summary of the given query. The
+ * JSON summary is only generated automatically in canary mode, so it is
+ * generated from the raw evaluator log if it does not exist yet.
+ */
+export async function ensureJsonEvalLogSummary(
+  cliServer: CodeQLCliServer,
+  item: LocalQueryInfo,
+): Promise<string> {
+  if (
+    item.jsonEvalLogSummaryLocation &&
+    (await pathExists(item.jsonEvalLogSummaryLocation))
+  ) {
+    return item.jsonEvalLogSummaryLocation;
+  }
+
+  const outputDir = item.initialInfo.outputDir;
+  const evalLogLocation = item.evalLogLocation ?? outputDir?.evalLogPath;
+  if (
+    outputDir === undefined ||
+    evalLogLocation === undefined ||
+    !(await pathExists(evalLogLocation))
+  ) {
+    throw new Error(
+      `No evaluator log is available for ${item.getQueryName()}.`,
+    );
+  }
+
+  await cliServer.generateJsonLogSummary(
+    evalLogLocation,
+    outputDir.jsonEvalLogSummaryPath,
+  );
+  item.jsonEvalLogSummaryLocation = outputDir.jsonEvalLogSummaryPath;
+  return outputDir.jsonEvalLogSummaryPath;
+}
@@ -7,13 +7,27 @@ import {
   ThemeIcon,
   TreeDataProvider,
   TreeItem,
+  TreeItemCollapsibleState,
 } from "vscode";
+import { basename } from "path";
 import { DisposableObject } from "../common/disposable-object";
 import { assertNever } from "../common/helpers-pure";
-import { getLanguage, QueryHistoryInfo } from "./query-history-info";
+import { pluralize } from "../common/word";
+import { getLanguageDisplayName } from "../common/query-language";
+import {
+  getDatabaseName,
+  getLanguage,
+  getQueryFilePath,
+  getRawQueryName,
+  QueryHistoryInfo,
+  QueryHistoryPropertyGroup,
+  QueryHistoryTreeItem,
+  QuerySuiteHistoryGroup,
+} from "./query-history-info";
 import { QueryStatus } from "./query-status";
 import { HistoryItemLabelProvider } from "./history-item-label-provider";
 import { LanguageContextStore } from "../language-context-store";
+import { LocalQueryInfo } from "../query-results";
 
 export enum SortOrder {
   NameAsc = "NameAsc",
@@ -24,20 +38,43 @@ export enum SortOrder {
   CountDesc = "CountDesc",
 }
 
+export enum GroupBy {
+  None = "None",
+  Database = "Database",
+  QueryFile = "QueryFile",
+  Language = "Language",
+  Tag = "Tag",
+}
+
+const GROUP_ICONS: Record<Exclude<GroupBy, GroupBy.None>, string> = {
+  [GroupBy.Database]: "database",
+  [GroupBy.QueryFile]: "file-code",
+  [GroupBy.Language]: "symbol-namespace",
+  [GroupBy.Tag]: "tag",
+};
+
+interface SortKey {
+  label: string;
+  date: number;
+  resultCount: number;
+}
+
 /**
  * Tree data provider for the query history view.
  */
 export class HistoryTreeDataProvider
   extends DisposableObject
-  implements TreeDataProvider<QueryHistoryInfo>
+  implements TreeDataProvider<QueryHistoryTreeItem>
 {
   private _sortOrder = SortOrder.DateAsc;
+  private _groupBy = GroupBy.None;
+  private _filterText = "";
 
   private _onDidChangeTreeData = super.push(
-    new EventEmitter<QueryHistoryInfo | undefined>(),
+    new EventEmitter<QueryHistoryTreeItem | undefined>(),
   );
 
-  readonly onDidChangeTreeData: Event<QueryHistoryInfo | undefined> =
+  readonly onDidChangeTreeData: Event<QueryHistoryTreeItem | undefined> =
     this._onDidChangeTreeData.event;
 
   private _onDidChangeCurrentQueryItem = super.push(
@@ -51,6 +88,22 @@ export class HistoryTreeDataProvider
 
   private current: QueryHistoryInfo | undefined;
 
+  /**
+   * The groups of queries run as part of a query suite, by the ID of the run of the
+   * suite. The same group object must be returned for every call to `getChildren` and
+   * `getParent`, so that the tree view can reveal the queries in a group.
+   */
+  private readonly querySuiteGroups = new Map<string, QuerySuiteHistoryGroup>();
+
+  /**
+   * The groups of queries when the history is grouped by a property, by name. As for
+   * query suite groups, the same group object must be returned for every call.
+   */
+  private readonly propertyGroups = new Map<
+    string,
+    QueryHistoryPropertyGroup
+  >();
+
   constructor(
     private readonly labelProvider: HistoryItemLabelProvider,
     private readonly languageContext: LanguageContextStore,
@@ -58,8 +111,15 @@ export class HistoryTreeDataProvider
     super();
   }
 
-  async getTreeItem(element: QueryHistoryInfo): Promise<TreeItem> {
+  async getTreeItem(element: QueryHistoryTreeItem): Promise<TreeItem> {
+    if (element.t === "query-suite") {
+      return this.getQuerySuiteTreeItem(element);
+    } else if (element.t === "property-group") {
+      return this.getPropertyGroupTreeItem(element);
+    }
+
     const treeItem = new TreeItem(this.labelProvider.getLabel(element));
+    treeItem.description = element.tags?.join(", ");
 
     treeItem.command = {
       title: "Query History Item",
@@ -76,12 +136,62 @@ export class HistoryTreeDataProvider
     return treeItem;
   }
 
+  private getQuerySuiteTreeItem(group: QuerySuiteHistoryGroup): TreeItem {
+    const members = this.getQuerySuiteMembers(group);
+    const completedCount = members.filter(
+      (item) => item.status !== QueryStatus.InProgress,
+    ).length;
+
+    const treeItem = new TreeItem(
+      this.getQuerySuiteLabel(group),
+      TreeItemCollapsibleState.Collapsed,
+    );
+    treeItem.description = `${completedCount}/${pluralize(
+      members.length,
+      "query",
+      "queries",
+    )}`; // e.g. "2/3 queries"
+    treeItem.tooltip = group.querySuite.suitePath;
+    treeItem.iconPath =
+      completedCount < members.length
+        ? new ThemeIcon("sync~spin")
+        : new ThemeIcon("checklist");
+    treeItem.contextValue = "querySuiteItem";
+    return treeItem;
+  }
+
+  private getPropertyGroupTreeItem(group: QueryHistoryPropertyGroup): TreeItem {
+    const treeItem = new TreeItem(
+      this.groupBy === GroupBy.QueryFile ? basename(group.name) : group.name,
+      TreeItemCollapsibleState.Expanded,
+    );
+    treeItem.description = pluralize(
+      this.getVisibleHistory().filter((item) =>
+        this.getPropertyGroups(item).includes(group),
+      ).length,
+      "query",
+      "queries",
+    );
+    treeItem.tooltip = group.name;
+    if (this.groupBy !== GroupBy.None) {
+      treeItem.iconPath = new ThemeIcon(GROUP_ICONS[this.groupBy]);
+    }
+    treeItem.contextValue = "propertyGroupItem";
+    return treeItem;
+  }
+
+  private getQuerySuiteLabel(group: QuerySuiteHistoryGroup): string {
+    return `${group.querySuite.name} on ${group.databaseName}`;
+  }
+
   private getIconPath(element: QueryHistoryInfo): ThemeIcon | string {
     switch (element.status) {
       case QueryStatus.InProgress:
         return new ThemeIcon("sync~spin");
       case QueryStatus.Completed:
-        if (element.t === "local") {
+        if (element.pinned) {
+          return new ThemeIcon("pinned");
+        } else if (element.t === "local") {
           return new ThemeIcon("database");
         } else {
           return new ThemeIcon("cloud");
@@ -128,62 +238,223 @@ export class HistoryTreeDataProvider
     }
   }
 
-  getChildren(element?: QueryHistoryInfo): ProviderResult<QueryHistoryInfo[]> {
-    return element
-      ? []
-      : this.history
-          .filter((h) => {
-            return this.languageContext.shouldInclude(getLanguage(h));
-          })
-          .sort((h1, h2) => {
-            const h1Label = this.labelProvider.getLabel(h1).toLowerCase();
-            const h2Label = this.labelProvider.getLabel(h2).toLowerCase();
+  getChildren(
+    element?: QueryHistoryTreeItem,
+  ): ProviderResult<QueryHistoryTreeItem[]> {
+    const history = this.getVisibleHistory();
+
+    if (element === undefined && this.groupBy !== GroupBy.None) {
+      // When grouping by a property, queries are not grouped by query suite.
+      const groups = new Set(
+        history.flatMap((item) => this.getPropertyGroups(item)),
+      );
+      return [...groups].sort((g1, g2) =>
+        g1.name.localeCompare(g2.name, env.language),
+      );
+    } else if (element === undefined) {
+      // Queries that were run as part of a query suite are shown in a single
+      // group for each run of the suite.
+      const items: Array<QueryHistoryInfo | QuerySuiteHistoryGroup> = [];
+      for (const item of history) {
+        const group = this.getQuerySuiteGroup(item);
+        if (group === undefined) {
+          items.push(item);
+        } else if (!items.includes(group)) {
+          items.push(group);
+        }
+      }
+      return this.sortItems(items);
+    } else if (element.t === "query-suite") {
+      return this.sortItems(
+        history.filter((item) => this.getQuerySuiteGroup(item) === element),
+      );
+    } else if (element.t === "property-group") {
+      return this.sortItems(
+        history.filter((item) =>
+          this.getPropertyGroups(item).includes(element),
+        ),
+      );
+    } else {
+      return [];
+    }
+  }
 
-            const h1Date = this.getItemDate(h1);
+  /**
+   * Gets the queries that are shown in the view, which are the queries for the selected
+   * language that match the filter text.
+   */
+  private getVisibleHistory(): QueryHistoryInfo[] {
+    return this.history.filter(
+      (item) =>
+        this.languageContext.shouldInclude(getLanguage(item)) &&
+        this.matchesFilter(item),
+    );
+  }
 
-            const h2Date = this.getItemDate(h2);
+  /**
+   * Holds if the label, query name or database name of the item contains the
+   * filter text, ignoring case. All items match an empty filter text.
+   */
+  private matchesFilter(item: QueryHistoryInfo): boolean {
+    const filterText = this.filterText.toLowerCase();
+    return [
+      this.labelProvider.getLabel(item),
+      getRawQueryName(item),
+      getDatabaseName(item) ?? "",
+    ].some((text) => text.toLowerCase().includes(filterText));
+  }
 
-            const resultCount1 =
-              h1.t === "local"
-                ? h1.completedQuery?.resultCount ?? -1
-                : h1.resultCount ?? -1;
-            const resultCount2 =
-              h2.t === "local"
-                ? h2.completedQuery?.resultCount ?? -1
-                : h2.resultCount ?? -1;
+  isVisible(item: QueryHistoryInfo): boolean {
+    return this.getVisibleHistory().includes(item);
+  }
 
-            switch (this.sortOrder) {
-              case SortOrder.NameAsc:
-                return h1Label.localeCompare(h2Label, env.language);
+  private sortItems<T extends QueryHistoryInfo | QuerySuiteHistoryGroup>(
+    items: T[],
+  ): T[] {
+    return items
+      .map((item) => ({ item, key: this.getSortKey(item) }))
+      .sort(({ key: k1 }, { key: k2 }) => {
+        switch (this.sortOrder) {
+          case SortOrder.NameAsc:
+            return k1.label.localeCompare(k2.label, env.language);
+
+          case SortOrder.NameDesc:
+            return k2.label.localeCompare(k1.label, env.language);
+
+          case SortOrder.DateAsc:
+            return k1.date - k2.date;
+
+          case SortOrder.DateDesc:
+            return k2.date - k1.date;
+
+          case SortOrder.CountAsc:
+            // If the result counts are equal, sort by name.
+            return k1.resultCount - k2.resultCount === 0
+              ? k1.label.localeCompare(k2.label, env.language)
+              : k1.resultCount - k2.resultCount;
+
+          case SortOrder.CountDesc:
+            // If the result counts are equal, sort by name.
+            return k2.resultCount - k1.resultCount === 0
+              ? k2.label.localeCompare(k1.label, env.language)
+              : k2.resultCount - k1.resultCount;
+          default:
+            assertNever(this.sortOrder);
+        }
+      })
+      .map(({ item }) => item);
+  }
 
-              case SortOrder.NameDesc:
-                return h2Label.localeCompare(h1Label, env.language);
+  private getSortKey(item: QueryHistoryInfo | QuerySuiteHistoryGroup): SortKey {
+    if (item.t === "query-suite") {
+      const members = this.getQuerySuiteMembers(item);
+      return {
+        label: this.getQuerySuiteLabel(item).toLowerCase(),
+        date: Math.min(...members.map((member) => this.getItemDate(member))),
+        resultCount: members.reduce(
+          (count, member) =>
+            count + Math.max(member.completedQuery?.resultCount ?? 0, 0),
+          0,
+        ),
+      };
+    }
 
-              case SortOrder.DateAsc:
-                return h1Date - h2Date;
+    return {
+      label: this.labelProvider.getLabel(item).toLowerCase(),
+      date: this.getItemDate(item),
+      resultCount:
+        item.t === "local"
+          ? item.completedQuery?.resultCount ?? -1
+          : item.resultCount ?? -1,
+    };
+  }
 
-              case SortOrder.DateDesc:
-                return h2Date - h1Date;
+  getParent(
+    element: QueryHistoryTreeItem,
+  ): ProviderResult<QueryHistoryTreeItem> {
+    if (element.t === "query-suite" || element.t === "property-group") {
+      return null;
+    }
+    if (this.groupBy !== GroupBy.None) {
+      // A query with several tags is in several groups, so use the first one.
+      return this.getPropertyGroups(element)[0];
+    }
+    return this.getQuerySuiteGroup(element) ?? null;
+  }
 
-              case SortOrder.CountAsc:
-                // If the result counts are equal, sort by name.
-                return resultCount1 - resultCount2 === 0
-                  ? h1Label.localeCompare(h2Label, env.language)
-                  : resultCount1 - resultCount2;
+  /**
+   * Gets the groups of the given item when grouping by a property.
+   */
+  private getPropertyGroups(
+    item: QueryHistoryInfo,
+  ): QueryHistoryPropertyGroup[] {
+    return this.getPropertyGroupNames(item).map((name) => {
+      let group = this.propertyGroups.get(name);
+      if (group === undefined) {
+        group = { t: "property-group", name };
+        this.propertyGroups.set(name, group);
+      }
+      return group;
+    });
+  }
 
-              case SortOrder.CountDesc:
-                // If the result counts are equal, sort by name.
-                return resultCount2 - resultCount1 === 0
-                  ? h2Label.localeCompare(h1Label, env.language)
-                  : resultCount2 - resultCount1;
-              default:
-                assertNever(this.sortOrder);
-            }
-          });
+  private getPropertyGroupNames(item: QueryHistoryInfo): string[] {
+    switch (this.groupBy) {
+      case GroupBy.None:
+        return [];
+      case GroupBy.Database:
+        return [getDatabaseName(item) ?? "Variant analyses"];
+      case GroupBy.QueryFile:
+        return [getQueryFilePath(item)];
+      case GroupBy.Language: {
+        const language = getLanguage(item);
+        return [
+          language === undefined
+            ? "Unknown language"
+            : getLanguageDisplayName(language),
+        ];
+      }
+      case GroupBy.Tag:
+        return item.tags !== undefined && item.tags.length > 0
+          ? item.tags
+          : ["Untagged"];
+      default:
+        assertNever(this.groupBy);
+    }
   }
 
-  getParent(_element: QueryHistoryInfo): ProviderResult<QueryHistoryInfo> {
-    return null;
+  /**
+   * Gets the group of the given item if it was run as part of a query suite.
+   */
+  private getQuerySuiteGroup(
+    item: QueryHistoryInfo,
+  ): QuerySuiteHistoryGroup | undefined {
+    if (item.t !== "local" || item.initialInfo.querySuite === undefined) {
+      return undefined;
+    }
+
+    const querySuite = item.initialInfo.querySuite;
+    let group = this.querySuiteGroups.get(querySuite.id);
+    if (group === undefined) {
+      group = {
+        t: "query-suite",
+        querySuite,
+        databaseName: item.databaseName,
+      };
+      this.querySuiteGroups.set(querySuite.id, group);
+    }
+    return group;
+  }
+
+  /**
+   * Gets all queries that were run as part of the given run of a query suite.
+   */
+  getQuerySuiteMembers(group: QuerySuiteHistoryGroup): LocalQueryInfo[] {
+    return this.history.filter(
+      (item): item is LocalQueryInfo =>
+        item.t === "local" &&
+        item.initialInfo.querySuite?.id === group.querySuite.id,
+    );
   }
 
   getCurrent(): QueryHistoryInfo | undefined {
@@ -211,6 +482,13 @@ export class HistoryTreeDataProvider
     const index = this.history.findIndex((i) => i === item);
     if (index >= 0) {
       this.history.splice(index, 1);
+      const group = this.getQuerySuiteGroup(item);
+      if (
+        group !== undefined &&
+        this.getQuerySuiteMembers(group).length === 0
+      ) {
+        this.querySuiteGroups.delete(group.querySuite.id);
+      }
       if (isCurrent && this.history.length > 0) {
         // Try to keep a current item, near the deleted item if there
         // are any available.
@@ -222,12 +500,28 @@ export class HistoryTreeDataProvider
     }
   }
 
+  /**
+   * Replaces an item with a new item for the same query, such as when the files of
+   * the query have been moved.
+   */
+  replace(item: QueryHistoryInfo, newItem: QueryHistoryInfo) {
+    const index = this.history.indexOf(item);
+    if (index >= 0) {
+      this.history[index] = newItem;
+      if (this.current === item) {
+        this.setCurrentItem(newItem);
+      }
+      this.refresh();
+    }
+  }
+
   get allHistory(): QueryHistoryInfo[] {
     return this.history;
   }
 
   set allHistory(history: QueryHistoryInfo[]) {
     this.history = history;
+    this.querySuiteGroups.clear();
     this.setCurrentItem(history[0]);
     this.refresh();
   }
@@ -245,6 +539,25 @@ export class HistoryTreeDataProvider
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  public get groupBy() {
+    return this._groupBy;
+  }
+
+  public set groupBy(newGroupBy: GroupBy) {
+    this._groupBy = newGroupBy;
+    this.propertyGroups.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public get filterText() {
+    return this._filterText;
+  }
+
+  public set filterText(newFilterText: string) {
+    this._filterText = newFilterText;
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
   private getItemDate(item: QueryHistoryInfo) {
     switch (item.t) {
       case "local":
@@ -1,5 +1,5 @@
 import { VariantAnalysisHistoryItem } from "./variant-analysis-history-item";
-import { LocalQueryInfo } from "../query-results";
+import { LocalQueryInfo, QuerySuiteInfo } from "../query-results";
 import { assertNever } from "../common/helpers-pure";
 import { pluralize } from "../common/word";
 import {
@@ -10,6 +10,32 @@ import { QueryLanguage } from "../common/query-language";
 
 export type QueryHistoryInfo = LocalQueryInfo | VariantAnalysisHistoryItem;
 
+/**
+ * A node in the query history view that groups the queries that were run as part of
+ * the same run of a query suite. Groups are not stored in the query history, but are
+ * derived from the `querySuite` of the local queries in it.
+ */
+export interface QuerySuiteHistoryGroup {
+  readonly t: "query-suite";
+  readonly querySuite: QuerySuiteInfo;
+  readonly databaseName: string;
+}
+
+/**
+ * A node in the query history view that groups the queries with the same database,
+ * query file, language or tag, when the user has chosen to group the query history.
+ * A query with several tags is shown in the group of each of its tags.
+ */
+export interface QueryHistoryPropertyGroup {
+  readonly t: "property-group";
+  readonly name: string;
+}
+
+export type QueryHistoryTreeItem =
+  | QueryHistoryInfo
+  | QuerySuiteHistoryGroup
+  | QueryHistoryPropertyGroup;
+
 export function getRawQueryName(item: QueryHistoryInfo): string {
   switch (item.t) {
     case "local":
@@ -50,6 +76,32 @@ export function getQueryText(item: QueryHistoryInfo): string {
   }
 }
 
+export function getQueryFilePath(item: QueryHistoryInfo): string {
+  switch (item.t) {
+    case "local":
+      return item.initialInfo.queryPath;
+    case "variant-analysis":
+      return item.variantAnalysis.query.filePath;
+    default:
+      assertNever(item);
+  }
+}
+
+/**
+ * Gets the name of the database that the query was run against, or `undefined` for a
+ * variant analysis, which is run against many repositories.
+ */
+export function getDatabaseName(item: QueryHistoryInfo): string | undefined {
+  switch (item.t) {
+    case "local":
+      return item.databaseName;
+    case "variant-analysis":
+      return undefined;
+    default:
+      assertNever(item);
+  }
+}
+
 export function getLanguage(item: QueryHistoryInfo): QueryLanguage | undefined {
   switch (item.t) {
     case "local":
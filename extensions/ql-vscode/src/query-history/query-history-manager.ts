@@ -1,10 +1,11 @@
-import { join, dirname } from "path";
+import { basename, join, dirname } from "path";
 import {
   Disposable,
   env,
   EventEmitter,
   ExtensionContext,
   ProviderResult,
+  QuickPickItem,
   Range,
   TreeView,
   Uri,
@@ -21,21 +22,35 @@ import { URLSearchParams } from "url";
 import { DisposableObject } from "../common/disposable-object";
 import { ONE_HOUR_IN_MS, TWO_HOURS_IN_MS } from "../common/time";
 import { assertNever, getErrorMessage } from "../common/helpers-pure";
-import { CompletedLocalQueryInfo, LocalQueryInfo } from "../query-results";
+import {
+  CompletedLocalQueryInfo,
+  interpretResultsSarif,
+  LocalQueryInfo,
+} from "../query-results";
 import {
   getActionsWorkflowRunUrl,
   getQueryId,
   getQueryText,
   QueryHistoryInfo,
+  QueryHistoryTreeItem,
 } from "./query-history-info";
 import { DatabaseManager } from "../databases/local-databases";
-import { registerQueryHistoryScrubber } from "./query-history-scrubber";
+import {
+  registerQueryHistoryScrubber,
+  setQueryDirectoryPinned,
+} from "./query-history-scrubber";
 import {
   QueryStatus,
   variantAnalysisStatusToQueryStatus,
 } from "./query-status";
-import { readQueryHistoryFromFile, writeQueryHistoryToFile } from "./store";
-import { pathExists } from "fs-extra";
+import {
+  readQueryHistoryFromFile,
+  relocateLocalQuery,
+  writeQueryHistoryToFile,
+} from "./store";
+import { move, pathExists, writeFile } from "fs-extra";
+import { homedir } from "os";
+import * as Sarif from "sarif";
 import { HistoryItemLabelProvider } from "./history-item-label-provider";
 import { ResultsView, WebviewReveal } from "../local-queries";
 import { EvalLogTreeBuilder, EvalLogViewer } from "../query-evaluation-logging";
@@ -48,7 +63,7 @@ import { QueryRunner } from "../query-server";
 import { VariantAnalysisManager } from "../variant-analysis/variant-analysis-manager";
 import { VariantAnalysisHistoryItem } from "./variant-analysis-history-item";
 import { getTotalResultCount } from "../variant-analysis/shared/variant-analysis";
-import { HistoryTreeDataProvider } from "./history-tree-data-provider";
+import { GroupBy, HistoryTreeDataProvider } from "./history-tree-data-provider";
 import { QueryHistoryDirs } from "./query-history-dirs";
 import { QueryHistoryCommands } from "../common/commands";
 import { App } from "../common/app";
@@ -63,6 +78,11 @@ import {
   showAndLogWarningMessage,
 } from "../common/logging";
 import { LanguageContextStore } from "../language-context-store";
+import { withProgress } from "../common/vscode/progress";
+import { pluralize } from "../common/word";
+import { createCombinedSarifLog } from "../local-queries/export-results";
+import { exportRunBundle, importRunBundle } from "./run-bundle";
+import { containsPath } from "../common/files";
 
 /**
  * query-history-manager.ts
@@ -104,6 +124,10 @@ enum SortOrder {
   CountDesc = "CountDesc",
 }
 
+interface GroupByQuickPickItem extends QuickPickItem {
+  groupBy: GroupBy;
+}
+
 /**
  * Number of milliseconds two clicks have to arrive apart to be
  * considered a double-click.
@@ -114,7 +138,7 @@ const WORKSPACE_QUERY_HISTORY_FILE = "workspace-query-history.json";
 
 export class QueryHistoryManager extends DisposableObject {
   treeDataProvider: HistoryTreeDataProvider;
-  treeView: TreeView<QueryHistoryInfo>;
+  treeView: TreeView<QueryHistoryTreeItem>;
   lastItemClick: { time: Date; item: QueryHistoryInfo } | undefined;
   compareWithItem: LocalQueryInfo | undefined;
   queryHistoryScrubber: Disposable | undefined;
@@ -147,6 +171,13 @@ export class QueryHistoryManager extends DisposableObject {
       from: CompletedLocalQueryInfo,
       to: CompletedLocalQueryInfo,
     ) => Promise<void>,
+    private readonly doComparePerformanceCallback: (
+      from: CompletedLocalQueryInfo,
+      to: CompletedLocalQueryInfo,
+    ) => Promise<void>,
+    private readonly doShowEvalLogFlameGraphCallback: (
+      item: LocalQueryInfo,
+    ) => Promise<void>,
   ) {
     super();
 
@@ -188,7 +219,11 @@ export class QueryHistoryManager extends DisposableObject {
         if (ev.selection.length === 0) {
           // Don't allow the selection to become empty
           this.updateTreeViewSelectionIfVisible();
-        } else {
+        } else if (
+          ev.selection[0].t !== "query-suite" &&
+          ev.selection[0].t !== "property-group"
+        ) {
+          // Groups can't be the current item
           this.treeDataProvider.setCurrentItem(ev.selection[0]);
         }
         if (ev.selection.some((item) => item.t !== "local")) {
@@ -245,6 +280,9 @@ export class QueryHistoryManager extends DisposableObject {
       "codeQLQueryHistory.sortByName": this.handleSortByName.bind(this),
       "codeQLQueryHistory.sortByDate": this.handleSortByDate.bind(this),
       "codeQLQueryHistory.sortByCount": this.handleSortByCount.bind(this),
+      "codeQLQueryHistory.groupBy": this.handleGroupBy.bind(this),
+      "codeQLQueryHistory.filter": this.handleFilter.bind(this),
+      "codeQLQueryHistory.clearFilter": this.handleClearFilter.bind(this),
 
       "codeQLQueryHistory.openQueryContextMenu": createSingleSelectionCommand(
         this.app.logger,
@@ -260,7 +298,23 @@ export class QueryHistoryManager extends DisposableObject {
         this.handleRenameItem.bind(this),
         "query",
       ),
+      "codeQLQueryHistory.pin": createMultiSelectionCommand(
+        this.handlePin.bind(this),
+      ),
+      "codeQLQueryHistory.unpin": createMultiSelectionCommand(
+        this.handleUnpin.bind(this),
+      ),
+      "codeQLQueryHistory.archivePinnedQueries":
+        this.handleArchivePinnedQueries.bind(this),
+      "codeQLQueryHistory.addTag": createMultiSelectionCommand(
+        this.handleAddTag.bind(this),
+      ),
+      "codeQLQueryHistory.removeTag": createMultiSelectionCommand(
+        this.handleRemoveTag.bind(this),
+      ),
       "codeQLQueryHistory.compareWith": this.handleCompareWith.bind(this),
+      "codeQLQueryHistory.comparePerformanceWith":
+        this.handleComparePerformanceWith.bind(this),
       "codeQLQueryHistory.showEvalLog": createSingleSelectionCommand(
         this.app.logger,
         this.handleShowEvalLog.bind(this),
@@ -276,6 +330,11 @@ export class QueryHistoryManager extends DisposableObject {
         this.handleShowEvalLogViewer.bind(this),
         "query",
       ),
+      "codeQLQueryHistory.showEvalLogFlameGraph": createSingleSelectionCommand(
+        this.app.logger,
+        this.handleShowEvalLogFlameGraph.bind(this),
+        "query",
+      ),
       "codeQLQueryHistory.showQueryLog": createSingleSelectionCommand(
         this.app.logger,
         this.handleShowQueryLog.bind(this),
@@ -334,6 +393,18 @@ export class QueryHistoryManager extends DisposableObject {
         this.handleCopyRepoList.bind(this),
         "query",
       ),
+      "codeQLQueryHistory.exportRunBundle": createSingleSelectionCommand(
+        this.app.logger,
+        this.handleExportRunBundle.bind(this),
+        "query",
+      ),
+      "codeQLQueryHistory.importRunBundle":
+        this.handleImportRunBundle.bind(this),
+      "codeQLQueryHistory.exportQuerySuiteSarif": createSingleSelectionCommand(
+        this.app.logger,
+        this.handleExportQuerySuiteSarif.bind(this),
+        "query suite",
+      ),
 
       "codeQL.exportSelectedVariantAnalysisResults":
         this.exportSelectedVariantAnalysisResults.bind(this),
@@ -517,17 +588,53 @@ export class QueryHistoryManager extends DisposableObject {
     );
   }
 
-  async handleRemoveHistoryItem(items: QueryHistoryInfo[]) {
+  async handleRemoveHistoryItem(items: QueryHistoryTreeItem[]) {
+    // Removing a query suite group removes all queries that were run as part of it.
+    // Groups of queries with the same property can't be removed.
+    const historyItems = new Set(
+      items.flatMap((item) =>
+        item.t === "query-suite"
+          ? this.treeDataProvider.getQuerySuiteMembers(item)
+          : item.t === "property-group"
+          ? []
+          : [item],
+      ),
+    );
+
+    const pinnedCount = [...historyItems].filter((item) => item.pinned).length;
+    if (pinnedCount > 0) {
+      const response = await showBinaryChoiceDialog(
+        `You are about to remove ${pluralize(
+          pinnedCount,
+          "pinned query",
+          "pinned queries",
+        )} from the query history. Are you sure?`,
+      );
+      if (!response) {
+        return;
+      }
+    }
+
     await Promise.all(
-      items.map(async (item) => {
+      [...historyItems].map(async (item) => {
         if (item.t === "local") {
           // Removing in progress local queries is not supported. They must be cancelled first.
           if (item.status !== QueryStatus.InProgress) {
             this.treeDataProvider.remove(item);
 
             // User has explicitly asked for this query to be removed.
-            // We need to delete it from disk as well.
-            await item.completedQuery?.query.deleteQuery();
+            // We need to delete it from disk as well, unless its results have been
+            // archived to a directory of the user.
+            const queryDirectory = this.getQueryDirectory(item);
+            if (
+              queryDirectory !== undefined &&
+              containsPath(
+                this.queryHistoryDirs.localQueriesDirPath,
+                queryDirectory,
+              )
+            ) {
+              await item.completedQuery?.query.deleteQuery();
+            }
           }
         } else if (item.t === "variant-analysis") {
           await this.removeVariantAnalysis(item);
@@ -540,7 +647,9 @@ export class QueryHistoryManager extends DisposableObject {
     await this.writeQueryHistory();
     const current = this.treeDataProvider.getCurrent();
     if (current !== undefined) {
-      await this.treeView.reveal(current, { select: true });
+      if (this.treeDataProvider.isVisible(current)) {
+        await this.treeView.reveal(current, { select: true });
+      }
       await this.openQueryResults(current);
     }
   }
@@ -613,6 +722,187 @@ export class QueryHistoryManager extends DisposableObject {
     }
   }
 
+  async handleGroupBy(): Promise<void> {
+    const items: GroupByQuickPickItem[] = [
+      { label: "None", groupBy: GroupBy.None },
+      { label: "Database", groupBy: GroupBy.Database },
+      { label: "Query File", groupBy: GroupBy.QueryFile },
+      { label: "Language", groupBy: GroupBy.Language },
+      { label: "Tag", groupBy: GroupBy.Tag },
+    ].map((item) => ({
+      ...item,
+      description:
+        item.groupBy === this.treeDataProvider.groupBy ? "current" : undefined,
+    }));
+    const selected = await window.showQuickPick(items, {
+      placeHolder: "Select how to group the query history",
+    });
+    if (selected !== undefined) {
+      this.treeDataProvider.groupBy = selected.groupBy;
+    }
+  }
+
+  async handleFilter(): Promise<void> {
+    const response = await window.showInputBox({
+      value: this.treeDataProvider.filterText,
+      title: "Filter query history",
+      prompt:
+        "Only show the queries whose label, query name or database name contains this text.",
+    });
+    // undefined response means the user cancelled the dialog; don't change anything
+    if (response !== undefined) {
+      await this.setFilterText(response.trim());
+    }
+  }
+
+  async handleClearFilter(): Promise<void> {
+    await this.setFilterText("");
+  }
+
+  private async setFilterText(filterText: string): Promise<void> {
+    this.treeDataProvider.filterText = filterText;
+    this.treeView.description =
+      filterText === "" ? undefined : `Filter: ${filterText}`;
+    await this.app.commands.execute(
+      "setContext",
+      "codeQL.queryHistoryFiltered",
+      filterText !== "",
+    );
+  }
+
+  async handlePin(items: QueryHistoryInfo[]): Promise<void> {
+    await this.setPinned(items, true);
+  }
+
+  async handleUnpin(items: QueryHistoryInfo[]): Promise<void> {
+    await this.setPinned(items, false);
+  }
+
+  private async setPinned(
+    items: QueryHistoryInfo[],
+    pinned: boolean,
+  ): Promise<void> {
+    for (const item of items) {
+      // The scrubber only looks at query directories, so the directory is marked
+      // as pinned as well as the history item.
+      const queryDirectory = this.getQueryDirectory(item);
+      if (queryDirectory !== undefined && (await pathExists(queryDirectory))) {
+        await setQueryDirectoryPinned(queryDirectory, pinned);
+      }
+      item.pinned = pinned ? true : undefined;
+    }
+    await this.refreshTreeView();
+  }
+
+  /**
+   * Moves the directories of all pinned local queries to a directory chosen by the user,
+   * so that they are kept even if the storage of the extension is removed.
+   */
+  async handleArchivePinnedQueries(): Promise<void> {
+    const pinnedQueries = this.treeDataProvider.allHistory.filter(
+      (item): item is LocalQueryInfo =>
+        item.t === "local" &&
+        item.pinned === true &&
+        item.status !== QueryStatus.InProgress,
+    );
+    if (pinnedQueries.length === 0) {
+      void showAndLogInformationMessage(
+        this.app.logger,
+        "There are no pinned local queries to archive.",
+      );
+      return;
+    }
+
+    const archiveUris = await window.showOpenDialog({
+      title: "Select the directory to archive the pinned queries to",
+      openLabel: "Archive",
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+    });
+    if (archiveUris === undefined || archiveUris.length === 0) {
+      return;
+    }
+    const archiveDir = archiveUris[0].fsPath;
+
+    let archivedCount = 0;
+    for (const item of pinnedQueries) {
+      const queryDirectory = this.getQueryDirectory(item);
+      if (
+        queryDirectory === undefined ||
+        dirname(queryDirectory) === archiveDir ||
+        !(await pathExists(queryDirectory))
+      ) {
+        continue;
+      }
+
+      const archivedDirectory = join(archiveDir, basename(queryDirectory));
+      await move(queryDirectory, archivedDirectory);
+      this.treeDataProvider.replace(
+        item,
+        relocateLocalQuery(item, queryDirectory, archivedDirectory),
+      );
+      archivedCount++;
+    }
+
+    await this.refreshTreeView();
+    void showAndLogInformationMessage(
+      this.app.logger,
+      `Archived ${pluralize(
+        archivedCount,
+        "pinned query",
+        "pinned queries",
+      )} to ${archiveDir}.`,
+    );
+  }
+
+  async handleAddTag(items: QueryHistoryInfo[]): Promise<void> {
+    const response = await window.showInputBox({
+      title: "Add tag",
+      prompt: "Add a tag to the selected queries.",
+      validateInput: (value) =>
+        value.trim() === "" ? "The tag must not be empty." : undefined,
+    });
+    if (response === undefined) {
+      return;
+    }
+
+    const tag = response.trim();
+    for (const item of items) {
+      if (!item.tags?.includes(tag)) {
+        item.tags = [...(item.tags ?? []), tag];
+      }
+    }
+    await this.refreshTreeView();
+  }
+
+  async handleRemoveTag(items: QueryHistoryInfo[]): Promise<void> {
+    const tags = [...new Set(items.flatMap((item) => item.tags ?? []))].sort();
+    if (tags.length === 0) {
+      void showAndLogInformationMessage(
+        this.app.logger,
+        "The selected queries have no tags.",
+      );
+      return;
+    }
+
+    const tag = await window.showQuickPick(tags, {
+      placeHolder: "Select the tag to remove from the selected queries",
+    });
+    if (tag === undefined) {
+      return;
+    }
+
+    for (const item of items) {
+      const remainingTags = item.tags?.filter((t) => t !== tag);
+      item.tags =
+        remainingTags !== undefined && remainingTags.length > 0
+          ? remainingTags
+          : undefined;
+    }
+    await this.refreshTreeView();
+  }
+
   async handleRenameItem(item: QueryHistoryInfo): Promise<void> {
     const response = await window.showInputBox({
       placeHolder: `(use default: ${this.queryHistoryConfigListener.format})`,
@@ -639,6 +929,37 @@ export class QueryHistoryManager extends DisposableObject {
     singleItem: QueryHistoryInfo,
     multiSelect: QueryHistoryInfo[] | undefined,
   ) {
+    const queries = await this.findQueriesToCompare(
+      singleItem,
+      multiSelect,
+      "compare queries",
+    );
+    if (queries !== undefined) {
+      await this.doCompareCallback(queries.from, queries.to);
+    }
+  }
+
+  async handleComparePerformanceWith(
+    singleItem: QueryHistoryInfo,
+    multiSelect: QueryHistoryInfo[] | undefined,
+  ) {
+    const queries = await this.findQueriesToCompare(
+      singleItem,
+      multiSelect,
+      "compare performance",
+    );
+    if (queries !== undefined) {
+      await this.doComparePerformanceCallback(queries.from, queries.to);
+    }
+  }
+
+  private async findQueriesToCompare(
+    singleItem: QueryHistoryInfo,
+    multiSelect: QueryHistoryInfo[] | undefined,
+    action: string,
+  ): Promise<
+    { from: CompletedLocalQueryInfo; to: CompletedLocalQueryInfo } | undefined
+  > {
     multiSelect ||= [singleItem];
 
     if (
@@ -658,13 +979,15 @@ export class QueryHistoryManager extends DisposableObject {
     } catch (e) {
       void showAndLogErrorMessage(
         this.app.logger,
-        `Failed to compare queries: ${getErrorMessage(e)}`,
+        `Failed to ${action}: ${getErrorMessage(e)}`,
       );
     }
 
-    if (toItem !== undefined) {
-      await this.doCompareCallback(fromItem, toItem);
+    if (toItem === undefined) {
+      return undefined;
     }
+
+    return { from: fromItem, to: toItem };
   }
 
   async handleItemClicked(item: QueryHistoryInfo) {
@@ -706,26 +1029,28 @@ export class QueryHistoryManager extends DisposableObject {
     }
   }
 
-  async handleOpenQueryDirectory(item: QueryHistoryInfo) {
-    let externalFilePath: string | undefined;
-    if (item.t === "local") {
-      const querySaveDir =
-        item.initialInfo.outputDir?.querySaveDir ??
-        item.completedQuery?.query.querySaveDir;
-
-      if (querySaveDir) {
-        externalFilePath = join(querySaveDir, "timestamp");
-      }
-    } else if (item.t === "variant-analysis") {
-      externalFilePath = join(
-        this.variantAnalysisManager.getVariantAnalysisStorageLocation(
+  private getQueryDirectory(item: QueryHistoryInfo): string | undefined {
+    switch (item.t) {
+      case "local":
+        return (
+          item.initialInfo.outputDir?.querySaveDir ??
+          item.completedQuery?.query.querySaveDir
+        );
+      case "variant-analysis":
+        return this.variantAnalysisManager.getVariantAnalysisStorageLocation(
           item.variantAnalysis.id,
-        ),
-        "timestamp",
-      );
-    } else {
-      assertNever(item);
+        );
+      default:
+        assertNever(item);
     }
+  }
+
+  async handleOpenQueryDirectory(item: QueryHistoryInfo) {
+    const queryDirectory = this.getQueryDirectory(item);
+    let externalFilePath =
+      queryDirectory === undefined
+        ? undefined
+        : join(queryDirectory, "timestamp");
 
     if (externalFilePath) {
       if (!(await pathExists(externalFilePath))) {
@@ -840,6 +1165,14 @@ export class QueryHistoryManager extends DisposableObject {
     }
   }
 
+  async handleShowEvalLogFlameGraph(item: QueryHistoryInfo) {
+    if (item.t !== "local") {
+      return;
+    }
+
+    await this.doShowEvalLogFlameGraphCallback(item);
+  }
+
   async handleCancel(items: QueryHistoryInfo[]) {
     const results = items.map(async (item) => {
       if (item.status === QueryStatus.InProgress) {
@@ -969,6 +1302,194 @@ export class QueryHistoryManager extends DisposableObject {
     await this.variantAnalysisManager.exportResults(item.variantAnalysis.id);
   }
 
+  async handleExportQuerySuiteSarif(item: QueryHistoryTreeItem): Promise<void> {
+    if (item.t !== "query-suite") {
+      return;
+    }
+
+    const queries = this.treeDataProvider
+      .getQuerySuiteMembers(item)
+      .filter(this.isSuccessfulCompletedLocalQueryInfo)
+      .filter((query) =>
+        query.completedQuery.query.canHaveInterpretedResults(),
+      );
+    if (queries.length === 0) {
+      void showAndLogInformationMessage(
+        this.app.logger,
+        `None of the completed queries in ${item.querySuite.name} have interpreted results.`,
+      );
+      return;
+    }
+
+    const destination = await window.showSaveDialog({
+      title: "Export Query Suite Alerts",
+      defaultUri: Uri.file(
+        join(
+          workspace.workspaceFolders?.[0]?.uri.fsPath ?? homedir(),
+          `${item.querySuite.name}.sarif`,
+        ),
+      ),
+      filters: { SARIF: ["sarif"] },
+    });
+    if (destination === undefined) {
+      return;
+    }
+
+    const log = await withProgress(
+      async (progress) => {
+        const logs: Sarif.Log[] = [];
+        for (const [index, query] of queries.entries()) {
+          progress({
+            step: index,
+            maxStep: queries.length,
+            message: `Interpreting results of ${query.getQueryName()}`,
+          });
+          logs.push(await this.interpretQueryResultsSarif(query));
+        }
+        return createCombinedSarifLog(logs);
+      },
+      {
+        title: "Exporting query suite alerts",
+      },
+    );
+    await writeFile(
+      destination.fsPath,
+      `${JSON.stringify(log, null, 2)}\n`,
+      "utf8",
+    );
+
+    const alertCount = log.runs.reduce(
+      (count, run) => count + (run.results?.length ?? 0),
+      0,
+    );
+    if (
+      await showInformationMessageWithAction(
+        `Exported ${pluralize(alertCount, "alert", "alerts")} from ${pluralize(
+          log.runs.length,
+          "query",
+          "queries",
+        )} to ${destination.fsPath}.`,
+        "Open",
+      )
+    ) {
+      await window.showTextDocument(destination);
+    }
+  }
+
+  async handleExportRunBundle(item: QueryHistoryInfo): Promise<void> {
+    if (!this.isSuccessfulCompletedLocalQueryInfo(item)) {
+      return;
+    }
+
+    const destination = await window.showSaveDialog({
+      title: "Export Run Bundle",
+      defaultUri: Uri.file(
+        join(
+          workspace.workspaceFolders?.[0]?.uri.fsPath ?? homedir(),
+          `${item.initialInfo.id}.zip`,
+        ),
+      ),
+      filters: { "Run bundle": ["zip"] },
+    });
+    if (destination === undefined) {
+      return;
+    }
+
+    await withProgress(
+      async (progress) => {
+        // Include the interpreted results in the bundle, so that they can be shown
+        // without the database that the query was run against.
+        const { query } = item.completedQuery;
+        if (
+          query.quickEvalPosition === undefined &&
+          query.metadata?.kind !== "graph" &&
+          query.canHaveInterpretedResults() &&
+          !(await query.hasInterpretedResults())
+        ) {
+          progress({
+            step: 1,
+            maxStep: 2,
+            message: "Interpreting results",
+          });
+          await this.interpretQueryResultsSarif(item);
+        }
+
+        progress({
+          step: 2,
+          maxStep: 2,
+          message: "Creating run bundle",
+        });
+        await exportRunBundle(item, destination.fsPath);
+      },
+      {
+        title: "Exporting run bundle",
+      },
+    );
+
+    void showAndLogInformationMessage(
+      this.app.logger,
+      `Exported ${this.labelProvider.getLabel(item)} to ${destination.fsPath}.`,
+    );
+  }
+
+  async handleImportRunBundle(): Promise<void> {
+    const bundleUris = await window.showOpenDialog({
+      title: "Import Run Bundle",
+      openLabel: "Import",
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      filters: { "Run bundle": ["zip"] },
+    });
+    if (bundleUris === undefined || bundleUris.length === 0) {
+      return;
+    }
+
+    const item = await withProgress(
+      () =>
+        importRunBundle(
+          bundleUris[0].fsPath,
+          this.queryHistoryDirs.localQueriesDirPath,
+        ),
+      {
+        title: "Importing run bundle",
+      },
+    );
+
+    this.addQuery(item);
+    await this.refreshTreeView();
+    await this.openQueryResults(item);
+  }
+
+  private async interpretQueryResultsSarif(
+    query: CompletedLocalQueryInfo,
+  ): Promise<Sarif.Log> {
+    const { metadata, resultsPaths } = query.completedQuery.query;
+
+    // The database may have been removed since the query was run. The results can
+    // still be interpreted, but without the contents of the source archive.
+    const database = this.dbm.findDatabaseItem(
+      Uri.parse(query.initialInfo.databaseInfo.databaseUri),
+    );
+    const sourceInfo =
+      database?.sourceArchive === undefined
+        ? undefined
+        : {
+            sourceArchive: database.sourceArchive.fsPath,
+            sourceLocationPrefix: await database.getSourceLocationPrefix(
+              this.qs.cliServer,
+            ),
+          };
+
+    const sarif = await interpretResultsSarif(
+      this.qs.cliServer,
+      metadata,
+      resultsPaths,
+      sourceInfo,
+    );
+    return { version: sarif.version, $schema: sarif.$schema, runs: sarif.runs };
+  }
+
   /**
    * Exports the results of the currently-selected variant analysis.
    */
@@ -1001,7 +1522,8 @@ export class QueryHistoryManager extends DisposableObject {
   private updateTreeViewSelectionIfVisible() {
     if (this.treeView.visible) {
       const current = this.treeDataProvider.getCurrent();
-      if (current !== undefined) {
+      // The current item can't be revealed if it is hidden by the filter
+      if (current !== undefined && this.treeDataProvider.isVisible(current)) {
         // We must fire the onDidChangeTreeData event to ensure the current element can be selected
         // using `reveal` if the tree view was not visible when the current element was added.
         this.treeDataProvider.refresh();
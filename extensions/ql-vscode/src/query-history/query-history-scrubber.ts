@@ -1,4 +1,4 @@
-import { pathExists, remove, readFile } from "fs-extra";
+import { pathExists, remove, readFile, writeFile } from "fs-extra";
 import { EOL } from "os";
 import { join } from "path";
 import { Disposable, ExtensionContext } from "vscode";
@@ -10,6 +10,29 @@ import { getErrorMessage } from "../common/helpers-pure";
 
 const LAST_SCRUB_TIME_KEY = "lastScrubTime";
 
+/**
+ * The name of the file that marks a query directory as pinned. The marker is stored in the
+ * directory itself, rather than in the query history, because the scrubber cleans the query
+ * directories of all workspaces.
+ */
+const PINNED_FILE_NAME = "pinned";
+
+/**
+ * Marks a query directory as pinned, so that it is never deleted by the scrubber, or
+ * removes the mark.
+ */
+export async function setQueryDirectoryPinned(
+  dir: string,
+  pinned: boolean,
+): Promise<void> {
+  const pinnedPath = join(dir, PINNED_FILE_NAME);
+  if (pinned) {
+    await writeFile(pinnedPath, "", "utf8");
+  } else {
+    await remove(pinnedPath);
+  }
+}
+
 /**
  * Registers an interval timer that will periodically check for queries old enought
  * to be deleted.
@@ -149,6 +172,11 @@ async function shouldScrubDirectory(
   now: number,
   maxQueryTime: number,
 ): Promise<boolean> {
+  if (await pathExists(join(dir, PINNED_FILE_NAME))) {
+    void extLogger.log(`  ${dir} is pinned. Keeping.`);
+    return false;
+  }
+
   const timestamp = await getTimestamp(join(dir, "timestamp"));
   if (timestamp === undefined || Number.isNaN(timestamp)) {
     void extLogger.log(`  ${dir} timestamp is missing or invalid. Deleting.`);
@@ -0,0 +1,148 @@
+import { basename, join, relative, sep } from "path";
+import { containsPath } from "../common/files";
+import { QueryHistoryLocalQueryDto } from "./store/query-history-local-query-dto";
+
+/**
+ * The directory of a run bundle that contains the output directory of the query.
+ */
+export const RUN_BUNDLE_QUERY_DIRECTORY_NAME = "query";
+
+function mapPaths(
+  item: QueryHistoryLocalQueryDto,
+  mapPath: (path: string) => string,
+): QueryHistoryLocalQueryDto {
+  const mapOptionalPath = (path: string | undefined) =>
+    path === undefined ? undefined : mapPath(path);
+
+  const { initialInfo, completedQuery } = item;
+  return {
+    ...item,
+    evalLogLocation: mapOptionalPath(item.evalLogLocation),
+    evalLogSummaryLocation: mapOptionalPath(item.evalLogSummaryLocation),
+    jsonEvalLogSummaryLocation: mapOptionalPath(
+      item.jsonEvalLogSummaryLocation,
+    ),
+    evalLogSummarySymbolsLocation: mapOptionalPath(
+      item.evalLogSummarySymbolsLocation,
+    ),
+    initialInfo: {
+      ...initialInfo,
+      queryPath: mapPath(initialInfo.queryPath),
+      quickEvalPosition: initialInfo.quickEvalPosition && {
+        ...initialInfo.quickEvalPosition,
+        fileName: mapPath(initialInfo.quickEvalPosition.fileName),
+      },
+      databaseInfo: {
+        ...initialInfo.databaseInfo,
+        databaseUri: mapPath(initialInfo.databaseInfo.databaseUri),
+      },
+      outputDir: initialInfo.outputDir && {
+        querySaveDir: mapPath(initialInfo.outputDir.querySaveDir),
+      },
+      querySuite: initialInfo.querySuite && {
+        ...initialInfo.querySuite,
+        suitePath: mapPath(initialInfo.querySuite.suitePath),
+      },
+    },
+    completedQuery: completedQuery && {
+      ...completedQuery,
+      logFileLocation: mapOptionalPath(completedQuery.logFileLocation),
+      result: {
+        ...completedQuery.result,
+        logFileLocation: mapOptionalPath(completedQuery.result.logFileLocation),
+      },
+      sortedResultsInfo: Object.fromEntries(
+        Object.entries(completedQuery.sortedResultsInfo).map(
+          ([resultSetName, info]) => [
+            resultSetName,
+            { ...info, resultsPath: mapPath(info.resultsPath) },
+          ],
+        ),
+      ),
+      query: {
+        ...completedQuery.query,
+        querySaveDir: mapPath(completedQuery.query.querySaveDir),
+        dbItemPath: mapPath(completedQuery.query.dbItemPath),
+        quickEvalPosition: completedQuery.query.quickEvalPosition && {
+          ...completedQuery.query.quickEvalPosition,
+          fileName: mapPath(completedQuery.query.quickEvalPosition.fileName),
+        },
+        resultsPaths: {
+          resultsPath: mapPath(completedQuery.query.resultsPaths.resultsPath),
+          interpretedResultsPath: mapPath(
+            completedQuery.query.resultsPaths.interpretedResultsPath,
+          ),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Creates the query history item of a run bundle. Paths in the output directory of the
+ * query are made relative to the root of the bundle, using `/` as separator, so that the
+ * bundle can be imported on any platform. Other paths, such as those of the query and the
+ * database, are reduced to their base name so that the bundle doesn't contain the
+ * directories of the user that exported it.
+ */
+export function toRunBundleItem(
+  item: QueryHistoryLocalQueryDto,
+  querySaveDir: string,
+): QueryHistoryLocalQueryDto {
+  return mapPaths(item, (path) =>
+    containsPath(querySaveDir, path)
+      ? [
+          RUN_BUNDLE_QUERY_DIRECTORY_NAME,
+          ...relative(querySaveDir, path).split(sep),
+        ]
+          .filter((segment) => segment !== "")
+          .join("/")
+      : basename(path),
+  );
+}
+
+/**
+ * Restores the paths of the query history item of a run bundle that has been imported
+ * into the given output directory. The output directory of the item is always set to
+ * the given directory, since the query history deletes it when the item is removed.
+ *
+ * @throws if a path of the item points outside of the output directory.
+ */
+export function fromRunBundleItem(
+  item: QueryHistoryLocalQueryDto,
+  querySaveDir: string,
+): QueryHistoryLocalQueryDto {
+  const restoredItem = mapPaths(item, (path) => {
+    // Accept both separators, in case the bundle was created by hand on Windows
+    const pathSegments = path.split(/[\\/]/);
+    if (pathSegments.includes("..")) {
+      throw new Error(`Invalid path in query run bundle: ${path}`);
+    }
+    const [directory, ...segments] = pathSegments;
+    if (directory !== RUN_BUNDLE_QUERY_DIRECTORY_NAME) {
+      return path;
+    }
+
+    const restoredPath = join(querySaveDir, ...segments);
+    if (!containsPath(querySaveDir, restoredPath)) {
+      throw new Error(`Invalid path in query run bundle: ${path}`);
+    }
+    return restoredPath;
+  });
+
+  const { initialInfo, completedQuery } = restoredItem;
+  return {
+    ...restoredItem,
+    initialInfo: {
+      ...initialInfo,
+      outputDir: { querySaveDir },
+    },
+    completedQuery: completedQuery && {
+      ...completedQuery,
+      query: {
+        ...completedQuery.query,
+        querySaveDir,
+      },
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { copy, move, pathExists, readJson, writeJson } from "fs-extra";
+import { nanoid } from "nanoid";
+import { basename, join } from "path";
+import { dir } from "tmp-promise";
+import { zip } from "zip-a-folder";
+import { unzipFile } from "../common/zip";
+import { LocalQueryInfo } from "../query-results";
+import { createTimestampFile } from "../run-queries-shared";
+import { mapLocalQueryInfoToDto } from "./store/query-history-local-query-domain-mapper";
+import { QueryHistoryLocalQueryDto } from "./store/query-history-local-query-dto";
+import { mapLocalQueryItemToDomainModel } from "./store/query-history-local-query-dto-mapper";
+import {
+  fromRunBundleItem,
+  RUN_BUNDLE_QUERY_DIRECTORY_NAME,
+  toRunBundleItem,
+} from "./run-bundle-paths";
+
+const RUN_BUNDLE_VERSION = 1;
+const RUN_BUNDLE_METADATA_FILE_NAME = "query-history-item.json";
+
+/**
+ * The metadata of a run bundle. Like the query history store, this uses the DTO of
+ * the query history item, so changes to the DTO must stay backwards compatible. The
+ * paths of the item are relative to the root of the bundle.
+ */
+interface RunBundleMetadata {
+  version: number;
+  item: QueryHistoryLocalQueryDto;
+}
+
+/**
+ * Exports a completed local query to a single zip file, which contains the output
+ * directory of the query (its results, SARIF and evaluator logs) and its query
+ * history item.
+ *
+ * @param query the query to export.
+ * @param bundlePath the path of the zip file to create.
+ */
+export async function exportRunBundle(
+  query: LocalQueryInfo,
+  bundlePath: string,
+): Promise<void> {
+  if (query.completedQuery === undefined) {
+    throw new Error("Only completed queries can be exported.");
+  }
+
+  const stagingDir = await dir({ unsafeCleanup: true });
+  try {
+    await copy(
+      query.completedQuery.query.querySaveDir,
+      join(stagingDir.path, RUN_BUNDLE_QUERY_DIRECTORY_NAME),
+    );
+    const metadata: RunBundleMetadata = {
+      version: RUN_BUNDLE_VERSION,
+      item: toRunBundleItem(
+        mapLocalQueryInfoToDto(query),
+        query.completedQuery.query.querySaveDir,
+      ),
+    };
+    await writeJson(
+      join(stagingDir.path, RUN_BUNDLE_METADATA_FILE_NAME),
+      metadata,
+      { spaces: 2 },
+    );
+    await zip(stagingDir.path, bundlePath);
+  } finally {
+    await stagingDir.cleanup();
+  }
+}
+
+/**
+ * Imports a run bundle created by `exportRunBundle` into a new directory of the
+ * query storage directory.
+ *
+ * @param bundlePath the path of the zip file to import.
+ * @param queryStorageDir the directory that contains the output directories of
+ * local queries.
+ * @returns the query history item of the imported query.
+ */
+export async function importRunBundle(
+  bundlePath: string,
+  queryStorageDir: string,
+): Promise<LocalQueryInfo> {
+  const stagingDir = await dir({ unsafeCleanup: true });
+  try {
+    await unzipFile(bundlePath, stagingDir.path);
+
+    const metadataPath = join(stagingDir.path, RUN_BUNDLE_METADATA_FILE_NAME);
+    if (!(await pathExists(metadataPath))) {
+      throw new Error(`${bundlePath} is not a query run bundle.`);
+    }
+    const metadata: RunBundleMetadata = await readJson(metadataPath, {
+      encoding: "utf8",
+    });
+    if (metadata.version !== RUN_BUNDLE_VERSION) {
+      throw new Error(
+        `Unsupported query run bundle format: v${metadata.version}.`,
+      );
+    }
+    if (metadata.item.completedQuery === undefined) {
+      throw new Error(`${bundlePath} does not contain a completed query.`);
+    }
+
+    // The bundle may be imported more than once, or into the workspace that it was
+    // exported from, so the imported query gets a new ID and output directory. It
+    // is no longer part of the query suite run that it may have belonged to.
+    const id = `${basename(metadata.item.initialInfo.queryPath)}-${nanoid()}`;
+    const querySaveDir = join(queryStorageDir, id);
+    const item = fromRunBundleItem(metadata.item, querySaveDir);
+    await move(
+      join(stagingDir.path, RUN_BUNDLE_QUERY_DIRECTORY_NAME),
+      querySaveDir,
+    );
+    // Restart the clock of the query history scrubber.
+    await createTimestampFile(querySaveDir);
+
+    return mapLocalQueryItemToDomainModel({
+      ...item,
+      initialInfo: {
+        ...item.initialInfo,
+        id,
+        querySuite: undefined,
+      },
+    });
+  } finally {
+    await stagingDir.cleanup();
+  }
+}
@@ -94,6 +94,8 @@ function mapInitialQueryInfoToDto(
 ): InitialQueryInfoDto {
   return {
     userSpecifiedLabel: localQueryInitialInfo.userSpecifiedLabel,
+    tags: localQueryInitialInfo.tags,
+    pinned: localQueryInitialInfo.pinned,
     queryText: localQueryInitialInfo.queryText,
     isQuickQuery: localQueryInitialInfo.isQuickQuery,
     isQuickEval: localQueryInitialInfo.isQuickEval,
@@ -114,6 +116,15 @@ function mapInitialQueryInfoToDto(
           querySaveDir: localQueryInitialInfo.outputDir.querySaveDir,
         }
       : undefined,
+    querySuite: localQueryInitialInfo.querySuite
+      ? {
+          id: localQueryInitialInfo.querySuite.id,
+          name: localQueryInitialInfo.querySuite.name,
+          suitePath: localQueryInitialInfo.querySuite.suitePath,
+        }
+      : undefined,
+    externalPredicateValues: localQueryInitialInfo.externalPredicateValues,
+    extensionPacks: localQueryInitialInfo.extensionPacks,
   };
 }
 
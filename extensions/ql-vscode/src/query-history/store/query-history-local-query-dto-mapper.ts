@@ -85,6 +85,8 @@ function mapInitialQueryInfoToDomainModel(
 
   return {
     userSpecifiedLabel: initialInfo.userSpecifiedLabel,
+    tags: initialInfo.tags,
+    pinned: initialInfo.pinned,
     queryText: initialInfo.queryText,
     isQuickQuery: initialInfo.isQuickQuery,
     isQuickEval: initialInfo.isQuickEval,
@@ -101,6 +103,15 @@ function mapInitialQueryInfoToDomainModel(
     start: new Date(initialInfo.start),
     id: initialInfo.id,
     outputDir: querySaveDir ? new QueryOutputDir(querySaveDir) : undefined,
+    querySuite: initialInfo.querySuite
+      ? {
+          id: initialInfo.querySuite.id,
+          name: initialInfo.querySuite.name,
+          suitePath: initialInfo.querySuite.suitePath,
+        }
+      : undefined,
+    externalPredicateValues: initialInfo.externalPredicateValues,
+    extensionPacks: initialInfo.extensionPacks,
   };
 }
 
@@ -16,6 +16,8 @@ export interface QueryHistoryLocalQueryDto {
 
 export interface InitialQueryInfoDto {
   userSpecifiedLabel?: string;
+  tags?: string[]; // Undefined before version 3
+  pinned?: boolean; // Undefined before version 3
   queryText: string;
   isQuickQuery: boolean;
   isQuickEval: boolean;
@@ -25,6 +27,15 @@ export interface InitialQueryInfoDto {
   start: Date;
   id: string;
   outputDir?: QueryOutputDirDto; // Undefined for backwards compatibility
+  querySuite?: QuerySuiteInfoDto;
+  externalPredicateValues?: Record<string, string[][]>;
+  extensionPacks?: string[];
+}
+
+interface QuerySuiteInfoDto {
+  id: string;
+  name: string;
+  suitePath: string;
 }
 
 interface QueryOutputDirDto {
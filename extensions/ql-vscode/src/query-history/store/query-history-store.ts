@@ -1,5 +1,5 @@
 import { pathExists, remove, mkdir, writeFile, readJson } from "fs-extra";
-import { dirname } from "path";
+import { dirname, sep } from "path";
 
 import {
   asError,
@@ -8,15 +8,18 @@ import {
   getErrorStack,
 } from "../../common/helpers-pure";
 import { QueryHistoryInfo } from "../query-history-info";
+import { LocalQueryInfo } from "../../query-results";
 import { redactableError } from "../../common/errors";
 import { QueryHistoryDto, QueryHistoryItemDto } from "./query-history-dto";
 import { mapQueryHistoryToDomainModel } from "./query-history-dto-mapper";
 import { mapQueryHistoryToDto } from "./query-history-domain-mapper";
+import { mapLocalQueryInfoToDto } from "./query-history-local-query-domain-mapper";
+import { mapLocalQueryItemToDomainModel } from "./query-history-local-query-dto-mapper";
 import { extLogger } from "../../common/logging/vscode";
 import { showAndLogExceptionWithTelemetry } from "../../common/logging";
 import { telemetryListener } from "../../common/vscode/telemetry";
 
-const ALLOWED_QUERY_HISTORY_VERSIONS = [1, 2];
+const ALLOWED_QUERY_HISTORY_VERSIONS = [1, 2, 3];
 
 export async function readQueryHistoryFromFile(
   fsPath: string,
@@ -112,7 +115,9 @@ export async function writeQueryHistoryToFile(
         // version 2:
         // - adds the `variant-analysis` type
         // - ensures a `successful` property exists on completedQuery
-        version: 2,
+        // version 3:
+        // - adds `tags` and `pinned` to local queries and variant analyses
+        version: 3,
         queries: queryHistoryData,
       },
       null,
@@ -125,3 +130,45 @@ export async function writeQueryHistoryToFile(
     );
   }
 }
+
+/**
+ * Creates a copy of a local query whose files have been moved from one directory to
+ * another, such as when the output directory of the query is moved to an archive.
+ *
+ * @param query the query whose files have been moved.
+ * @param fromDir the directory that the files were moved from.
+ * @param toDir the directory that the files were moved to.
+ */
+export function relocateLocalQuery(
+  query: LocalQueryInfo,
+  fromDir: string,
+  toDir: string,
+): LocalQueryInfo {
+  return mapLocalQueryItemToDomainModel(
+    replacePathPrefix(mapLocalQueryInfoToDto(query), fromDir, toDir),
+  );
+}
+
+function replacePathPrefix<T>(value: T, fromDir: string, toDir: string): T {
+  if (typeof value === "string") {
+    return (
+      value === fromDir || value.startsWith(`${fromDir}${sep}`)
+        ? `${toDir}${value.slice(fromDir.length)}`
+        : value
+    ) as T;
+  } else if (Array.isArray(value)) {
+    return value.map((v) => replacePathPrefix(v, fromDir, toDir)) as T;
+  } else if (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        replacePathPrefix(v, fromDir, toDir),
+      ]),
+    ) as T;
+  }
+  return value;
+}
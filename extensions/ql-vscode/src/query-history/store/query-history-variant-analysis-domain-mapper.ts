@@ -36,6 +36,8 @@ export function mapQueryHistoryVariantAnalysisToDto(
     completed: item.completed,
     variantAnalysis: mapVariantAnalysisDtoToDto(item.variantAnalysis),
     userSpecifiedLabel: item.userSpecifiedLabel,
+    tags: item.tags,
+    pinned: item.pinned,
   };
 }
 
@@ -36,6 +36,8 @@ export function mapQueryHistoryVariantAnalysisToDomainModel(
     completed: item.completed,
     variantAnalysis: mapVariantAnalysisToDomainModel(item.variantAnalysis),
     userSpecifiedLabel: item.userSpecifiedLabel,
+    tags: item.tags,
+    pinned: item.pinned,
   };
 }
 
@@ -11,6 +11,8 @@ export interface QueryHistoryVariantAnalysisDto {
   completed: boolean;
   variantAnalysis: VariantAnalysisDto;
   userSpecifiedLabel?: string;
+  tags?: string[]; // Undefined before version 3
+  pinned?: boolean; // Undefined before version 3
 }
 
 export interface VariantAnalysisDto {
@@ -12,4 +12,6 @@ export interface VariantAnalysisHistoryItem {
   completed: boolean;
   variantAnalysis: VariantAnalysis;
   userSpecifiedLabel?: string;
+  tags?: string[];
+  pinned?: boolean;
 }
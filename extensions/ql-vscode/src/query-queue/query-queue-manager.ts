@@ -0,0 +1,313 @@
+import { basename } from "path";
+import { CancellationTokenSource, QuickPickItem, Uri, window } from "vscode";
+import { DisposableObject, DisposeHandler } from "../common/disposable-object";
+import { App } from "../common/app";
+import { QueryQueueCommands } from "../common/commands";
+import { createMultiSelectionCommand } from "../common/vscode/selection-commands";
+import {
+  UserCancellationException,
+  withProgress,
+} from "../common/vscode/progress";
+import { showAndLogErrorMessage } from "../common/logging";
+import { getErrorMessage } from "../common/helpers-pure";
+import { gatherQlFiles } from "../common/files";
+import { MAX_QUERIES } from "../config";
+import { DatabaseItem, DatabaseManager } from "../databases/local-databases";
+import { LocalQueries, QuickEvalType } from "../local-queries";
+import {
+  QueryQueue,
+  QueryQueueItem,
+  QueryQueuePriority,
+  QueryQueueState,
+} from "./query-queue";
+import { QueryQueueTreeDataProvider } from "./query-queue-tree-data-provider";
+
+/**
+ * The name of the key in the workspaceState dictionary in which we
+ * persist the query queue across sessions.
+ */
+const QUERY_QUEUE_STATE = "queryQueue";
+
+interface PriorityQuickPickItem extends QuickPickItem {
+  priority: QueryQueuePriority;
+}
+
+interface DatabaseQuickPickItem extends QuickPickItem {
+  databaseItem: DatabaseItem;
+}
+
+/**
+ * Runs queries from a queue that is persisted across sessions. Queued queries are run in the
+ * background, with at most `codeQL.runningQueries.maxQueries` queries running at the same time,
+ * and end up in the query history like any other query.
+ */
+export class QueryQueueManager extends DisposableObject {
+  private readonly queue: QueryQueue;
+  private readonly treeDataProvider: QueryQueueTreeDataProvider;
+
+  /** Cancellation token sources of the running items, by item ID. */
+  private readonly runningItems = new Map<string, CancellationTokenSource>();
+
+  private disposed = false;
+
+  public constructor(
+    private readonly app: App,
+    private readonly databaseManager: DatabaseManager,
+    private readonly localQueries: LocalQueries,
+  ) {
+    super();
+
+    const state =
+      this.app.workspaceState.get<QueryQueueState>(QUERY_QUEUE_STATE);
+    this.queue = new QueryQueue(state);
+
+    this.treeDataProvider = this.push(
+      new QueryQueueTreeDataProvider(this.queue),
+    );
+    this.push(
+      window.createTreeView("codeQLQueryQueue", {
+        treeDataProvider: this.treeDataProvider,
+      }),
+    );
+  }
+
+  /**
+   * Starts running the queued queries, including the queries that were queued in a previous
+   * session.
+   */
+  public async initialize(): Promise<void> {
+    await this.update();
+  }
+
+  public getCommands(): QueryQueueCommands {
+    return {
+      "codeQL.addQueryToQueue": this.handleAddQueryToQueue.bind(this),
+      "codeQL.addQueriesToQueue": createMultiSelectionCommand(
+        this.handleAddQueriesToQueue.bind(this),
+      ),
+      "codeQLQueryQueue.pause": this.handlePause.bind(this),
+      "codeQLQueryQueue.resume": this.handleResume.bind(this),
+      "codeQLQueryQueue.clear": this.handleClear.bind(this),
+      "codeQLQueryQueue.moveUp": this.handleMoveUp.bind(this),
+      "codeQLQueryQueue.moveDown": this.handleMoveDown.bind(this),
+      "codeQLQueryQueue.setPriority": this.handleSetPriority.bind(this),
+      "codeQLQueryQueue.cancel": this.handleCancel.bind(this),
+    };
+  }
+
+  private async handleAddQueryToQueue(uri: Uri | undefined): Promise<void> {
+    const queryUri = uri ?? window.activeTextEditor?.document.uri;
+    if (queryUri === undefined || !queryUri.fsPath.endsWith(".ql")) {
+      throw new Error("Select a .ql file to add to the query queue.");
+    }
+    await this.addQueriesToQueue([queryUri.fsPath]);
+  }
+
+  private async handleAddQueriesToQueue(fileUris: Uri[]): Promise<void> {
+    const [queryPaths] = await gatherQlFiles(fileUris.map((uri) => uri.fsPath));
+    if (queryPaths.length === 0) {
+      throw new Error("No .ql files were found in the selected files.");
+    }
+    await this.addQueriesToQueue(queryPaths);
+  }
+
+  private async addQueriesToQueue(queryPaths: string[]): Promise<void> {
+    const databaseItems = await this.promptForDatabases();
+    const priority = await promptForPriority();
+
+    for (const databaseItem of databaseItems) {
+      for (const queryPath of queryPaths) {
+        this.queue.add(
+          queryPath,
+          databaseItem.databaseUri.toString(true),
+          databaseItem.name,
+          priority,
+        );
+      }
+    }
+    await this.update();
+  }
+
+  private async promptForDatabases(): Promise<DatabaseItem[]> {
+    const databaseItems = this.databaseManager.databaseItems;
+    if (databaseItems.length === 0) {
+      throw new Error(
+        "No databases found. Please add a suitable database to your workspace.",
+      );
+    }
+
+    const currentDatabaseItem = this.databaseManager.currentDatabaseItem;
+    const quickPickItems = databaseItems.map(
+      (databaseItem): DatabaseQuickPickItem => ({
+        label: databaseItem.name,
+        description: databaseItem.language,
+        picked: databaseItem === currentDatabaseItem,
+        databaseItem,
+      }),
+    );
+    const selected = await window.showQuickPick(quickPickItems, {
+      placeHolder: "Select the databases to run the queries against",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    });
+    if (selected === undefined || selected.length === 0) {
+      throw new UserCancellationException("No databases selected", true);
+    }
+    return selected.map((item) => item.databaseItem);
+  }
+
+  private async handlePause(): Promise<void> {
+    this.queue.paused = true;
+    await this.update();
+  }
+
+  private async handleResume(): Promise<void> {
+    this.queue.paused = false;
+    await this.update();
+  }
+
+  private async handleClear(): Promise<void> {
+    this.queue.clear();
+    await this.update();
+  }
+
+  private async handleMoveUp(item: QueryQueueItem): Promise<void> {
+    this.queue.move(item.id, -1);
+    await this.update();
+  }
+
+  private async handleMoveDown(item: QueryQueueItem): Promise<void> {
+    this.queue.move(item.id, 1);
+    await this.update();
+  }
+
+  private async handleSetPriority(item: QueryQueueItem): Promise<void> {
+    this.queue.setPriority(item.id, await promptForPriority());
+    await this.update();
+  }
+
+  private async handleCancel(item: QueryQueueItem): Promise<void> {
+    const tokenSource = this.runningItems.get(item.id);
+    if (tokenSource !== undefined) {
+      // The item is removed from the queue once the query has stopped.
+      tokenSource.cancel();
+      return;
+    }
+
+    this.queue.remove(item.id);
+    await this.update();
+  }
+
+  public dispose(disposeHandler?: DisposeHandler): void {
+    this.disposed = true;
+    for (const tokenSource of this.runningItems.values()) {
+      tokenSource.cancel();
+    }
+    super.dispose(disposeHandler);
+  }
+
+  /**
+   * Persists the queue, updates the tree view and starts running queued items
+   * if fewer than the maximum number of queries are running.
+   */
+  private async update(): Promise<void> {
+    const maxQueries = MAX_QUERIES.getValue<number>();
+    while (this.runningItems.size < maxQueries) {
+      const item = this.queue.startNext();
+      if (item === undefined) {
+        break;
+      }
+      const tokenSource = new CancellationTokenSource();
+      this.runningItems.set(item.id, tokenSource);
+      void this.runItem(item, tokenSource);
+    }
+
+    this.treeDataProvider.refresh();
+    await this.app.commands.execute(
+      "setContext",
+      "codeQL.queryQueuePaused",
+      this.queue.paused,
+    );
+    await this.app.workspaceState.update(
+      QUERY_QUEUE_STATE,
+      this.queue.getState(),
+    );
+  }
+
+  private async runItem(
+    item: QueryQueueItem,
+    tokenSource: CancellationTokenSource,
+  ): Promise<void> {
+    try {
+      const databaseItem = this.databaseManager.findDatabaseItem(
+        Uri.parse(item.databaseUri, true),
+      );
+      if (databaseItem === undefined) {
+        throw new Error(
+          `Database ${item.databaseName} is no longer in the list of databases.`,
+        );
+      }
+
+      await withProgress(
+        async (progress, token) => {
+          const cancellationListener = token.onCancellationRequested(() =>
+            tokenSource.cancel(),
+          );
+          try {
+            await this.localQueries.compileAndRunQuery(
+              QuickEvalType.None,
+              Uri.file(item.queryPath),
+              progress,
+              tokenSource.token,
+              databaseItem,
+            );
+          } finally {
+            cancellationListener.dispose();
+          }
+        },
+        {
+          title: `Running ${basename(item.queryPath)} from the query queue`,
+          cancellable: true,
+        },
+      );
+    } catch (e) {
+      if (!(e instanceof UserCancellationException)) {
+        void showAndLogErrorMessage(
+          this.app.logger,
+          `Failed to run ${basename(item.queryPath)} against ${
+            item.databaseName
+          } from the query queue: ${getErrorMessage(e)}`,
+        );
+      }
+    } finally {
+      tokenSource.dispose();
+      this.runningItems.delete(item.id);
+      // Once the manager has been disposed, the tree view and the persisted state must not be
+      // updated anymore and no more items may be started.
+      if (!this.disposed) {
+        this.queue.remove(item.id);
+        await this.update();
+      }
+    }
+  }
+}
+
+async function promptForPriority(): Promise<QueryQueuePriority> {
+  const items: PriorityQuickPickItem[] = [
+    { label: "Normal", priority: "normal" },
+    {
+      label: "High",
+      description: "Run before other queries",
+      priority: "high",
+    },
+    { label: "Low", description: "Run after other queries", priority: "low" },
+  ];
+  const selected = await window.showQuickPick(items, {
+    placeHolder: "Select the priority of the queries",
+    ignoreFocusOut: true,
+  });
+  if (selected === undefined) {
+    throw new UserCancellationException("No priority selected", true);
+  }
+  return selected.priority;
+}
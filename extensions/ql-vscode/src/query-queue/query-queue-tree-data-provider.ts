@@ -0,0 +1,78 @@
+import { basename } from "path";
+import {
+  Event,
+  EventEmitter,
+  ProviderResult,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  Uri,
+} from "vscode";
+import { DisposableObject } from "../common/disposable-object";
+import {
+  QueryQueue,
+  QueryQueueItem,
+  QueryQueueItemStatus,
+} from "./query-queue";
+
+export class QueryQueueTreeDataProvider
+  extends DisposableObject
+  implements TreeDataProvider<QueryQueueItem>
+{
+  private readonly _onDidChangeTreeData = this.push(
+    new EventEmitter<QueryQueueItem | undefined>(),
+  );
+
+  public constructor(private readonly queue: QueryQueue) {
+    super();
+  }
+
+  public get onDidChangeTreeData(): Event<QueryQueueItem | undefined> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  public refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public getTreeItem(element: QueryQueueItem): TreeItem {
+    const item = new TreeItem(basename(element.queryPath));
+    const details = [element.databaseName];
+    if (element.priority !== "normal") {
+      details.push(`${element.priority} priority`);
+    }
+
+    if (element.status === QueryQueueItemStatus.Running) {
+      item.iconPath = new ThemeIcon("loading~spin");
+      item.contextValue = "runningQueryQueueItem";
+      details.push("running");
+    } else {
+      item.iconPath = new ThemeIcon(
+        this.queue.paused ? "debug-pause" : "circle-outline",
+      );
+      item.contextValue = "queuedQueryQueueItem";
+    }
+
+    item.description = details.join(" · ");
+    item.tooltip = `${element.queryPath}\nDatabase: ${element.databaseName}`;
+    item.command = {
+      title: "Open Query",
+      command: "vscode.open",
+      arguments: [Uri.file(element.queryPath)],
+    };
+    return item;
+  }
+
+  public getChildren(
+    element?: QueryQueueItem,
+  ): ProviderResult<QueryQueueItem[]> {
+    if (element !== undefined) {
+      return [];
+    }
+    return [...this.queue.getItems()];
+  }
+
+  public getParent(_element: QueryQueueItem): ProviderResult<QueryQueueItem> {
+    return null;
+  }
+}
@@ -0,0 +1,172 @@
+import { nanoid } from "nanoid";
+
+export type QueryQueuePriority = "high" | "normal" | "low";
+
+const PRIORITY_ORDER: QueryQueuePriority[] = ["high", "normal", "low"];
+
+export enum QueryQueueItemStatus {
+  Queued = "Queued",
+  Running = "Running",
+}
+
+/** A query that is waiting to be run against a database. */
+export interface QueryQueueItem {
+  readonly id: string;
+  readonly queryPath: string;
+  /** The URI of the database, as returned by `Uri.toString(true)`. */
+  readonly databaseUri: string;
+  /** The name of the database when the item was added, for display purposes. */
+  readonly databaseName: string;
+  priority: QueryQueuePriority;
+  status: QueryQueueItemStatus;
+}
+
+/** The state of the queue that is persisted across sessions. */
+export interface QueryQueueState {
+  items: QueryQueueItem[];
+  paused: boolean;
+}
+
+/**
+ * An ordered queue of queries to run. Items are run in order of priority, and
+ * in the order of the queue for items with the same priority.
+ *
+ * This class only keeps track of the order of the items. Running the items is
+ * done by the `QueryQueueManager`.
+ */
+export class QueryQueue {
+  private items: QueryQueueItem[];
+  private _paused: boolean;
+
+  constructor(state: QueryQueueState = { items: [], paused: false }) {
+    // Items that were running when the state was saved were interrupted, so
+    // they need to run again.
+    this.items = state.items.map((item) => ({
+      ...item,
+      status: QueryQueueItemStatus.Queued,
+    }));
+    this._paused = state.paused;
+  }
+
+  public get paused(): boolean {
+    return this._paused;
+  }
+
+  public set paused(paused: boolean) {
+    this._paused = paused;
+  }
+
+  public getState(): QueryQueueState {
+    return {
+      items: this.items.map((item) => ({ ...item })),
+      paused: this._paused,
+    };
+  }
+
+  /** Gets the items in the order in which they will be run. */
+  public getItems(): readonly QueryQueueItem[] {
+    return PRIORITY_ORDER.flatMap((priority) =>
+      this.items.filter((item) => item.priority === priority),
+    );
+  }
+
+  public getRunningItems(): readonly QueryQueueItem[] {
+    return this.items.filter(
+      (item) => item.status === QueryQueueItemStatus.Running,
+    );
+  }
+
+  public add(
+    queryPath: string,
+    databaseUri: string,
+    databaseName: string,
+    priority: QueryQueuePriority = "normal",
+  ): QueryQueueItem {
+    const item: QueryQueueItem = {
+      id: nanoid(),
+      queryPath,
+      databaseUri,
+      databaseName,
+      priority,
+      status: QueryQueueItemStatus.Queued,
+    };
+    this.items.push(item);
+    return item;
+  }
+
+  public remove(id: string): void {
+    this.items = this.items.filter((item) => item.id !== id);
+  }
+
+  public clear(): void {
+    this.items = this.items.filter(
+      (item) => item.status === QueryQueueItemStatus.Running,
+    );
+  }
+
+  public setPriority(id: string, priority: QueryQueuePriority): void {
+    const item = this.items.find((item) => item.id === id);
+    if (item === undefined || item.status === QueryQueueItemStatus.Running) {
+      return;
+    }
+
+    // Move the item to the end of its new priority group.
+    this.items = this.items.filter((i) => i !== item);
+    item.priority = priority;
+    this.items.push(item);
+  }
+
+  /**
+   * Moves an item one place towards the front (`-1`) or the back (`1`) of the
+   * queue. Items can only be moved within their priority group, and running items can't be
+   * moved nor passed.
+   */
+  public move(id: string, direction: -1 | 1): void {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return;
+    }
+
+    const item = this.items[index];
+    if (item.status === QueryQueueItemStatus.Running) {
+      return;
+    }
+
+    let otherIndex = index + direction;
+    while (
+      otherIndex >= 0 &&
+      otherIndex < this.items.length &&
+      this.items[otherIndex].priority !== item.priority
+    ) {
+      otherIndex += direction;
+    }
+    if (
+      otherIndex < 0 ||
+      otherIndex >= this.items.length ||
+      this.items[otherIndex].status === QueryQueueItemStatus.Running
+    ) {
+      return;
+    }
+
+    this.items[index] = this.items[otherIndex];
+    this.items[otherIndex] = item;
+  }
+
+  /**
+   * Marks the next queued item as running and returns it. Returns `undefined`
+   * if the queue is paused or there are no queued items.
+   */
+  public startNext(): QueryQueueItem | undefined {
+    if (this._paused) {
+      return undefined;
+    }
+
+    const item = this.getItems().find(
+      (item) => item.status === QueryQueueItemStatus.Queued,
+    );
+    if (item !== undefined) {
+      item.status = QueryQueueItemStatus.Running;
+    }
+    return item;
+  }
+}
@@ -37,8 +37,10 @@ import { sarifParser } from "./common/sarif-parser";
  * A description of the information about a query
  * that is available before results are populated.
  */
-export interface InitialQueryInfo {
+export interface InitialQueryInfo extends QueryRunInfo {
   userSpecifiedLabel?: string; // if missing, use a default label
+  tags?: string[]; // if missing, the query has no tags
+  pinned?: boolean; // if missing, the query is not pinned
   readonly queryText: string; // text of the selected file, or the selected text when doing quick eval
   readonly isQuickQuery: boolean;
   readonly isQuickEval: boolean;
@@ -51,6 +53,33 @@ export interface InitialQueryInfo {
   readonly outputDir?: QueryOutputDir; // If missing, we do not have a query save dir. The query may have been cancelled. This is only for backwards compatibility.
 }
 
+/**
+ * The inputs of a query run other than the query and the database. These are
+ * recorded so that the query can be run again with the same inputs.
+ */
+export interface QueryRunInfo {
+  readonly querySuite?: QuerySuiteInfo; // If missing, the query was not run as part of a query suite.
+  readonly externalPredicateValues?: ExternalPredicateValues; // If missing, the query has no external predicates.
+  readonly extensionPacks?: string[]; // If missing, the extension packs were not recorded. This is only for backwards compatibility.
+}
+
+/**
+ * The values of the external predicates of a query, by predicate name. Each value
+ * is a list of rows. Predicates with a single value have a single row with a single
+ * column.
+ */
+export type ExternalPredicateValues = Record<string, string[][]>;
+
+/**
+ * A description of a single run of a query suite. All queries that were run as
+ * part of the same run of a suite share the same `QuerySuiteInfo`.
+ */
+export interface QuerySuiteInfo {
+  readonly id: string; // unique id for this run of the suite.
+  readonly name: string;
+  readonly suitePath: string;
+}
+
 export class CompletedQueryInfo implements QueryWithResults {
   constructor(
     public readonly query: QueryEvaluationInfo,
@@ -243,6 +272,22 @@ export class LocalQueryInfo {
     this.initialInfo.userSpecifiedLabel = label;
   }
 
+  get tags() {
+    return this.initialInfo.tags;
+  }
+
+  set tags(tags: string[] | undefined) {
+    this.initialInfo.tags = tags;
+  }
+
+  get pinned() {
+    return this.initialInfo.pinned;
+  }
+
+  set pinned(pinned: boolean | undefined) {
+    this.initialInfo.pinned = pinned;
+  }
+
   /** Sets the paths to the various structured evaluator logs. */
   public setEvaluatorLogPaths(logPaths: EvaluatorLogPaths): void {
     this.evalLogLocation = logPaths.log;
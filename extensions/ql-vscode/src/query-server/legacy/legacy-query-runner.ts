@@ -34,6 +34,10 @@ export class LegacyQueryRunner extends QueryRunner {
     return undefined;
   }
 
+  get supportsExternalInputs(): boolean {
+    return false;
+  }
+
   get logger(): Logger {
     return this.qs.logger;
   }
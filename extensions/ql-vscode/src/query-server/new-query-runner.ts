@@ -36,6 +36,10 @@ export class NewQueryRunner extends QueryRunner {
     return this.qs.config.customLogDirectory;
   }
 
+  get supportsExternalInputs(): boolean {
+    return true;
+  }
+
   get logger(): Logger {
     return this.qs.logger;
   }
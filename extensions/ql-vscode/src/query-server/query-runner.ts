@@ -53,6 +53,8 @@ export abstract class QueryRunner {
 
   abstract cliServer: CodeQLCliServer;
   abstract customLogDirectory: string | undefined;
+  /** Whether the query server accepts the values of external predicates with more than one value. */
+  abstract supportsExternalInputs: boolean;
   abstract logger: Logger;
 
   abstract onStart(
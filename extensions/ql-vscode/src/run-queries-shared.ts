@@ -13,7 +13,11 @@ import {
   ensureDir,
   writeFile,
 } from "fs-extra";
-import { ensureMetadataIsComplete, InitialQueryInfo } from "./query-results";
+import {
+  ensureMetadataIsComplete,
+  InitialQueryInfo,
+  QueryRunInfo,
+} from "./query-results";
 import { isQuickQueryPath } from "./local-queries";
 import { nanoid } from "nanoid";
 import { CodeQLCliServer } from "./codeql-cli/cli";
@@ -469,6 +473,8 @@ export async function getQuickEvalContext(
 export interface SelectedQuery {
   queryPath: string;
   quickEval?: QuickEvalContext;
+  /** The text of the query, if it is not the current contents of `queryPath`. */
+  queryText?: string;
 }
 
 /** Gets the selected position within the given editor. */
@@ -563,16 +569,17 @@ async function convertToQlPath(filePath: string): Promise<string> {
  * @param selectedQuery The query to run, including any quickeval info.
  * @param databaseInfo The database to run the query against.
  * @param outputDir The output directory for this query.
+ * @param runInfo The other inputs of the query, which are recorded to allow re-running it.
  * @returns The initial information for the query to be run.
  */
 export async function createInitialQueryInfo(
   selectedQuery: SelectedQuery,
   databaseInfo: DatabaseInfo,
   outputDir: QueryOutputDir,
+  runInfo: QueryRunInfo = {},
 ): Promise<InitialQueryInfo> {
   const isQuickEval = selectedQuery.quickEval !== undefined;
-  const isQuickEvalCount =
-    selectedQuery.quickEval?.quickEvalCount !== undefined;
+  const isQuickEvalCount = selectedQuery.quickEval?.quickEvalCount === true;
   return {
     queryPath: selectedQuery.queryPath,
     isQuickEval,
@@ -587,9 +594,12 @@ export async function createInitialQueryInfo(
           quickEvalPosition: selectedQuery.quickEval.quickEvalPosition,
         }
       : {
-          queryText: await readFile(selectedQuery.queryPath, "utf8"),
+          queryText:
+            selectedQuery.queryText ??
+            (await readFile(selectedQuery.queryPath, "utf8")),
         }),
     outputDir,
+    ...runInfo,
   };
 }
 
@@ -37,7 +37,9 @@ CompareTable.args = {
     ],
     commonResultSetNames: ["edges", "nodes", "subpaths", "#select"],
     currentResultSetName: "edges",
-    rows: {
+    keyColumns: [],
+    result: {
+      kind: "raw",
       from: [],
       to: [
         [
@@ -63,6 +65,7 @@ CompareTable.args = {
           },
         ],
       ],
+      changed: [],
     },
     message: undefined,
     databaseUri: "file:///java",
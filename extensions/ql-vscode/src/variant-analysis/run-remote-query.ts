@@ -1,5 +1,5 @@
 import { CancellationToken, Uri, window } from "vscode";
-import { relative, join, sep, dirname, parse, basename } from "path";
+import { relative, join, sep, dirname, basename } from "path";
 import { dump, load } from "js-yaml";
 import { copy, writeFile, readFile, mkdirp } from "fs-extra";
 import { dir, tmpName } from "tmp-promise";
@@ -29,6 +29,7 @@ import {
 import { Repository } from "./shared/repository";
 import { DbManager } from "../databases/db-manager";
 import {
+  findPackRoot,
   getQlPackPath,
   FALLBACK_QLPACK_FILENAME,
   QLPACK_FILENAMES,
@@ -224,26 +225,6 @@ async function copyExistingQueryPack(
   await fixPackFile(queryPackDir, packRelativePath);
 }
 
-async function findPackRoot(queryFile: string): Promise<string> {
-  // recursively find the directory containing qlpack.yml or codeql-pack.yml
-  let dir = dirname(queryFile);
-  while (!(await getQlPackPath(dir))) {
-    dir = dirname(dir);
-    if (isFileSystemRoot(dir)) {
-      // there is no qlpack.yml or codeql-pack.yml in this directory or any parent directory.
-      // just use the query file's directory as the pack root.
-      return dirname(queryFile);
-    }
-  }
-
-  return dir;
-}
-
-function isFileSystemRoot(dir: string): boolean {
-  const pathObj = parse(dir);
-  return pathObj.root === dir && pathObj.base === "";
-}
-
 async function createRemoteQueriesTempDirectory() {
   const remoteQueryDir = await dir({
     dir: tmpDir.name,
@@ -172,8 +172,8 @@ export class VariantAnalysisManager
     return this.app.commands;
   }
 
-  private async runVariantAnalysisFromCommand(uri?: Uri) {
-    return withProgress(
+  private async runVariantAnalysisFromCommand(uri?: Uri): Promise<void> {
+    await withProgress(
       async (progress, token) =>
         this.runVariantAnalysis(
           uri || Window.activeTextEditor?.document.uri,
@@ -197,11 +197,16 @@ export class VariantAnalysisManager
     }
   }
 
+  /**
+   * Submits a variant analysis of the query in `uri`, or the active query if no URI is given.
+   *
+   * @returns The ID of the variant analysis, or `undefined` if submitting it failed.
+   */
   public async runVariantAnalysis(
     uri: Uri | undefined,
     progress: ProgressCallback,
     token: CancellationToken,
-  ): Promise<void> {
+  ): Promise<number | undefined> {
     await saveBeforeStart();
 
     progress({
@@ -266,7 +271,7 @@ export class VariantAnalysisManager
     } catch (e: unknown) {
       // If the error is handled by the handleRequestError function, we don't need to throw
       if (e instanceof RequestError && handleRequestError(e, this.app.logger)) {
-        return;
+        return undefined;
       }
 
       throw e;
@@ -292,6 +297,8 @@ export class VariantAnalysisManager
       "codeQL.monitorNewVariantAnalysis",
       processedVariantAnalysis,
     );
+
+    return processedVariantAnalysis.id;
   }
 
   public async rehydrateVariantAnalysis(variantAnalysis: VariantAnalysis) {
@@ -0,0 +1,189 @@
+import * as React from "react";
+import { useEffect, useMemo, useState } from "react";
+import { styled } from "styled-components";
+
+import { ToComparePerformanceViewMessage } from "../../common/interface-types";
+import {
+  getPerformanceDelta,
+  PerformanceComparisonMetric,
+  PredicatePerformanceComparison,
+  sortPredicatePerformanceComparisons,
+} from "../../log-insights/performance-comparison";
+import { formatDecimal } from "../../common/number";
+import { ViewTitle } from "../common";
+import { sendTelemetry } from "../common/telemetry";
+
+type Comparison = Omit<ToComparePerformanceViewMessage, "t">;
+
+type ComparePerformanceProps = {
+  initialComparison?: Comparison;
+};
+
+const metrics: Array<{ metric: PerformanceComparisonMetric; label: string }> = [
+  { metric: "millis", label: "Evaluation time (ms)" },
+  { metric: "resultSize", label: "Result size" },
+  { metric: "tupleCount", label: "Pipeline tuple count" },
+];
+
+const Table = styled.table`
+  border-collapse: collapse;
+  width: 100%;
+
+  th,
+  td {
+    padding: 0.2em 0.5em;
+    text-align: right;
+    white-space: nowrap;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+    white-space: normal;
+    word-break: break-all;
+  }
+
+  tbody tr:hover {
+    background-color: var(--vscode-list-hoverBackground);
+  }
+`;
+
+const MetricHeader = styled.th<{ $selected: boolean }>`
+  cursor: pointer;
+  text-decoration: ${(props) => (props.$selected ? "underline" : "none")};
+`;
+
+const Delta = styled.td<{ $delta: number }>`
+  color: ${(props) =>
+    props.$delta > 0
+      ? "var(--vscode-errorForeground)"
+      : props.$delta < 0
+      ? "var(--vscode-testing-iconPassed)"
+      : "inherit"};
+`;
+
+function formatValue(value: number | undefined): string {
+  return value === undefined ? "-" : formatDecimal(value);
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${formatDecimal(delta)}` : formatDecimal(delta);
+}
+
+function PredicateRow({
+  comparison,
+}: {
+  comparison: PredicatePerformanceComparison;
+}) {
+  const hashChanged =
+    comparison.from !== undefined &&
+    comparison.to !== undefined &&
+    comparison.from.raHash !== comparison.to.raHash;
+
+  return (
+    <tr>
+      <td title={hashChanged ? "The RA of this predicate has changed" : ""}>
+        {comparison.predicateName}
+        {hashChanged && " *"}
+      </td>
+      {metrics.map(({ metric }) => {
+        const delta = getPerformanceDelta(comparison, metric);
+        return (
+          <React.Fragment key={metric}>
+            <td>{formatValue(comparison.from?.[metric])}</td>
+            <td>{formatValue(comparison.to?.[metric])}</td>
+            <Delta $delta={delta}>{formatDelta(delta)}</Delta>
+          </React.Fragment>
+        );
+      })}
+    </tr>
+  );
+}
+
+export function ComparePerformance({
+  initialComparison,
+}: ComparePerformanceProps): JSX.Element {
+  const [comparison, setComparison] = useState<Comparison | undefined>(
+    initialComparison,
+  );
+  const [sortMetric, setSortMetric] =
+    useState<PerformanceComparisonMetric>("millis");
+
+  useEffect(() => {
+    const listener = (evt: MessageEvent) => {
+      if (evt.origin === window.origin) {
+        const msg: ToComparePerformanceViewMessage = evt.data;
+        if (msg.t === "setPerformanceComparison") {
+          setComparison(msg);
+          setSortMetric("millis");
+        }
+      } else {
+        // sanitize origin
+        const origin = evt.origin.replace(/\n|\r/g, "");
+        console.error(`Invalid event origin ${origin}`);
+      }
+    };
+    window.addEventListener("message", listener);
+
+    return () => {
+      window.removeEventListener("message", listener);
+    };
+  }, []);
+
+  const sortedComparisons = useMemo(
+    () =>
+      comparison
+        ? sortPredicatePerformanceComparisons(
+            comparison.comparisons,
+            sortMetric,
+          )
+        : [],
+    [comparison, sortMetric],
+  );
+
+  if (!comparison) {
+    return <div>Waiting for performance data to load.</div>;
+  }
+
+  return (
+    <>
+      <ViewTitle>
+        {comparison.fromName} vs. {comparison.toName}
+      </ViewTitle>
+      <Table>
+        <thead>
+          <tr>
+            <th rowSpan={2}>Predicate</th>
+            {metrics.map(({ metric, label }) => (
+              <MetricHeader
+                key={metric}
+                colSpan={3}
+                $selected={metric === sortMetric}
+                onClick={() => {
+                  setSortMetric(metric);
+                  sendTelemetry("compare-performance-sort");
+                }}
+              >
+                {label}
+              </MetricHeader>
+            ))}
+          </tr>
+          <tr>
+            {metrics.map(({ metric }) => (
+              <React.Fragment key={metric}>
+                <th>Before</th>
+                <th>After</th>
+                <th>Delta</th>
+              </React.Fragment>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedComparisons.map((predicateComparison, index) => (
+            <PredicateRow key={index} comparison={predicateComparison} />
+          ))}
+        </tbody>
+      </Table>
+    </>
+  );
+}
@@ -8,16 +8,18 @@ import {
 import CompareSelector from "./CompareSelector";
 import { vscode } from "../vscode-api";
 import CompareTable from "./CompareTable";
+import CompareKeyColumnsSelector from "./CompareKeyColumnsSelector";
 
 import "../results/resultsView.css";
 
 const emptyComparison: SetComparisonsMessage = {
   t: "setComparisons",
   stats: {},
-  rows: undefined,
+  result: undefined,
   columns: [],
   commonResultSetNames: [],
   currentResultSetName: "",
+  keyColumns: [],
   databaseUri: "",
   message: "Empty comparison",
 };
@@ -26,10 +28,16 @@ export function Compare(_: Record<string, never>): JSX.Element {
   const [comparison, setComparison] =
     useState<SetComparisonsMessage>(emptyComparison);
 
-  const message = comparison.message || "Empty comparison";
   const hasRows =
-    comparison.rows &&
-    (comparison.rows.to.length || comparison.rows.from.length);
+    comparison.result &&
+    (comparison.result.to.length ||
+      comparison.result.from.length ||
+      (comparison.result.kind === "raw" && comparison.result.changed.length));
+  const message =
+    comparison.message ||
+    (comparison.result
+      ? "The selected queries have identical results."
+      : "Empty comparison");
 
   useEffect(() => {
     const listener = (evt: MessageEvent) => {
@@ -67,6 +75,13 @@ export function Compare(_: Record<string, never>): JSX.Element {
               vscode.postMessage({ t: "changeCompare", newResultSetName })
             }
           />
+          <CompareKeyColumnsSelector
+            columns={comparison.columns}
+            keyColumns={comparison.keyColumns}
+            updateKeyColumns={(keyColumns: number[]) =>
+              vscode.postMessage({ t: "changeCompareKeyColumns", keyColumns })
+            }
+          />
         </div>
         {hasRows ? (
           <CompareTable comparison={comparison}></CompareTable>
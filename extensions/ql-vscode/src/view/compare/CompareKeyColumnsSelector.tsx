@@ -0,0 +1,47 @@
+import * as React from "react";
+
+import { Column } from "../../common/bqrs-cli-types";
+
+interface Props {
+  columns: readonly Column[];
+  keyColumns: number[];
+  updateKeyColumns: (keyColumns: number[]) => void;
+}
+
+/**
+ * Allows the user to choose which columns are used to match up rows between
+ * the two queries. Rows with the same key that differ in other columns are
+ * shown as changed rather than as removed and added.
+ */
+export default function CompareKeyColumnsSelector(props: Props) {
+  if (!props.columns.length) {
+    return null;
+  }
+
+  function toggleColumn(index: number, checked: boolean) {
+    const keyColumns = checked
+      ? [...props.keyColumns, index].sort((a, b) => a - b)
+      : props.keyColumns.filter((column) => column !== index);
+    props.updateKeyColumns(keyColumns);
+  }
+
+  return (
+    <>
+      <div className="vscode-codeql__compare-header-item">Match rows by:</div>
+      {props.columns.map((column, index) => {
+        const id = `compare-key-column-${index}`;
+        return (
+          <div key={index} className="vscode-codeql__compare-key-column">
+            <input
+              type="checkbox"
+              id={id}
+              checked={props.keyColumns.includes(index)}
+              onChange={(e) => toggleColumn(index, e.target.checked)}
+            />
+            <label htmlFor={id}>{column.name || `[${index}]`}</label>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -1,14 +1,11 @@
 import * as React from "react";
 
 import { SetComparisonsMessage } from "../../common/interface-types";
-import RawTableHeader from "../results/RawTableHeader";
-import { className } from "../results/result-table-utils";
-import { ResultRow } from "../../common/bqrs-cli-types";
-import RawTableRow from "../results/RawTableRow";
 import { vscode } from "../vscode-api";
-import { sendTelemetry } from "../common/telemetry";
 import TextButton from "../common/TextButton";
 import { styled } from "styled-components";
+import RawCompareResultTable from "./RawCompareResultTable";
+import InterpretedCompareResultTable from "./InterpretedCompareResultTable";
 
 interface Props {
   comparison: SetComparisonsMessage;
@@ -22,7 +19,8 @@ const OpenButton = styled(TextButton)`
 
 export default function CompareTable(props: Props) {
   const comparison = props.comparison;
-  const rows = props.comparison.rows!;
+  const result = props.comparison.result!;
+  const unit = result.kind === "interpreted" ? "alerts" : "rows";
 
   async function openQuery(kind: "from" | "to") {
     vscode.postMessage({
@@ -31,24 +29,6 @@ export default function CompareTable(props: Props) {
     });
   }
 
-  function createRows(rows: ResultRow[], databaseUri: string) {
-    return (
-      <tbody>
-        {rows.map((row, rowIndex) => (
-          <RawTableRow
-            key={rowIndex}
-            rowIndex={rowIndex}
-            row={row}
-            databaseUri={databaseUri}
-            onSelected={() => {
-              sendTelemetry("comapre-view-result-clicked");
-            }}
-          />
-        ))}
-      </tbody>
-    );
-  }
-
   return (
     <table className="vscode-codeql__compare-body">
       <thead>
@@ -69,34 +49,22 @@ export default function CompareTable(props: Props) {
           <td>{comparison.stats.toQuery?.time}</td>
         </tr>
         <tr>
-          <th>{rows.from.length} rows removed</th>
-          <th>{rows.to.length} rows added</th>
+          <th>
+            {result.from.length} {unit} removed
+          </th>
+          <th>
+            {result.to.length} {unit} added
+          </th>
         </tr>
       </thead>
-      <tbody>
-        <tr>
-          <td>
-            <table className={className}>
-              <RawTableHeader
-                columns={comparison.columns}
-                schemaName={comparison.currentResultSetName}
-                preventSort={true}
-              />
-              {createRows(rows.from, comparison.databaseUri)}
-            </table>
-          </td>
-          <td>
-            <table className={className}>
-              <RawTableHeader
-                columns={comparison.columns}
-                schemaName={comparison.currentResultSetName}
-                preventSort={true}
-              />
-              {createRows(rows.to, comparison.databaseUri)}
-            </table>
-          </td>
-        </tr>
-      </tbody>
+      {result.kind === "interpreted" ? (
+        <InterpretedCompareResultTable
+          comparison={comparison}
+          result={result}
+        />
+      ) : (
+        <RawCompareResultTable comparison={comparison} result={result} />
+      )}
     </table>
   );
 }
@@ -0,0 +1,82 @@
+import * as React from "react";
+import * as sarif from "sarif";
+
+import {
+  ALERTS_TABLE_NAME,
+  InterpretedQueryCompareResult,
+  InterpretedResultSet,
+  SarifInterpretationData,
+  SetComparisonsMessage,
+} from "../../common/interface-types";
+import { AlertTable } from "../results/AlertTable";
+
+interface Props {
+  comparison: SetComparisonsMessage;
+  result: InterpretedQueryCompareResult;
+}
+
+export function createResultSet(
+  results: sarif.Result[],
+  sourceLocationPrefix: string,
+): InterpretedResultSet<SarifInterpretationData> {
+  return {
+    t: "InterpretedResultSet",
+    name: ALERTS_TABLE_NAME,
+    schema: {
+      name: ALERTS_TABLE_NAME,
+      rows: results.length,
+      columns: [],
+    },
+    interpretation: {
+      sourceLocationPrefix,
+      numTruncatedResults: 0,
+      numTotalResults: results.length,
+      data: {
+        t: "SarifInterpretationData",
+        version: "2.1.0",
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: "CodeQL",
+              },
+            },
+            results,
+          },
+        ],
+      },
+    },
+  };
+}
+
+export default function InterpretedCompareResultTable(props: Props) {
+  const { comparison, result } = props;
+
+  function createTable(results: sarif.Result[]) {
+    if (results.length === 0) {
+      return <div className="vscode-codeql__compare-message">No alerts</div>;
+    }
+
+    return (
+      <AlertTable
+        resultSet={createResultSet(results, result.sourceLocationPrefix)}
+        databaseUri={comparison.databaseUri}
+        resultsPath={undefined}
+        offset={0}
+        nonemptyRawResults={false}
+        showRawResults={() => {
+          // There are no raw results in the compare view
+        }}
+      />
+    );
+  }
+
+  return (
+    <tbody>
+      <tr>
+        <td>{createTable(result.from)}</td>
+        <td>{createTable(result.to)}</td>
+      </tr>
+    </tbody>
+  );
+}
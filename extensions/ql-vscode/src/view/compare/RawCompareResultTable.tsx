@@ -0,0 +1,90 @@
+import * as React from "react";
+
+import {
+  RawQueryCompareResult,
+  SetComparisonsMessage,
+} from "../../common/interface-types";
+import RawTableHeader from "../results/RawTableHeader";
+import { className } from "../results/result-table-utils";
+import { ResultRow } from "../../common/bqrs-cli-types";
+import RawTableRow from "../results/RawTableRow";
+import { sendTelemetry } from "../common/telemetry";
+
+interface Props {
+  comparison: SetComparisonsMessage;
+  result: RawQueryCompareResult;
+}
+
+export default function RawCompareResultTable(props: Props) {
+  const { comparison, result } = props;
+
+  function createRows(
+    rows: ResultRow[],
+    databaseUri: string,
+    highlightedColumns?: number[][],
+  ) {
+    return (
+      <tbody>
+        {rows.map((row, rowIndex) => (
+          <RawTableRow
+            key={rowIndex}
+            rowIndex={rowIndex}
+            row={row}
+            databaseUri={databaseUri}
+            highlightedColumns={highlightedColumns?.[rowIndex]}
+            onSelected={() => {
+              sendTelemetry("comapre-view-result-clicked");
+            }}
+          />
+        ))}
+      </tbody>
+    );
+  }
+
+  function createTable(rows: ResultRow[], highlightedColumns?: number[][]) {
+    return (
+      <table className={className}>
+        <RawTableHeader
+          columns={comparison.columns}
+          schemaName={comparison.currentResultSetName}
+          preventSort={true}
+        />
+        {createRows(rows, comparison.databaseUri, highlightedColumns)}
+      </table>
+    );
+  }
+
+  const changedColumns = result.changed.map((row) => row.changedColumns);
+
+  return (
+    <>
+      <tbody>
+        <tr>
+          <td>{createTable(result.from)}</td>
+          <td>{createTable(result.to)}</td>
+        </tr>
+      </tbody>
+      {result.changed.length > 0 && (
+        <tbody>
+          <tr>
+            <th colSpan={2}>{result.changed.length} rows changed</th>
+          </tr>
+          <tr>
+            <td>
+              {createTable(
+                result.changed.map((row) => row.from),
+                changedColumns,
+              )}
+            </td>
+            <td>
+              {createTable(
+                result.changed.map((row) => row.to),
+                changedColumns,
+              )}
+            </td>
+          </tr>
+        </tbody>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,225 @@
+import * as React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { styled } from "styled-components";
+import {
+  VSCodeLink,
+  VSCodePanels,
+  VSCodePanelTab,
+  VSCodePanelView,
+} from "@vscode/webview-ui-toolkit/react";
+
+import { ToEvalLogFlameGraphViewMessage } from "../../common/interface-types";
+import {
+  FlameGraphNode,
+  getDependents,
+  getTopLevelPredicates,
+  PredicateNode,
+} from "../../log-insights/predicate-graph";
+import { formatDecimal } from "../../common/number";
+import { ViewTitle } from "../common";
+import { sendTelemetry } from "../common/telemetry";
+import { FlameGraph } from "./FlameGraph";
+import { PredicateDependencies } from "./PredicateDependencies";
+import { PredicateDetails } from "./PredicateDetails";
+
+type EvalLogData = Omit<ToEvalLogFlameGraphViewMessage, "t">;
+
+type EvalLogFlameGraphProps = {
+  initialData?: EvalLogData;
+};
+
+const Tab = styled(VSCodePanelTab)`
+  text-transform: uppercase;
+`;
+
+const PanelView = styled(VSCodePanelView)`
+  flex-direction: column;
+  padding: 0.5em 0;
+`;
+
+const Summary = styled.p`
+  margin-top: 0;
+`;
+
+/**
+ * Returns the flame graph nodes of all predicates, keyed by their RA hash.
+ */
+function getFlameGraphNodesByHash(
+  root: FlameGraphNode,
+): Map<string, FlameGraphNode> {
+  const nodes = new Map<string, FlameGraphNode>();
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.raHash !== undefined) {
+      nodes.set(node.raHash, node);
+    }
+    stack.push(...node.children);
+  }
+  return nodes;
+}
+
+/**
+ * Returns the top-level predicate that is responsible for the largest share of
+ * the evaluation time, i.e. the largest predicate directly below a query.
+ */
+function getMostExpensiveTopLevelNode(
+  root: FlameGraphNode,
+): FlameGraphNode | undefined {
+  const candidates = root.children.flatMap((node) =>
+    node.raHash === undefined ? node.children : [node],
+  );
+  return candidates.reduce<FlameGraphNode | undefined>(
+    (max, node) =>
+      max === undefined || node.totalMillis > max.totalMillis ? node : max,
+    undefined,
+  );
+}
+
+export function EvalLogFlameGraph({
+  initialData,
+}: EvalLogFlameGraphProps): JSX.Element {
+  const [data, setData] = useState<EvalLogData | undefined>(initialData);
+  const [focusedNode, setFocusedNode] = useState<FlameGraphNode | undefined>(
+    initialData?.flameGraph,
+  );
+  const [selectedRaHash, setSelectedRaHash] = useState<string | undefined>();
+
+  useEffect(() => {
+    const listener = (evt: MessageEvent) => {
+      if (evt.origin === window.origin) {
+        const msg: ToEvalLogFlameGraphViewMessage = evt.data;
+        if (msg.t === "setEvalLogFlameGraph") {
+          setData(msg);
+          setFocusedNode(msg.flameGraph);
+          setSelectedRaHash(undefined);
+        }
+      } else {
+        // sanitize origin
+        const origin = evt.origin.replace(/\n|\r/g, "");
+        console.error(`Invalid event origin ${origin}`);
+      }
+    };
+    window.addEventListener("message", listener);
+
+    return () => {
+      window.removeEventListener("message", listener);
+    };
+  }, []);
+
+  const predicatesByHash = useMemo(
+    () =>
+      new Map<string, PredicateNode>(
+        data?.predicates.map((p) => [p.raHash, p]) ?? [],
+      ),
+    [data],
+  );
+  const dependents = useMemo(
+    () => getDependents(data?.predicates ?? []),
+    [data],
+  );
+  const topLevelPredicates = useMemo(
+    () => getTopLevelPredicates(data?.predicates ?? []),
+    [data],
+  );
+  const flameGraphNodesByHash = useMemo(
+    () =>
+      data
+        ? getFlameGraphNodesByHash(data.flameGraph)
+        : new Map<string, FlameGraphNode>(),
+    [data],
+  );
+
+  const selectPredicate = useCallback((raHash: string) => {
+    setSelectedRaHash(raHash);
+    sendTelemetry("eval-log-flame-graph-select-predicate");
+  }, []);
+
+  const selectFlameGraphNode = useCallback((node: FlameGraphNode) => {
+    setFocusedNode(node);
+    if (node.raHash !== undefined) {
+      setSelectedRaHash(node.raHash);
+    }
+    sendTelemetry("eval-log-flame-graph-zoom");
+  }, []);
+
+  if (!data || !focusedNode) {
+    return <div>Waiting for evaluator log to load.</div>;
+  }
+
+  const mostExpensive = getMostExpensiveTopLevelNode(data.flameGraph);
+  const selectedPredicate =
+    selectedRaHash === undefined
+      ? undefined
+      : predicatesByHash.get(selectedRaHash);
+
+  const lookUp = (hashes: string[]) =>
+    hashes
+      .map((hash) => predicatesByHash.get(hash))
+      .filter((predicate): predicate is PredicateNode => !!predicate);
+
+  return (
+    <>
+      <ViewTitle>{data.queryName}</ViewTitle>
+      {mostExpensive && data.flameGraph.totalMillis > 0 && (
+        <Summary>
+          Total evaluation time: {formatDecimal(data.flameGraph.totalMillis)}{" "}
+          ms. The most expensive top-level predicate is{" "}
+          <VSCodeLink
+            onClick={() =>
+              mostExpensive.raHash && selectPredicate(mostExpensive.raHash)
+            }
+          >
+            {mostExpensive.label}
+          </VSCodeLink>{" "}
+          with{" "}
+          {Math.round(
+            (mostExpensive.totalMillis / data.flameGraph.totalMillis) * 100,
+          )}
+          % of the evaluation time.
+        </Summary>
+      )}
+      <VSCodePanels>
+        <Tab>Flame graph</Tab>
+        <Tab>Dependencies</Tab>
+        <PanelView>
+          {focusedNode !== data.flameGraph && (
+            <p>
+              <VSCodeLink onClick={() => setFocusedNode(data.flameGraph)}>
+                Reset zoom
+              </VSCodeLink>
+            </p>
+          )}
+          {focusedNode.totalMillis > 0 ? (
+            <FlameGraph
+              node={focusedNode}
+              selectedRaHash={selectedRaHash}
+              onSelect={selectFlameGraphNode}
+            />
+          ) : (
+            <p>No evaluation time was recorded in this evaluator log.</p>
+          )}
+        </PanelView>
+        <PanelView>
+          <PredicateDependencies
+            topLevelPredicates={topLevelPredicates}
+            predicatesByHash={predicatesByHash}
+            selectedRaHash={selectedRaHash}
+            onSelect={selectPredicate}
+          />
+        </PanelView>
+      </VSCodePanels>
+      {selectedPredicate && (
+        <PredicateDetails
+          predicate={selectedPredicate}
+          cumulativeMillis={
+            flameGraphNodesByHash.get(selectedPredicate.raHash)?.totalMillis
+          }
+          dependencies={lookUp(selectedPredicate.dependencies)}
+          dependents={lookUp(dependents.get(selectedPredicate.raHash) ?? [])}
+          onSelect={selectPredicate}
+        />
+      )}
+    </>
+  );
+}
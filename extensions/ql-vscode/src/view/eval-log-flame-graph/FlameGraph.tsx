@@ -0,0 +1,95 @@
+import * as React from "react";
+import { styled } from "styled-components";
+
+import { FlameGraphNode } from "../../log-insights/predicate-graph";
+import { formatDecimal } from "../../common/number";
+
+type Props = {
+  node: FlameGraphNode;
+  selectedRaHash: string | undefined;
+  onSelect: (node: FlameGraphNode) => void;
+};
+
+const Column = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-width: 0;
+`;
+
+const Row = styled.div`
+  display: flex;
+  flex-direction: row;
+`;
+
+const Bar = styled.button<{ $isPredicate: boolean; $selected: boolean }>`
+  height: 1.6em;
+  margin: 0 1px 1px 0;
+  padding: 0 0.3em;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  text-align: left;
+  cursor: pointer;
+  border: none;
+  outline: ${(props) =>
+    props.$selected ? "1px solid var(--vscode-focusBorder)" : "none"};
+  color: var(--vscode-editor-background);
+  background-color: ${(props) =>
+    props.$isPredicate
+      ? "var(--vscode-charts-orange)"
+      : "var(--vscode-charts-blue)"};
+
+  &:hover {
+    opacity: 0.8;
+  }
+`;
+
+function formatTitle(node: FlameGraphNode): string {
+  return `${node.label}\n${formatDecimal(
+    node.totalMillis,
+  )} ms total, ${formatDecimal(node.selfMillis)} ms self`;
+}
+
+/**
+ * Renders a node of a flame graph and its children. Each child takes up the
+ * share of its parent's width that corresponds to its share of the parent's
+ * total evaluation time.
+ */
+export function FlameGraph({
+  node,
+  selectedRaHash,
+  onSelect,
+}: Props): JSX.Element {
+  const children = node.children.filter((child) => child.totalMillis > 0);
+
+  return (
+    <Column>
+      <Bar
+        $isPredicate={node.raHash !== undefined}
+        $selected={node.raHash !== undefined && node.raHash === selectedRaHash}
+        title={formatTitle(node)}
+        onClick={() => onSelect(node)}
+      >
+        {node.label}
+      </Bar>
+      {children.length > 0 && (
+        <Row>
+          {children.map((child, index) => (
+            <div
+              key={index}
+              style={{
+                width: `${(child.totalMillis / node.totalMillis) * 100}%`,
+              }}
+            >
+              <FlameGraph
+                node={child}
+                selectedRaHash={selectedRaHash}
+                onSelect={onSelect}
+              />
+            </div>
+          ))}
+        </Row>
+      )}
+    </Column>
+  );
+}
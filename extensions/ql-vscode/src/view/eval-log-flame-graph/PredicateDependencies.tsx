@@ -0,0 +1,153 @@
+import * as React from "react";
+import { useState } from "react";
+import { styled } from "styled-components";
+
+import { PredicateNode } from "../../log-insights/predicate-graph";
+import { formatDecimal } from "../../common/number";
+import { Codicon } from "../common";
+
+type Props = {
+  topLevelPredicates: PredicateNode[];
+  predicatesByHash: Map<string, PredicateNode>;
+  selectedRaHash: string | undefined;
+  onSelect: (raHash: string) => void;
+};
+
+const Table = styled.table`
+  border-collapse: collapse;
+  width: 100%;
+
+  th,
+  td {
+    padding: 0.2em 0.5em;
+    text-align: right;
+    white-space: nowrap;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+    white-space: normal;
+    word-break: break-all;
+  }
+
+  tbody tr:hover {
+    background-color: var(--vscode-list-hoverBackground);
+  }
+`;
+
+const ExpandButton = styled.button`
+  background: none;
+  border: none;
+  color: inherit;
+  cursor: pointer;
+  padding: 0;
+  width: 1.2em;
+`;
+
+const PredicateName = styled.a<{ $selected: boolean }>`
+  cursor: pointer;
+  font-weight: ${(props) => (props.$selected ? "bold" : "normal")};
+`;
+
+type RowProps = {
+  predicate: PredicateNode;
+  predicatesByHash: Map<string, PredicateNode>;
+  // The RA hashes of the predicates on the path to this predicate, used to
+  // avoid expanding a cycle of dependencies forever.
+  ancestors: string[];
+  selectedRaHash: string | undefined;
+  onSelect: (raHash: string) => void;
+};
+
+function DependencyRow({
+  predicate,
+  predicatesByHash,
+  ancestors,
+  selectedRaHash,
+  onSelect,
+}: RowProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const path = [...ancestors, predicate.raHash];
+  const dependencies = predicate.dependencies
+    .filter((hash) => !path.includes(hash))
+    .map((hash) => predicatesByHash.get(hash))
+    .filter((dependency): dependency is PredicateNode => !!dependency);
+
+  return (
+    <>
+      <tr>
+        <td style={{ paddingLeft: `${ancestors.length + 0.5}em` }}>
+          {dependencies.length > 0 ? (
+            <ExpandButton onClick={() => setExpanded(!expanded)}>
+              <Codicon
+                name={expanded ? "chevron-down" : "chevron-right"}
+                label={expanded ? "Collapse" : "Expand"}
+              />
+            </ExpandButton>
+          ) : (
+            <ExpandButton disabled />
+          )}
+          <PredicateName
+            $selected={predicate.raHash === selectedRaHash}
+            onClick={() => onSelect(predicate.raHash)}
+          >
+            {predicate.predicateName}
+          </PredicateName>
+        </td>
+        <td>{predicate.evaluationStrategy}</td>
+        <td>{formatDecimal(predicate.millis)}</td>
+        <td>{formatDecimal(predicate.resultSize)}</td>
+      </tr>
+      {expanded &&
+        dependencies.map((dependency) => (
+          <DependencyRow
+            key={dependency.raHash}
+            predicate={dependency}
+            predicatesByHash={predicatesByHash}
+            ancestors={path}
+            selectedRaHash={selectedRaHash}
+            onSelect={onSelect}
+          />
+        ))}
+    </>
+  );
+}
+
+/**
+ * Shows the dependency graph of the predicates as a tree, starting at the
+ * top-level predicates. Every predicate can be expanded to show the predicates
+ * it depends on.
+ */
+export function PredicateDependencies({
+  topLevelPredicates,
+  predicatesByHash,
+  selectedRaHash,
+  onSelect,
+}: Props): JSX.Element {
+  return (
+    <Table>
+      <thead>
+        <tr>
+          <th>Predicate</th>
+          <th>Evaluation strategy</th>
+          <th>Evaluation time (ms)</th>
+          <th>Result size</th>
+        </tr>
+      </thead>
+      <tbody>
+        {topLevelPredicates.map((predicate) => (
+          <DependencyRow
+            key={predicate.raHash}
+            predicate={predicate}
+            predicatesByHash={predicatesByHash}
+            ancestors={[]}
+            selectedRaHash={selectedRaHash}
+            onSelect={onSelect}
+          />
+        ))}
+      </tbody>
+    </Table>
+  );
+}
@@ -0,0 +1,89 @@
+import * as React from "react";
+import { styled } from "styled-components";
+
+import { PredicateNode } from "../../log-insights/predicate-graph";
+import { formatDecimal } from "../../common/number";
+import { SectionTitle } from "../common";
+
+type Props = {
+  predicate: PredicateNode;
+  cumulativeMillis: number | undefined;
+  dependencies: PredicateNode[];
+  dependents: PredicateNode[];
+  onSelect: (raHash: string) => void;
+};
+
+const Container = styled.div`
+  margin-top: 1em;
+  padding-top: 0.5em;
+  border-top: 1px solid var(--vscode-panel-border);
+`;
+
+const PredicateLink = styled.a`
+  cursor: pointer;
+  word-break: break-all;
+`;
+
+const Pipeline = styled.pre`
+  padding: 0.5em;
+  overflow-x: auto;
+  background-color: var(--vscode-textCodeBlock-background);
+`;
+
+function PredicateList({
+  predicates,
+  onSelect,
+}: {
+  predicates: PredicateNode[];
+  onSelect: (raHash: string) => void;
+}) {
+  if (predicates.length === 0) {
+    return <p>None</p>;
+  }
+
+  return (
+    <ul>
+      {predicates.map((predicate) => (
+        <li key={predicate.raHash}>
+          <PredicateLink onClick={() => onSelect(predicate.raHash)}>
+            {predicate.predicateName}
+          </PredicateLink>{" "}
+          ({formatDecimal(predicate.millis)} ms)
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Shows the timing, the dependencies and the RA of a single predicate.
+ */
+export function PredicateDetails({
+  predicate,
+  cumulativeMillis,
+  dependencies,
+  dependents,
+  onSelect,
+}: Props): JSX.Element {
+  return (
+    <Container>
+      <SectionTitle>{predicate.predicateName}</SectionTitle>
+      <p>
+        {predicate.evaluationStrategy}: {formatDecimal(predicate.millis)} ms
+        {cumulativeMillis !== undefined &&
+          ` (${formatDecimal(cumulativeMillis)} ms cumulative)`}
+        , {formatDecimal(predicate.resultSize)} tuples
+      </p>
+      <h4>Depends on</h4>
+      <PredicateList predicates={dependencies} onSelect={onSelect} />
+      <h4>Used by</h4>
+      <PredicateList predicates={dependents} onSelect={onSelect} />
+      {Object.entries(predicate.ra).map(([pipelineName, steps]) => (
+        <React.Fragment key={pipelineName}>
+          <h4>RA pipeline: {pipelineName}</h4>
+          <Pipeline>{steps.join("\n")}</Pipeline>
+        </React.Fragment>
+      ))}
+    </Container>
+  );
+}
@@ -0,0 +1,9 @@
+import * as React from "react";
+import { WebviewDefinition } from "../webview-definition";
+import { EvalLogFlameGraph } from "./EvalLogFlameGraph";
+
+const definition: WebviewDefinition = {
+  component: <EvalLogFlameGraph />,
+};
+
+export default definition;
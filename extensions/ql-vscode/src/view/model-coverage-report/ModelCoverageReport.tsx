@@ -0,0 +1,240 @@
+import * as React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { styled } from "styled-components";
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react";
+
+import { ToModelCoverageReportMessage } from "../../common/interface-types";
+import {
+  getModelCoverageProvenances,
+  LibraryModelCoverage,
+  LibraryModelCoverageSortColumn,
+  ModelCoverageReport as ModelCoverageReportData,
+  ModelCoverageReportFormat,
+  modelCoverageTypes,
+  sortLibraryModelCoverage,
+} from "../../model-editor/model-coverage-report";
+import { Codicon, ViewTitle } from "../common";
+import { sendTelemetry } from "../common/telemetry";
+import { vscode } from "../vscode-api";
+import { percentFormatter } from "../model-editor/formatters";
+
+type ModelCoverageReportProps = {
+  initialReport?: ModelCoverageReportData;
+};
+
+const columns: Array<{
+  column: LibraryModelCoverageSortColumn;
+  label: string;
+}> = [
+  { column: "library", label: "Library" },
+  { column: "totalMethods", label: "Methods" },
+  { column: "modeledMethods", label: "Modeled" },
+  { column: "modeledPercentage", label: "Modeled %" },
+  { column: "source", label: "Sources" },
+  { column: "sink", label: "Sinks" },
+  { column: "summary", label: "Summaries" },
+  { column: "neutral", label: "Neutrals" },
+];
+
+const Actions = styled.div`
+  display: flex;
+  gap: 0.5em;
+  margin-bottom: 1em;
+`;
+
+const Table = styled.table`
+  border-collapse: collapse;
+  width: 100%;
+
+  th,
+  td {
+    padding: 0.2em 0.5em;
+    text-align: right;
+    white-space: nowrap;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+    white-space: normal;
+    word-break: break-all;
+  }
+
+  tbody tr:hover {
+    background-color: var(--vscode-list-hoverBackground);
+  }
+`;
+
+const SortHeader = styled.th<{ $selected: boolean }>`
+  cursor: pointer;
+  text-decoration: ${(props) => (props.$selected ? "underline" : "none")};
+`;
+
+const LibraryName = styled.span`
+  cursor: pointer;
+`;
+
+const UnmodeledMethodsCell = styled.td`
+  padding-left: 2em !important;
+`;
+
+function LibraryRows({
+  library,
+  provenances,
+}: {
+  library: LibraryModelCoverage;
+  provenances: string[];
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  const toggleExpanded = useCallback(() => {
+    setExpanded((oldExpanded) => !oldExpanded);
+  }, []);
+
+  return (
+    <>
+      <tr>
+        <td>
+          <LibraryName onClick={toggleExpanded}>
+            {expanded ? (
+              <Codicon name="chevron-down" label="Collapse" />
+            ) : (
+              <Codicon name="chevron-right" label="Expand" />
+            )}
+            {library.library}
+            {library.libraryVersion && `@${library.libraryVersion}`}
+          </LibraryName>
+        </td>
+        <td>{library.totalMethods}</td>
+        <td>{library.modeledMethods}</td>
+        <td>{percentFormatter.format(library.modeledPercentage / 100)}</td>
+        {modelCoverageTypes.map((type) => (
+          <td key={type}>{library.modeledByType[type]}</td>
+        ))}
+        {provenances.map((provenance) => (
+          <td key={provenance}>
+            {library.modeledByProvenance[provenance] ?? 0}
+          </td>
+        ))}
+      </tr>
+      {expanded &&
+        (library.unmodeledMethods.length === 0 ? (
+          <tr>
+            <UnmodeledMethodsCell>
+              All methods are modeled.
+            </UnmodeledMethodsCell>
+          </tr>
+        ) : (
+          library.unmodeledMethods.map((method) => (
+            <tr key={method.signature}>
+              <UnmodeledMethodsCell>{method.signature}</UnmodeledMethodsCell>
+              <td>
+                {method.usages} {method.usages === 1 ? "usage" : "usages"}
+              </td>
+            </tr>
+          ))
+        ))}
+    </>
+  );
+}
+
+export function ModelCoverageReport({
+  initialReport,
+}: ModelCoverageReportProps): JSX.Element {
+  const [report, setReport] = useState<ModelCoverageReportData | undefined>(
+    initialReport,
+  );
+  const [sortColumn, setSortColumn] =
+    useState<LibraryModelCoverageSortColumn>("library");
+
+  useEffect(() => {
+    const listener = (evt: MessageEvent) => {
+      if (evt.origin === window.origin) {
+        const msg: ToModelCoverageReportMessage = evt.data;
+        if (msg.t === "setModelCoverageReport") {
+          setReport(msg.report);
+        }
+      } else {
+        // sanitize origin
+        const origin = evt.origin.replace(/\n|\r/g, "");
+        console.error(`Invalid event origin ${origin}`);
+      }
+    };
+    window.addEventListener("message", listener);
+
+    return () => {
+      window.removeEventListener("message", listener);
+    };
+  }, []);
+
+  const sortedLibraries = useMemo(
+    () =>
+      report ? sortLibraryModelCoverage(report.libraries, sortColumn) : [],
+    [report, sortColumn],
+  );
+
+  const provenances = useMemo(
+    () => (report ? getModelCoverageProvenances(report) : []),
+    [report],
+  );
+
+  const exportReport = useCallback((format: ModelCoverageReportFormat) => {
+    vscode.postMessage({
+      t: "exportModelCoverageReport",
+      format,
+    });
+  }, []);
+
+  if (!report) {
+    return <div>Waiting for the model coverage report to load.</div>;
+  }
+
+  return (
+    <>
+      <ViewTitle>
+        Model coverage of {report.databaseName} ({report.extensionPackName})
+      </ViewTitle>
+      <Actions>
+        <VSCodeButton onClick={() => exportReport("markdown")}>
+          Export as Markdown
+        </VSCodeButton>
+        <VSCodeButton
+          appearance="secondary"
+          onClick={() => exportReport("csv")}
+        >
+          Export as CSV
+        </VSCodeButton>
+      </Actions>
+      <Table>
+        <thead>
+          <tr>
+            {columns.map(({ column, label }) => (
+              <SortHeader
+                key={column}
+                $selected={column === sortColumn}
+                onClick={() => {
+                  setSortColumn(column);
+                  sendTelemetry("model-coverage-report-sort");
+                }}
+              >
+                {label}
+              </SortHeader>
+            ))}
+            {provenances.map((provenance) => (
+              <th key={provenance}>{provenance}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedLibraries.map((library) => (
+            <LibraryRows
+              key={`${library.library}@${library.libraryVersion ?? ""}`}
+              library={library}
+              provenances={provenances}
+            />
+          ))}
+        </tbody>
+      </Table>
+    </>
+  );
+}
@@ -0,0 +1,9 @@
+import * as React from "react";
+import { WebviewDefinition } from "../webview-definition";
+import { ModelCoverageReport } from "./ModelCoverageReport";
+
+const definition: WebviewDefinition = {
+  component: <ModelCoverageReport />,
+};
+
+export default definition;
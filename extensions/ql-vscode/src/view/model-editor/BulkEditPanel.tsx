@@ -0,0 +1,224 @@
+import * as React from "react";
+import { ChangeEvent, useCallback, useMemo, useState } from "react";
+import { styled } from "styled-components";
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react";
+import { Method } from "../../model-editor/method";
+import { ModeledMethod } from "../../model-editor/modeled-method";
+import { QueryLanguage } from "../../common/query-language";
+import { getModelsAsDataLanguage } from "../../model-editor/languages";
+import {
+  BulkModel,
+  createBulkModeledMethods,
+} from "../../model-editor/shared/model-template";
+import { Dropdown } from "../common/Dropdown";
+import { pluralize } from "../../common/word";
+
+const Container = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5em;
+  align-items: center;
+  padding: 0.3rem;
+  margin-bottom: 0.5rem;
+  border-radius: 0.3rem;
+  background-color: var(--vscode-editor-background);
+`;
+
+const SelectionCount = styled.span`
+  font-weight: 600;
+`;
+
+const BulkDropdown = styled(Dropdown)`
+  width: auto;
+  min-width: 8em;
+`;
+
+const typeOptions: Array<{ value: BulkModel["type"]; label: string }> = [
+  { value: "source", label: "Source" },
+  { value: "sink", label: "Sink" },
+  { value: "summary", label: "Flow summary" },
+  { value: "neutral", label: "Neutral" },
+];
+
+type BulkEditPanelProps = {
+  language: QueryLanguage;
+  selectedMethods: Method[];
+  onApply: (modeledMethods: Record<string, ModeledMethod[]>) => void;
+  onSaveAsTemplate: (methodSignatures: string[], model: BulkModel) => void;
+  onClearSelection: () => void;
+};
+
+/**
+ * Allows applying the same model to all selected methods at once, or saving it as a
+ * model template that can be applied to other libraries.
+ */
+export const BulkEditPanel = ({
+  language,
+  selectedMethods,
+  onApply,
+  onSaveAsTemplate,
+  onClearSelection,
+}: BulkEditPanelProps) => {
+  const modelsAsDataLanguage = useMemo(
+    () => getModelsAsDataLanguage(language),
+    [language],
+  );
+
+  const availableTypeOptions = useMemo(
+    () =>
+      typeOptions.filter(
+        (option) => modelsAsDataLanguage.predicates[option.value],
+      ),
+    [modelsAsDataLanguage],
+  );
+
+  // The argument options differ per method, so offer all arguments of any of the selected
+  // methods. The model is only applied to the methods that have the selected argument.
+  const argumentOptions = useMemo(() => {
+    const paths = new Set<string>();
+    for (const method of selectedMethods) {
+      for (const option of modelsAsDataLanguage.getArgumentOptions(method)
+        .options) {
+        paths.add(option.path);
+      }
+    }
+    return Array.from(paths).map((path) => ({ value: path, label: path }));
+  }, [modelsAsDataLanguage, selectedMethods]);
+
+  const outputOptions = useMemo(
+    () => [{ value: "ReturnValue", label: "ReturnValue" }, ...argumentOptions],
+    [argumentOptions],
+  );
+
+  const [selectedModel, setSelectedModel] = useState<Partial<BulkModel>>({});
+
+  const type = availableTypeOptions.some(
+    (option) => option.value === selectedModel.type,
+  )
+    ? selectedModel.type
+    : availableTypeOptions[0]?.value;
+
+  const kindOptions = useMemo(
+    () =>
+      (
+        (type && modelsAsDataLanguage.predicates[type]?.supportedKinds) ??
+        []
+      ).map((kind) => ({ value: kind, label: kind })),
+    [modelsAsDataLanguage, type],
+  );
+
+  const model: BulkModel | undefined = useMemo(() => {
+    if (!type) {
+      return undefined;
+    }
+
+    const valueOrDefault = (
+      value: string | undefined,
+      options: Array<{ value: string }>,
+    ) =>
+      options.some((option) => option.value === value)
+        ? (value as string)
+        : options[0]?.value ?? "";
+
+    return {
+      type,
+      input: valueOrDefault(selectedModel.input, argumentOptions),
+      output: valueOrDefault(selectedModel.output, outputOptions),
+      kind: valueOrDefault(selectedModel.kind, kindOptions),
+    };
+  }, [type, selectedModel, argumentOptions, outputOptions, kindOptions]);
+
+  const modeledMethods = useMemo(
+    () =>
+      model ? createBulkModeledMethods(selectedMethods, model, language) : {},
+    [model, selectedMethods, language],
+  );
+  const numApplicableMethods = Object.keys(modeledMethods).length;
+
+  const handleTypeChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    // The kinds depend on the type, so use the default kind of the new type
+    setSelectedModel((oldModel) => ({
+      ...oldModel,
+      type: e.target.value as BulkModel["type"],
+      kind: undefined,
+    }));
+  }, []);
+
+  const handleInputChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    setSelectedModel((oldModel) => ({ ...oldModel, input: e.target.value }));
+  }, []);
+
+  const handleOutputChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      setSelectedModel((oldModel) => ({ ...oldModel, output: e.target.value }));
+    },
+    [],
+  );
+
+  const handleKindChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    setSelectedModel((oldModel) => ({ ...oldModel, kind: e.target.value }));
+  }, []);
+
+  const handleApply = useCallback(() => {
+    onApply(modeledMethods);
+  }, [modeledMethods, onApply]);
+
+  const handleSaveAsTemplate = useCallback(() => {
+    if (!model) {
+      return;
+    }
+
+    onSaveAsTemplate(
+      selectedMethods.map((method) => method.signature),
+      model,
+    );
+  }, [model, selectedMethods, onSaveAsTemplate]);
+
+  return (
+    <Container data-testid="bulk-edit-panel">
+      <SelectionCount>
+        {pluralize(selectedMethods.length, "method", "methods")} selected
+      </SelectionCount>
+      <BulkDropdown
+        value={model?.type}
+        options={availableTypeOptions}
+        onChange={handleTypeChange}
+        aria-label="Bulk model type"
+      />
+      <BulkDropdown
+        value={model?.input}
+        options={argumentOptions}
+        disabled={model?.type !== "sink" && model?.type !== "summary"}
+        onChange={handleInputChange}
+        aria-label="Bulk input"
+      />
+      <BulkDropdown
+        value={model?.output}
+        options={outputOptions}
+        disabled={model?.type !== "source" && model?.type !== "summary"}
+        onChange={handleOutputChange}
+        aria-label="Bulk output"
+      />
+      <BulkDropdown
+        value={model?.kind}
+        options={kindOptions}
+        disabled={kindOptions.length === 0}
+        onChange={handleKindChange}
+        aria-label="Bulk kind"
+      />
+      <VSCodeButton onClick={handleApply} disabled={numApplicableMethods === 0}>
+        Apply to {pluralize(numApplicableMethods, "method", "methods")}
+      </VSCodeButton>
+      <VSCodeButton
+        appearance="secondary"
+        onClick={handleSaveAsTemplate}
+        disabled={!model}
+      >
+        Save as template
+      </VSCodeButton>
+      <VSCodeButton appearance="secondary" onClick={onClearSelection}>
+        Clear selection
+      </VSCodeButton>
+    </Container>
+  );
+};
@@ -14,6 +14,8 @@ import {
   VSCodeTag,
 } from "@vscode/webview-ui-toolkit/react";
 import { ModelEditorViewState } from "../../model-editor/shared/view-state";
+import { BulkModel } from "../../model-editor/shared/model-template";
+import { BulkEditPanel } from "./BulkEditPanel";
 
 const LibraryContainer = styled.div`
   background-color: var(--vscode-peekViewResult-background);
@@ -77,7 +79,12 @@ export type LibraryRowProps = {
   hideModeledMethods: boolean;
   revealedMethodSignature: string | null;
   onChange: (methodSignature: string, modeledMethods: ModeledMethod[]) => void;
+  onBulkChange: (modeledMethods: Record<string, ModeledMethod[]>) => void;
   onSaveModelClick: (methodSignatures: string[]) => void;
+  onSaveModelTemplateClick: (
+    methodSignatures: string[],
+    model: BulkModel,
+  ) => void;
   onGenerateFromLlmClick: (
     dependencyName: string,
     methodSignatures: string[],
@@ -98,7 +105,9 @@ export const LibraryRow = ({
   hideModeledMethods,
   revealedMethodSignature,
   onChange,
+  onBulkChange,
   onSaveModelClick,
+  onSaveModelTemplateClick,
   onGenerateFromLlmClick,
   onStopGenerateFromLlmClick,
   onGenerateFromSourceClick,
@@ -110,6 +119,44 @@ export const LibraryRow = ({
 
   const [isExpanded, setExpanded] = useState(false);
 
+  const [selectedSignatures, setSelectedSignatures] = useState<Set<string>>(
+    new Set(),
+  );
+
+  const selectedMethods = useMemo(
+    () => methods.filter((method) => selectedSignatures.has(method.signature)),
+    [methods, selectedSignatures],
+  );
+
+  const handleSelectedChange = useCallback(
+    (methodSignatures: string[], selected: boolean) => {
+      setSelectedSignatures((oldSelectedSignatures) => {
+        const newSelectedSignatures = new Set(oldSelectedSignatures);
+        for (const methodSignature of methodSignatures) {
+          if (selected) {
+            newSelectedSignatures.add(methodSignature);
+          } else {
+            newSelectedSignatures.delete(methodSignature);
+          }
+        }
+        return newSelectedSignatures;
+      });
+    },
+    [],
+  );
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedSignatures(new Set());
+  }, []);
+
+  const handleBulkApply = useCallback(
+    (modeledMethods: Record<string, ModeledMethod[]>) => {
+      onBulkChange(modeledMethods);
+      setSelectedSignatures(new Set());
+    },
+    [onBulkChange],
+  );
+
   const toggleExpanded = useCallback(async () => {
     setExpanded((oldIsExpanded) => !oldIsExpanded);
   }, []);
@@ -225,6 +272,15 @@ export const LibraryRow = ({
       {isExpanded && (
         <>
           <SectionDivider />
+          {selectedMethods.length > 0 && (
+            <BulkEditPanel
+              language={viewState.language}
+              selectedMethods={selectedMethods}
+              onApply={handleBulkApply}
+              onSaveAsTemplate={onSaveModelTemplateClick}
+              onClearSelection={handleClearSelection}
+            />
+          )}
           <ModeledMethodDataGrid
             methods={methods}
             modeledMethodsMap={modeledMethodsMap}
@@ -233,7 +289,9 @@ export const LibraryRow = ({
             viewState={viewState}
             hideModeledMethods={hideModeledMethods}
             revealedMethodSignature={revealedMethodSignature}
+            selectedSignatures={selectedSignatures}
             onChange={onChange}
+            onSelectedChange={handleSelectedChange}
           />
           <SectionDivider />
           <ButtonsContainer>
@@ -1,10 +1,12 @@
 import {
   VSCodeButton,
+  VSCodeCheckbox,
   VSCodeLink,
   VSCodeProgressRing,
 } from "@vscode/webview-ui-toolkit/react";
 import * as React from "react";
 import {
+  ChangeEvent,
   forwardRef,
   useCallback,
   useEffect,
@@ -74,7 +76,9 @@ export type MethodRowProps = {
   modelingInProgress: boolean;
   viewState: ModelEditorViewState;
   revealedMethodSignature: string | null;
+  selected?: boolean;
   onChange: (methodSignature: string, modeledMethods: ModeledMethod[]) => void;
+  onSelectedChange?: (methodSignatures: string[], selected: boolean) => void;
 };
 
 export const MethodRow = (props: MethodRowProps) => {
@@ -106,7 +110,9 @@ const ModelableMethodRow = forwardRef<HTMLElement | undefined, MethodRowProps>(
       methodIsUnsaved,
       viewState,
       revealedMethodSignature,
+      selected,
       onChange,
+      onSelectedChange,
     } = props;
 
     const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
@@ -179,6 +185,18 @@ const ModelableMethodRow = forwardRef<HTMLElement | undefined, MethodRowProps>(
       [method],
     );
 
+    const handleSelectedChange = useCallback(
+      (e: ChangeEvent<HTMLInputElement>) => {
+        // This is called on first render, but we don't really care about this value
+        if (e.target.checked === undefined) {
+          return;
+        }
+
+        onSelectedChange?.([method.signature], e.target.checked);
+      },
+      [method, onSelectedChange],
+    );
+
     const modelingStatus = getModelingStatus(modeledMethods, methodIsUnsaved);
 
     const addModelButtonDisabled = !canAddNewModeledMethod(modeledMethods);
@@ -193,6 +211,13 @@ const ModelableMethodRow = forwardRef<HTMLElement | undefined, MethodRowProps>(
           ref={ref}
         >
           <ApiOrMethodRow>
+            {onSelectedChange && (
+              <VSCodeCheckbox
+                checked={selected}
+                onChange={handleSelectedChange}
+                aria-label="Select method"
+              />
+            )}
             <ModelingStatusIndicator status={modelingStatus} />
             <MethodClassifications method={method} />
             <MethodName {...props.method} />
@@ -19,6 +19,7 @@ import { percentFormatter } from "./formatters";
 import { Mode } from "../../model-editor/shared/mode";
 import { getLanguageDisplayName } from "../../common/query-language";
 import { INITIAL_HIDE_MODELED_METHODS_VALUE } from "../../model-editor/shared/hide-modeled-methods";
+import { BulkModel } from "../../model-editor/shared/model-template";
 
 const LoadingContainer = styled.div`
   text-align: center;
@@ -186,6 +187,33 @@ export function ModelEditor({
     [],
   );
 
+  const onBulkChange = useCallback(
+    (modeledMethods: Record<string, ModeledMethod[]>) => {
+      vscode.postMessage({
+        t: "setBulkModeledMethods",
+        modeledMethods,
+      });
+    },
+    [],
+  );
+
+  const onSaveModelTemplateClick = useCallback(
+    (methodSignatures: string[], model: BulkModel) => {
+      vscode.postMessage({
+        t: "saveModelTemplate",
+        methodSignatures,
+        model,
+      });
+    },
+    [],
+  );
+
+  const onApplyModelTemplatesClick = useCallback(() => {
+    vscode.postMessage({
+      t: "applyModelTemplates",
+    });
+  }, []);
+
   const onRefreshClick = useCallback(() => {
     vscode.postMessage({
       t: "refreshMethods",
@@ -198,6 +226,12 @@ export function ModelEditor({
     });
   }, []);
 
+  const onPreviewImpactClick = useCallback(() => {
+    vscode.postMessage({
+      t: "previewModelImpact",
+    });
+  }, []);
+
   const onSaveModelClick = useCallback((methodSignatures: string[]) => {
     vscode.postMessage({
       t: "saveModeledMethods",
@@ -320,6 +354,19 @@ export function ModelEditor({
           >
             Save all
           </VSCodeButton>
+          <VSCodeButton
+            appearance="secondary"
+            onClick={onPreviewImpactClick}
+            disabled={modifiedSignatures.size === 0}
+          >
+            Preview impact
+          </VSCodeButton>
+          <VSCodeButton
+            appearance="secondary"
+            onClick={onApplyModelTemplatesClick}
+          >
+            Apply templates
+          </VSCodeButton>
           <VSCodeButton appearance="secondary" onClick={onRefreshClick}>
             Refresh
           </VSCodeButton>
@@ -339,7 +386,9 @@ export function ModelEditor({
           hideModeledMethods={hideModeledMethods}
           revealedMethodSignature={revealedMethodSignature}
           onChange={onChange}
+          onBulkChange={onBulkChange}
           onSaveModelClick={onSaveModelClick}
+          onSaveModelTemplateClick={onSaveModelTemplateClick}
           onGenerateFromLlmClick={onGenerateFromLlmClick}
           onStopGenerateFromLlmClick={onStopGenerateFromLlmClick}
           onGenerateFromSourceClick={onGenerateFromSourceClick}
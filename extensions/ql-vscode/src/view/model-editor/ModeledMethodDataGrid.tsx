@@ -2,12 +2,20 @@ import * as React from "react";
 import { MethodRow } from "./MethodRow";
 import { Method, canMethodBeModeled } from "../../model-editor/method";
 import { ModeledMethod } from "../../model-editor/modeled-method";
-import { useMemo } from "react";
+import { ChangeEvent, useCallback, useMemo } from "react";
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react";
 import { sortMethods } from "../../model-editor/shared/sorting";
 import { HiddenMethodsRow } from "./HiddenMethodsRow";
 import { ModelEditorViewState } from "../../model-editor/shared/view-state";
 import { ScreenReaderOnly } from "../common/ScreenReaderOnly";
 import { DataGrid, DataGridCell } from "../common/DataGrid";
+import { styled } from "styled-components";
+
+const HeaderContainer = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.5em;
+`;
 
 export const SINGLE_MODEL_GRID_TEMPLATE_COLUMNS =
   "0.5fr 0.125fr 0.125fr 0.125fr 0.125fr";
@@ -22,7 +30,9 @@ export type ModeledMethodDataGridProps = {
   viewState: ModelEditorViewState;
   hideModeledMethods: boolean;
   revealedMethodSignature: string | null;
+  selectedSignatures?: Set<string>;
   onChange: (methodSignature: string, modeledMethods: ModeledMethod[]) => void;
+  onSelectedChange?: (methodSignatures: string[], selected: boolean) => void;
 };
 
 export const ModeledMethodDataGrid = ({
@@ -33,7 +43,9 @@ export const ModeledMethodDataGrid = ({
   viewState,
   hideModeledMethods,
   revealedMethodSignature,
+  selectedSignatures,
   onChange,
+  onSelectedChange,
 }: ModeledMethodDataGridProps) => {
   const [methodsWithModelability, numHiddenMethods]: [
     Array<{ method: Method; methodCanBeModeled: boolean }>,
@@ -61,6 +73,32 @@ export const ModeledMethodDataGrid = ({
 
   const someMethodsAreVisible = methodsWithModelability.length > 0;
 
+  const selectableSignatures = useMemo(
+    () =>
+      methodsWithModelability
+        .filter(({ methodCanBeModeled }) => methodCanBeModeled)
+        .map(({ method }) => method.signature),
+    [methodsWithModelability],
+  );
+
+  const allMethodsSelected =
+    selectableSignatures.length > 0 &&
+    selectableSignatures.every(
+      (signature) => selectedSignatures?.has(signature),
+    );
+
+  const handleSelectAllChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      // This is called on first render, but we don't really care about this value
+      if (e.target.checked === undefined) {
+        return;
+      }
+
+      onSelectedChange?.(selectableSignatures, e.target.checked);
+    },
+    [selectableSignatures, onSelectedChange],
+  );
+
   const gridTemplateColumns = viewState.showMultipleModels
     ? MULTIPLE_MODELS_GRID_TEMPLATE_COLUMNS
     : SINGLE_MODEL_GRID_TEMPLATE_COLUMNS;
@@ -69,7 +107,19 @@ export const ModeledMethodDataGrid = ({
     <DataGrid gridTemplateColumns={gridTemplateColumns}>
       {someMethodsAreVisible && (
         <>
-          <DataGridCell rowType="header">API or method</DataGridCell>
+          <DataGridCell rowType="header">
+            <HeaderContainer>
+              {onSelectedChange && (
+                <VSCodeCheckbox
+                  checked={allMethodsSelected}
+                  disabled={selectableSignatures.length === 0}
+                  onChange={handleSelectAllChange}
+                  aria-label="Select all methods"
+                />
+              )}
+              API or method
+            </HeaderContainer>
+          </DataGridCell>
           <DataGridCell rowType="header">Model type</DataGridCell>
           <DataGridCell rowType="header">Input</DataGridCell>
           <DataGridCell rowType="header">Output</DataGridCell>
@@ -91,7 +141,9 @@ export const ModeledMethodDataGrid = ({
                 modelingInProgress={inProgressMethods.has(method.signature)}
                 viewState={viewState}
                 revealedMethodSignature={revealedMethodSignature}
+                selected={selectedSignatures?.has(method.signature)}
                 onChange={onChange}
+                onSelectedChange={onSelectedChange}
               />
             );
           })}
@@ -9,6 +9,7 @@ import {
   sortGroupNames,
 } from "../../model-editor/shared/sorting";
 import { ModelEditorViewState } from "../../model-editor/shared/view-state";
+import { BulkModel } from "../../model-editor/shared/model-template";
 
 export type ModeledMethodsListProps = {
   methods: Method[];
@@ -19,7 +20,12 @@ export type ModeledMethodsListProps = {
   viewState: ModelEditorViewState;
   hideModeledMethods: boolean;
   onChange: (methodSignature: string, modeledMethods: ModeledMethod[]) => void;
+  onBulkChange: (modeledMethods: Record<string, ModeledMethod[]>) => void;
   onSaveModelClick: (methodSignatures: string[]) => void;
+  onSaveModelTemplateClick: (
+    methodSignatures: string[],
+    model: BulkModel,
+  ) => void;
   onGenerateFromLlmClick: (
     packageName: string,
     methodSignatures: string[],
@@ -42,7 +48,9 @@ export const ModeledMethodsList = ({
   hideModeledMethods,
   revealedMethodSignature,
   onChange,
+  onBulkChange,
   onSaveModelClick,
+  onSaveModelTemplateClick,
   onGenerateFromLlmClick,
   onStopGenerateFromLlmClick,
   onGenerateFromSourceClick,
@@ -88,7 +96,9 @@ export const ModeledMethodsList = ({
           hideModeledMethods={hideModeledMethods}
           revealedMethodSignature={revealedMethodSignature}
           onChange={onChange}
+          onBulkChange={onBulkChange}
           onSaveModelClick={onSaveModelClick}
+          onSaveModelTemplateClick={onSaveModelTemplateClick}
           onGenerateFromLlmClick={onGenerateFromLlmClick}
           onStopGenerateFromLlmClick={onStopGenerateFromLlmClick}
           onGenerateFromSourceClick={onGenerateFromSourceClick}
@@ -0,0 +1,105 @@
+import * as React from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { BulkEditPanel } from "../BulkEditPanel";
+import { createMethod } from "../../../../test/factories/model-editor/method-factories";
+import { QueryLanguage } from "../../../common/query-language";
+
+describe(BulkEditPanel.name, () => {
+  const createQuery = createMethod({
+    signature: "org.sql2o.Connection#createQuery(String)",
+    packageName: "org.sql2o",
+    typeName: "Connection",
+    methodName: "createQuery",
+    methodParameters: "(String)",
+    supported: false,
+  });
+  const open = createMethod({
+    signature: "org.sql2o.Connection#open()",
+    packageName: "org.sql2o",
+    typeName: "Connection",
+    methodName: "open",
+    methodParameters: "()",
+    supported: false,
+  });
+
+  const onApply = jest.fn();
+  const onSaveAsTemplate = jest.fn();
+  const onClearSelection = jest.fn();
+
+  beforeEach(() => {
+    onApply.mockReset();
+    onSaveAsTemplate.mockReset();
+    onClearSelection.mockReset();
+  });
+
+  const renderPanel = () =>
+    render(
+      <BulkEditPanel
+        language={QueryLanguage.Java}
+        selectedMethods={[createQuery, open]}
+        onApply={onApply}
+        onSaveAsTemplate={onSaveAsTemplate}
+        onClearSelection={onClearSelection}
+      />,
+    );
+
+  it("applies the model to the methods it can be applied to", async () => {
+    renderPanel();
+
+    await userEvent.selectOptions(
+      screen.getByLabelText("Bulk model type"),
+      "sink",
+    );
+    await userEvent.selectOptions(
+      screen.getByLabelText("Bulk input"),
+      "Argument[0]",
+    );
+    await userEvent.selectOptions(
+      screen.getByLabelText("Bulk kind"),
+      "sql-injection",
+    );
+
+    expect(screen.getByText("2 methods selected")).toBeInTheDocument();
+    await userEvent.click(screen.getByText("Apply to 1 method"));
+
+    expect(onApply).toHaveBeenCalledWith({
+      [createQuery.signature]: [
+        expect.objectContaining({
+          type: "sink",
+          input: "Argument[0]",
+          kind: "sql-injection",
+          provenance: "manual",
+        }),
+      ],
+    });
+  });
+
+  it("saves the model as a template", async () => {
+    renderPanel();
+
+    await userEvent.selectOptions(
+      screen.getByLabelText("Bulk model type"),
+      "summary",
+    );
+    await userEvent.click(screen.getByText("Save as template"));
+
+    expect(onSaveAsTemplate).toHaveBeenCalledWith(
+      [createQuery.signature, open.signature],
+      {
+        type: "summary",
+        input: "Argument[this]",
+        output: "ReturnValue",
+        kind: "taint",
+      },
+    );
+  });
+
+  it("clears the selection", async () => {
+    renderPanel();
+
+    await userEvent.click(screen.getByText("Clear selection"));
+
+    expect(onClearSelection).toHaveBeenCalledTimes(1);
+  });
+});
@@ -41,6 +41,8 @@ describe(LibraryRow.name, () => {
         onSaveModelClick={onSaveModelClick}
         onGenerateFromLlmClick={onGenerateFromLlmClick}
         onStopGenerateFromLlmClick={onStopGenerateFromLlmClick}
+        onBulkChange={jest.fn()}
+        onSaveModelTemplateClick={jest.fn()}
         onGenerateFromSourceClick={jest.fn()}
         onModelDependencyClick={onModelDependencyClick}
         {...props}
@@ -109,4 +111,22 @@ describe(LibraryRow.name, () => {
 
     expect(screen.getByText("Save")).toBeInTheDocument();
   });
+
+  it("shows the bulk edit panel when methods are selected", async () => {
+    render();
+
+    await userEvent.click(
+      screen.getByRole("button", {
+        name: /sql2o@1.6.0/,
+      }),
+    );
+
+    expect(screen.queryByTestId("bulk-edit-panel")).not.toBeInTheDocument();
+
+    // The first checkbox selects all methods
+    await userEvent.click(screen.getAllByRole("checkbox")[1]);
+
+    expect(screen.getByTestId("bulk-edit-panel")).toBeInTheDocument();
+    expect(screen.getByText("1 method selected")).toBeInTheDocument();
+  });
 });
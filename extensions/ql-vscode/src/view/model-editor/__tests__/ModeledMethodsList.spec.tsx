@@ -67,6 +67,8 @@ describe(ModeledMethodsList.name, () => {
         onSaveModelClick={onSaveModelClick}
         onGenerateFromLlmClick={onGenerateFromLlmClick}
         onStopGenerateFromLlmClick={onStopGenerateFromLlmClick}
+        onBulkChange={jest.fn()}
+        onSaveModelTemplateClick={jest.fn()}
         onGenerateFromSourceClick={jest.fn()}
         onModelDependencyClick={onModelDependencyClick}
         {...props}
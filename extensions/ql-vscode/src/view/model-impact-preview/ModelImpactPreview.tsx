@@ -0,0 +1,156 @@
+import * as React from "react";
+import { useEffect, useState } from "react";
+import * as sarif from "sarif";
+import { styled } from "styled-components";
+import { VSCodeBadge } from "@vscode/webview-ui-toolkit/react";
+
+import { ToModelImpactPreviewMessage } from "../../common/interface-types";
+import {
+  ModelImpactPreview as ModelImpactPreviewData,
+  QueryModelImpact,
+} from "../../model-editor/shared/model-impact-preview";
+import { ViewTitle } from "../common";
+import { AlertTable } from "../results/AlertTable";
+import { createResultSet } from "../compare/InterpretedCompareResultTable";
+
+import "../results/resultsView.css";
+
+type ModelImpactPreviewProps = {
+  initialPreview?: ModelImpactPreviewData;
+};
+
+const QueryHeader = styled.h3`
+  display: flex;
+  align-items: center;
+  gap: 0.5em;
+`;
+
+const SectionTitle = styled.h4`
+  margin-bottom: 0.2em;
+`;
+
+function AlertsSection({
+  title,
+  results,
+  preview,
+}: {
+  title: string;
+  results: sarif.Result[];
+  preview: ModelImpactPreviewData;
+}) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <SectionTitle>{title}</SectionTitle>
+      <AlertTable
+        resultSet={createResultSet(results, preview.sourceLocationPrefix)}
+        databaseUri={preview.databaseUri}
+        resultsPath={undefined}
+        offset={0}
+        nonemptyRawResults={false}
+        showRawResults={() => {
+          // There are no raw results in the model impact preview
+        }}
+      />
+    </>
+  );
+}
+
+function QueryImpact({
+  query,
+  preview,
+}: {
+  query: QueryModelImpact;
+  preview: ModelImpactPreviewData;
+}) {
+  return (
+    <div>
+      <QueryHeader>
+        {query.queryName}
+        <VSCodeBadge title="Added alerts">
+          +{query.addedAlerts.length}
+        </VSCodeBadge>
+        <VSCodeBadge title="Removed alerts">
+          -{query.removedAlerts.length}
+        </VSCodeBadge>
+      </QueryHeader>
+      <AlertsSection
+        title="Added alerts"
+        results={query.addedAlerts}
+        preview={preview}
+      />
+      <AlertsSection
+        title="Removed alerts"
+        results={query.removedAlerts}
+        preview={preview}
+      />
+    </div>
+  );
+}
+
+export function ModelImpactPreview({
+  initialPreview,
+}: ModelImpactPreviewProps): JSX.Element {
+  const [preview, setPreview] = useState<ModelImpactPreviewData | undefined>(
+    initialPreview,
+  );
+
+  useEffect(() => {
+    const listener = (evt: MessageEvent) => {
+      if (evt.origin === window.origin) {
+        const msg: ToModelImpactPreviewMessage = evt.data;
+        if (msg.t === "setModelImpactPreview") {
+          setPreview(msg.preview);
+        }
+      } else {
+        // sanitize origin
+        const origin = evt.origin.replace(/\n|\r/g, "");
+        console.error(`Invalid event origin ${origin}`);
+      }
+    };
+    window.addEventListener("message", listener);
+
+    return () => {
+      window.removeEventListener("message", listener);
+    };
+  }, []);
+
+  if (!preview) {
+    return <div>Waiting for the model impact preview to load.</div>;
+  }
+
+  const changedQueries = preview.queries.filter(
+    (query) => query.addedAlerts.length > 0 || query.removedAlerts.length > 0,
+  );
+  const unchangedQueries = preview.queries.filter(
+    (query) =>
+      query.addedAlerts.length === 0 && query.removedAlerts.length === 0,
+  );
+
+  return (
+    <>
+      <ViewTitle>
+        Impact of unsaved models in {preview.extensionPackName}
+      </ViewTitle>
+      {changedQueries.length === 0 && (
+        <p>
+          The unsaved models don&apos;t change the alerts of any of the{" "}
+          {preview.queries.length} queries.
+        </p>
+      )}
+      {changedQueries.map((query) => (
+        <QueryImpact key={query.queryPath} query={query} preview={preview} />
+      ))}
+      {changedQueries.length > 0 && unchangedQueries.length > 0 && (
+        <p>
+          The alerts of {unchangedQueries.length} other{" "}
+          {unchangedQueries.length === 1 ? "query are" : "queries are"}{" "}
+          unchanged.
+        </p>
+      )}
+    </>
+  );
+}
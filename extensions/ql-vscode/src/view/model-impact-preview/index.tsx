@@ -0,0 +1,9 @@
+import * as React from "react";
+import { WebviewDefinition } from "../webview-definition";
+import { ModelImpactPreview } from "./ModelImpactPreview";
+
+const definition: WebviewDefinition = {
+  component: <ModelImpactPreview />,
+};
+
+export default definition;
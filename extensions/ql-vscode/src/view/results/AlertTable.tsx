@@ -24,10 +24,15 @@ import { useScrollIntoView } from "./useScrollIntoView";
 
 type AlertTableProps = ResultTableProps & {
   resultSet: InterpretedResultSet<SarifInterpretationData>;
+  /**
+   * Whether to show the buttons for accepting alerts into the alert baseline. Only the
+   * results view supports changing the alert baseline.
+   */
+  showAlertBaselineButtons?: boolean;
 };
 
 export function AlertTable(props: AlertTableProps) {
-  const { databaseUri, resultSet } = props;
+  const { databaseUri, resultSet, showAlertBaselineButtons } = props;
 
   const [expanded, setExpanded] = useState<Set<string>>(new Set<string>());
   const [selectedItem, setSelectedItem] = useState<Keys.ResultKey | undefined>(
@@ -204,6 +209,7 @@ export function AlertTable(props: AlertTableProps) {
               sourceLocationPrefix={sourceLocationPrefix}
               updateSelectionCallback={updateSelectionCallback}
               toggleExpanded={toggle}
+              showAlertBaselineButton={showAlertBaselineButtons}
             />
           ),
         )}
@@ -2,7 +2,11 @@ import * as React from "react";
 import * as Sarif from "sarif";
 import * as Keys from "./result-keys";
 import { info, listUnordered } from "./octicons";
-import { selectableZebraStripe } from "./result-table-utils";
+import {
+  acceptedRowClassName,
+  changeAlertBaseline,
+  selectableZebraStripe,
+} from "./result-table-utils";
 import { AlertTableDropdownIndicatorCell } from "./AlertTableDropdownIndicatorCell";
 import { useCallback, useMemo } from "react";
 import { SarifLocation } from "./locations/SarifLocation";
@@ -21,6 +25,7 @@ interface Props {
     resultKey: Keys.PathNode | Keys.Result | undefined,
   ) => void;
   toggleExpanded: (e: React.MouseEvent, keys: Keys.ResultKey[]) => void;
+  showAlertBaselineButton?: boolean;
 }
 
 export function AlertTableResultRow(props: Props) {
@@ -34,6 +39,7 @@ export function AlertTableResultRow(props: Props) {
     sourceLocationPrefix,
     updateSelectionCallback,
     toggleExpanded,
+    showAlertBaselineButton,
   } = props;
 
   const resultKey: Keys.Result = useMemo(
@@ -58,6 +64,12 @@ export function AlertTableResultRow(props: Props) {
     [result, resultKey, toggleExpanded],
   );
 
+  const accepted = result.baselineState === "unchanged";
+  const handleBaselineButtonClick = useCallback(
+    () => changeAlertBaseline(result, !accepted),
+    [result, accepted],
+  );
+
   const resultRowIsSelected =
     selectedItem?.resultIndex === resultIndex &&
     selectedItem.pathIndex === undefined;
@@ -81,7 +93,11 @@ export function AlertTableResultRow(props: Props) {
     <>
       <tr
         ref={resultRowIsSelected ? selectedItemRef : undefined}
-        {...selectableZebraStripe(resultRowIsSelected, resultIndex)}
+        {...selectableZebraStripe(
+          resultRowIsSelected,
+          resultIndex,
+          ...(accepted ? [acceptedRowClassName] : []),
+        )}
       >
         {result.codeFlows === undefined ? (
           <>
@@ -99,6 +115,19 @@ export function AlertTableResultRow(props: Props) {
           </>
         )}
         <td className="vscode-codeql__location-cell">
+          {showAlertBaselineButton && (
+            <button
+              className="vscode-codeql__alert-baseline-button"
+              title={
+                accepted
+                  ? "Remove this alert from the alert baseline"
+                  : "Accept this alert by adding it to the alert baseline"
+              }
+              onClick={handleBaselineButtonClick}
+            >
+              {accepted ? "Unaccept" : "Accept"}
+            </button>
+          )}
           {result.locations && result.locations.length > 0 && (
             <SarifLocation
               loc={result.locations[0]}
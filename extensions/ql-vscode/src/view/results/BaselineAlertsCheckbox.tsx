@@ -0,0 +1,55 @@
+import * as React from "react";
+import { useCallback } from "react";
+import {
+  ALERTS_TABLE_NAME,
+  Interpretation,
+} from "../../common/interface-types";
+import { vscode } from "../vscode-api";
+import {
+  alertExtrasClassName,
+  toggleDiagnosticsClassName,
+} from "./result-table-utils";
+
+interface Props {
+  selectedTable: string;
+  interpretation: Interpretation | undefined;
+}
+
+export function BaselineAlertsCheckbox(props: Props): JSX.Element | null {
+  const { selectedTable, interpretation } = props;
+
+  const hidden = interpretation?.baseline?.hidden ?? false;
+  const handleCheckboxChanged = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      vscode.postMessage({
+        t: "toggleBaselineAlerts",
+        hidden: e.target.checked,
+      });
+    },
+    [],
+  );
+
+  if (
+    selectedTable !== ALERTS_TABLE_NAME ||
+    interpretation?.baseline === undefined ||
+    interpretation.baseline.numResults === 0
+  ) {
+    return null;
+  }
+  return (
+    <div className={alertExtrasClassName}>
+      <div className={toggleDiagnosticsClassName}>
+        <input
+          type="checkbox"
+          id="toggle-baseline-alerts"
+          name="toggle-baseline-alerts"
+          onChange={handleCheckboxChanged}
+          checked={hidden}
+        />
+        <label htmlFor="toggle-baseline-alerts">
+          Hide accepted alerts ({interpretation.baseline.numResults})
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import * as React from "react";
+import { ChangeEvent, useCallback, useEffect, useState } from "react";
+import { styled } from "styled-components";
+import {
+  VSCodeButton,
+  VSCodeTextField,
+} from "@vscode/webview-ui-toolkit/react";
+import { Column } from "../../common/bqrs-cli-types";
+import {
+  RawResultsColumnFilter,
+  RawResultsColumnFilterKind,
+  RawResultsFilterState,
+} from "../../common/interface-types";
+import { vscode } from "../vscode-api";
+import { sendTelemetry } from "../common/telemetry";
+import { Codicon } from "../common";
+import { Dropdown } from "../common/Dropdown";
+
+interface Props {
+  readonly columns: readonly Column[];
+  readonly schemaName: string;
+  readonly filterState?: RawResultsFilterState;
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.3em;
+  padding: 0.3em 0;
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.5em;
+`;
+
+const SearchField = styled(VSCodeTextField)`
+  flex-grow: 1;
+`;
+
+const ColumnDropdown = styled(Dropdown)`
+  width: 12em;
+`;
+
+const KindDropdown = styled(Dropdown)`
+  width: 10em;
+`;
+
+const FILTER_KIND_OPTIONS: Array<{
+  value: RawResultsColumnFilterKind;
+  label: string;
+}> = [
+  { value: "substring", label: "Contains" },
+  { value: "regex", label: "Matches regex" },
+  { value: "range", label: "Number between" },
+  { value: "glob", label: "File path glob" },
+];
+
+function createColumnFilter(
+  columnIndex: number,
+  kind: RawResultsColumnFilterKind,
+): RawResultsColumnFilter {
+  switch (kind) {
+    case "substring":
+      return { columnIndex, kind, text: "" };
+    case "regex":
+    case "glob":
+      return { columnIndex, kind, pattern: "" };
+    case "range":
+      return { columnIndex, kind };
+  }
+}
+
+/**
+ * A column filter with an ID that identifies its row while the filters are being
+ * edited, since the index of a row changes when another row is removed.
+ */
+interface ColumnFilterEntry {
+  id: number;
+  filter: RawResultsColumnFilter;
+}
+
+let nextColumnFilterId = 0;
+
+function createColumnFilterEntry(
+  filter: RawResultsColumnFilter,
+): ColumnFilterEntry {
+  return { id: nextColumnFilterId++, filter };
+}
+
+function parseBound(value: string): number | undefined {
+  if (value.trim() === "") {
+    return undefined;
+  }
+  const bound = Number(value);
+  return isNaN(bound) ? undefined : bound;
+}
+
+/**
+ * A search box and per-column filters for a raw result set or the alerts. Filters
+ * are only sent to the extension when they are applied, since filtering requires
+ * reading the whole result set.
+ */
+export function RawResultsFilter({ columns, schemaName, filterState }: Props) {
+  const [searchText, setSearchText] = useState(filterState?.searchText ?? "");
+  const [columnFilters, setColumnFilters] = useState<ColumnFilterEntry[]>(() =>
+    (filterState?.columnFilters ?? []).map(createColumnFilterEntry),
+  );
+
+  // Show the filter that the extension applied whenever it changes, such as when
+  // the filter is cleared because other results are shown.
+  const serializedFilterState = JSON.stringify(filterState);
+  useEffect(() => {
+    const appliedFilterState: RawResultsFilterState | undefined =
+      serializedFilterState === undefined
+        ? undefined
+        : JSON.parse(serializedFilterState);
+    setSearchText(appliedFilterState?.searchText ?? "");
+    setColumnFilters(
+      (appliedFilterState?.columnFilters ?? []).map(createColumnFilterEntry),
+    );
+  }, [serializedFilterState]);
+
+  const applyFilter = useCallback(() => {
+    vscode.postMessage({
+      t: "changeFilter",
+      resultSetName: schemaName,
+      filterState: {
+        searchText,
+        columnFilters: columnFilters.map((entry) => entry.filter),
+      },
+    });
+    sendTelemetry("local-results-filter");
+  }, [schemaName, searchText, columnFilters]);
+
+  const clearFilter = useCallback(() => {
+    setSearchText("");
+    setColumnFilters([]);
+    vscode.postMessage({
+      t: "changeFilter",
+      resultSetName: schemaName,
+      filterState: undefined,
+    });
+  }, [schemaName]);
+
+  const handleSearchInput = useCallback((e: InputEvent) => {
+    setSearchText((e.target as HTMLInputElement).value);
+  }, []);
+
+  const handleSearchKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "Enter") {
+        applyFilter();
+      }
+    },
+    [applyFilter],
+  );
+
+  const addColumnFilter = useCallback(() => {
+    setColumnFilters((entries) => [
+      ...entries,
+      createColumnFilterEntry(createColumnFilter(0, "substring")),
+    ]);
+  }, []);
+
+  const updateColumnFilter = useCallback(
+    (id: number, filter: RawResultsColumnFilter) => {
+      setColumnFilters((entries) =>
+        entries.map((entry) => (entry.id === id ? { id, filter } : entry)),
+      );
+    },
+    [],
+  );
+
+  const removeColumnFilter = useCallback((id: number) => {
+    setColumnFilters((entries) => entries.filter((entry) => entry.id !== id));
+  }, []);
+
+  const columnOptions = columns.map((column, index) => ({
+    value: index.toString(),
+    label: column.name || `[${index}]`,
+  }));
+
+  return (
+    <Container>
+      <Row>
+        <SearchField
+          placeholder="Filter results"
+          value={searchText}
+          onInput={handleSearchInput}
+          onKeyDown={handleSearchKeyDown}
+        >
+          <Codicon name="search" label="Search..." slot="start" />
+        </SearchField>
+        <VSCodeButton appearance="secondary" onClick={addColumnFilter}>
+          Add column filter
+        </VSCodeButton>
+        <VSCodeButton onClick={applyFilter}>Apply</VSCodeButton>
+        <VSCodeButton appearance="secondary" onClick={clearFilter}>
+          Clear
+        </VSCodeButton>
+      </Row>
+      {columnFilters.map(({ id, filter }) => (
+        <ColumnFilterRow
+          // The row keeps the bounds of a range filter as text, which must be
+          // reset when the kind of the filter changes.
+          key={`${id}-${filter.kind}`}
+          filter={filter}
+          columnOptions={columnOptions}
+          onChange={(newFilter) => updateColumnFilter(id, newFilter)}
+          onRemove={() => removeColumnFilter(id)}
+          onApply={applyFilter}
+        />
+      ))}
+    </Container>
+  );
+}
+
+interface ColumnFilterRowProps {
+  filter: RawResultsColumnFilter;
+  columnOptions: Array<{ value: string; label: string }>;
+  onChange: (filter: RawResultsColumnFilter) => void;
+  onRemove: () => void;
+  onApply: () => void;
+}
+
+function ColumnFilterRow({
+  filter,
+  columnOptions,
+  onChange,
+  onRemove,
+  onApply,
+}: ColumnFilterRowProps) {
+  const handleColumnChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      onChange({ ...filter, columnIndex: parseInt(e.target.value, 10) });
+    },
+    [filter, onChange],
+  );
+
+  const handleKindChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      onChange(
+        createColumnFilter(
+          filter.columnIndex,
+          e.target.value as RawResultsColumnFilterKind,
+        ),
+      );
+    },
+    [filter.columnIndex, onChange],
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "Enter") {
+        onApply();
+      }
+    },
+    [onApply],
+  );
+
+  // The bounds of a range filter are kept as text while editing, so that
+  // partial input such as "-" is not lost.
+  const [minText, setMinText] = useState(
+    filter.kind === "range" ? filter.min?.toString() ?? "" : "",
+  );
+  const [maxText, setMaxText] = useState(
+    filter.kind === "range" ? filter.max?.toString() ?? "" : "",
+  );
+
+  const inputValue = (e: InputEvent) => (e.target as HTMLInputElement).value;
+
+  let inputs: JSX.Element;
+  switch (filter.kind) {
+    case "substring":
+      inputs = (
+        <VSCodeTextField
+          placeholder="Text"
+          value={filter.text}
+          onInput={(e: InputEvent) =>
+            onChange({ ...filter, text: inputValue(e) })
+          }
+          onKeyDown={handleKeyDown}
+        />
+      );
+      break;
+    case "regex":
+    case "glob":
+      inputs = (
+        <VSCodeTextField
+          placeholder={filter.kind === "regex" ? "Regular expression" : "Glob"}
+          value={filter.pattern}
+          onInput={(e: InputEvent) =>
+            onChange({ ...filter, pattern: inputValue(e) })
+          }
+          onKeyDown={handleKeyDown}
+        />
+      );
+      break;
+    case "range":
+      inputs = (
+        <>
+          <VSCodeTextField
+            placeholder="Minimum"
+            value={minText}
+            onInput={(e: InputEvent) => {
+              setMinText(inputValue(e));
+              onChange({ ...filter, min: parseBound(inputValue(e)) });
+            }}
+            onKeyDown={handleKeyDown}
+          />
+          <VSCodeTextField
+            placeholder="Maximum"
+            value={maxText}
+            onInput={(e: InputEvent) => {
+              setMaxText(inputValue(e));
+              onChange({ ...filter, max: parseBound(inputValue(e)) });
+            }}
+            onKeyDown={handleKeyDown}
+          />
+        </>
+      );
+      break;
+  }
+
+  return (
+    <Row>
+      <ColumnDropdown
+        value={filter.columnIndex.toString()}
+        options={columnOptions}
+        onChange={handleColumnChange}
+        aria-label="Column"
+      />
+      <KindDropdown
+        value={filter.kind}
+        options={FILTER_KIND_OPTIONS}
+        onChange={handleKindChange}
+        aria-label="Filter kind"
+      />
+      {inputs}
+      <VSCodeButton
+        appearance="icon"
+        aria-label="Remove filter"
+        onClick={onRemove}
+      >
+        <Codicon name="close" label="Remove filter" />
+      </VSCodeButton>
+    </Row>
+  );
+}
@@ -1,6 +1,10 @@
 import * as React from "react";
 import { ResultRow } from "../../common/bqrs-cli-types";
-import { selectedRowClassName, zebraStripe } from "./result-table-utils";
+import {
+  highlightedCellClassName,
+  selectedRowClassName,
+  zebraStripe,
+} from "./result-table-utils";
 import RawTableValue from "./RawTableValue";
 
 interface Props {
@@ -9,6 +13,7 @@ interface Props {
   databaseUri: string;
   className?: string;
   selectedColumn?: number;
+  highlightedColumns?: number[];
   selectedItemRef?: React.Ref<any>;
   onSelected?: (row: number, column: number) => void;
 }
@@ -23,11 +28,18 @@ export default function RawTableRow(props: Props) {
 
       {props.row.map((value, columnIndex) => {
         const isSelected = props.selectedColumn === columnIndex;
+        const isHighlighted = props.highlightedColumns?.includes(columnIndex);
+        const cellClassNames = [
+          ...(isSelected ? [selectedRowClassName] : []),
+          ...(isHighlighted ? [highlightedCellClassName] : []),
+        ];
         return (
           <td
             ref={isSelected ? props.selectedItemRef : undefined}
             key={columnIndex}
-            {...(isSelected ? { className: selectedRowClassName } : {})}
+            {...(cellClassNames.length
+              ? { className: cellClassNames.join(" ") }
+              : {})}
           >
             <RawTableValue
               value={value}
@@ -4,6 +4,8 @@ import { tableHeaderItemClassName } from "./result-table-utils";
 
 interface Props {
   resultSet?: ResultSet;
+  /** The number of rows that match the filter, if the result set is filtered. */
+  numFilteredRows?: number;
 }
 
 function getResultCount(resultSet: ResultSet): number {
@@ -21,6 +23,14 @@ export function ResultCount(props: Props): JSX.Element | null {
   }
 
   const resultCount = getResultCount(props.resultSet);
+  if (props.numFilteredRows !== undefined) {
+    return (
+      <span className={tableHeaderItemClassName}>
+        {props.numFilteredRows} of {resultCount}{" "}
+        {resultCount === 1 ? "result" : "results"}
+      </span>
+    );
+  }
   return (
     <span className={tableHeaderItemClassName}>
       {resultCount} {resultCount === 1 ? "result" : "results"}
@@ -17,7 +17,13 @@ export function ResultTable(props: ResultTableProps) {
             ...resultSet,
             interpretation: { ...resultSet.interpretation, data },
           };
-          return <AlertTable {...props} resultSet={sarifResultSet} />;
+          return (
+            <AlertTable
+              {...props}
+              resultSet={sarifResultSet}
+              showAlertBaselineButtons={true}
+            />
+          );
         }
         case "GraphInterpretationData": {
           return (
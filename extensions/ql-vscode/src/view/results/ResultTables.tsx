@@ -7,6 +7,7 @@ import {
   ResultsPaths,
   InterpretedResultsSortState,
   ResultSet,
+  ALERTS_FILTER_COLUMNS,
   ALERTS_TABLE_NAME,
   GRAPH_TABLE_NAME,
   SELECT_TABLE_NAME,
@@ -22,6 +23,8 @@ import { ResultTablesHeader } from "./ResultTablesHeader";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { ResultCount } from "./ResultCount";
 import { ProblemsViewCheckbox } from "./ProblemsViewCheckbox";
+import { BaselineAlertsCheckbox } from "./BaselineAlertsCheckbox";
+import { RawResultsFilter } from "./RawResultsFilter";
 
 /**
  * Properties for the `ResultTables` component.
@@ -210,6 +213,17 @@ export function ResultTables(props: ResultTablesProps) {
       resultSets.find((resultSet) => resultSet.schema.name === selectedTable),
     [resultSets, selectedTable],
   );
+  // The filter state only describes the raw result set that was requested
+  // from the extension, so it is ignored for any other result set.
+  const isFilteredResultSet =
+    resultSet?.t === "RawResultSet" &&
+    resultSet.schema.name === parsedResultSets.selectedTable;
+  const numFilteredRows =
+    resultSet?.t === "InterpretedResultSet"
+      ? resultSet.interpretation.filter?.numResults
+      : isFilteredResultSet
+      ? parsedResultSets.numFilteredRows
+      : undefined;
   const nonemptyRawResults = resultSets.some(
     (resultSet) => resultSet.t === "RawResultSet" && resultSet.rows.length > 0,
   );
@@ -227,18 +241,41 @@ export function ResultTables(props: ResultTablesProps) {
         <select value={selectedTable} onChange={onTableSelectionChange}>
           {resultSetOptions}
         </select>
-        <ResultCount resultSet={resultSet} />
+        <ResultCount resultSet={resultSet} numFilteredRows={numFilteredRows} />
         <ProblemsViewCheckbox
           selectedTable={selectedTable}
           problemsViewSelected={problemsViewSelected}
           handleCheckboxChanged={handleCheckboxChanged}
         />
+        <BaselineAlertsCheckbox
+          selectedTable={selectedTable}
+          interpretation={interpretation}
+        />
         {isLoadingNewResults ? (
           <span className={UPDATING_RESULTS_TEXT_CLASS_NAME}>
             Updating results…
           </span>
         ) : null}
       </div>
+      {resultSet?.t === "RawResultSet" && (
+        <RawResultsFilter
+          key={`${resultSet.schema.name}-filter`}
+          columns={resultSet.schema.columns}
+          schemaName={resultSet.schema.name}
+          filterState={
+            isFilteredResultSet ? parsedResultSets.filterState : undefined
+          }
+        />
+      )}
+      {resultSet?.t === "InterpretedResultSet" &&
+        resultSet.interpretation.data.t === "SarifInterpretationData" && (
+          <RawResultsFilter
+            key={`${ALERTS_TABLE_NAME}-filter`}
+            columns={ALERTS_FILTER_COLUMNS}
+            schemaName={ALERTS_TABLE_NAME}
+            filterState={resultSet.interpretation.filter?.state}
+          />
+        )}
       {resultSet && (
         <ResultTable
           key={resultSet.schema.name}
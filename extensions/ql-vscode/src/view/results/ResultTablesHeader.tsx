@@ -5,6 +5,7 @@ import { openFile, tableHeaderItemClassName } from "./result-table-utils";
 import { sendTelemetry } from "../common/telemetry";
 import {
   ALERTS_TABLE_NAME,
+  GRAPH_TABLE_NAME,
   ParsedResultSets,
 } from "../../common/interface-types";
 import { basename } from "../../common/path";
@@ -55,7 +56,7 @@ const PageNumberInput = styled.input`
   outline: none;
 `;
 
-const OpenQueryLink = styled(TextButton)`
+const HeaderLink = styled(TextButton)`
   text-decoration: none;
 `;
 
@@ -141,6 +142,14 @@ export function ResultTablesHeader(props: Props) {
     sendResultsPageChangedTelemetry();
   }, [numPages, parsedResultSets.pageNumber, selectedTable]);
 
+  const exportHandler = useCallback(() => {
+    vscode.postMessage({
+      t: "exportResults",
+      pageNumber: parsedResultSets.pageNumber,
+      selectedTable,
+    });
+  }, [parsedResultSets.pageNumber, selectedTable]);
+
   const openQueryHandler = useCallback(() => {
     openFile(queryPath);
     sendTelemetry("local-results-open-query-file");
@@ -165,10 +174,15 @@ export function ResultTablesHeader(props: Props) {
       </PaginationButton>
       <div className={tableHeaderItemClassName}>{queryName}</div>
       <div className={tableHeaderItemClassName}>
-        <OpenQueryLink onClick={openQueryHandler}>
+        <HeaderLink onClick={openQueryHandler}>
           Open {basename(queryPath)}
-        </OpenQueryLink>
+        </HeaderLink>
       </div>
+      {selectedTable !== GRAPH_TABLE_NAME && (
+        <div className={tableHeaderItemClassName}>
+          <HeaderLink onClick={exportHandler}>Export results</HeaderLink>
+        </div>
+      )}
     </Container>
   );
 }
@@ -0,0 +1,46 @@
+import * as React from "react";
+import { render as reactRender, screen } from "@testing-library/react";
+import * as Sarif from "sarif";
+import { AlertTable } from "../AlertTable";
+import { createResultSet } from "../../compare/InterpretedCompareResultTable";
+
+describe(AlertTable.name, () => {
+  const results: Sarif.Result[] = [
+    {
+      message: {
+        text: "This is an alert",
+      },
+    },
+  ];
+
+  const render = (showAlertBaselineButtons?: boolean) =>
+    reactRender(
+      <AlertTable
+        resultSet={createResultSet(results, "/a/b/c")}
+        databaseUri="test-db-uri"
+        resultsPath={undefined}
+        offset={0}
+        nonemptyRawResults={false}
+        showRawResults={jest.fn()}
+        showAlertBaselineButtons={showAlertBaselineButtons}
+      />,
+    );
+
+  it("renders the alert", () => {
+    render();
+
+    expect(screen.getByText("This is an alert")).toBeInTheDocument();
+  });
+
+  it("does not render the baseline buttons by default", () => {
+    render();
+
+    expect(screen.queryByText("Accept")).not.toBeInTheDocument();
+  });
+
+  it("renders the baseline buttons when enabled", () => {
+    render(true);
+
+    expect(screen.getByText("Accept")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,76 @@
+import * as React from "react";
+import { render as reactRender, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { RawResultsFilter } from "../RawResultsFilter";
+import { RawResultsFilterState } from "../../../common/interface-types";
+import { Column, ColumnKindCode } from "../../../common/bqrs-cli-types";
+
+describe(RawResultsFilter.name, () => {
+  const columns: Column[] = [
+    { name: "name", kind: ColumnKindCode.STRING },
+    { name: "count", kind: ColumnKindCode.INTEGER },
+  ];
+
+  const filterState: RawResultsFilterState = {
+    searchText: "foo",
+    columnFilters: [
+      { columnIndex: 1, kind: "range", min: 1 },
+      { columnIndex: 1, kind: "range", min: 2 },
+    ],
+  };
+
+  const render = (filterState?: RawResultsFilterState) =>
+    reactRender(
+      <RawResultsFilter
+        columns={columns}
+        schemaName="#select"
+        filterState={filterState}
+      />,
+    );
+
+  const getMinimumValues = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll("vscode-text-field"))
+      .map((field) => field as HTMLInputElement)
+      .filter((field) => field.placeholder === "Minimum")
+      .map((field) => field.value);
+
+  it("shows the applied filter", () => {
+    const { container } = render(filterState);
+
+    expect(getMinimumValues(container)).toEqual(["1", "2"]);
+  });
+
+  it("keeps the bounds of the remaining filters when removing a filter", async () => {
+    const { container } = render(filterState);
+
+    await userEvent.click(screen.getAllByLabelText("Remove filter")[0]);
+
+    expect(getMinimumValues(container)).toEqual(["2"]);
+  });
+
+  it("shows a new filter sent by the extension", () => {
+    const { container, rerender } = render(filterState);
+
+    rerender(
+      <RawResultsFilter
+        columns={columns}
+        schemaName="#select"
+        filterState={undefined}
+      />,
+    );
+
+    expect(getMinimumValues(container)).toEqual([]);
+  });
+
+  it("sends the filter without the IDs of the rows", async () => {
+    render(filterState);
+
+    await userEvent.click(screen.getByText("Apply"));
+
+    expect((window as any).vsCodeApi.postMessage).toHaveBeenCalledWith({
+      t: "changeFilter",
+      resultSetName: "#select",
+      filterState,
+    });
+  });
+});
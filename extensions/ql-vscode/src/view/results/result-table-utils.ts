@@ -1,3 +1,4 @@
+import * as Sarif from "sarif";
 import { ResolvableLocationValue } from "../../common/bqrs-cli-types";
 import {
   RawResultsSortState,
@@ -38,6 +39,9 @@ export const toggleDiagnosticsClassName = `${className}-toggle-diagnostics`;
 const evenRowClassName = "vscode-codeql__result-table-row--even";
 const oddRowClassName = "vscode-codeql__result-table-row--odd";
 export const selectedRowClassName = "vscode-codeql__result-table-row--selected";
+export const acceptedRowClassName = "vscode-codeql__result-table-row--accepted";
+export const highlightedCellClassName =
+  "vscode-codeql__result-table-cell--highlighted";
 
 export function jumpToLocation(
   loc: ResolvableLocationValue,
@@ -50,6 +54,17 @@ export function jumpToLocation(
   });
 }
 
+export function changeAlertBaseline(
+  result: Sarif.Result,
+  accepted: boolean,
+): void {
+  vscode.postMessage({
+    t: "changeAlertBaseline",
+    results: [result],
+    accepted,
+  });
+}
+
 export function openFile(filePath: string): void {
   vscode.postMessage({
     t: "openFile",
@@ -1,7 +1,9 @@
 import {
   FromCompareViewMessage,
   FromMethodModelingMessage,
+  FromModelCoverageReportMessage,
   FromModelEditorMessage,
+  FromModelImpactPreviewMessage,
   FromResultsViewMsg,
   FromVariantAnalysisMessage,
   VariantAnalysisState,
@@ -17,7 +19,9 @@ export interface VsCodeApi {
       | FromCompareViewMessage
       | FromVariantAnalysisMessage
       | FromModelEditorMessage
-      | FromMethodModelingMessage,
+      | FromMethodModelingMessage
+      | FromModelCoverageReportMessage
+      | FromModelImpactPreviewMessage,
   ): void;
 
   /**
@@ -1,5 +1,9 @@
 import { faker } from "@faker-js/faker";
-import { InitialQueryInfo, LocalQueryInfo } from "../../../src/query-results";
+import {
+  InitialQueryInfo,
+  LocalQueryInfo,
+  QuerySuiteInfo,
+} from "../../../src/query-results";
 import {
   QueryEvaluationInfo,
   QueryOutputDir,
@@ -20,6 +24,7 @@ export function createMockLocalQueryInfo({
   queryWithResults = undefined,
   language = undefined,
   outputDir = new QueryOutputDir("/a/b/c"),
+  querySuite = undefined,
 }: {
   startTime?: Date;
   resultCount?: number;
@@ -30,6 +35,7 @@ export function createMockLocalQueryInfo({
   queryWithResults?: QueryWithResults | undefined;
   language?: QueryLanguage;
   outputDir?: QueryOutputDir | undefined;
+  querySuite?: QuerySuiteInfo;
 }): LocalQueryInfo {
   const cancellationToken = {
     dispose: () => {
@@ -52,6 +58,7 @@ export function createMockLocalQueryInfo({
     id: faker.number.int().toString(),
     userSpecifiedLabel,
     outputDir,
+    querySuite,
   } as InitialQueryInfo;
 
   const localQuery = new LocalQueryInfo(initialQueryInfo, cancellationToken);
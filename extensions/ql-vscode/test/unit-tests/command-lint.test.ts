@@ -44,6 +44,7 @@ describe("commands declared in package.json", () => {
       command.match(/^codeQLQuickQuery\./) ||
       command.match(/^codeQLVariantAnalysisRepositories\./) ||
       command.match(/^codeQLQueryHistory\./) ||
+      command.match(/^codeQLQueryQueue\./) ||
       command.match(/^codeQLAstViewer\./) ||
       command.match(/^codeQLEvalLogViewer\./) ||
       command.match(/^codeQLTests\./) ||
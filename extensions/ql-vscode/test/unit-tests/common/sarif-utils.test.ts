@@ -2,6 +2,7 @@ import * as Sarif from "sarif";
 
 import {
   getPathRelativeToSourceLocationPrefix,
+  mergeSarifRuns,
   parseSarifLocation,
   parseSarifPlainTextMessage,
   unescapeSarifText,
@@ -160,4 +161,80 @@ describe("parsing sarif", () => {
       });
     });
   });
+
+  describe("mergeSarifRuns", () => {
+    function createRun(name: string): Sarif.Run {
+      return {
+        tool: {
+          driver: {
+            name,
+            rules: [{ id: `${name}/rule` }],
+          },
+        },
+        artifacts: [{ location: { uri: `${name}.js` } }],
+        results: [
+          {
+            ruleId: `${name}/rule`,
+            ruleIndex: 0,
+            rule: { id: `${name}/rule`, index: 0 },
+            message: { text: name },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: `${name}.js`, index: 0 },
+                },
+              },
+            ],
+          },
+        ],
+      };
+    }
+
+    it("returns the only run unchanged", () => {
+      const run = createRun("a");
+
+      expect(mergeSarifRuns([run])).toBe(run);
+    });
+
+    it("returns undefined when there are no runs", () => {
+      expect(mergeSarifRuns([])).toBeUndefined();
+    });
+
+    it("merges the results, rules and artifacts of all runs", () => {
+      const merged = mergeSarifRuns([createRun("a"), createRun("b")]);
+
+      expect(merged?.tool.driver).toEqual({
+        name: "a",
+        rules: [{ id: "a/rule" }, { id: "b/rule" }],
+      });
+      expect(merged?.artifacts).toEqual([
+        { location: { uri: "a.js" } },
+        { location: { uri: "b.js" } },
+      ]);
+      expect(merged?.results).toEqual([
+        createRun("a").results?.[0],
+        {
+          ruleId: "b/rule",
+          ruleIndex: 1,
+          rule: { id: "b/rule", index: 1 },
+          message: { text: "b" },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: "b.js", index: 1 },
+              },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("does not modify the runs", () => {
+      const runs = [createRun("a"), createRun("b")];
+
+      mergeSarifRuns(runs);
+
+      expect(runs).toEqual([createRun("a"), createRun("b")]);
+    });
+  });
 });
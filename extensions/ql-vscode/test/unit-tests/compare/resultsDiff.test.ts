@@ -0,0 +1,133 @@
+import resultsDiff from "../../../src/compare/resultsDiff";
+import { RawResultSet, ResultRow } from "../../../src/common/bqrs-cli-types";
+
+describe("resultsDiff", () => {
+  function createResultSet(rows: ResultRow[], columnCount = 2): RawResultSet {
+    return {
+      schema: {
+        name: "#select",
+        rows: rows.length,
+        columns: Array.from({ length: columnCount }, (_, i) => ({
+          name: `col${i}`,
+          kind: "s",
+        })),
+      },
+      rows,
+    };
+  }
+
+  it("should throw when the number of columns does not match", () => {
+    expect(() =>
+      resultsDiff(createResultSet([["a", "b"]]), createResultSet([["a"]], 1)),
+    ).toThrow("CodeQL Compare: Columns do not match.");
+  });
+
+  it("should throw when a key column is out of range", () => {
+    expect(() =>
+      resultsDiff(createResultSet([["a", "b"]]), createResultSet([]), [2]),
+    ).toThrow("CodeQL Compare: Invalid key column 2.");
+  });
+
+  it("should find added and removed rows", () => {
+    const result = resultsDiff(
+      createResultSet([
+        ["a", "1"],
+        ["b", "2"],
+      ]),
+      createResultSet([
+        ["b", "2"],
+        ["c", "3"],
+      ]),
+    );
+
+    expect(result).toEqual({
+      kind: "raw",
+      from: [["a", "1"]],
+      to: [["c", "3"]],
+      changed: [],
+    });
+  });
+
+  it("should not throw when either side is empty", () => {
+    expect(
+      resultsDiff(createResultSet([]), createResultSet([["a", "1"]])),
+    ).toEqual({
+      kind: "raw",
+      from: [],
+      to: [["a", "1"]],
+      changed: [],
+    });
+    expect(
+      resultsDiff(createResultSet([["a", "1"]]), createResultSet([])),
+    ).toEqual({
+      kind: "raw",
+      from: [["a", "1"]],
+      to: [],
+      changed: [],
+    });
+  });
+
+  it("should not throw when the results are disjoint", () => {
+    expect(
+      resultsDiff(createResultSet([["a", "1"]]), createResultSet([["b", "2"]])),
+    ).toEqual({
+      kind: "raw",
+      from: [["a", "1"]],
+      to: [["b", "2"]],
+      changed: [],
+    });
+  });
+
+  it("should find changed rows using key columns", () => {
+    const result = resultsDiff(
+      createResultSet([
+        ["a", "1"],
+        ["b", "2"],
+        ["c", "3"],
+      ]),
+      createResultSet([
+        ["a", "1"],
+        ["b", "4"],
+        ["d", "5"],
+      ]),
+      [0],
+    );
+
+    expect(result).toEqual({
+      kind: "raw",
+      from: [["c", "3"]],
+      to: [["d", "5"]],
+      changed: [
+        {
+          from: ["b", "2"],
+          to: ["b", "4"],
+          changedColumns: [1],
+        },
+      ],
+    });
+  });
+
+  it("should pair rows with duplicate keys in order", () => {
+    const result = resultsDiff(
+      createResultSet([
+        ["a", "1"],
+        ["a", "2"],
+      ]),
+      createResultSet([["a", "3"]]),
+      [0],
+    );
+
+    expect(result).toEqual({
+      kind: "raw",
+      from: [["a", "2"]],
+      to: [],
+      changed: [
+        {
+          from: ["a", "1"],
+          to: ["a", "3"],
+          changedColumns: [1],
+        },
+      ],
+    });
+  });
+});
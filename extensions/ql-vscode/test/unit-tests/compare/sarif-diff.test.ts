@@ -0,0 +1,91 @@
+import * as sarif from "sarif";
+import { sarifDiff } from "../../../src/compare/sarif-diff";
+
+describe("sarifDiff", () => {
+  function createResult(
+    ruleId: string,
+    uri: string,
+    startLine: number,
+    message: string,
+  ): sarif.Result {
+    return {
+      ruleId,
+      message: {
+        text: message,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri,
+            },
+            region: {
+              startLine,
+              startColumn: 5,
+              endLine: startLine,
+              endColumn: 10,
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  it("should find new and fixed alerts", () => {
+    const unchanged = createResult("js/xss", "a.js", 1, "XSS");
+    const fixed = createResult("js/xss", "a.js", 5, "XSS");
+    const added = createResult("js/sql-injection", "b.js", 3, "SQL injection");
+
+    expect(sarifDiff([unchanged, fixed], [unchanged, added], "/src")).toEqual({
+      kind: "interpreted",
+      sourceLocationPrefix: "/src",
+      from: [fixed],
+      to: [added],
+    });
+  });
+
+  it("should match alerts that have moved to a different line", () => {
+    const from = createResult("js/xss", "a.js", 1, "XSS");
+    const to = createResult("js/xss", "a.js", 4, "XSS");
+
+    expect(sarifDiff([from], [to], "/src")).toEqual({
+      kind: "interpreted",
+      sourceLocationPrefix: "/src",
+      from: [],
+      to: [],
+    });
+  });
+
+  it("should not match alerts with a different rule or message", () => {
+    const from = [
+      createResult("js/xss", "a.js", 1, "XSS"),
+      createResult("js/xss", "a.js", 2, "XSS"),
+    ];
+    const to = [
+      createResult("js/sql-injection", "a.js", 1, "XSS"),
+      createResult("js/xss", "a.js", 2, "Reflected XSS"),
+    ];
+
+    expect(sarifDiff(from, to, "/src")).toEqual({
+      kind: "interpreted",
+      sourceLocationPrefix: "/src",
+      from,
+      to,
+    });
+  });
+
+  it("should match shifted alerts in the order in which they appear", () => {
+    const from = [
+      createResult("js/xss", "a.js", 10, "XSS"),
+      createResult("js/xss", "a.js", 20, "XSS"),
+    ];
+    const to = [createResult("js/xss", "a.js", 12, "XSS")];
+
+    expect(sarifDiff(from, to, "/src")).toEqual({
+      kind: "interpreted",
+      sourceLocationPrefix: "/src",
+      from: [from[1]],
+      to: [],
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { join } from "path";
+import * as tmp from "tmp";
+import { ensureDir, utimes, writeFile } from "fs-extra";
+import {
+  getSourceSnapshot,
+  isSourcePath,
+  isSourceSnapshotStale,
+} from "../../../../src/databases/local-databases/source-snapshot";
+
+describe("isSourcePath", () => {
+  it("accepts regular files and directories", () => {
+    expect(isSourcePath("src")).toBe(true);
+    expect(isSourcePath("index.ts")).toBe(true);
+  });
+
+  it("rejects hidden files and dependency directories", () => {
+    expect(isSourcePath(".git")).toBe(false);
+    expect(isSourcePath(".vscode")).toBe(false);
+    expect(isSourcePath("node_modules")).toBe(false);
+  });
+
+  it("rejects build output directories", () => {
+    expect(isSourcePath("target")).toBe(false);
+    expect(isSourcePath("build")).toBe(false);
+    expect(isSourcePath("obj")).toBe(false);
+  });
+});
+
+describe("isSourceSnapshotStale", () => {
+  it("is stale when the commit has changed", () => {
+    expect(
+      isSourceSnapshotStale(
+        { commitOid: "abc", sourceModifiedAt: 100 },
+        { commitOid: "def", sourceModifiedAt: 100 },
+      ),
+    ).toBe(true);
+  });
+
+  it("is stale when a source file was modified", () => {
+    expect(
+      isSourceSnapshotStale(
+        { commitOid: "abc", sourceModifiedAt: 100 },
+        { commitOid: "abc", sourceModifiedAt: 200 },
+      ),
+    ).toBe(true);
+  });
+
+  it("is not stale when nothing has changed", () => {
+    expect(
+      isSourceSnapshotStale(
+        { commitOid: "abc", sourceModifiedAt: 100 },
+        { commitOid: "abc", sourceModifiedAt: 100 },
+      ),
+    ).toBe(false);
+  });
+
+  it("is not stale when no snapshot was recorded", () => {
+    expect(
+      isSourceSnapshotStale({}, { commitOid: "abc", sourceModifiedAt: 200 }),
+    ).toBe(false);
+  });
+});
+
+describe("getSourceSnapshot", () => {
+  let sourceRoot: string;
+  let removeTmpDir: () => void;
+
+  beforeEach(async () => {
+    const dir = tmp.dirSync({ unsafeCleanup: true });
+    sourceRoot = dir.name;
+    removeTmpDir = dir.removeCallback;
+
+    await ensureDir(join(sourceRoot, "src"));
+    await writeFile(join(sourceRoot, "src", "index.js"), "");
+    await ensureDir(join(sourceRoot, "node_modules"));
+    await writeFile(join(sourceRoot, "node_modules", "dependency.js"), "");
+
+    for (const path of [
+      join(sourceRoot, "src", "index.js"),
+      join(sourceRoot, "src"),
+      join(sourceRoot, "node_modules", "dependency.js"),
+      join(sourceRoot, "node_modules"),
+      sourceRoot,
+    ]) {
+      await utimes(path, 1000, 1000);
+    }
+  });
+
+  afterEach(() => {
+    removeTmpDir();
+  });
+
+  it("gets the latest modification time of the source files", async () => {
+    await utimes(join(sourceRoot, "src", "index.js"), 2000, 2000);
+
+    const snapshot = await getSourceSnapshot(sourceRoot);
+
+    expect(snapshot.sourceModifiedAt).toBe(2000 * 1000);
+  });
+
+  it("ignores files in dependency directories", async () => {
+    await utimes(join(sourceRoot, "node_modules", "dependency.js"), 2000, 2000);
+
+    const snapshot = await getSourceSnapshot(sourceRoot);
+
+    expect(snapshot.sourceModifiedAt).toBe(1000 * 1000);
+  });
+
+  it("does not walk the source tree without modification times", async () => {
+    const snapshot = await getSourceSnapshot(sourceRoot, false);
+
+    expect(snapshot.sourceModifiedAt).toBeUndefined();
+  });
+
+  it("is not stale after a build writes to its output directory", async () => {
+    await ensureDir(join(sourceRoot, "target", "classes"));
+    const snapshot = await getSourceSnapshot(sourceRoot);
+
+    await writeFile(join(sourceRoot, "target", "classes", "Main.class"), "");
+
+    expect(
+      isSourceSnapshotStale(snapshot, await getSourceSnapshot(sourceRoot)),
+    ).toBe(false);
+  });
+});
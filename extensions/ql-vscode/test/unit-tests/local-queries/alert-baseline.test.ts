@@ -0,0 +1,128 @@
+import * as Sarif from "sarif";
+import { join } from "path";
+import { dirSync } from "tmp-promise";
+import { DirResult } from "tmp";
+import { writeFile } from "fs-extra";
+import {
+  AlertBaselineEntry,
+  createAlertBaselineEntry,
+  markAlertBaselineResults,
+  readAlertBaseline,
+  updateAlertBaseline,
+  writeAlertBaseline,
+} from "../../../src/local-queries/alert-baseline";
+
+function createResult(message: string, startLine: number): Sarif.Result {
+  return {
+    ruleId: "js/example",
+    message: { text: message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: "src/index.js" },
+          region: { startLine, startColumn: 1, endColumn: 10 },
+        },
+      },
+    ],
+  };
+}
+
+describe("alert baseline", () => {
+  const first = createResult("first alert", 1);
+  const second = createResult("second alert", 2);
+
+  describe("createAlertBaselineEntry", () => {
+    it("identifies alerts by rule, location and message", () => {
+      const entry = createAlertBaselineEntry(first);
+
+      expect(entry).toEqual({
+        ruleId: "js/example",
+        fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+        message: "first alert",
+        location: "src/index.js:1",
+      });
+      expect(createAlertBaselineEntry(createResult("first alert", 1))).toEqual(
+        entry,
+      );
+      expect(
+        createAlertBaselineEntry(createResult("first alert", 3)).fingerprint,
+      ).not.toEqual(entry.fingerprint);
+      expect(
+        createAlertBaselineEntry(createResult("other alert", 1)).fingerprint,
+      ).not.toEqual(entry.fingerprint);
+    });
+  });
+
+  describe("updateAlertBaseline", () => {
+    it("adds and removes alerts", () => {
+      const baseline = updateAlertBaseline([], [second, first], true);
+      expect(baseline.map((entry) => entry.message)).toEqual([
+        "first alert",
+        "second alert",
+      ]);
+
+      expect(
+        updateAlertBaseline(baseline, [first], false).map(
+          (entry) => entry.message,
+        ),
+      ).toEqual(["second alert"]);
+    });
+
+    it("does not add an alert twice", () => {
+      const baseline = updateAlertBaseline([], [first], true);
+      expect(updateAlertBaseline(baseline, [first], true)).toHaveLength(1);
+    });
+  });
+
+  describe("markAlertBaselineResults", () => {
+    it("marks the results that are in the baseline", () => {
+      const results = [createResult("first alert", 1), createResult("x", 5)];
+
+      expect(
+        markAlertBaselineResults(results, [createAlertBaselineEntry(first)]),
+      ).toBe(1);
+      expect(results.map((result) => result.baselineState)).toEqual([
+        "unchanged",
+        "new",
+      ]);
+    });
+  });
+
+  describe("baseline files", () => {
+    let tmpDir: DirResult;
+    let baselinePath: string;
+
+    beforeEach(() => {
+      tmpDir = dirSync({
+        prefix: "baseline_",
+        keep: false,
+        unsafeCleanup: true,
+      });
+      baselinePath = join(tmpDir.name, "codeql-alert-baseline.json");
+    });
+
+    afterEach(() => {
+      tmpDir.removeCallback();
+    });
+
+    it("reads an empty baseline if there is no file", async () => {
+      expect(await readAlertBaseline(baselinePath)).toEqual([]);
+    });
+
+    it("writes and reads a baseline", async () => {
+      const baseline: AlertBaselineEntry[] = [createAlertBaselineEntry(first)];
+
+      await writeAlertBaseline(baselinePath, baseline);
+
+      expect(await readAlertBaseline(baselinePath)).toEqual(baseline);
+    });
+
+    it("rejects an unsupported version", async () => {
+      await writeFile(baselinePath, JSON.stringify({ version: 2, alerts: [] }));
+
+      await expect(readAlertBaseline(baselinePath)).rejects.toThrow(
+        "Unsupported alert baseline format",
+      );
+    });
+  });
+});
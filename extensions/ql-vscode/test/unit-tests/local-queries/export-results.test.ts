@@ -0,0 +1,239 @@
+import * as Sarif from "sarif";
+import {
+  alertsToExportableResults,
+  createCombinedSarifLog,
+  createSarifLogForAlerts,
+  ExportableResults,
+  exportResults,
+  formatCell,
+  getColumnNames,
+} from "../../../src/local-queries/export-results";
+import { ColumnKindCode } from "../../../src/common/bqrs-cli-types";
+
+describe("export-results", () => {
+  const results: ExportableResults = {
+    columns: ["call", "name", "count"],
+    rows: [
+      [
+        {
+          label: "foo(a, b)",
+          url: {
+            uri: "file:/home/user/src/foo.js",
+            startLine: 3,
+            startColumn: 5,
+            endLine: 3,
+            endColumn: 13,
+          },
+        },
+        'say "hi"',
+        2,
+      ],
+      [{ label: "bar()" }, "a|b", 1],
+    ],
+  };
+
+  describe("getColumnNames", () => {
+    it("names unnamed columns after their index", () => {
+      expect(
+        getColumnNames([
+          { name: "x", kind: ColumnKindCode.ENTITY },
+          { kind: ColumnKindCode.STRING },
+        ]),
+      ).toEqual(["x", "[1]"]);
+    });
+  });
+
+  describe("formatCell", () => {
+    it("formats primitive values", () => {
+      expect(formatCell(3, "location")).toBe("3");
+      expect(formatCell(true, "label")).toBe("true");
+      expect(formatCell("text", "location")).toBe("text");
+    });
+
+    it("formats entities as labels", () => {
+      expect(formatCell(results.rows[0][0], "label")).toBe("foo(a, b)");
+    });
+
+    it("formats entities as locations", () => {
+      expect(formatCell(results.rows[0][0], "location")).toBe(
+        "/home/user/src/foo.js:3:5",
+      );
+    });
+
+    it("formats whole file locations as paths", () => {
+      expect(
+        formatCell(
+          {
+            label: "foo.js",
+            url: "file:///home/user/src/foo.js:0:0:0:0",
+          },
+          "location",
+        ),
+      ).toBe("/home/user/src/foo.js");
+    });
+
+    it("falls back to the label for entities without a location", () => {
+      expect(formatCell(results.rows[1][0], "location")).toBe("bar()");
+    });
+  });
+
+  describe("exportResults", () => {
+    it("exports CSV", () => {
+      expect(exportResults(results, "csv", "label")).toBe(
+        [
+          "call,name,count",
+          '"foo(a, b)","say ""hi""",2',
+          "bar(),a|b,1",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("exports TSV", () => {
+      expect(
+        exportResults(
+          { columns: ["a", "b"], rows: [["x\ty", "line\nbreak"]] },
+          "tsv",
+          "label",
+        ),
+      ).toBe("a\tb\nx\\ty\tline\\nbreak\n");
+    });
+
+    it("exports JSON Lines", () => {
+      expect(exportResults(results, "jsonl", "location")).toBe(
+        [
+          '{"call":"/home/user/src/foo.js:3:5","name":"say \\"hi\\"","count":2}',
+          '{"call":"bar()","name":"a|b","count":1}',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("exports a Markdown table", () => {
+      expect(exportResults(results, "markdown", "label")).toBe(
+        [
+          "| call | name | count |",
+          "| --- | --- | --- |",
+          '| foo(a, b) | say "hi" | 2 |',
+          "| bar() | a\\|b | 1 |",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("exports SARIF", () => {
+      const log: Sarif.Log = JSON.parse(
+        exportResults(results, "sarif", "label"),
+      );
+      expect(log.version).toBe("2.1.0");
+      expect(log.runs[0].results).toEqual([
+        {
+          message: { text: 'foo(a, b) | say "hi" | 2' },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: "file:/home/user/src/foo.js" },
+                region: {
+                  startLine: 3,
+                  startColumn: 5,
+                  endLine: 3,
+                  endColumn: 14,
+                },
+              },
+            },
+          ],
+        },
+        {
+          message: { text: "bar() | a|b | 1" },
+          locations: [],
+        },
+      ]);
+    });
+  });
+
+  describe("alerts", () => {
+    const alerts: Sarif.Result[] = [
+      {
+        message: { text: "Flows to [sink](1)." },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "src/foo.js" },
+              region: {
+                startLine: 1,
+                startColumn: 2,
+                endColumn: 5,
+              },
+            },
+          },
+        ],
+      },
+      { message: { text: "No location" } },
+    ];
+
+    it("converts alerts to a table", () => {
+      const table = alertsToExportableResults(alerts, "/home/user");
+      expect(table.columns).toEqual(["Message", "Location"]);
+      expect(exportResults(table, "csv", "location")).toBe(
+        [
+          "Message,Location",
+          "Flows to sink.,/home/user/src/foo.js:1:2",
+          "No location,",
+          "",
+        ].join("\n"),
+      );
+      expect(exportResults(table, "csv", "label")).toBe(
+        [
+          "Message,Location",
+          "Flows to sink.,src/foo.js",
+          "No location,",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("keeps the run of the original SARIF log", () => {
+      const log: Sarif.Log = {
+        version: "2.1.0",
+        runs: [
+          {
+            tool: { driver: { name: "CodeQL", rules: [{ id: "js/foo" }] } },
+            results: alerts,
+          },
+        ],
+      };
+      expect(createSarifLogForAlerts(log, alerts.slice(1))).toEqual({
+        version: "2.1.0",
+        runs: [
+          {
+            tool: { driver: { name: "CodeQL", rules: [{ id: "js/foo" }] } },
+            results: alerts.slice(1),
+          },
+        ],
+      });
+    });
+  });
+
+  describe("createCombinedSarifLog", () => {
+    it("combines the runs of all logs", () => {
+      const run1: Sarif.Run = {
+        tool: { driver: { name: "CodeQL", rules: [{ id: "js/foo" }] } },
+        results: [{ message: { text: "Foo" }, ruleId: "js/foo" }],
+      };
+      const run2: Sarif.Run = {
+        tool: { driver: { name: "CodeQL", rules: [{ id: "js/bar" }] } },
+        results: [],
+      };
+
+      expect(
+        createCombinedSarifLog([
+          { version: "2.1.0", runs: [run1] },
+          { version: "2.1.0", runs: [run2] },
+        ]),
+      ).toEqual({
+        version: "2.1.0",
+        runs: [run1, run2],
+      });
+    });
+  });
+});
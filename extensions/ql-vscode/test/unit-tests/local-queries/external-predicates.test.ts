@@ -0,0 +1,211 @@
+import { join } from "path";
+import { dirSync } from "tmp-promise";
+import { DirResult } from "tmp";
+import { outputFile, readFile, writeFile } from "fs-extra";
+import {
+  createExternalInputs,
+  ExternalPredicate,
+  mayUseExternalPredicates,
+  parseExternalPredicateRows,
+  parseExternalPredicates,
+  readExternalPredicateValuesFromFiles,
+  validateExternalPredicateRows,
+} from "../../../src/local-queries/external-predicates";
+
+describe("external predicates", () => {
+  const sourceName: ExternalPredicate = {
+    name: "sourceName",
+    parameters: [],
+    resultType: "string",
+  };
+  const sink: ExternalPredicate = {
+    name: "sink",
+    parameters: [
+      { type: "string", name: "name" },
+      { type: "int", name: "arity" },
+    ],
+    resultType: undefined,
+  };
+
+  describe("parseExternalPredicates", () => {
+    it("finds the external predicates in the DIL of a query", () => {
+      const dil = [
+        "// external string commentedOut()",
+        "external string sourceName()",
+        "/* external predicate alsoCommentedOut(int x) */",
+        "external predicate Config::sink(string name, int arity)",
+        "external string sourceName()",
+        "",
+        "query predicate #select(string name) { ... }",
+      ].join("\n");
+
+      expect(parseExternalPredicates(dil)).toEqual({
+        predicates: [sourceName, sink],
+        warnings: [],
+      });
+    });
+
+    it("warns about parameters that can't be parsed", () => {
+      expect(
+        parseExternalPredicates("external predicate sink(string name, int)"),
+      ).toEqual({
+        predicates: [
+          {
+            name: "sink",
+            parameters: [{ type: "string", name: "name" }],
+            resultType: undefined,
+          },
+        ],
+        warnings: [
+          "Ignoring parameter 'int' of external predicate sink, because it is not of the form '<type> <name>'.",
+        ],
+      });
+    });
+  });
+
+  describe("parseExternalPredicateRows", () => {
+    it("parses rows with quoted fields", () => {
+      expect(
+        parseExternalPredicateRows('foo, 1\n"bar, ""baz""",2\n\n'),
+      ).toEqual([
+        ["foo", "1"],
+        ['bar, "baz"', "2"],
+      ]);
+    });
+
+    it("parses rows with a different row separator", () => {
+      expect(parseExternalPredicateRows("foo,1;bar,2", ";")).toEqual([
+        ["foo", "1"],
+        ["bar", "2"],
+      ]);
+    });
+  });
+
+  describe("validateExternalPredicateRows", () => {
+    it("accepts valid rows", () => {
+      expect(
+        validateExternalPredicateRows(sink, [["foo", "-1"]]),
+      ).toBeUndefined();
+    });
+
+    it("rejects rows with the wrong number of columns", () => {
+      expect(validateExternalPredicateRows(sink, [["foo"]])).toBe(
+        "Expected 2 values in each row of sink, but found 1.",
+      );
+    });
+
+    it("rejects invalid ints", () => {
+      expect(validateExternalPredicateRows(sink, [["foo", "1.5"]])).toBe(
+        "'1.5' is not a valid int.",
+      );
+    });
+  });
+
+  describe("mayUseExternalPredicates", () => {
+    let tmpDir: DirResult;
+    let queryPath: string;
+
+    beforeEach(async () => {
+      tmpDir = dirSync({
+        prefix: "queries_",
+        keep: false,
+        unsafeCleanup: true,
+      });
+      await writeFile(join(tmpDir.name, "qlpack.yml"), "name: my/queries\n");
+      queryPath = join(tmpDir.name, "src", "query.ql");
+      await outputFile(queryPath, "import Lib\nselect 1");
+    });
+
+    afterEach(() => {
+      tmpDir.removeCallback();
+    });
+
+    it("finds external predicates declared in the query", async () => {
+      await writeFile(queryPath, "external string sourceName();\nselect 1");
+
+      expect(await mayUseExternalPredicates(queryPath)).toBe(true);
+    });
+
+    it("finds external predicates declared in a library of the pack", async () => {
+      await outputFile(
+        join(tmpDir.name, "lib", "Lib.qll"),
+        "external string sourceName();",
+      );
+
+      expect(await mayUseExternalPredicates(queryPath)).toBe(true);
+    });
+
+    it("ignores libraries in hidden directories", async () => {
+      await outputFile(
+        join(tmpDir.name, ".codeql", "Lib.qll"),
+        "external string sourceName();",
+      );
+
+      expect(await mayUseExternalPredicates(queryPath)).toBe(false);
+    });
+  });
+
+  describe("with sidecar files", () => {
+    let tmpDir: DirResult;
+    let queryPath: string;
+
+    beforeEach(() => {
+      tmpDir = dirSync({
+        prefix: "queries_",
+        keep: false,
+        unsafeCleanup: true,
+      });
+      queryPath = join(tmpDir.name, "query.ql");
+    });
+
+    afterEach(() => {
+      tmpDir.removeCallback();
+    });
+
+    it("reads values from the YAML and CSV files of the query", async () => {
+      await writeFile(
+        join(tmpDir.name, "query.externals.yml"),
+        "sourceName: foo\n",
+      );
+      await writeFile(join(tmpDir.name, "query.sink.csv"), "bar,1\nbaz,2\n");
+
+      expect(
+        await readExternalPredicateValuesFromFiles(queryPath, [
+          sourceName,
+          sink,
+        ]),
+      ).toEqual({
+        sourceName: [["foo"]],
+        sink: [
+          ["bar", "1"],
+          ["baz", "2"],
+        ],
+      });
+    });
+
+    it("returns no values if there are no sidecar files", async () => {
+      expect(
+        await readExternalPredicateValuesFromFiles(queryPath, [sink]),
+      ).toEqual({});
+    });
+
+    it("creates the inputs of the query server", async () => {
+      const inputs = await createExternalInputs(
+        [sourceName, sink],
+        {
+          sourceName: [["foo"]],
+          sink: [["bar, baz", "1"]],
+        },
+        tmpDir.name,
+      );
+
+      expect(inputs).toEqual({
+        singletonExternalInputs: { sourceName: "foo" },
+        externalInputs: { sink: join(tmpDir.name, "sink.csv") },
+      });
+      expect(await readFile(join(tmpDir.name, "sink.csv"), "utf8")).toBe(
+        '"bar, baz",1\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { dirname, join, relative } from "path";
+import { dirSync } from "tmp-promise";
+import { DirResult } from "tmp";
+import { ensureDir, outputFile, pathExists, readdir, readFile } from "fs-extra";
+import {
+  getQuickEvalText,
+  writeQuerySnapshot,
+} from "../../../src/local-queries/query-snapshot";
+
+describe("query snapshots", () => {
+  describe("writeQuerySnapshot", () => {
+    let tmpDir: DirResult;
+    let snapshotsDir: string;
+    let packDir: string;
+    let queryPath: string;
+
+    beforeEach(async () => {
+      tmpDir = dirSync({
+        prefix: "queries_",
+        keep: false,
+        unsafeCleanup: true,
+      });
+      snapshotsDir = join(tmpDir.name, "snapshots");
+      await ensureDir(snapshotsDir);
+
+      packDir = join(tmpDir.name, "workspace", "my-queries");
+      await outputFile(
+        join(packDir, "qlpack.yml"),
+        "name: my/queries\nversion: 0.0.0\n",
+      );
+      await outputFile(
+        join(packDir, "codeql-pack.lock.yml"),
+        "lockVersion: 1.0.0\n",
+      );
+      await outputFile(
+        join(packDir, "lib", "Helpers.qll"),
+        "predicate foo() { any() }",
+      );
+      await outputFile(join(packDir, "src", "Other.ql"), "select 3");
+      await outputFile(join(packDir, ".cache", "cache.qll"), "");
+      queryPath = join(packDir, "src", "query.ql");
+      await outputFile(queryPath, "select 1");
+    });
+
+    afterEach(() => {
+      tmpDir.removeCallback();
+    });
+
+    it("does not write a snapshot of an unchanged query", async () => {
+      expect(
+        await writeQuerySnapshot(queryPath, "select 1", snapshotsDir),
+      ).toBeUndefined();
+      expect(
+        await writeQuerySnapshot(queryPath, undefined, snapshotsDir),
+      ).toBeUndefined();
+    });
+
+    it("writes a snapshot of a changed query to a copy of its pack", async () => {
+      const snapshot = await writeQuerySnapshot(
+        queryPath,
+        "select 2",
+        snapshotsDir,
+      );
+
+      const snapshotPackDir = dirname(dirname(snapshot!.queryPath));
+      expect(snapshotPackDir.startsWith(snapshotsDir)).toBe(true);
+      expect(relative(snapshotPackDir, snapshot!.queryPath)).toBe(
+        join("src", "query.ql"),
+      );
+      expect(await readFile(snapshot!.queryPath, "utf8")).toBe("select 2");
+      expect(await readFile(queryPath, "utf8")).toBe("select 1");
+
+      expect(await pathExists(join(snapshotPackDir, "qlpack.yml"))).toBe(true);
+      expect(
+        await pathExists(join(snapshotPackDir, "codeql-pack.lock.yml")),
+      ).toBe(true);
+      expect(
+        await pathExists(join(snapshotPackDir, "lib", "Helpers.qll")),
+      ).toBe(true);
+      expect(await pathExists(join(snapshotPackDir, "src", "Other.ql"))).toBe(
+        false,
+      );
+      expect(await pathExists(join(snapshotPackDir, ".cache"))).toBe(false);
+    });
+
+    it("does not leave files next to the query", async () => {
+      await writeQuerySnapshot(queryPath, "select 2", snapshotsDir);
+
+      expect(await readdir(dirname(queryPath))).toEqual([
+        "Other.ql",
+        "query.ql",
+      ]);
+    });
+
+    it("removes the snapshot", async () => {
+      const snapshot = await writeQuerySnapshot(
+        queryPath,
+        "select 2",
+        snapshotsDir,
+      );
+
+      await snapshot!.cleanup();
+
+      expect(await readdir(snapshotsDir)).toEqual([]);
+    });
+
+    it("only copies the libraries next to a query that is not in a pack", async () => {
+      const looseQueryPath = join(tmpDir.name, "loose", "query.ql");
+      await outputFile(looseQueryPath, "select 1");
+      await outputFile(join(tmpDir.name, "loose", "Helpers.qll"), "");
+      await outputFile(join(tmpDir.name, "loose", "nested", "Other.qll"), "");
+
+      const snapshot = await writeQuerySnapshot(
+        looseQueryPath,
+        "select 2",
+        snapshotsDir,
+      );
+
+      expect(await readdir(dirname(snapshot!.queryPath))).toEqual([
+        "Helpers.qll",
+        "query.ql",
+      ]);
+    });
+  });
+
+  describe("getQuickEvalText", () => {
+    const fileText = [
+      "predicate foo(int x) {",
+      "  x = 1",
+      "}",
+      "select 1",
+    ].join("\r\n");
+
+    it("gets the text of a selection on one line", () => {
+      expect(
+        getQuickEvalText(fileText, {
+          fileName: "query.ql",
+          line: 1,
+          column: 11,
+          endLine: 1,
+          endColumn: 14,
+        }),
+      ).toBe("foo");
+    });
+
+    it("gets the text of a selection over several lines", () => {
+      expect(
+        getQuickEvalText(fileText, {
+          fileName: "query.ql",
+          line: 1,
+          column: 1,
+          endLine: 3,
+          endColumn: 2,
+        }),
+      ).toBe("predicate foo(int x) {\r\n  x = 1\r\n}");
+    });
+
+    it("gets the entire line of an empty selection", () => {
+      expect(
+        getQuickEvalText(fileText, {
+          fileName: "query.ql",
+          line: 2,
+          column: 4,
+          endLine: 2,
+          endColumn: 4,
+        }),
+      ).toBe("x = 1");
+    });
+  });
+});
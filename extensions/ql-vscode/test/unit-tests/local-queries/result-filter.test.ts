@@ -0,0 +1,237 @@
+import * as Sarif from "sarif";
+import { ResultRow } from "../../../src/common/bqrs-cli-types";
+import {
+  createAlertFilter,
+  createRowFilter,
+  globToRegExp,
+  isFilterActive,
+} from "../../../src/local-queries/result-filter";
+
+describe("result-filter", () => {
+  const rows: ResultRow[] = [
+    [
+      {
+        label: "fooCall",
+        url: {
+          uri: "file:/home/user/project/src/foo.js",
+          startLine: 1,
+          startColumn: 1,
+          endLine: 1,
+          endColumn: 5,
+        },
+      },
+      "First message",
+      10,
+    ],
+    [
+      {
+        label: "barCall",
+        url: {
+          uri: "file:/home/user/project/test/bar.ts",
+          startLine: 2,
+          startColumn: 1,
+          endLine: 2,
+          endColumn: 5,
+        },
+      },
+      "Second message",
+      20,
+    ],
+    [{ label: "bazCall" }, "third", 30],
+  ];
+
+  function filterRows(
+    filterState: Parameters<typeof createRowFilter>[0],
+  ): ResultRow[] {
+    return rows.filter(createRowFilter(filterState));
+  }
+
+  describe("isFilterActive", () => {
+    it("is inactive without a filter", () => {
+      expect(isFilterActive(undefined)).toBe(false);
+      expect(isFilterActive({ searchText: "  ", columnFilters: [] })).toBe(
+        false,
+      );
+    });
+
+    it("is active with search text or column filters", () => {
+      expect(isFilterActive({ searchText: "a", columnFilters: [] })).toBe(true);
+      expect(
+        isFilterActive({
+          searchText: "",
+          columnFilters: [{ columnIndex: 0, kind: "range", min: 1 }],
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe("createRowFilter", () => {
+    it("searches all cells ignoring case", () => {
+      expect(filterRows({ searchText: "MESSAGE", columnFilters: [] })).toEqual(
+        rows.slice(0, 2),
+      );
+      expect(filterRows({ searchText: "baz", columnFilters: [] })).toEqual([
+        rows[2],
+      ]);
+      expect(filterRows({ searchText: "30", columnFilters: [] })).toEqual([
+        rows[2],
+      ]);
+    });
+
+    it("filters a column by substring", () => {
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 1, kind: "substring", text: "sec" }],
+        }),
+      ).toEqual([rows[1]]);
+    });
+
+    it("filters a column by regular expression", () => {
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 0, kind: "regex", pattern: "^ba" }],
+        }),
+      ).toEqual(rows.slice(1));
+    });
+
+    it("throws on an invalid regular expression", () => {
+      expect(() =>
+        createRowFilter({
+          searchText: "",
+          columnFilters: [{ columnIndex: 0, kind: "regex", pattern: "(" }],
+        }),
+      ).toThrow("Invalid regular expression '('");
+    });
+
+    it("filters a column by numeric range", () => {
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 2, kind: "range", min: 15 }],
+        }),
+      ).toEqual(rows.slice(1));
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 2, kind: "range", min: 15, max: 25 }],
+        }),
+      ).toEqual([rows[1]]);
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 1, kind: "range", min: 0 }],
+        }),
+      ).toEqual([]);
+    });
+
+    it("filters a column by file path glob", () => {
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [
+            { columnIndex: 0, kind: "glob", pattern: "src/*.js" },
+          ],
+        }),
+      ).toEqual([rows[0]]);
+      expect(
+        filterRows({
+          searchText: "",
+          columnFilters: [{ columnIndex: 0, kind: "glob", pattern: "**/*.ts" }],
+        }),
+      ).toEqual([rows[1]]);
+    });
+
+    it("requires all filters to match", () => {
+      expect(
+        filterRows({
+          searchText: "message",
+          columnFilters: [
+            { columnIndex: 2, kind: "range", max: 15 },
+            { columnIndex: 0, kind: "substring", text: "foo" },
+          ],
+        }),
+      ).toEqual([rows[0]]);
+    });
+  });
+
+  describe("createAlertFilter", () => {
+    const results: Sarif.Result[] = [
+      {
+        message: { text: "Query built from user-controlled sources" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "src/db/Query.java" },
+            },
+          },
+        ],
+      },
+      {
+        message: { text: "Unused variable" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "test/My%20Test.java" },
+            },
+          },
+        ],
+      },
+      {
+        message: { text: "Alert without a location" },
+      },
+    ];
+
+    function filterResults(
+      filterState: Parameters<typeof createAlertFilter>[0],
+    ): Sarif.Result[] {
+      return results.filter(createAlertFilter(filterState));
+    }
+
+    it("searches the message and the file path", () => {
+      expect(
+        filterResults({ searchText: "USER-CONTROLLED", columnFilters: [] }),
+      ).toEqual([results[0]]);
+      expect(
+        filterResults({ searchText: "my test", columnFilters: [] }),
+      ).toEqual([results[1]]);
+    });
+
+    it("filters the message", () => {
+      expect(
+        filterResults({
+          searchText: "",
+          columnFilters: [{ columnIndex: 0, kind: "regex", pattern: "^Un" }],
+        }),
+      ).toEqual([results[1]]);
+    });
+
+    it("filters the file path", () => {
+      expect(
+        filterResults({
+          searchText: "",
+          columnFilters: [{ columnIndex: 1, kind: "glob", pattern: "src/**" }],
+        }),
+      ).toEqual([results[0]]);
+    });
+  });
+
+  describe("globToRegExp", () => {
+    it("matches within a single path segment", () => {
+      expect(globToRegExp("*.js").test("/a/b/c.js")).toBe(true);
+      expect(globToRegExp("b/*.js").test("/a/b/c/d.js")).toBe(false);
+      expect(globToRegExp("?.js").test("/a/bc.js")).toBe(false);
+    });
+
+    it("matches any number of segments with **", () => {
+      expect(globToRegExp("a/**/d.js").test("/a/b/c/d.js")).toBe(true);
+      expect(globToRegExp("a/**/d.js").test("/a/d.js")).toBe(true);
+    });
+
+    it("only matches whole segments", () => {
+      expect(globToRegExp("b.js").test("/a/ab.js")).toBe(false);
+      expect(globToRegExp("a.b").test("/a/aXb")).toBe(false);
+    });
+  });
+});
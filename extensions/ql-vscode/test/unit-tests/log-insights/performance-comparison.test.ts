@@ -0,0 +1,138 @@
+import { join } from "path";
+
+import { parsePredicatePerformance } from "../../../src/log-insights/log-summary-parser";
+import {
+  comparePredicatePerformance,
+  PredicatePerformance,
+  sortPredicatePerformanceComparisons,
+} from "../../../src/log-insights/performance-comparison";
+
+describe("performance comparison", () => {
+  function createPredicate(
+    predicateName: string,
+    raHash: string,
+    millis: number,
+  ): PredicatePerformance {
+    return {
+      predicateName,
+      raHash,
+      evaluationStrategy: "COMPUTE_SIMPLE",
+      millis,
+      resultSize: 10,
+      tupleCount: 100,
+    };
+  }
+
+  describe("parsePredicatePerformance", () => {
+    it("should parse the predicates of a summary", async () => {
+      const predicates = await parsePredicatePerformance(
+        join(__dirname, "../data/evaluator-log-summaries/valid-summary.jsonl"),
+      );
+
+      expect(predicates).toEqual([
+        {
+          predicateName:
+            "query::ClassPointerType::getBaseType#dispred#f0820431#ff",
+          raHash: "e77dfaa9ciimqv7gb3imoesdb11",
+          evaluationStrategy: "COMPUTE_SIMPLE",
+          millis: 11,
+          resultSize: 1413,
+          tupleCount: 0,
+        },
+        {
+          predicateName: "query::DefinedMemberFunction#class#f0820431#f",
+          raHash: "0a0e3cicgtsru1m0cun896qhi61",
+          evaluationStrategy: "COMPUTE_SIMPLE",
+          millis: 20,
+          resultSize: 8740,
+          tupleCount: 0,
+        },
+        {
+          predicateName:
+            "QualifiedName::Namespace::getAQualifierForMembers#f0820431#ff",
+          raHash: "1d0c6wplpr6bnlnii51r7f6lh85",
+          evaluationStrategy: "COMPUTE_RECURSIVE",
+          millis: 2,
+          resultSize: 1,
+          tupleCount: 0,
+        },
+      ]);
+    });
+
+    it("should skip the summary header", async () => {
+      const predicates = await parsePredicatePerformance(
+        join(__dirname, "../data/evaluator-log-summaries/invalid-header.jsonl"),
+      );
+
+      expect(predicates).toEqual([]);
+    });
+  });
+
+  describe("comparePredicatePerformance", () => {
+    it("should match predicates by name and RA hash", () => {
+      const fromA = createPredicate("a", "hash1", 10);
+      const toA = createPredicate("a", "hash1", 50);
+
+      expect(comparePredicatePerformance([fromA], [toA])).toEqual([
+        { predicateName: "a", from: fromA, to: toA },
+      ]);
+    });
+
+    it("should fall back to matching predicates by name", () => {
+      const fromA = createPredicate("a", "hash1", 10);
+      const toA = createPredicate("a", "hash2", 5);
+
+      expect(comparePredicatePerformance([fromA], [toA])).toEqual([
+        { predicateName: "a", from: fromA, to: toA },
+      ]);
+    });
+
+    it("should include predicates only evaluated in one log", () => {
+      const fromA = createPredicate("a", "hash1", 10);
+      const toB = createPredicate("b", "hash2", 5);
+
+      expect(comparePredicatePerformance([fromA], [toB])).toEqual([
+        { predicateName: "b", from: undefined, to: toB },
+        { predicateName: "a", from: fromA, to: undefined },
+      ]);
+    });
+
+    it("should sort by the biggest regression first", () => {
+      const comparisons = comparePredicatePerformance(
+        [
+          createPredicate("a", "hash1", 10),
+          createPredicate("b", "hash2", 10),
+          createPredicate("c", "hash3", 10),
+        ],
+        [
+          createPredicate("a", "hash1", 5),
+          createPredicate("b", "hash2", 100),
+          createPredicate("c", "hash3", 20),
+        ],
+      );
+
+      expect(comparisons.map((c) => c.predicateName)).toEqual(["b", "c", "a"]);
+    });
+  });
+
+  describe("sortPredicatePerformanceComparisons", () => {
+    it("should sort by the given metric", () => {
+      const a = {
+        predicateName: "a",
+        from: { ...createPredicate("a", "hash1", 10), tupleCount: 10 },
+        to: { ...createPredicate("a", "hash1", 100), tupleCount: 20 },
+      };
+      const b = {
+        predicateName: "b",
+        from: { ...createPredicate("b", "hash2", 10), tupleCount: 10 },
+        to: { ...createPredicate("b", "hash2", 20), tupleCount: 1000 },
+      };
+
+      expect(
+        sortPredicatePerformanceComparisons([a, b], "tupleCount").map(
+          (c) => c.predicateName,
+        ),
+      ).toEqual(["b", "a"]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { join } from "path";
+
+import { parsePredicateGraph } from "../../../src/log-insights/log-summary-parser";
+import {
+  buildFlameGraph,
+  getDependents,
+  getTopLevelPredicates,
+  PredicateNode,
+} from "../../../src/log-insights/predicate-graph";
+
+describe("predicate graph", () => {
+  function createPredicate(
+    raHash: string,
+    millis: number,
+    dependencies: string[] = [],
+    queryCausingWork = "query.ql",
+  ): PredicateNode {
+    return {
+      raHash,
+      predicateName: `p_${raHash}`,
+      evaluationStrategy: "COMPUTE_SIMPLE",
+      millis,
+      resultSize: 10,
+      queryCausingWork,
+      dependencies,
+      ra: {},
+    };
+  }
+
+  describe("parsePredicateGraph", () => {
+    it("should parse the dependencies of the predicates", async () => {
+      const predicates = await parsePredicateGraph(
+        join(__dirname, "../data/evaluator-log-summaries/valid-summary.jsonl"),
+      );
+
+      expect(predicates.map((p) => p.raHash)).toEqual([
+        "e77dfaa9ciimqv7gb3imoesdb11",
+        "0a0e3cicgtsru1m0cun896qhi61",
+        "1d0c6wplpr6bnlnii51r7f6lh85",
+      ]);
+      expect(predicates[0]).toEqual(
+        expect.objectContaining({
+          predicateName:
+            "query::ClassPointerType::getBaseType#dispred#f0820431#ff",
+          millis: 11,
+          resultSize: 1413,
+          queryCausingWork: "uboot-taint.ql",
+          dependencies: [
+            "0da8f1fqbiin9i0mcitjedvlbc7",
+            "2e5d24rnudi1l99mvtse9u567b7",
+            "070e120iu2i3dhj6pt13oqnbi66",
+          ],
+        }),
+      );
+      expect(Object.keys(predicates[0].ra)).toEqual(["pipeline"]);
+    });
+
+    it("should skip the summary header", async () => {
+      const predicates = await parsePredicateGraph(
+        join(__dirname, "../data/evaluator-log-summaries/invalid-header.jsonl"),
+      );
+
+      expect(predicates).toEqual([]);
+    });
+  });
+
+  describe("getDependents", () => {
+    it("should invert the dependencies", () => {
+      const dependents = getDependents([
+        createPredicate("a", 1, ["b", "c"]),
+        createPredicate("b", 1, ["c"]),
+        createPredicate("c", 1, ["c"]),
+      ]);
+
+      expect(dependents.get("a")).toBeUndefined();
+      expect(dependents.get("b")).toEqual(["a"]);
+      expect(dependents.get("c")).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("getTopLevelPredicates", () => {
+    it("should return the predicates nothing depends on", () => {
+      const predicates = [
+        createPredicate("a", 1, ["c"]),
+        createPredicate("b", 1, ["c"]),
+        createPredicate("c", 1),
+      ];
+
+      expect(getTopLevelPredicates(predicates)).toEqual([
+        predicates[0],
+        predicates[1],
+      ]);
+    });
+  });
+
+  describe("buildFlameGraph", () => {
+    it("should compute cumulative times grouped by query", () => {
+      const root = buildFlameGraph("root", [
+        createPredicate("c", 5),
+        createPredicate("a", 10, ["c"]),
+        createPredicate("b", 1),
+      ]);
+
+      expect(root).toEqual({
+        label: "root",
+        raHash: undefined,
+        selfMillis: 0,
+        totalMillis: 16,
+        children: [
+          {
+            label: "query.ql",
+            raHash: undefined,
+            selfMillis: 0,
+            totalMillis: 16,
+            children: [
+              {
+                label: "p_a",
+                raHash: "a",
+                selfMillis: 10,
+                totalMillis: 15,
+                children: [
+                  {
+                    label: "p_c",
+                    raHash: "c",
+                    selfMillis: 5,
+                    totalMillis: 5,
+                    children: [],
+                  },
+                ],
+              },
+              {
+                label: "p_b",
+                raHash: "b",
+                selfMillis: 1,
+                totalMillis: 1,
+                children: [],
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should only count a shared dependency once", () => {
+      const root = buildFlameGraph("root", [
+        createPredicate("shared", 100),
+        createPredicate("a", 1, ["shared"]),
+        createPredicate("b", 1, ["shared"]),
+      ]);
+
+      expect(root.totalMillis).toBe(102);
+      const [query] = root.children;
+      expect(query.children.map((c) => [c.label, c.totalMillis])).toEqual([
+        ["p_a", 101],
+        ["p_b", 1],
+      ]);
+    });
+
+    it("should separate predicates by the query causing the work", () => {
+      const root = buildFlameGraph("root", [
+        createPredicate("a", 1, [], "first.ql"),
+        createPredicate("b", 5, [], "second.ql"),
+      ]);
+
+      expect(root.children.map((c) => [c.label, c.totalMillis])).toEqual([
+        ["second.ql", 5],
+        ["first.ql", 1],
+      ]);
+    });
+
+    it("should include predicates that are only part of a cycle", () => {
+      const root = buildFlameGraph("root", [
+        createPredicate("a", 3, ["b"]),
+        createPredicate("b", 4, ["a"]),
+      ]);
+
+      expect(root.totalMillis).toBe(7);
+      expect(root.children).toEqual([
+        expect.objectContaining({
+          raHash: "a",
+          totalMillis: 7,
+          children: [expect.objectContaining({ raHash: "b" })],
+        }),
+      ]);
+    });
+  });
+});
@@ -1,8 +1,16 @@
 import {
   EvaluationLogProblemReporter,
+  EvaluationLogScannerProvider,
   EvaluationLogScannerSet,
 } from "../../src/log-insights/log-scanner";
 import { JoinOrderScannerProvider } from "../../src/log-insights/join-order";
+import {
+  CartesianProductScannerProvider,
+  DuplicationScannerProvider,
+  ExtensionalCacheMissScannerProvider,
+  RecursiveIterationScannerProvider,
+} from "../../src/log-insights/builtin-scanners";
+import { SummaryEvent } from "../../src/log-insights/log-summary";
 import { join } from "path";
 
 interface TestProblem {
@@ -29,6 +37,15 @@ class TestProblemReporter implements EvaluationLogProblemReporter {
     });
   }
 
+  public reportProblemWithFallbackLocation(
+    predicateName: string,
+    raHash: string,
+    iteration: number,
+    message: string,
+  ): void {
+    this.reportProblem(predicateName, raHash, iteration, message);
+  }
+
   public log(message: string): void {
     console.log(message);
   }
@@ -55,4 +72,163 @@ describe("log scanners", () => {
       "Relation '#select#ff' has an inefficient join order. Its join order metric is 4961.83, which is larger than the threshold of 50.00.",
     );
   });
+
+  describe("built-in scanners", () => {
+    function scanEvents(
+      provider: EvaluationLogScannerProvider,
+      events: SummaryEvent[],
+    ): TestProblem[] {
+      const problemReporter = new TestProblemReporter();
+      const scanner = provider.createScanner(problemReporter);
+      events.forEach((event) => scanner.onEvent(event));
+      scanner.onDone();
+      return problemReporter.problems;
+    }
+
+    const recursiveEvent = {
+      evaluationStrategy: "COMPUTE_RECURSIVE",
+      predicateName: "reach#ff",
+      raHash: "hash1",
+      appearsAs: {},
+      resultSize: 100,
+      deltaSizes: [10, -1, 20],
+      ra: {
+        base: ["    {2} r1 = SCAN edges OUTPUT In.0, In.1", "    return r1"],
+        standard: [
+          "    {2} r1 = JOIN reach#prev_delta WITH edges ON FIRST 1 OUTPUT Lhs.0, Rhs.1",
+          "    {2} r2 = JOIN r1 WITH nodes CARTESIAN PRODUCT OUTPUT Lhs.0, Rhs.0",
+          "    return r2",
+        ],
+      },
+      pipelineRuns: [
+        { raReference: "base", counts: [10], duplicationPercentages: [0] },
+        {
+          raReference: "standard",
+          counts: [50_000, 2_000_000],
+          duplicationPercentages: [95, 0],
+        },
+      ],
+      dependencies: {},
+      predicateIterationMillis: [1, -1, 2],
+    } as SummaryEvent;
+
+    it("should report recursive predicates with many iterations", () => {
+      const problems = scanEvents(
+        new RecursiveIterationScannerProvider(() => ({
+          enabled: true,
+          threshold: 2,
+        })),
+        [recursiveEvent],
+      );
+
+      expect(problems).toEqual([
+        {
+          predicateName: "reach#ff",
+          raHash: "hash1",
+          iteration: 2,
+          message:
+            "Recursive relation 'reach#ff' needed 3 iterations to be evaluated, which is more than the threshold of 2.",
+        },
+      ]);
+    });
+
+    it("should report pipeline steps with a high duplication", () => {
+      const problems = scanEvents(
+        new DuplicationScannerProvider(() => ({
+          enabled: true,
+          threshold: 90,
+        })),
+        [recursiveEvent],
+      );
+
+      expect(problems).toEqual([
+        {
+          predicateName: "reach#ff",
+          raHash: "hash1",
+          iteration: 2,
+          message:
+            "Relation 'reach#ff' has a pipeline step in which 95% of the 50,000 tuples produced are duplicates, which is more than the threshold of 90%.",
+        },
+      ]);
+    });
+
+    it("should report large Cartesian products", () => {
+      const problems = scanEvents(
+        new CartesianProductScannerProvider(() => ({
+          enabled: true,
+          threshold: 1_000_000,
+        })),
+        [recursiveEvent],
+      );
+
+      expect(problems).toEqual([
+        {
+          predicateName: "reach#ff",
+          raHash: "hash1",
+          iteration: 2,
+          message:
+            "Relation 'reach#ff' computes a Cartesian product that produces 2,000,000 tuples, which is more than the threshold of 1,000,000.",
+        },
+      ]);
+    });
+
+    it("should report cache misses on large extensional predicates", () => {
+      const problems = scanEvents(
+        new ExtensionalCacheMissScannerProvider(() => ({
+          enabled: true,
+          threshold: 1000,
+        })),
+        [
+          {
+            evaluationStrategy: "COMPUTED_EXTENSIONAL",
+            predicateName: "files",
+            raHash: "hash2",
+            appearsAs: {},
+            resultSize: 5000,
+          },
+          {
+            evaluationStrategy: "COMPUTED_EXTENSIONAL",
+            predicateName: "folders",
+            raHash: "hash3",
+            appearsAs: {},
+            resultSize: 10,
+          },
+        ] as SummaryEvent[],
+      );
+
+      expect(problems).toEqual([
+        {
+          predicateName: "files",
+          raHash: "hash2",
+          iteration: 0,
+          message:
+            "Extensional relation 'files' with 5,000 tuples was not found in the cache and had to be computed. Its size is larger than the threshold of 1,000.",
+        },
+      ]);
+    });
+
+    it("should not report anything when below the threshold", () => {
+      const problems = scanEvents(
+        new CartesianProductScannerProvider(() => ({
+          enabled: true,
+          threshold: 10_000_000,
+        })),
+        [recursiveEvent],
+      );
+
+      expect(problems).toEqual([]);
+    });
+
+    it("should not report anything when disabled", () => {
+      const problems = scanEvents(
+        new RecursiveIterationScannerProvider(() => ({
+          enabled: false,
+          threshold: 0,
+        })),
+        [recursiveEvent],
+      );
+
+      expect(problems).toEqual([]);
+    });
+  });
 });
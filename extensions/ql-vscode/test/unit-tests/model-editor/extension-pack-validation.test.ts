@@ -0,0 +1,339 @@
+import {
+  ExtensiblePredicateMetadata,
+  isExtensiblePredicateMetadata,
+  validateDataExtensionYaml,
+} from "../../../src/model-editor/extension-pack-validation";
+import { QueryLanguage } from "../../../src/common/query-language";
+
+function createExtensiblePredicate(
+  name: string,
+  parameterCount: number,
+): ExtensiblePredicateMetadata {
+  return {
+    name,
+    parameters: Array.from({ length: parameterCount }, (_, index) => ({
+      name: `p${index}`,
+      type: "string",
+    })),
+  };
+}
+
+describe("validateDataExtensionYaml", () => {
+  const extensiblePredicates = {
+    "codeql/java-all": [
+      createExtensiblePredicate("sourceModel", 9),
+      createExtensiblePredicate("sinkModel", 9),
+      createExtensiblePredicate("summaryModel", 10),
+      createExtensiblePredicate("neutralModel", 6),
+    ],
+  };
+  const methodSignatures = new Set([
+    "org.sql2o.Connection#createQuery(String)",
+    "org.sql2o.Query#executeUpdate()",
+  ]);
+
+  const createQuerySink = [
+    "org.sql2o",
+    "Connection",
+    true,
+    "createQuery",
+    "(String)",
+    "",
+    "Argument[0]",
+    "sql",
+    "manual",
+  ];
+
+  it("accepts a valid file", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModel" },
+              data: [createQuerySink],
+            },
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "neutralModel" },
+              data: [
+                [
+                  "org.sql2o",
+                  "Query",
+                  "executeUpdate",
+                  "()",
+                  "summary",
+                  "manual",
+                ],
+              ],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports files that don't match the schema", () => {
+    expect(
+      validateDataExtensionYaml(
+        { extensions: [{ addsTo: { pack: "codeql/java-all" } }] },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message: expect.stringMatching(/^Invalid data extension YAML: /),
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports unknown extensible predicates", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModels" },
+              data: [createQuerySink],
+            },
+            {
+              addsTo: { pack: "codeql/other-all", extensible: "sinkModels" },
+              data: [],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message:
+          "Unknown extensible predicate sinkModels in pack codeql/java-all.",
+        severity: "error",
+        extensionIndex: 0,
+      },
+    ]);
+  });
+
+  it("reports rows with the wrong number of columns", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModel" },
+              data: [createQuerySink, createQuerySink.slice(0, 8)],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message: "Expected 9 columns for sinkModel but found 8.",
+        severity: "error",
+        extensionIndex: 0,
+        rowIndex: 1,
+      },
+    ]);
+  });
+
+  it("reports rows with the wrong number of columns without pack metadata", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModel" },
+              data: [createQuerySink, createQuerySink.slice(0, 6)],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        {},
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message: "Expected 9 columns for sinkModel but found 6.",
+        severity: "error",
+        extensionIndex: 0,
+        rowIndex: 1,
+      },
+    ]);
+  });
+
+  it("reports rows that can't be read without pack metadata", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/ruby-all", extensible: "sinkModel" },
+              data: [["Foo"]],
+            },
+          ],
+        },
+        QueryLanguage.Ruby,
+        {},
+        undefined,
+      ),
+    ).toEqual([
+      {
+        message: expect.stringMatching(/^Invalid row for sinkModel: /),
+        severity: "error",
+        extensionIndex: 0,
+        rowIndex: 0,
+      },
+    ]);
+  });
+
+  it("reports signatures that match no method", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModel" },
+              data: [
+                [
+                  "org.sql2o",
+                  "Connection",
+                  true,
+                  "createQuery",
+                  "(String,int)",
+                  "",
+                  "Argument[0]",
+                  "sql",
+                  "manual",
+                ],
+              ],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message:
+          "org.sql2o.Connection#createQuery(String,int) does not match any method in the database.",
+        severity: "warning",
+        extensionIndex: 0,
+        rowIndex: 0,
+      },
+    ]);
+  });
+
+  it("reports invalid access paths", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "summaryModel" },
+              data: [
+                [
+                  "org.sql2o",
+                  "Connection",
+                  true,
+                  "createQuery",
+                  "(String)",
+                  "",
+                  "Argument[0].Field[org.sql2o.Query.sql]",
+                  "ReturnValue]",
+                  "taint",
+                  "manual",
+                ],
+              ],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message: 'Invalid access path "ReturnValue]".',
+        severity: "error",
+        extensionIndex: 0,
+        rowIndex: 0,
+      },
+    ]);
+  });
+
+  it("reports duplicate and conflicting models", () => {
+    expect(
+      validateDataExtensionYaml(
+        {
+          extensions: [
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "sinkModel" },
+              data: [createQuerySink, [...createQuerySink.slice(0, 8), "ai"]],
+            },
+            {
+              addsTo: { pack: "codeql/java-all", extensible: "neutralModel" },
+              data: [
+                [
+                  "org.sql2o",
+                  "Connection",
+                  "createQuery",
+                  "(String)",
+                  "sink",
+                  "manual",
+                ],
+              ],
+            },
+          ],
+        },
+        QueryLanguage.Java,
+        extensiblePredicates,
+        methodSignatures,
+      ),
+    ).toEqual([
+      {
+        message:
+          "Duplicated classification: This method has two identical or conflicting classifications. Modify or remove the duplicated classification.",
+        severity: "error",
+        extensionIndex: 0,
+        rowIndex: 1,
+      },
+      {
+        message:
+          "Conflicting classification: This method has a neutral sink classification, which conflicts with other sink classifications. Modify or remove the neutral classification.",
+        severity: "error",
+        extensionIndex: 1,
+        rowIndex: 0,
+      },
+    ]);
+  });
+});
+
+describe("isExtensiblePredicateMetadata", () => {
+  it("accepts metadata with a name and parameters", () => {
+    expect(
+      isExtensiblePredicateMetadata({
+        path: "ext/ExternalFlowExtensions.qll",
+        name: "sinkModel",
+        parameters: [],
+      }),
+    ).toBe(true);
+  });
+
+  it("rejects metadata of older CLIs, which only includes the path", () => {
+    expect(
+      isExtensiblePredicateMetadata({
+        path: "ext/ExternalFlowExtensions.qll",
+      }),
+    ).toBe(false);
+  });
+});
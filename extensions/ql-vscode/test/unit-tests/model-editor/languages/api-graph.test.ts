@@ -0,0 +1,35 @@
+import {
+  parseApiGraphAccessPath,
+  parseApiGraphMethodFromPath,
+} from "../../../../src/model-editor/languages/api-graph";
+
+describe("parseApiGraphMethodFromPath", () => {
+  it("parses the method of a path", () => {
+    expect(
+      parseApiGraphMethodFromPath("Member", "Member[execute].Argument[0]"),
+    ).toBe("execute");
+    expect(parseApiGraphMethodFromPath("Method", "Method[exec]")).toBe("exec");
+  });
+
+  it("does not parse a path with another method token", () => {
+    expect(parseApiGraphMethodFromPath("Member", "Method[exec]")).toBe("");
+  });
+});
+
+describe("parseApiGraphAccessPath", () => {
+  it("splits the method from the rest of the path", () => {
+    expect(
+      parseApiGraphAccessPath("Member", "Member[execute].Argument[0,sql:]"),
+    ).toEqual({ methodName: "execute", path: "Argument[0,sql:]" });
+    expect(
+      parseApiGraphAccessPath("Method", "Method[exec].ReturnValue.Element[0]"),
+    ).toEqual({ methodName: "exec", path: "ReturnValue.Element[0]" });
+  });
+
+  it("does not parse a path without the rest of the path", () => {
+    expect(parseApiGraphAccessPath("Member", "Member[execute]")).toEqual({
+      methodName: "",
+      path: "",
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { go } from "../../../../../src/model-editor/languages/go";
+import { ModelsAsDataLanguagePredicate } from "../../../../../src/model-editor/languages/models-as-data";
+import { ModeledMethod } from "../../../../../src/model-editor/modeled-method";
+import { createMethod } from "../../../../factories/model-editor/method-factories";
+import {
+  createNeutralModeledMethod,
+  createSinkModeledMethod,
+  createSourceModeledMethod,
+  createSummaryModeledMethod,
+} from "../../../../factories/model-editor/modeled-method-factories";
+
+describe("go", () => {
+  const { predicates } = go;
+
+  // The properties of a method that can be read back from a model.
+  const methodSignature = {
+    signature: "database/sql.DB#Query",
+    packageName: "database/sql",
+    typeName: "DB",
+    methodName: "Query",
+    methodParameters: "",
+    libraryVersion: undefined,
+  };
+
+  function roundTrip<T extends ModeledMethod>(
+    predicate: ModelsAsDataLanguagePredicate<T> | undefined,
+    modeledMethod: T,
+  ): ModeledMethod | undefined {
+    return predicate?.readModeledMethod(
+      predicate.generateMethodDefinition(modeledMethod),
+    );
+  }
+
+  it("creates the signature of a method", () => {
+    expect(
+      go.createMethodSignature({
+        packageName: "database/sql",
+        typeName: "DB",
+        methodName: "Query",
+        methodParameters: "(string,...any)",
+      }),
+    ).toBe("database/sql.DB#Query");
+  });
+
+  it("creates the signature of a function", () => {
+    expect(
+      go.createMethodSignature({
+        packageName: "os",
+        typeName: "",
+        methodName: "Getenv",
+        methodParameters: "(string)",
+      }),
+    ).toBe("os#Getenv");
+  });
+
+  it("reads back a source model", () => {
+    const modeledMethod = createSourceModeledMethod({
+      ...methodSignature,
+      output: "ReturnValue",
+    });
+
+    expect(predicates.source?.generateMethodDefinition(modeledMethod)).toEqual([
+      "database/sql",
+      "DB",
+      true,
+      "Query",
+      "",
+      "",
+      "ReturnValue",
+      "remote",
+      "manual",
+    ]);
+    expect(roundTrip(predicates.source, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+    });
+  });
+
+  it("reads back a sink model", () => {
+    const modeledMethod = createSinkModeledMethod({
+      ...methodSignature,
+      input: "Argument[0]",
+      kind: "sql-injection",
+    });
+
+    expect(predicates.sink?.generateMethodDefinition(modeledMethod)).toEqual([
+      "database/sql",
+      "DB",
+      true,
+      "Query",
+      "",
+      "",
+      "Argument[0]",
+      "sql-injection",
+      "manual",
+    ]);
+    expect(roundTrip(predicates.sink, modeledMethod)).toEqual({
+      ...modeledMethod,
+      output: "",
+    });
+  });
+
+  it("reads back a summary model", () => {
+    const modeledMethod = createSummaryModeledMethod({
+      ...methodSignature,
+      input: "Argument[receiver]",
+    });
+
+    expect(predicates.summary?.generateMethodDefinition(modeledMethod)).toEqual(
+      [
+        "database/sql",
+        "DB",
+        true,
+        "Query",
+        "",
+        "",
+        "Argument[receiver]",
+        "ReturnValue",
+        "taint",
+        "manual",
+      ],
+    );
+    expect(roundTrip(predicates.summary, modeledMethod)).toEqual(modeledMethod);
+  });
+
+  it("reads back a neutral model", () => {
+    const modeledMethod = createNeutralModeledMethod(methodSignature);
+
+    expect(predicates.neutral?.generateMethodDefinition(modeledMethod)).toEqual(
+      ["database/sql", "DB", "Query", "", "summary", "manual"],
+    );
+    expect(roundTrip(predicates.neutral, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+      output: "",
+    });
+  });
+
+  it("offers the receiver and each parameter as arguments", () => {
+    const method = createMethod({
+      ...methodSignature,
+      methodParameters: "(string,any)",
+    });
+
+    expect(go.getArgumentOptions(method)).toEqual({
+      options: [
+        { path: "Argument[receiver]", label: "Argument[receiver]" },
+        { path: "Argument[0]", label: "Argument[0]: string" },
+        { path: "Argument[1]", label: "Argument[1]: any" },
+      ],
+      defaultArgumentPath: "Argument[0]",
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { javascript } from "../../../../../src/model-editor/languages/javascript";
+import { ModelsAsDataLanguagePredicate } from "../../../../../src/model-editor/languages/models-as-data";
+import { ModeledMethod } from "../../../../../src/model-editor/modeled-method";
+import { createMethod } from "../../../../factories/model-editor/method-factories";
+import {
+  createNeutralModeledMethod,
+  createSinkModeledMethod,
+  createSourceModeledMethod,
+  createSummaryModeledMethod,
+} from "../../../../factories/model-editor/modeled-method-factories";
+
+describe("javascript", () => {
+  const { predicates } = javascript;
+
+  // The properties of a method that can be read back from a model.
+  const methodSignature = {
+    signature: "mysql.Connection#query",
+    packageName: "",
+    typeName: "mysql.Connection",
+    methodName: "query",
+    methodParameters: "",
+    libraryVersion: undefined,
+  };
+
+  function roundTrip<T extends ModeledMethod>(
+    predicate: ModelsAsDataLanguagePredicate<T> | undefined,
+    modeledMethod: T,
+  ): ModeledMethod | undefined {
+    return predicate?.readModeledMethod(
+      predicate.generateMethodDefinition(modeledMethod),
+    );
+  }
+
+  it("creates the signature of a method", () => {
+    expect(
+      javascript.createMethodSignature({
+        typeName: "mysql.Connection",
+        methodName: "query",
+        packageName: "",
+        methodParameters: "(sql,values)",
+      }),
+    ).toBe("mysql.Connection#query");
+  });
+
+  it("reads back a source model", () => {
+    const modeledMethod = createSourceModeledMethod({
+      ...methodSignature,
+      output: "ReturnValue",
+    });
+
+    expect(predicates.source?.generateMethodDefinition(modeledMethod)).toEqual([
+      "mysql.Connection",
+      "Member[query].ReturnValue",
+      "remote",
+    ]);
+    expect(roundTrip(predicates.source, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+    });
+  });
+
+  it("reads back a sink model", () => {
+    const modeledMethod = createSinkModeledMethod({
+      ...methodSignature,
+      input: "Argument[0]",
+      kind: "sql-injection",
+    });
+
+    expect(predicates.sink?.generateMethodDefinition(modeledMethod)).toEqual([
+      "mysql.Connection",
+      "Member[query].Argument[0]",
+      "sql-injection",
+    ]);
+    expect(roundTrip(predicates.sink, modeledMethod)).toEqual({
+      ...modeledMethod,
+      output: "",
+    });
+  });
+
+  it("reads back a summary model", () => {
+    const modeledMethod = createSummaryModeledMethod({
+      ...methodSignature,
+      input: "Argument[this]",
+    });
+
+    expect(predicates.summary?.generateMethodDefinition(modeledMethod)).toEqual(
+      [
+        "mysql.Connection",
+        "Member[query]",
+        "Argument[this]",
+        "ReturnValue",
+        "taint",
+      ],
+    );
+    expect(roundTrip(predicates.summary, modeledMethod)).toEqual(modeledMethod);
+  });
+
+  it("reads back a neutral model", () => {
+    const modeledMethod = createNeutralModeledMethod(methodSignature);
+
+    expect(predicates.neutral?.generateMethodDefinition(modeledMethod)).toEqual(
+      ["mysql.Connection", "Member[query]", "summary"],
+    );
+    expect(roundTrip(predicates.neutral, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+      output: "",
+    });
+  });
+
+  it("reads back a type model", () => {
+    const modeledMethod = {
+      ...methodSignature,
+      type: "type" as const,
+      relatedTypeName: "mysql.Connection",
+      path: "ReturnValue",
+    };
+
+    expect(predicates.type?.generateMethodDefinition(modeledMethod)).toEqual([
+      "mysql.Connection",
+      "mysql.Connection",
+      "Member[query].ReturnValue",
+    ]);
+    expect(roundTrip(predicates.type, modeledMethod)).toEqual(modeledMethod);
+  });
+
+  it("offers the receiver and each parameter as arguments", () => {
+    const method = createMethod({
+      ...methodSignature,
+      methodParameters: "(sql,values)",
+    });
+
+    expect(javascript.getArgumentOptions(method)).toEqual({
+      options: [
+        { path: "Argument[this]", label: "Argument[this]" },
+        { path: "Argument[0]", label: "Argument[0]: sql" },
+        { path: "Argument[1]", label: "Argument[1]: values" },
+      ],
+      defaultArgumentPath: "Argument[0]",
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { python } from "../../../../../src/model-editor/languages/python";
+import { ModelsAsDataLanguagePredicate } from "../../../../../src/model-editor/languages/models-as-data";
+import { ModeledMethod } from "../../../../../src/model-editor/modeled-method";
+import { createMethod } from "../../../../factories/model-editor/method-factories";
+import {
+  createNeutralModeledMethod,
+  createSinkModeledMethod,
+  createSourceModeledMethod,
+  createSummaryModeledMethod,
+} from "../../../../factories/model-editor/modeled-method-factories";
+
+describe("python", () => {
+  const { predicates } = python;
+
+  // The properties of a method that can be read back from a model.
+  const methodSignature = {
+    signature: "sqlite3.Cursor#execute",
+    packageName: "",
+    typeName: "sqlite3.Cursor",
+    methodName: "execute",
+    methodParameters: "",
+    libraryVersion: undefined,
+  };
+
+  function roundTrip<T extends ModeledMethod>(
+    predicate: ModelsAsDataLanguagePredicate<T> | undefined,
+    modeledMethod: T,
+  ): ModeledMethod | undefined {
+    return predicate?.readModeledMethod(
+      predicate.generateMethodDefinition(modeledMethod),
+    );
+  }
+
+  it("creates the signature of a method", () => {
+    expect(
+      python.createMethodSignature({
+        typeName: "sqlite3.Cursor",
+        methodName: "execute",
+        packageName: "",
+        methodParameters: "(sql,parameters)",
+      }),
+    ).toBe("sqlite3.Cursor#execute");
+  });
+
+  it("reads back a source model", () => {
+    const modeledMethod = createSourceModeledMethod({
+      ...methodSignature,
+      output: "ReturnValue",
+    });
+
+    expect(predicates.source?.generateMethodDefinition(modeledMethod)).toEqual([
+      "sqlite3.Cursor",
+      "Member[execute].ReturnValue",
+      "remote",
+    ]);
+    expect(roundTrip(predicates.source, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+    });
+  });
+
+  it("reads back a sink model", () => {
+    const modeledMethod = createSinkModeledMethod({
+      ...methodSignature,
+      input: "Argument[0,sql:]",
+      kind: "sql-injection",
+    });
+
+    expect(predicates.sink?.generateMethodDefinition(modeledMethod)).toEqual([
+      "sqlite3.Cursor",
+      "Member[execute].Argument[0,sql:]",
+      "sql-injection",
+    ]);
+    expect(roundTrip(predicates.sink, modeledMethod)).toEqual({
+      ...modeledMethod,
+      output: "",
+    });
+  });
+
+  it("reads back a summary model", () => {
+    const modeledMethod = createSummaryModeledMethod({
+      ...methodSignature,
+      input: "Argument[self]",
+    });
+
+    expect(predicates.summary?.generateMethodDefinition(modeledMethod)).toEqual(
+      [
+        "sqlite3.Cursor",
+        "Member[execute]",
+        "Argument[self]",
+        "ReturnValue",
+        "taint",
+      ],
+    );
+    expect(roundTrip(predicates.summary, modeledMethod)).toEqual(modeledMethod);
+  });
+
+  it("reads back a neutral model", () => {
+    const modeledMethod = createNeutralModeledMethod(methodSignature);
+
+    expect(predicates.neutral?.generateMethodDefinition(modeledMethod)).toEqual(
+      ["sqlite3.Cursor", "Member[execute]", "summary"],
+    );
+    expect(roundTrip(predicates.neutral, modeledMethod)).toEqual({
+      ...modeledMethod,
+      input: "",
+      output: "",
+    });
+  });
+
+  it("reads back a type model", () => {
+    const modeledMethod = {
+      ...methodSignature,
+      type: "type" as const,
+      relatedTypeName: "sqlite3.Cursor",
+      path: "ReturnValue",
+    };
+
+    expect(predicates.type?.generateMethodDefinition(modeledMethod)).toEqual([
+      "sqlite3.Cursor",
+      "sqlite3.Cursor",
+      "Member[execute].ReturnValue",
+    ]);
+    expect(roundTrip(predicates.type, modeledMethod)).toEqual(modeledMethod);
+  });
+
+  it("offers the receiver and each parameter as arguments", () => {
+    const method = createMethod({
+      ...methodSignature,
+      methodParameters: "(sql,parameters)",
+    });
+
+    expect(python.getArgumentOptions(method)).toEqual({
+      options: [
+        { path: "Argument[self]", label: "Argument[self]" },
+        { path: "Argument[0,sql:]", label: "Argument[0,sql:]: sql" },
+        {
+          path: "Argument[1,parameters:]",
+          label: "Argument[1,parameters:]: parameters",
+        },
+      ],
+      defaultArgumentPath: "Argument[0,sql:]",
+    });
+  });
+});
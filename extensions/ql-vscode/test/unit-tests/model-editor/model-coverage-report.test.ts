@@ -0,0 +1,144 @@
+import {
+  createModelCoverageReport,
+  exportModelCoverageReport,
+  sortLibraryModelCoverage,
+} from "../../../src/model-editor/model-coverage-report";
+import {
+  createMethod,
+  createUsage,
+} from "../../factories/model-editor/method-factories";
+import {
+  createNoneModeledMethod,
+  createSinkModeledMethod,
+  createSummaryModeledMethod,
+} from "../../factories/model-editor/modeled-method-factories";
+
+describe("model coverage report", () => {
+  const methods = [
+    createMethod({
+      signature: "org.sql2o.Sql2o#open()",
+      supported: true,
+      supportedType: "summary",
+    }),
+    createMethod({
+      signature: "org.sql2o.Connection#createQuery(String)",
+      supported: false,
+      supportedType: "none",
+      usages: [createUsage(), createUsage()],
+    }),
+    createMethod({
+      signature: "org.sql2o.Query#executeUpdate()",
+      supported: false,
+      supportedType: "none",
+      usages: [createUsage()],
+    }),
+    createMethod({
+      signature: "org.sql2o.Query#bind(Object)",
+      supported: false,
+      supportedType: "none",
+      usages: [createUsage(), createUsage(), createUsage()],
+    }),
+    createMethod({
+      library: "rt",
+      libraryVersion: undefined,
+      signature: "java.io.File#File(String)",
+      supported: false,
+      supportedType: "none",
+    }),
+  ];
+  const modeledMethods = {
+    "org.sql2o.Connection#createQuery(String)": [
+      createSinkModeledMethod({ provenance: "manual" }),
+      createSummaryModeledMethod({ provenance: "df-generated" }),
+    ],
+    "org.sql2o.Query#executeUpdate()": [createNoneModeledMethod()],
+  };
+
+  const report = createModelCoverageReport(
+    "sql2o-db",
+    "sql2o-models",
+    methods,
+    modeledMethods,
+  );
+
+  it("counts the modeled methods of each library", () => {
+    expect(report.databaseName).toEqual("sql2o-db");
+    expect(report.extensionPackName).toEqual("sql2o-models");
+    expect(report.libraries).toEqual([
+      {
+        library: "rt",
+        libraryVersion: undefined,
+        totalMethods: 1,
+        modeledMethods: 0,
+        modeledPercentage: 0,
+        modeledByType: { source: 0, sink: 0, summary: 0, neutral: 0 },
+        modeledByProvenance: {},
+        unmodeledMethods: [
+          { signature: "java.io.File#File(String)", usages: 0 },
+        ],
+      },
+      {
+        library: "sql2o",
+        libraryVersion: "1.6.0",
+        totalMethods: 4,
+        modeledMethods: 2,
+        modeledPercentage: 50,
+        modeledByType: { source: 0, sink: 1, summary: 2, neutral: 0 },
+        modeledByProvenance: { codeql: 1, manual: 1, "df-generated": 1 },
+        unmodeledMethods: [
+          { signature: "org.sql2o.Query#bind(Object)", usages: 3 },
+          { signature: "org.sql2o.Query#executeUpdate()", usages: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("sorts libraries by a numeric column in descending order", () => {
+    expect(
+      sortLibraryModelCoverage(report.libraries, "totalMethods").map(
+        (library) => library.library,
+      ),
+    ).toEqual(["sql2o", "rt"]);
+    expect(
+      sortLibraryModelCoverage(report.libraries, "sink").map(
+        (library) => library.library,
+      ),
+    ).toEqual(["sql2o", "rt"]);
+  });
+
+  it("exports the report as CSV", () => {
+    expect(exportModelCoverageReport(report, "csv")).toEqual(
+      `Library,Methods,Modeled,Modeled %,source,sink,summary,neutral,codeql,df-generated,manual,Unmodeled methods
+rt,1,0,0.0,0,0,0,0,0,0,0,java.io.File#File(String) (0)
+sql2o@1.6.0,4,2,50.0,0,1,2,0,1,1,1,org.sql2o.Query#bind(Object) (3); org.sql2o.Query#executeUpdate() (1)
+`,
+    );
+  });
+
+  it("exports the report as Markdown", () => {
+    expect(exportModelCoverageReport(report, "markdown")).toEqual(
+      `# Model coverage of sql2o-db
+
+Extension pack: sql2o-models
+
+| Library | Methods | Modeled | Modeled % | source | sink | summary | neutral | codeql | df-generated | manual |
+| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |
+| rt | 1 | 0 | 0.0 | 0 | 0 | 0 | 0 | 0 | 0 | 0 |
+| sql2o@1.6.0 | 4 | 2 | 50.0 | 0 | 1 | 2 | 0 | 1 | 1 | 1 |
+
+## Unmodeled methods in rt
+
+| Method | Usages |
+| --- | --- |
+| java.io.File#File(String) | 0 |
+
+## Unmodeled methods in sql2o@1.6.0
+
+| Method | Usages |
+| --- | --- |
+| org.sql2o.Query#bind(Object) | 3 |
+| org.sql2o.Query#executeUpdate() | 1 |
+`,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { join } from "path";
+import { dirSync } from "tmp-promise";
+import { DirResult } from "tmp";
+import { writeFile, writeJson } from "fs-extra";
+import {
+  addModelTemplate,
+  readModelTemplates,
+  writeModelTemplates,
+} from "../../../src/model-editor/model-template-fs";
+import { ModelTemplate } from "../../../src/model-editor/shared/model-template";
+import { QueryLanguage } from "../../../src/common/query-language";
+
+function createTemplate(
+  name: string,
+  language: QueryLanguage = QueryLanguage.Java,
+): ModelTemplate {
+  return {
+    name,
+    language,
+    signature: "org.sql2o.Query#execute*",
+    model: {
+      type: "sink",
+      input: "Argument[0]",
+      output: "ReturnValue",
+      kind: "sql-injection",
+    },
+  };
+}
+
+describe("model templates", () => {
+  let tmpDir: DirResult;
+
+  beforeEach(() => {
+    tmpDir = dirSync({ unsafeCleanup: true });
+  });
+
+  afterEach(() => {
+    tmpDir.removeCallback();
+  });
+
+  it("reads no templates if the file does not exist", async () => {
+    expect(
+      await readModelTemplates(join(tmpDir.name, "templates.json")),
+    ).toEqual([]);
+  });
+
+  it("writes and reads templates", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    const templates = [createTemplate("Query execution")];
+
+    await writeModelTemplates(templatesPath, templates);
+
+    expect(await readModelTemplates(templatesPath)).toEqual(templates);
+  });
+
+  it("rejects unsupported versions", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    await writeJson(templatesPath, { version: 2, templates: [] });
+
+    await expect(readModelTemplates(templatesPath)).rejects.toThrow(
+      "Unsupported model templates format",
+    );
+  });
+
+  it("rejects malformed JSON", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    await writeFile(templatesPath, '{ "version": 1, "templates": [', "utf8");
+
+    await expect(readModelTemplates(templatesPath)).rejects.toThrow(
+      `Could not read model templates from ${templatesPath}`,
+    );
+  });
+
+  it("rejects files without templates", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    await writeJson(templatesPath, { version: 1 });
+
+    await expect(readModelTemplates(templatesPath)).rejects.toThrow(
+      `Invalid model templates in ${templatesPath}:  must have required property 'templates'`,
+    );
+  });
+
+  it("rejects templates without a model", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    const template: Partial<ModelTemplate> = createTemplate("Query execution");
+    delete template.model;
+    await writeJson(templatesPath, { version: 1, templates: [template] });
+
+    await expect(readModelTemplates(templatesPath)).rejects.toThrow(
+      "/templates/0 must have required property 'model'",
+    );
+  });
+
+  it("rejects templates with an unknown model type", async () => {
+    const templatesPath = join(tmpDir.name, "templates.json");
+    const template = createTemplate("Query execution");
+    await writeJson(templatesPath, {
+      version: 1,
+      templates: [{ ...template, model: { ...template.model, type: "step" } }],
+    });
+
+    await expect(readModelTemplates(templatesPath)).rejects.toThrow(
+      "/templates/0/model/type must be equal to one of the allowed values",
+    );
+  });
+
+  it("replaces templates with the same name and language", () => {
+    const replaced = {
+      ...createTemplate("Query execution"),
+      signature: "org.sql2o.Query#executeUpdate*",
+    };
+
+    expect(
+      addModelTemplate(
+        [
+          createTemplate("Query execution"),
+          createTemplate("Query execution", QueryLanguage.CSharp),
+          createTemplate("Connection"),
+        ],
+        replaced,
+      ),
+    ).toEqual([
+      createTemplate("Query execution", QueryLanguage.CSharp),
+      createTemplate("Connection"),
+      replaced,
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import * as sarif from "sarif";
+import {
+  createQueryModelImpact,
+  QueryModelImpact,
+  sortQueryModelImpacts,
+} from "../../../../src/model-editor/shared/model-impact-preview";
+
+function createResult(uri: string, startLine: number): sarif.Result {
+  return {
+    ruleId: "java/sql-injection",
+    message: {
+      text: "This query depends on a user-provided value.",
+    },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: {
+            uri,
+          },
+          region: {
+            startLine,
+            startColumn: 5,
+            endLine: startLine,
+            endColumn: 10,
+          },
+        },
+      },
+    ],
+  };
+}
+
+describe("createQueryModelImpact", () => {
+  it("finds added and removed alerts", () => {
+    const unchanged = createResult("A.java", 1);
+    const removed = createResult("A.java", 5);
+    const added = createResult("B.java", 3);
+
+    expect(
+      createQueryModelImpact(
+        "SQL injection",
+        "/queries/SqlInjection.ql",
+        [unchanged, removed],
+        [unchanged, added],
+        "/src",
+      ),
+    ).toEqual({
+      queryName: "SQL injection",
+      queryPath: "/queries/SqlInjection.ql",
+      addedAlerts: [added],
+      removedAlerts: [removed],
+    });
+  });
+
+  it("finds no changes for identical alerts", () => {
+    const result = createResult("A.java", 1);
+
+    expect(
+      createQueryModelImpact(
+        "SQL injection",
+        "/queries/SqlInjection.ql",
+        [result],
+        [createResult("A.java", 1)],
+        "/src",
+      ),
+    ).toEqual({
+      queryName: "SQL injection",
+      queryPath: "/queries/SqlInjection.ql",
+      addedAlerts: [],
+      removedAlerts: [],
+    });
+  });
+});
+
+describe("sortQueryModelImpacts", () => {
+  function createQueryModelImpactWithCounts(
+    queryName: string,
+    addedCount: number,
+    removedCount: number,
+  ): QueryModelImpact {
+    return {
+      queryName,
+      queryPath: `/queries/${queryName}.ql`,
+      addedAlerts: Array.from({ length: addedCount }, (_, index) =>
+        createResult("A.java", index + 1),
+      ),
+      removedAlerts: Array.from({ length: removedCount }, (_, index) =>
+        createResult("B.java", index + 1),
+      ),
+    };
+  }
+
+  it("sorts by number of changed alerts and then by name", () => {
+    const queries = [
+      createQueryModelImpactWithCounts("Unchanged", 0, 0),
+      createQueryModelImpactWithCounts("Zip slip", 1, 1),
+      createQueryModelImpactWithCounts("SQL injection", 3, 0),
+      createQueryModelImpactWithCounts("Path injection", 0, 2),
+    ];
+
+    expect(
+      sortQueryModelImpacts(queries).map((query) => query.queryName),
+    ).toEqual(["SQL injection", "Path injection", "Zip slip", "Unchanged"]);
+  });
+});
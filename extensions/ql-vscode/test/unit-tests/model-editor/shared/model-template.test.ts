@@ -0,0 +1,212 @@
+import {
+  applyModelTemplates,
+  createBulkModeledMethods,
+  ModelTemplate,
+  suggestModelTemplateSignature,
+} from "../../../../src/model-editor/shared/model-template";
+import { QueryLanguage } from "../../../../src/common/query-language";
+import { createMethod } from "../../../factories/model-editor/method-factories";
+import { createSinkModeledMethod } from "../../../factories/model-editor/modeled-method-factories";
+
+describe("createBulkModeledMethods", () => {
+  const createQuery = createMethod({
+    signature: "org.sql2o.Connection#createQuery(String)",
+    packageName: "org.sql2o",
+    typeName: "Connection",
+    methodName: "createQuery",
+    methodParameters: "(String)",
+    supported: false,
+  });
+  const open = createMethod({
+    signature: "org.sql2o.Connection#open()",
+    packageName: "org.sql2o",
+    typeName: "Connection",
+    methodName: "open",
+    methodParameters: "()",
+    supported: false,
+  });
+
+  it("applies the model to all methods", () => {
+    expect(
+      createBulkModeledMethods(
+        [createQuery, open],
+        {
+          type: "sink",
+          input: "Argument[this]",
+          output: "ReturnValue",
+          kind: "sql-injection",
+        },
+        QueryLanguage.Java,
+      ),
+    ).toEqual({
+      [createQuery.signature]: [
+        {
+          type: "sink",
+          input: "Argument[this]",
+          kind: "sql-injection",
+          provenance: "manual",
+          signature: createQuery.signature,
+          packageName: "org.sql2o",
+          typeName: "Connection",
+          methodName: "createQuery",
+          methodParameters: "(String)",
+        },
+      ],
+      [open.signature]: [
+        {
+          type: "sink",
+          input: "Argument[this]",
+          kind: "sql-injection",
+          provenance: "manual",
+          signature: open.signature,
+          packageName: "org.sql2o",
+          typeName: "Connection",
+          methodName: "open",
+          methodParameters: "()",
+        },
+      ],
+    });
+  });
+
+  it("leaves out methods without the selected argument", () => {
+    expect(
+      Object.keys(
+        createBulkModeledMethods(
+          [createQuery, open],
+          {
+            type: "summary",
+            input: "Argument[0]",
+            output: "ReturnValue",
+            kind: "taint",
+          },
+          QueryLanguage.Java,
+        ),
+      ),
+    ).toEqual([createQuery.signature]);
+  });
+
+  it("leaves out all methods if the kind is not supported", () => {
+    expect(
+      createBulkModeledMethods(
+        [createQuery, open],
+        {
+          type: "sink",
+          input: "Argument[this]",
+          output: "ReturnValue",
+          kind: "taint",
+        },
+        QueryLanguage.Java,
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("applyModelTemplates", () => {
+  const template: ModelTemplate = {
+    name: "Query execution",
+    language: QueryLanguage.Java,
+    signature: "org.sql2o.Query#execute*",
+    model: {
+      type: "sink",
+      input: "Argument[0]",
+      output: "ReturnValue",
+      kind: "sql-injection",
+    },
+  };
+
+  const executeUpdate = createMethod({
+    signature: "org.sql2o.Query#executeUpdate(String)",
+    packageName: "org.sql2o",
+    typeName: "Query",
+    methodName: "executeUpdate",
+    methodParameters: "(String)",
+    supported: false,
+  });
+  const executeScalar = createMethod({
+    signature: "org.sql2o.Query#executeScalar(String)",
+    packageName: "org.sql2o",
+    typeName: "Query",
+    methodName: "executeScalar",
+    methodParameters: "(String)",
+    supported: false,
+  });
+  const executeSupported = createMethod({
+    signature: "org.sql2o.Query#executeAndFetch(String)",
+    packageName: "org.sql2o",
+    typeName: "Query",
+    methodName: "executeAndFetch",
+    methodParameters: "(String)",
+    supported: true,
+  });
+  const bind = createMethod({
+    signature: "org.sql2o.Query#bind(Object)",
+    packageName: "org.sql2o",
+    typeName: "Query",
+    methodName: "bind",
+    methodParameters: "(Object)",
+    supported: false,
+  });
+
+  it("applies templates to matching methods that are not modeled yet", () => {
+    const result = applyModelTemplates(
+      [template],
+      [executeUpdate, executeScalar, executeSupported, bind],
+      {
+        [executeScalar.signature]: [
+          createSinkModeledMethod({
+            signature: executeScalar.signature,
+            kind: "code-injection",
+          }),
+        ],
+      },
+      QueryLanguage.Java,
+    );
+
+    expect(Object.keys(result)).toEqual([executeUpdate.signature]);
+    expect(result[executeUpdate.signature]).toEqual([
+      expect.objectContaining({
+        type: "sink",
+        input: "Argument[0]",
+        kind: "sql-injection",
+        provenance: "manual",
+      }),
+    ]);
+  });
+
+  it("only applies templates of the same language", () => {
+    expect(
+      applyModelTemplates(
+        [template],
+        [executeUpdate],
+        {},
+        QueryLanguage.CSharp,
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("suggestModelTemplateSignature", () => {
+  it("returns the signature of a single method", () => {
+    expect(
+      suggestModelTemplateSignature(["org.sql2o.Query#executeUpdate(String)"]),
+    ).toEqual("org.sql2o.Query#executeUpdate(String)");
+  });
+
+  it("returns the common prefix of multiple methods", () => {
+    expect(
+      suggestModelTemplateSignature([
+        "org.sql2o.Query#executeUpdate()",
+        "org.sql2o.Query#executeScalar(Class)",
+      ]),
+    ).toEqual("org.sql2o.Query#execute*");
+  });
+
+  it("matches all overloads of a method", () => {
+    expect(
+      suggestModelTemplateSignature([
+        "org.sql2o.Query#executeUpdate(String)",
+        "org.sql2o.Query#executeUpdate(String,int)",
+      ]),
+    ).toEqual("org.sql2o.Query#executeUpdate*");
+  });
+});
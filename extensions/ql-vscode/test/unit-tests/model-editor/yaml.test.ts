@@ -72,6 +72,111 @@ describe("createDataExtensionYaml", () => {
       pack: codeql/csharp-all
       extensible: neutralModel
     data: []
+`);
+  });
+  it("creates the correct YAML file for Python", () => {
+    const yaml = createDataExtensionYaml(QueryLanguage.Python, [
+      {
+        type: "sink",
+        input: "Argument[0,command:]",
+        kind: "command-injection",
+        provenance: "manual",
+        signature: "fabric.operations#local",
+        packageName: "fabric",
+        typeName: "fabric.operations",
+        methodName: "local",
+        methodParameters: "(command,capture)",
+      },
+      {
+        type: "type",
+        relatedTypeName: "fabric.connection.Connection",
+        path: "ReturnValue",
+        signature: "fabric.operations#connect",
+        packageName: "fabric",
+        typeName: "fabric.operations",
+        methodName: "connect",
+        methodParameters: "(host)",
+      },
+    ]);
+
+    expect(yaml).toEqual(`extensions:
+  - addsTo:
+      pack: codeql/python-all
+      extensible: sourceModel
+    data: []
+
+  - addsTo:
+      pack: codeql/python-all
+      extensible: sinkModel
+    data:
+      - ["fabric.operations","Member[local].Argument[0,command:]","command-injection"]
+
+  - addsTo:
+      pack: codeql/python-all
+      extensible: summaryModel
+    data: []
+
+  - addsTo:
+      pack: codeql/python-all
+      extensible: neutralModel
+    data: []
+
+  - addsTo:
+      pack: codeql/python-all
+      extensible: typeModel
+    data:
+      - ["fabric.connection.Connection","fabric.operations","Member[connect].ReturnValue"]
+`);
+  });
+
+  it("creates the correct YAML file for Go", () => {
+    const yaml = createDataExtensionYaml(QueryLanguage.Go, [
+      {
+        type: "source",
+        output: "ReturnValue",
+        kind: "remote",
+        provenance: "manual",
+        signature: "net/http.Request#FormValue",
+        packageName: "net/http",
+        typeName: "Request",
+        methodName: "FormValue",
+        methodParameters: "(string)",
+      },
+      {
+        type: "sink",
+        input: "Argument[0]",
+        kind: "command-injection",
+        provenance: "manual",
+        signature: "os/exec#Command",
+        packageName: "os/exec",
+        typeName: "",
+        methodName: "Command",
+        methodParameters: "(string,[]string)",
+      },
+    ]);
+
+    expect(yaml).toEqual(`extensions:
+  - addsTo:
+      pack: codeql/go-all
+      extensible: sourceModel
+    data:
+      - ["net/http","Request",true,"FormValue","","","ReturnValue","remote","manual"]
+
+  - addsTo:
+      pack: codeql/go-all
+      extensible: sinkModel
+    data:
+      - ["os/exec","",true,"Command","","","Argument[0]","command-injection","manual"]
+
+  - addsTo:
+      pack: codeql/go-all
+      extensible: summaryModel
+    data: []
+
+  - addsTo:
+      pack: codeql/go-all
+      extensible: neutralModel
+    data: []
 `);
   });
 });
@@ -1014,6 +1119,43 @@ describe("loadDataExtensionYaml", () => {
     });
   });
 
+  it("loads a Python YAML file", () => {
+    const data = loadDataExtensionYaml(
+      {
+        extensions: [
+          {
+            addsTo: { pack: "codeql/python-all", extensible: "sinkModel" },
+            data: [
+              [
+                "fabric.operations",
+                "Member[local].Argument[0,command:]",
+                "command-injection",
+              ],
+            ],
+          },
+        ],
+      },
+      QueryLanguage.Python,
+    );
+
+    expect(data).toEqual({
+      "fabric.operations#local": [
+        {
+          input: "Argument[0,command:]",
+          kind: "command-injection",
+          output: "",
+          type: "sink",
+          provenance: "manual",
+          signature: "fabric.operations#local",
+          packageName: "",
+          typeName: "fabric.operations",
+          methodName: "local",
+          methodParameters: "",
+        },
+      ],
+    });
+  });
+
   it("returns undefined if given a string", () => {
     expect(() =>
       loadDataExtensionYaml(
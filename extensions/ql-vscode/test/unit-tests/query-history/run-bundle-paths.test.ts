@@ -0,0 +1,166 @@
+import { join } from "path";
+import {
+  fromRunBundleItem,
+  toRunBundleItem,
+} from "../../../src/query-history/run-bundle-paths";
+import { QueryHistoryLocalQueryDto } from "../../../src/query-history/store/query-history-local-query-dto";
+
+describe("run bundle paths", () => {
+  const homeDir = join("/", "home", "alice");
+  const querySaveDir = join(homeDir, "storage", "queries", "query.ql-abc");
+
+  function createItem(saveDir: string): QueryHistoryLocalQueryDto {
+    return {
+      t: "local",
+      evalLogLocation: join(saveDir, "evaluator-log.jsonl"),
+      initialInfo: {
+        queryText: "/** A query */\nselect 1",
+        isQuickQuery: false,
+        isQuickEval: false,
+        queryPath: join(homeDir, "queries", "query.ql"),
+        databaseInfo: {
+          name: "db",
+          databaseUri: `file://${join(homeDir, "databases", "db")}`,
+        },
+        start: new Date(0),
+        id: "query.ql-abc",
+        outputDir: {
+          querySaveDir: saveDir,
+        },
+      },
+      completedQuery: {
+        query: {
+          querySaveDir: saveDir,
+          dbItemPath: join(homeDir, "databases", "db"),
+          databaseHasMetadataFile: true,
+          resultsPaths: {
+            resultsPath: join(saveDir, "results.bqrs"),
+            interpretedResultsPath: join(saveDir, "interpretedResults.sarif"),
+          },
+        },
+        message: "Query completed",
+        successful: true,
+        result: {
+          runId: 0,
+          queryId: 0,
+          resultType: 0,
+          evaluationTime: 1,
+        },
+        resultCount: 1,
+        sortedResultsInfo: {
+          "#select": {
+            resultsPath: join(saveDir, "sortedResults-#select.bqrs"),
+            sortState: { columnIndex: 0, sortDirection: 0 },
+          },
+        },
+      },
+    };
+  }
+
+  it("makes the paths in the output directory relative to the bundle", () => {
+    const item = toRunBundleItem(createItem(querySaveDir), querySaveDir);
+
+    expect(item.evalLogLocation).toBe("query/evaluator-log.jsonl");
+    expect(item.initialInfo.outputDir?.querySaveDir).toBe("query");
+    expect(item.completedQuery?.query.resultsPaths).toEqual({
+      resultsPath: "query/results.bqrs",
+      interpretedResultsPath: "query/interpretedResults.sarif",
+    });
+    expect(item.completedQuery?.sortedResultsInfo["#select"].resultsPath).toBe(
+      "query/sortedResults-#select.bqrs",
+    );
+  });
+
+  it("does not include the directories of the user", () => {
+    const item = toRunBundleItem(createItem(querySaveDir), querySaveDir);
+
+    expect(JSON.stringify(item)).not.toContain(homeDir);
+    expect(item.initialInfo.queryPath).toBe("query.ql");
+    expect(item.initialInfo.databaseInfo.databaseUri).toBe("db");
+    expect(item.completedQuery?.query.dbItemPath).toBe("db");
+  });
+
+  it("does not change other text", () => {
+    const item = toRunBundleItem(createItem(querySaveDir), querySaveDir);
+
+    expect(item.initialInfo.queryText).toBe("/** A query */\nselect 1");
+    expect(item.completedQuery?.message).toBe("Query completed");
+  });
+
+  it("restores the paths in the output directory", () => {
+    const importDir = join("/", "other", "queries", "query.ql-def");
+
+    const item = fromRunBundleItem(
+      toRunBundleItem(createItem(querySaveDir), querySaveDir),
+      importDir,
+    );
+
+    const expected = createItem(importDir);
+    expect(item.evalLogLocation).toBe(expected.evalLogLocation);
+    expect(item.initialInfo.outputDir).toEqual(expected.initialInfo.outputDir);
+    expect(item.completedQuery?.query.resultsPaths).toEqual(
+      expected.completedQuery?.query.resultsPaths,
+    );
+    expect(item.completedQuery?.sortedResultsInfo).toEqual(
+      expected.completedQuery?.sortedResultsInfo,
+    );
+  });
+
+  it("restores paths with Windows separators", () => {
+    const importDir = join("/", "other", "queries", "query.ql-def");
+    const bundleItem = toRunBundleItem(createItem(querySaveDir), querySaveDir);
+
+    const item = fromRunBundleItem(
+      {
+        ...bundleItem,
+        evalLogLocation: "query\\logs\\evaluator-log.jsonl",
+      },
+      importDir,
+    );
+
+    expect(item.evalLogLocation).toBe(
+      join(importDir, "logs", "evaluator-log.jsonl"),
+    );
+  });
+
+  it("sets the output directory to the import directory", () => {
+    const importDir = join("/", "other", "queries", "query.ql-def");
+    const bundleItem = toRunBundleItem(createItem(querySaveDir), querySaveDir);
+
+    const item = fromRunBundleItem(
+      {
+        ...bundleItem,
+        initialInfo: {
+          ...bundleItem.initialInfo,
+          outputDir: { querySaveDir: "elsewhere" },
+        },
+        completedQuery: bundleItem.completedQuery && {
+          ...bundleItem.completedQuery,
+          query: {
+            ...bundleItem.completedQuery.query,
+            querySaveDir: join("/", "home", "bob"),
+          },
+        },
+      },
+      importDir,
+    );
+
+    expect(item.initialInfo.outputDir?.querySaveDir).toBe(importDir);
+    expect(item.completedQuery?.query.querySaveDir).toBe(importDir);
+  });
+
+  it.each(["query/../../..", "query\\..\\..", "../evaluator-log.jsonl"])(
+    "rejects the path %s that points outside of the import directory",
+    (path) => {
+      const importDir = join("/", "other", "queries", "query.ql-def");
+      const bundleItem = toRunBundleItem(
+        createItem(querySaveDir),
+        querySaveDir,
+      );
+
+      expect(() =>
+        fromRunBundleItem({ ...bundleItem, evalLogLocation: path }, importDir),
+      ).toThrow(`Invalid path in query run bundle: ${path}`);
+    },
+  );
+});
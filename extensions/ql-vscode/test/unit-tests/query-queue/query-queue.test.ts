@@ -0,0 +1,101 @@
+import {
+  QueryQueue,
+  QueryQueueItemStatus,
+} from "../../../src/query-queue/query-queue";
+
+describe("QueryQueue", () => {
+  let queue: QueryQueue;
+
+  beforeEach(() => {
+    queue = new QueryQueue();
+  });
+
+  function getQueryPaths() {
+    return queue.getItems().map((item) => item.queryPath);
+  }
+
+  it("orders items by priority and then by the order they were added", () => {
+    queue.add("a.ql", "db", "db", "low");
+    queue.add("b.ql", "db", "db");
+    queue.add("c.ql", "db", "db", "high");
+    queue.add("d.ql", "db", "db");
+
+    expect(getQueryPaths()).toEqual(["c.ql", "b.ql", "d.ql", "a.ql"]);
+  });
+
+  it("moves an item to the end of its new priority group", () => {
+    const a = queue.add("a.ql", "db", "db", "high");
+    queue.add("b.ql", "db", "db", "high");
+    queue.add("c.ql", "db", "db");
+
+    queue.setPriority(a.id, "high");
+
+    expect(getQueryPaths()).toEqual(["b.ql", "a.ql", "c.ql"]);
+  });
+
+  it("moves items within their priority group", () => {
+    queue.add("a.ql", "db", "db");
+    queue.add("b.ql", "db", "db", "high");
+    const c = queue.add("c.ql", "db", "db");
+
+    queue.move(c.id, -1);
+    expect(getQueryPaths()).toEqual(["b.ql", "c.ql", "a.ql"]);
+
+    // c.ql is already the first item with normal priority.
+    queue.move(c.id, -1);
+    expect(getQueryPaths()).toEqual(["b.ql", "c.ql", "a.ql"]);
+  });
+
+  it("does not reorder running items", () => {
+    const a = queue.add("a.ql", "db", "db");
+    const b = queue.add("b.ql", "db", "db");
+    queue.add("c.ql", "db", "db");
+    queue.startNext();
+
+    queue.move(a.id, 1);
+    queue.setPriority(a.id, "low");
+    expect(getQueryPaths()).toEqual(["a.ql", "b.ql", "c.ql"]);
+
+    // Queued items can't be moved before running items either.
+    queue.move(b.id, -1);
+    expect(getQueryPaths()).toEqual(["a.ql", "b.ql", "c.ql"]);
+  });
+
+  it("starts items in order and not when paused", () => {
+    queue.add("a.ql", "db", "db");
+    queue.add("b.ql", "db", "db", "high");
+
+    expect(queue.startNext()?.queryPath).toBe("b.ql");
+
+    queue.paused = true;
+    expect(queue.startNext()).toBeUndefined();
+
+    queue.paused = false;
+    expect(queue.startNext()?.queryPath).toBe("a.ql");
+    expect(queue.startNext()).toBeUndefined();
+    expect(queue.getRunningItems()).toHaveLength(2);
+  });
+
+  it("does not clear running items", () => {
+    queue.add("a.ql", "db", "db");
+    queue.add("b.ql", "db", "db");
+    queue.startNext();
+
+    queue.clear();
+
+    expect(getQueryPaths()).toEqual(["a.ql"]);
+  });
+
+  it("queues running items again when restored from the persisted state", () => {
+    queue.add("a.ql", "db", "db");
+    queue.startNext();
+    queue.paused = true;
+
+    const restored = new QueryQueue(queue.getState());
+
+    expect(restored.paused).toBe(true);
+    expect(restored.getItems().map((item) => item.status)).toEqual([
+      QueryQueueItemStatus.Queued,
+    ]);
+  });
+});
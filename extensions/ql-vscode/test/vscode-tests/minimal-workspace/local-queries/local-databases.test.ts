@@ -282,6 +282,54 @@ describe("local databases", () => {
     });
   });
 
+  describe("replaceDatabase", () => {
+    let newDatabasePath: string;
+
+    beforeEach(() => {
+      newDatabasePath = join(dir.name, "rebuilt-db");
+      jest
+        .spyOn(databaseManager as any, "refreshDatabase")
+        .mockResolvedValue(undefined);
+    });
+
+    it("should replace the database and delete the old database", async () => {
+      const mockDbItem = createMockDB(dir);
+      const databasePath = mockDbItem.databaseUri.fsPath;
+      await fs.outputFile(join(databasePath, "old.txt"), "old");
+      await fs.outputFile(join(newDatabasePath, "new.txt"), "new");
+      await (databaseManager as any).addDatabaseItem(mockDbItem);
+
+      await databaseManager.replaceDatabase(mockDbItem, newDatabasePath, {
+        type: "folder",
+      });
+
+      expect(await fs.readdir(databasePath)).toEqual(["new.txt"]);
+      expect(await fs.pathExists(`${databasePath}.backup`)).toBe(false);
+      expect(registerSpy).toHaveBeenLastCalledWith(mockDbItem);
+    });
+
+    it("should restore the old database when the new database can't be moved", async () => {
+      const mockDbItem = createMockDB(dir);
+      const databasePath = mockDbItem.databaseUri.fsPath;
+      await fs.outputFile(join(databasePath, "old.txt"), "old");
+      await (databaseManager as any).addDatabaseItem(mockDbItem);
+      registerSpy.mockClear();
+
+      // The new database doesn't exist, so moving it fails
+      await expect(
+        databaseManager.replaceDatabase(mockDbItem, newDatabasePath, {
+          type: "folder",
+        }),
+      ).rejects.toThrow();
+
+      expect(await fs.readdir(databasePath)).toEqual(["old.txt"]);
+      expect(await fs.pathExists(`${databasePath}.backup`)).toBe(false);
+      expect(deregisterSpy).toHaveBeenCalledWith(mockDbItem);
+      expect(registerSpy).toHaveBeenCalledWith(mockDbItem);
+      expect(databaseManager.databaseItems).toEqual([mockDbItem]);
+    });
+  });
+
   describe("resolveSourceFile", () => {
     it("should fail to resolve when not a uri", () => {
       const db = createMockDB(
@@ -0,0 +1,183 @@
+import { join } from "path";
+import { ensureDir, pathExists, writeFile } from "fs-extra";
+import * as tmp from "tmp";
+import { CancellationTokenSource, Uri, window, workspace } from "vscode";
+
+import { promptCreateDatabaseFromWorkspaceFolder } from "../../../../src/databases/database-creator";
+import { CodeQLCliServer } from "../../../../src/codeql-cli/cli";
+import { DatabaseManager } from "../../../../src/databases/local-databases";
+import { UserCancellationException } from "../../../../src/common/vscode/progress";
+import { mockedObject, mockedQuickPickItem } from "../../utils/mocking.helpers";
+import {
+  getSourceSnapshot,
+  isSourceSnapshotStale,
+} from "../../../../src/databases/local-databases/source-snapshot";
+
+describe("promptCreateDatabaseFromWorkspaceFolder", () => {
+  let storagePath: string;
+  let sourceRoot: string;
+  let removeTmpDir: () => void;
+
+  let quickPickSpy: jest.SpiedFunction<typeof window.showQuickPick>;
+  let inputBoxSpy: jest.SpiedFunction<typeof window.showInputBox>;
+
+  const databaseCreate = jest.fn();
+  const openDatabase = jest.fn();
+  const progress = jest.fn();
+  let cliServer: CodeQLCliServer;
+  let databaseManager: DatabaseManager;
+
+  beforeEach(async () => {
+    const dir = tmp.dirSync({ unsafeCleanup: true });
+    removeTmpDir = dir.removeCallback;
+    storagePath = join(dir.name, "storage");
+    sourceRoot = join(dir.name, "my-project");
+    await ensureDir(sourceRoot);
+
+    jest.spyOn(workspace, "workspaceFolders", "get").mockReturnValue([
+      { uri: Uri.file(sourceRoot), name: "my-project", index: 0 },
+      {
+        uri: Uri.parse("codeql-zip-archive://1-18/src.zip"),
+        name: "source archive",
+        index: 1,
+      },
+    ]);
+    quickPickSpy = jest.spyOn(window, "showQuickPick");
+    inputBoxSpy = jest.spyOn(window, "showInputBox");
+
+    databaseCreate.mockResolvedValue(undefined);
+    openDatabase.mockResolvedValue(undefined);
+    cliServer = mockedObject<CodeQLCliServer>({
+      getSupportedLanguages: jest
+        .fn()
+        .mockResolvedValue(["java", "javascript"]),
+      databaseCreate,
+    });
+    databaseManager = mockedObject<DatabaseManager>({ openDatabase });
+  });
+
+  afterEach(() => {
+    removeTmpDir();
+  });
+
+  it("creates a database for a compiled language with a build command", async () => {
+    quickPickSpy.mockResolvedValueOnce(
+      mockedQuickPickItem({ label: "Java", language: "java" }),
+    );
+    inputBoxSpy.mockResolvedValueOnce("mvn package");
+
+    await promptCreateDatabaseFromWorkspaceFolder(
+      databaseManager,
+      storagePath,
+      cliServer,
+      progress,
+      new CancellationTokenSource().token,
+    );
+
+    const databasePath = expect.stringContaining("my-project-java");
+    expect(databaseCreate).toHaveBeenCalledWith(
+      databasePath,
+      sourceRoot,
+      "java",
+      expect.objectContaining({ buildCommand: "mvn package" }),
+    );
+    expect(openDatabase).toHaveBeenCalledWith(
+      expect.objectContaining({ fsPath: databasePath }),
+      {
+        type: "workspace",
+        sourceRoot,
+        language: "java",
+        buildCommand: "mvn package",
+        sourceModifiedAt: expect.any(Number),
+      },
+    );
+  });
+
+  it("is not stale right after the database has been created", async () => {
+    quickPickSpy.mockResolvedValueOnce(
+      mockedQuickPickItem({ label: "Java", language: "java" }),
+    );
+    inputBoxSpy.mockResolvedValueOnce("mvn package");
+    // The build writes to the source tree while the database is being created
+    databaseCreate.mockImplementationOnce(async () => {
+      await writeFile(join(sourceRoot, "Main.java"), "class Main {}");
+    });
+
+    await promptCreateDatabaseFromWorkspaceFolder(
+      databaseManager,
+      storagePath,
+      cliServer,
+      progress,
+      new CancellationTokenSource().token,
+    );
+
+    const origin = openDatabase.mock.calls[0][1];
+    expect(
+      isSourceSnapshotStale(origin, await getSourceSnapshot(sourceRoot)),
+    ).toBe(false);
+  });
+
+  it("does not ask for a build command for interpreted languages", async () => {
+    quickPickSpy.mockResolvedValueOnce(
+      mockedQuickPickItem({ label: "JavaScript", language: "javascript" }),
+    );
+
+    await promptCreateDatabaseFromWorkspaceFolder(
+      databaseManager,
+      storagePath,
+      cliServer,
+      progress,
+      new CancellationTokenSource().token,
+    );
+
+    expect(inputBoxSpy).not.toHaveBeenCalled();
+    expect(databaseCreate).toHaveBeenCalledWith(
+      expect.stringContaining("my-project-javascript"),
+      sourceRoot,
+      "javascript",
+      expect.objectContaining({ buildCommand: undefined }),
+    );
+  });
+
+  it("cancels when no build command is entered", async () => {
+    quickPickSpy.mockResolvedValueOnce(
+      mockedQuickPickItem({ label: "Java", language: "java" }),
+    );
+    inputBoxSpy.mockResolvedValueOnce(undefined);
+
+    await expect(
+      promptCreateDatabaseFromWorkspaceFolder(
+        databaseManager,
+        storagePath,
+        cliServer,
+        progress,
+        new CancellationTokenSource().token,
+      ),
+    ).rejects.toThrow(UserCancellationException);
+    expect(databaseCreate).not.toHaveBeenCalled();
+  });
+
+  it("removes the partially created database when creation fails", async () => {
+    quickPickSpy.mockResolvedValueOnce(
+      mockedQuickPickItem({ label: "JavaScript", language: "javascript" }),
+    );
+    databaseCreate.mockImplementation(async (databasePath: string) => {
+      await ensureDir(databasePath);
+      throw new Error("Extraction failed");
+    });
+
+    await expect(
+      promptCreateDatabaseFromWorkspaceFolder(
+        databaseManager,
+        storagePath,
+        cliServer,
+        progress,
+        new CancellationTokenSource().token,
+      ),
+    ).rejects.toThrow("Extraction failed");
+
+    const databasePath = databaseCreate.mock.calls[0][0];
+    expect(await pathExists(databasePath)).toBe(false);
+    expect(openDatabase).not.toHaveBeenCalled();
+  });
+});
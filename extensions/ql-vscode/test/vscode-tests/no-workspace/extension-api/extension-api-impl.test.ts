@@ -0,0 +1,182 @@
+import { EventEmitter, Uri } from "vscode";
+import { CodeQLExtensionApiImpl } from "../../../../src/extension-api/extension-api-impl";
+import { CodeQLCliServer } from "../../../../src/codeql-cli/cli";
+import {
+  DatabaseChangedEvent,
+  DatabaseEventKind,
+  DatabaseItem,
+  DatabaseManager,
+} from "../../../../src/databases/local-databases";
+import { LocalQueries } from "../../../../src/local-queries";
+import { QueryHistoryManager } from "../../../../src/query-history/query-history-manager";
+import { VariantAnalysisManager } from "../../../../src/variant-analysis/variant-analysis-manager";
+import { LocalQueryInfo } from "../../../../src/query-results";
+import { ApiCompletedQuery } from "../../../../src/extension-api/extension-api";
+import { mockedObject } from "../../utils/mocking.helpers";
+
+describe("CodeQLExtensionApiImpl", () => {
+  const bqrsInfo = jest.fn();
+  const bqrsDecode = jest.fn();
+  const onDidCompleteQuery = new EventEmitter<LocalQueryInfo>();
+  const onDidChangeDatabaseItem = new EventEmitter<DatabaseChangedEvent>();
+
+  const databaseItem = mockedObject<DatabaseItem>({
+    databaseUri: Uri.file("/databases/db1"),
+    name: "db1",
+    language: "javascript",
+  });
+  const completedQuery: ApiCompletedQuery = {
+    queryUri: Uri.file("/queries/query.ql"),
+    databaseUri: Uri.file("/databases/db1"),
+    successful: true,
+    message: undefined,
+    evaluationTime: 1000,
+    resultsUri: Uri.file("/storage/results.bqrs"),
+  };
+
+  let api: CodeQLExtensionApiImpl;
+
+  beforeEach(() => {
+    api = new CodeQLExtensionApiImpl(
+      mockedObject<CodeQLCliServer>({ bqrsInfo, bqrsDecode }),
+      mockedObject<DatabaseManager>({
+        databaseItems: [databaseItem],
+        currentDatabaseItem: databaseItem,
+        onDidChangeDatabaseItem: onDidChangeDatabaseItem.event,
+        onDidChangeCurrentDatabaseItem: new EventEmitter<DatabaseChangedEvent>()
+          .event,
+      }),
+      mockedObject<LocalQueries>({}),
+      mockedObject<QueryHistoryManager>({
+        onDidCompleteQuery: onDidCompleteQuery.event,
+      }),
+      mockedObject<VariantAnalysisManager>({}),
+    );
+  });
+
+  afterEach(() => {
+    api.dispose();
+  });
+
+  it("returns the databases without internal state", () => {
+    expect(api.getDatabases()).toEqual([
+      {
+        uri: Uri.file("/databases/db1"),
+        name: "db1",
+        language: "javascript",
+        selected: true,
+      },
+    ]);
+  });
+
+  it("fires an event when databases change", () => {
+    const listener = jest.fn();
+    api.onDidChangeDatabases(listener);
+
+    onDidChangeDatabaseItem.fire({
+      item: undefined,
+      kind: DatabaseEventKind.Add,
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  describe("readResults", () => {
+    beforeEach(() => {
+      bqrsInfo.mockResolvedValue({
+        "result-sets": [
+          {
+            name: "other",
+            rows: 1,
+            columns: [{ kind: "s" }],
+          },
+          {
+            name: "#select",
+            rows: 3,
+            columns: [{ name: "x", kind: "i" }],
+            pagination: { "step-size": 2, offsets: [10, 20] },
+          },
+        ],
+      });
+      bqrsDecode.mockResolvedValue({ tuples: [[3]] });
+    });
+
+    it("reads a page of the #select result set by default", async () => {
+      const page = await api.readResults(completedQuery, {
+        pageNumber: 1,
+        pageSize: 2,
+      });
+
+      expect(bqrsDecode).toHaveBeenCalledWith(
+        completedQuery.resultsUri.fsPath,
+        "#select",
+        { pageSize: 2, offset: 20 },
+      );
+      expect(page).toEqual({
+        resultSetName: "#select",
+        columns: [{ name: "x", kind: "integer" }],
+        rows: [[3]],
+        pageNumber: 1,
+        pageSize: 2,
+        totalRowCount: 3,
+      });
+    });
+
+    it("converts entities to API entities", async () => {
+      bqrsDecode.mockResolvedValue({
+        tuples: [
+          [
+            {
+              id: 1,
+              label: "x",
+              url: {
+                uri: "file:/a/b.js",
+                startLine: 1,
+                startColumn: 2,
+                endLine: 3,
+                endColumn: 4,
+              },
+            },
+            { id: 2, label: "b.js", url: { uri: "file:/a/b.js" } },
+            { id: 3, label: "y" },
+          ],
+        ],
+      });
+
+      const page = await api.readResults(completedQuery);
+
+      expect(page.rows).toEqual([
+        [
+          {
+            label: "x",
+            location: {
+              uri: "file:/a/b.js",
+              range: { startLine: 1, startColumn: 2, endLine: 3, endColumn: 4 },
+            },
+          },
+          {
+            label: "b.js",
+            location: { uri: "file:/a/b.js", range: undefined },
+          },
+          { label: "y", location: undefined },
+        ],
+      ]);
+    });
+
+    it("returns an empty page after the last page", async () => {
+      const page = await api.readResults(completedQuery, {
+        pageNumber: 2,
+        pageSize: 2,
+      });
+
+      expect(bqrsDecode).not.toHaveBeenCalled();
+      expect(page.rows).toEqual([]);
+    });
+
+    it("throws for an unknown result set", async () => {
+      await expect(
+        api.readResults(completedQuery, { resultSetName: "unknown" }),
+      ).rejects.toThrow("Result set 'unknown' not found");
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { join, resolve } from "path";
+import { readFile, readJson, writeJson } from "fs-extra";
+import * as tmp from "tmp";
+import { Uri, WebviewPanel, window, workspace } from "vscode";
+import {
+  createWorkspaceFolderSourceFileResolver,
+  ResultsView,
+} from "../../../../src/local-queries/results-view";
+import { CodeQLCliServer } from "../../../../src/codeql-cli/cli";
+import { DatabaseManager } from "../../../../src/databases/local-databases";
+import { HistoryItemLabelProvider } from "../../../../src/query-history/history-item-label-provider";
+import { NotificationLogger } from "../../../../src/common/logging";
+import { FromResultsViewMsg } from "../../../../src/common/interface-types";
+import { createMockApp } from "../../../__mocks__/appMock";
+import { createMockLogger } from "../../../__mocks__/loggerMock";
+import { mockedObject } from "../../utils/mocking.helpers";
+
+describe("ResultsView", () => {
+  const sarifPath = resolve(__dirname, "../../../data/sarif/validSarif.sarif");
+
+  let workspaceFolderPath: string;
+  let removeTmpDir: () => void;
+
+  let logger: NotificationLogger;
+  let panel: WebviewPanel;
+  let onMessage: (msg: FromResultsViewMsg) => Promise<void>;
+  let view: ResultsView;
+
+  beforeEach(async () => {
+    const dir = tmp.dirSync({ unsafeCleanup: true });
+    removeTmpDir = dir.removeCallback;
+    workspaceFolderPath = dir.name;
+
+    jest.spyOn(workspace, "workspaceFolders", "get").mockReturnValue([
+      {
+        uri: Uri.file(workspaceFolderPath),
+        name: "my-project",
+        index: 0,
+      },
+    ]);
+    jest
+      .spyOn(window, "showQuickPick")
+      .mockImplementation(async (items) => (await items)[0]);
+
+    logger = createMockLogger();
+    view = new ResultsView(
+      createMockApp({ logger }),
+      mockedObject<DatabaseManager>({
+        databaseItems: [],
+        currentDatabaseItem: undefined,
+        onDidChangeDatabaseItem: jest.fn(),
+      }),
+      mockedObject<CodeQLCliServer>({}),
+      logger,
+      new HistoryItemLabelProvider({
+        format: "",
+        ttlInMillis: 0,
+        onDidChangeConfiguration: jest.fn(),
+      }),
+    );
+
+    panel = mockedObject<WebviewPanel>({
+      onDidDispose: jest.fn(),
+      reveal: jest.fn(),
+      webview: {
+        html: undefined,
+        cspSource: "abc",
+        onDidReceiveMessage: jest.fn().mockImplementation((listener) => {
+          onMessage = listener;
+        }),
+        postMessage: jest.fn().mockResolvedValue(true),
+        asWebviewUri: jest.fn().mockImplementation((uri: Uri) =>
+          uri.with({
+            scheme: "webview",
+          }),
+        ),
+      },
+    });
+    await view.restoreView(panel);
+    await onMessage({ t: "viewLoaded", viewName: "results" });
+  });
+
+  afterEach(() => {
+    removeTmpDir();
+  });
+
+  describe("openSarifFile", () => {
+    it("shows the results of a SARIF file", async () => {
+      await view.openSarifFile(Uri.file(sarifPath));
+
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          queryName: "validSarif.sarif",
+          queryPath: sarifPath,
+          database: {
+            databaseUri: Uri.file(workspaceFolderPath).toString(),
+            name: "my-project",
+          },
+          pageNumber: 0,
+          numPages: 1,
+          interpretation: expect.objectContaining({
+            sourceLocationPrefix: workspaceFolderPath,
+            numTotalResults: 1,
+          }),
+        }),
+      );
+    });
+
+    it("asks for the SARIF file when none is given", async () => {
+      const showOpenDialogSpy = jest
+        .spyOn(window, "showOpenDialog")
+        .mockResolvedValue([Uri.file(sarifPath)]);
+
+      await view.openSarifFile();
+
+      expect(showOpenDialogSpy).toHaveBeenCalledTimes(1);
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          queryPath: sarifPath,
+        }),
+      );
+    });
+
+    it("does nothing when no SARIF file is chosen", async () => {
+      jest.spyOn(window, "showOpenDialog").mockResolvedValue(undefined);
+
+      await view.openSarifFile();
+
+      expect(panel.webview.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("fails when there is nothing to resolve the source locations against", async () => {
+      jest.spyOn(workspace, "workspaceFolders", "get").mockReturnValue([]);
+
+      await expect(view.openSarifFile(Uri.file(sarifPath))).rejects.toThrow(
+        "Add a database or open a workspace folder to resolve the source locations of the SARIF file.",
+      );
+    });
+
+    it("merges the runs of the SARIF file", async () => {
+      const sarif = await readJson(sarifPath);
+      const multipleRunsPath = join(workspaceFolderPath, "multiple.sarif");
+      await writeJson(multipleRunsPath, {
+        ...sarif,
+        runs: [sarif.runs[0], sarif.runs[0]],
+      });
+
+      await view.openSarifFile(Uri.file(multipleRunsPath));
+
+      expect(logger.showWarningMessage).not.toHaveBeenCalled();
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          interpretation: expect.objectContaining({
+            numTotalResults: 2,
+          }),
+        }),
+      );
+    });
+
+    it("filters the alerts of the SARIF file", async () => {
+      await view.openSarifFile(Uri.file(sarifPath));
+
+      await onMessage({
+        t: "changeFilter",
+        resultSetName: "alerts",
+        filterState: {
+          searchText: "never used",
+          columnFilters: [{ columnIndex: 1, kind: "glob", pattern: "**/*.ts" }],
+        },
+      });
+
+      expect(panel.webview.postMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          pageNumber: 0,
+          numPages: 0,
+          interpretation: expect.objectContaining({
+            numTotalResults: 1,
+            filter: {
+              state: expect.objectContaining({ searchText: "never used" }),
+              numResults: 0,
+            },
+          }),
+        }),
+      );
+
+      await onMessage({
+        t: "changeFilter",
+        resultSetName: "alerts",
+        filterState: undefined,
+      });
+
+      expect(panel.webview.postMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          numPages: 1,
+          interpretation: expect.objectContaining({
+            filter: undefined,
+          }),
+        }),
+      );
+    });
+
+    it("exports the alerts of the SARIF file", async () => {
+      const exportPath = join(workspaceFolderPath, "export.csv");
+      const showSaveDialogSpy = jest
+        .spyOn(window, "showSaveDialog")
+        .mockResolvedValue(Uri.file(exportPath));
+      await view.openSarifFile(Uri.file(sarifPath));
+
+      await onMessage({
+        t: "exportResults",
+        selectedTable: "alerts",
+        pageNumber: 0,
+      });
+
+      expect(showSaveDialogSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaultUri: Uri.file(join(workspaceFolderPath, "validSarif.csv")),
+        }),
+      );
+      expect(await readFile(exportPath, "utf8")).toContain(
+        "is assigned a value but never used",
+      );
+    });
+
+    it("shows a page of the SARIF file again", async () => {
+      await view.openSarifFile(Uri.file(sarifPath));
+
+      await view.showPageOfInterpretedResults(0);
+
+      expect(panel.webview.postMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          t: "showInterpretedPage",
+          queryName: "validSarif.sarif",
+          pageNumber: 0,
+        }),
+      );
+    });
+  });
+});
+
+describe("createWorkspaceFolderSourceFileResolver", () => {
+  const workspaceFolder = {
+    uri: Uri.file("/a/b/my-project"),
+    name: "my-project",
+    index: 0,
+  };
+  const resolver = createWorkspaceFolderSourceFileResolver(workspaceFolder);
+
+  it("resolves the source root to the workspace folder", () => {
+    expect(resolver.resolveSourceFile(undefined).toString()).toBe(
+      workspaceFolder.uri.toString(),
+    );
+  });
+
+  it("resolves files to their location on disk", () => {
+    const uri = Uri.file("/a/b/my-project/src/index.ts");
+
+    expect(resolver.resolveSourceFile(uri.toString()).toString()).toBe(
+      uri.toString(),
+    );
+  });
+});
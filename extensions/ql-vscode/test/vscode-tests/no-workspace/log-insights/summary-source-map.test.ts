@@ -0,0 +1,54 @@
+import { join } from "path";
+import { writeFile } from "fs-extra";
+import { SourceMapGenerator } from "source-map";
+import { tmpDir } from "../../../../src/tmp-dir";
+import {
+  getQLPosition,
+  getQLPositionForLines,
+  readSummarySourceMap,
+} from "../../../../src/log-insights/summary-source-map";
+
+describe("summary source map", () => {
+  const summaryPath = join(tmpDir.name, "evaluator-log.summary");
+
+  beforeEach(async () => {
+    const generator = new SourceMapGenerator({ file: summaryPath });
+    // Line 3 of the summary (1-based) was generated by line 10 of the query.
+    generator.addMapping({
+      generated: { line: 3, column: 4 },
+      original: { line: 10, column: 2 },
+      source: "/path/to/query.ql",
+    });
+    await writeFile(`${summaryPath}.map`, generator.toString());
+  });
+
+  it("should map a position in the summary to the QL source", async () => {
+    const sourceMap = await readSummarySourceMap(summaryPath);
+    expect(sourceMap).toBeDefined();
+
+    const position = getQLPosition(sourceMap!, 2, 8);
+    expect(position?.filePath).toBe("/path/to/query.ql");
+    expect(position?.position.line).toBe(9);
+    expect(position?.position.character).toBe(2);
+
+    sourceMap!.destroy();
+  });
+
+  it("should find the first mapped line in a block of RA", async () => {
+    const sourceMap = await readSummarySourceMap(summaryPath);
+
+    const position = getQLPositionForLines(sourceMap!, 1, 4);
+    expect(position?.filePath).toBe("/path/to/query.ql");
+    expect(position?.position.line).toBe(9);
+
+    expect(getQLPositionForLines(sourceMap!, 3, 4)).toBeUndefined();
+
+    sourceMap!.destroy();
+  });
+
+  it("should return undefined if there is no source map", async () => {
+    expect(
+      await readSummarySourceMap(join(tmpDir.name, "does-not-exist.summary")),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+import { join } from "path";
+import { ensureDir, utimes, writeFile } from "fs-extra";
+import * as tmp from "tmp";
+import { CancellationTokenSource } from "vscode-jsonrpc";
+import { createMockLogger } from "../../../__mocks__/loggerMock";
+import { mockedObject, mockedUri } from "../../utils/mocking.helpers";
+import { CodeQLCliServer } from "../../../../src/codeql-cli/cli";
+import { QueryRunner } from "../../../../src/query-server";
+import { QueryResultType } from "../../../../src/query-server/new-messages";
+import { QueryOutputDir } from "../../../../src/run-queries-shared";
+import { DatabaseItem } from "../../../../src/databases/local-databases";
+import { QueryLanguage } from "../../../../src/common/query-language";
+import { Mode } from "../../../../src/model-editor/shared/mode";
+import { ExtensionPack } from "../../../../src/model-editor/shared/extension-pack";
+import {
+  BaselineAlertsCache,
+  runModelImpactPreview,
+} from "../../../../src/model-editor/model-impact-preview";
+import * as queryResults from "../../../../src/query-results";
+import * as modeledMethodFs from "../../../../src/model-editor/modeled-method-fs";
+
+describe("runModelImpactPreview", () => {
+  let queryPath: string;
+  let extensionPack: ExtensionPack;
+  let removeTmpDir: () => void;
+
+  let createQueryRun: jest.Mock;
+  let progress: jest.Mock;
+  let baselineAlerts: BaselineAlertsCache;
+
+  beforeEach(async () => {
+    const dir = tmp.dirSync({ unsafeCleanup: true });
+    removeTmpDir = dir.removeCallback;
+
+    queryPath = join(dir.name, "queries", "SqlInjection.ql");
+    await ensureDir(join(dir.name, "queries"));
+    await writeFile(queryPath, "select 1");
+
+    const extensionPackPath = join(dir.name, "my-extension-pack");
+    await ensureDir(extensionPackPath);
+    await writeFile(
+      join(extensionPackPath, "codeql-pack.yml"),
+      "name: my/extension-pack\nversion: 0.0.0\n",
+    );
+    extensionPack = {
+      path: extensionPackPath,
+      yamlPath: join(extensionPackPath, "codeql-pack.yml"),
+      name: "my/extension-pack",
+      version: "0.0.0",
+      language: "java",
+      extensionTargets: {
+        "codeql/java-all": "*",
+      },
+      dataExtensions: ["models/**/*.yml"],
+    };
+
+    const outputDir = new QueryOutputDir(join(dir.name, "query-output"));
+    createQueryRun = jest.fn().mockReturnValue({
+      evaluate: jest.fn().mockResolvedValue({
+        resultType: QueryResultType.SUCCESS,
+        outputDir,
+      }),
+      outputDir,
+    });
+    progress = jest.fn();
+    baselineAlerts = new Map();
+
+    jest
+      .spyOn(modeledMethodFs, "saveModeledMethods")
+      .mockResolvedValue(undefined);
+    jest.spyOn(queryResults, "interpretResultsSarif").mockResolvedValue({
+      t: "SarifInterpretationData",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: { driver: { name: "CodeQL" } },
+          results: [],
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    removeTmpDir();
+  });
+
+  function runPreview() {
+    return runModelImpactPreview({
+      cliServer: mockedObject<CodeQLCliServer>({
+        resolveQlpacks: jest.fn().mockResolvedValue({}),
+        resolveMetadata: jest.fn().mockResolvedValue({
+          kind: "path-problem",
+          name: "SQL injection",
+        }),
+      }),
+      queryRunner: mockedObject<QueryRunner>({
+        createQueryRun,
+        logger: createMockLogger(),
+      }),
+      logger: createMockLogger(),
+      databaseItem: mockedObject<DatabaseItem>({
+        databaseUri: mockedUri("/a/b/c/db"),
+        getSourceLocationPrefix: jest.fn().mockResolvedValue("/a/b/c/src"),
+        sourceArchive: undefined,
+      }),
+      extensionPack,
+      language: QueryLanguage.Java,
+      queryStorageDir: "/tmp/queries",
+      queryPaths: [queryPath],
+      methods: [],
+      modeledMethods: {},
+      mode: Mode.Application,
+      baselineAlerts,
+      progress,
+      token: new CancellationTokenSource().token,
+    });
+  }
+
+  it("runs each query with the saved and the unsaved models", async () => {
+    const preview = await runPreview();
+
+    expect(preview?.queries).toEqual([
+      expect.objectContaining({
+        queryName: "SQL injection",
+        queryPath,
+        addedAlerts: [],
+        removedAlerts: [],
+      }),
+    ]);
+    expect(createQueryRun).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports progress per query run", async () => {
+    await runPreview();
+
+    expect(progress.mock.calls.map(([update]) => update)).toEqual([
+      {
+        message: "Creating preview extension pack",
+        step: 0,
+        maxStep: 3,
+      },
+    ]);
+
+    // Progress reported while running a query keeps the step of the query run
+    const { evaluate } = createQueryRun.mock.results[0].value;
+    const queryProgress = evaluate.mock.calls[0][0];
+    queryProgress({ message: "Compiling", step: 500, maxStep: 1000 });
+    expect(progress).toHaveBeenLastCalledWith({
+      message: "Running SqlInjection.ql: Compiling",
+      step: 1,
+      maxStep: 3,
+    });
+  });
+
+  it("does not run the query with the saved models again", async () => {
+    await runPreview();
+    await runPreview();
+
+    expect(createQueryRun).toHaveBeenCalledTimes(3);
+  });
+
+  it("runs the query with the saved models again when the extension pack changes", async () => {
+    await runPreview();
+
+    const modelPath = join(extensionPack.path, "models", "sql2o.model.yml");
+    await ensureDir(join(extensionPack.path, "models"));
+    await writeFile(modelPath, "extensions: []\n");
+    const later = new Date(Date.now() + 10000);
+    await utimes(modelPath, later, later);
+
+    await runPreview();
+
+    expect(createQueryRun).toHaveBeenCalledTimes(4);
+  });
+});
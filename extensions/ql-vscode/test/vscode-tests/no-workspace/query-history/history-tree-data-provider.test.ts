@@ -22,6 +22,7 @@ import { VariantAnalysisHistoryItem } from "../../../../src/query-history/varian
 import { QueryStatus } from "../../../../src/query-history/query-status";
 import { VariantAnalysisStatus } from "../../../../src/variant-analysis/shared/variant-analysis";
 import {
+  GroupBy,
   HistoryTreeDataProvider,
   SortOrder,
 } from "../../../../src/query-history/history-tree-data-provider";
@@ -37,6 +38,8 @@ describe("HistoryTreeDataProvider", () => {
   let app: App;
   let configListener: QueryHistoryConfigListener;
   const doCompareCallback = jest.fn();
+  const doComparePerformanceCallback = jest.fn();
+  const doShowEvalLogFlameGraphCallback = jest.fn();
 
   let queryHistoryManager: QueryHistoryManager;
 
@@ -487,6 +490,164 @@ describe("HistoryTreeDataProvider", () => {
     });
   });
 
+  describe("query suites", () => {
+    const querySuite = {
+      id: "suite-run-id",
+      name: "security",
+      suitePath: "/a/b/security.qls",
+    };
+    const suiteQueries = [
+      createMockLocalQueryInfo({
+        userSpecifiedLabel: "b",
+        startTime: new Date(10),
+        resultCount: 1,
+        querySuite,
+      }),
+      createMockLocalQueryInfo({
+        userSpecifiedLabel: "a",
+        startTime: new Date(20),
+        resultCount: 1,
+        querySuite,
+      }),
+    ];
+    const otherQuery = createMockLocalQueryInfo({
+      userSpecifiedLabel: "c",
+      startTime: new Date(15),
+    });
+
+    beforeEach(() => {
+      historyTreeDataProvider.allHistory = [
+        suiteQueries[0],
+        otherQuery,
+        suiteQueries[1],
+      ];
+    });
+
+    it("groups the queries of a query suite run", async () => {
+      const children = await historyTreeDataProvider.getChildren();
+
+      expect(children).toEqual([
+        {
+          t: "query-suite",
+          querySuite,
+          databaseName: "db-name",
+        },
+        otherQuery,
+      ]);
+
+      const group = children![0];
+      expect(await historyTreeDataProvider.getChildren(group)).toEqual(
+        suiteQueries,
+      );
+      expect(historyTreeDataProvider.getParent(suiteQueries[1])).toBe(group);
+      expect(historyTreeDataProvider.getParent(otherQuery)).toBeNull();
+    });
+
+    it("gets a tree item for a query suite run", async () => {
+      const [group] = (await historyTreeDataProvider.getChildren())!;
+
+      const treeItem = await historyTreeDataProvider.getTreeItem(group);
+
+      expect(treeItem.label).toBe("security on db-name");
+      expect(treeItem.description).toBe("2/2 queries");
+      expect(treeItem.contextValue).toBe("querySuiteItem");
+      expect(treeItem.collapsibleState).toBe(
+        vscode.TreeItemCollapsibleState.Collapsed,
+      );
+    });
+  });
+
+  describe("tags, grouping and text filter", () => {
+    let taggedQuery: LocalQueryInfo;
+    let multiTaggedQuery: LocalQueryInfo;
+    let untaggedQuery: LocalQueryInfo;
+
+    beforeEach(() => {
+      taggedQuery = createMockLocalQueryInfo({
+        userSpecifiedLabel: "a",
+        dbName: "first-db",
+      });
+      taggedQuery.tags = ["triage"];
+      multiTaggedQuery = createMockLocalQueryInfo({
+        userSpecifiedLabel: "b",
+        dbName: "second-db",
+      });
+      multiTaggedQuery.tags = ["security", "triage"];
+      untaggedQuery = createMockLocalQueryInfo({
+        userSpecifiedLabel: "c",
+        dbName: "first-db",
+      });
+
+      historyTreeDataProvider.allHistory = [
+        taggedQuery,
+        multiTaggedQuery,
+        untaggedQuery,
+      ];
+      historyTreeDataProvider.sortOrder = SortOrder.NameAsc;
+    });
+
+    it("shows the tags of a query", async () => {
+      const treeItem = await historyTreeDataProvider.getTreeItem(
+        multiTaggedQuery,
+      );
+
+      expect(treeItem.description).toBe("security, triage");
+    });
+
+    it("groups queries by tag", async () => {
+      historyTreeDataProvider.groupBy = GroupBy.Tag;
+
+      const groups = (await historyTreeDataProvider.getChildren())!;
+      expect(groups).toEqual([
+        { t: "property-group", name: "security" },
+        { t: "property-group", name: "triage" },
+        { t: "property-group", name: "Untagged" },
+      ]);
+
+      expect(await historyTreeDataProvider.getChildren(groups[1])).toEqual([
+        taggedQuery,
+        multiTaggedQuery,
+      ]);
+      expect(historyTreeDataProvider.getParent(multiTaggedQuery)).toBe(
+        groups[0],
+      );
+
+      const treeItem = await historyTreeDataProvider.getTreeItem(groups[1]);
+      expect(treeItem.label).toBe("triage");
+      expect(treeItem.description).toBe("2 queries");
+      expect(treeItem.contextValue).toBe("propertyGroupItem");
+    });
+
+    it("groups queries by database", async () => {
+      historyTreeDataProvider.groupBy = GroupBy.Database;
+
+      const groups = (await historyTreeDataProvider.getChildren())!;
+      expect(
+        groups.map((group) =>
+          group.t === "property-group" ? group.name : undefined,
+        ),
+      ).toEqual(["first-db", "second-db"]);
+      expect(await historyTreeDataProvider.getChildren(groups[0])).toEqual([
+        taggedQuery,
+        untaggedQuery,
+      ]);
+    });
+
+    it("filters queries by database name, ignoring case", async () => {
+      historyTreeDataProvider.filterText = "SECOND";
+      expect(await historyTreeDataProvider.getChildren()).toEqual([
+        multiTaggedQuery,
+      ]);
+
+      historyTreeDataProvider.filterText = "first";
+      expect(await historyTreeDataProvider.getChildren()).toEqual([
+        taggedQuery,
+        untaggedQuery,
+      ]);
+      expect(historyTreeDataProvider.isVisible(multiTaggedQuery)).toBe(false);
+    });
+  });
+
   async function createMockQueryHistory(allHistory: QueryHistoryInfo[]) {
     const qhm = new QueryHistoryManager(
       app,
@@ -508,6 +669,8 @@ describe("HistoryTreeDataProvider", () => {
       }),
       languageContext,
       doCompareCallback,
+      doComparePerformanceCallback,
+      doShowEvalLogFlameGraphCallback,
     );
     (qhm.treeDataProvider as any).history = [...allHistory];
     await vscode.workspace.saveAll();
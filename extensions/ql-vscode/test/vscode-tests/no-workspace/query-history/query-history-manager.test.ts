@@ -1,4 +1,6 @@
 import { join } from "path";
+import { ensureDir, pathExists, writeFile } from "fs-extra";
+import * as tmp from "tmp";
 import * as vscode from "vscode";
 
 import { extLogger } from "../../../../src/common/logging/vscode";
@@ -29,6 +31,10 @@ import { createMockApp } from "../../../__mocks__/appMock";
 import { App } from "../../../../src/common/app";
 import { createMockCommandManager } from "../../../__mocks__/commandsMock";
 import { LanguageContextStore } from "../../../../src/language-context-store";
+import {
+  QueryEvaluationInfo,
+  QueryOutputDir,
+} from "../../../../src/run-queries-shared";
 
 describe("QueryHistoryManager", () => {
   const mockExtensionLocation = join(tmpDir.name, "mock-extension-location");
@@ -38,6 +44,8 @@ describe("QueryHistoryManager", () => {
     typeof variantAnalysisManagerStub.cancelVariantAnalysis
   >;
   const doCompareCallback = jest.fn();
+  const doComparePerformanceCallback = jest.fn();
+  const doShowEvalLogFlameGraphCallback = jest.fn();
 
   let executeCommand: jest.MockedFn<
     (commandName: string, ...args: any[]) => Promise<any>
@@ -582,6 +590,135 @@ describe("QueryHistoryManager", () => {
     });
   });
 
+  describe("removing pinned and archived queries", () => {
+    let storageDir: string;
+    let archiveDir: string;
+    let removeTmpDir: () => void;
+    let showBinaryChoiceDialogSpy: jest.SpiedFunction<
+      typeof dialog.showBinaryChoiceDialog
+    >;
+
+    let queryDirectory: string;
+    let pinnedQuery: LocalQueryInfo;
+
+    beforeEach(async () => {
+      const dir = tmp.dirSync({ unsafeCleanup: true });
+      removeTmpDir = dir.removeCallback;
+      storageDir = join(dir.name, "queries");
+      archiveDir = join(dir.name, "archive");
+      await ensureDir(archiveDir);
+
+      queryDirectory = join(storageDir, "query-1");
+      await ensureDir(queryDirectory);
+      await writeFile(join(queryDirectory, "timestamp"), `${Date.now()}`);
+
+      pinnedQuery = createMockLocalQueryInfo({
+        outputDir: new QueryOutputDir(queryDirectory),
+        queryWithResults: {
+          ...createMockQueryWithResults({}),
+          query: new QueryEvaluationInfo(queryDirectory, "db-item-path", false),
+        },
+      });
+      pinnedQuery.pinned = true;
+
+      showBinaryChoiceDialogSpy = jest
+        .spyOn(dialog, "showBinaryChoiceDialog")
+        .mockResolvedValue(true);
+      jest
+        .spyOn(vscode.window, "showOpenDialog")
+        .mockResolvedValue([vscode.Uri.file(archiveDir)]);
+
+      queryHistoryManager = await createMockQueryHistory(
+        [pinnedQuery],
+        createMockQueryHistoryDirs({ localQueriesDirPath: storageDir }),
+      );
+    });
+
+    afterEach(() => {
+      removeTmpDir();
+    });
+
+    it("should ask before removing a pinned query", async () => {
+      await queryHistoryManager.handleRemoveHistoryItem([pinnedQuery]);
+
+      expect(showBinaryChoiceDialogSpy).toHaveBeenCalledWith(
+        "You are about to remove 1 pinned query from the query history. Are you sure?",
+      );
+      expect(queryHistoryManager.treeDataProvider.allHistory).toEqual([]);
+      expect(await pathExists(queryDirectory)).toBe(false);
+    });
+
+    it("should not remove a pinned query when you choose 'No'", async () => {
+      showBinaryChoiceDialogSpy.mockResolvedValue(false);
+
+      await queryHistoryManager.handleRemoveHistoryItem([pinnedQuery]);
+
+      expect(queryHistoryManager.treeDataProvider.allHistory).toEqual([
+        pinnedQuery,
+      ]);
+      expect(await pathExists(queryDirectory)).toBe(true);
+    });
+
+    it("should move pinned queries to the archive", async () => {
+      await queryHistoryManager.handleArchivePinnedQueries();
+
+      const archivedDirectory = join(archiveDir, "query-1");
+      expect(await pathExists(queryDirectory)).toBe(false);
+      expect(await pathExists(join(archivedDirectory, "timestamp"))).toBe(true);
+
+      const [archivedQuery] = queryHistoryManager.treeDataProvider.allHistory;
+      expect(archivedQuery.t).toBe("local");
+      expect(
+        (archivedQuery as LocalQueryInfo).completedQuery?.query.querySaveDir,
+      ).toBe(archivedDirectory);
+    });
+
+    it("should not delete the archive when removing an archived query", async () => {
+      await queryHistoryManager.handleArchivePinnedQueries();
+      const [archivedQuery] = queryHistoryManager.treeDataProvider.allHistory;
+
+      await queryHistoryManager.handleRemoveHistoryItem([archivedQuery]);
+
+      expect(queryHistoryManager.treeDataProvider.allHistory).toEqual([]);
+      expect(await pathExists(join(archiveDir, "query-1", "timestamp"))).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("addQuery", () => {
+    let revealSpy: jest.SpiedFunction<
+      typeof queryHistoryManager.treeView.reveal
+    >;
+
+    beforeEach(async () => {
+      queryHistoryManager = await createMockQueryHistory([]);
+
+      jest
+        .spyOn(queryHistoryManager.treeView, "visible", "get")
+        .mockReturnValue(true);
+      revealSpy = jest
+        .spyOn(queryHistoryManager.treeView, "reveal")
+        .mockResolvedValue(undefined);
+    });
+
+    it("should select the new query", () => {
+      const query = localQueryHistory[0];
+
+      queryHistoryManager.addQuery(query);
+
+      expect(revealSpy).toHaveBeenCalledWith(query, { select: true });
+    });
+
+    it("should not select a new query that is hidden by the filter", () => {
+      queryHistoryManager.treeDataProvider.filterText = "does-not-match";
+
+      queryHistoryManager.addQuery(localQueryHistory[0]);
+
+      expect(revealSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe("handleCancel", () => {
     describe("if the item is in progress", () => {
       it("should cancel a single local query", async () => {
@@ -872,6 +1009,42 @@ describe("QueryHistoryManager", () => {
       });
     });
 
+    describe("Compare performance callback", () => {
+      it("should call the compare performance callback", async () => {
+        queryHistoryManager = await createMockQueryHistory(allHistory);
+        await queryHistoryManager.handleComparePerformanceWith(
+          localQueryHistory[0],
+          [localQueryHistory[0], localQueryHistory[3]],
+        );
+        expect(doComparePerformanceCallback).toHaveBeenCalledTimes(1);
+        expect(doComparePerformanceCallback).toHaveBeenCalledWith(
+          localQueryHistory[0],
+          localQueryHistory[3],
+        );
+        expect(doCompareCallback).not.toBeCalled();
+      });
+    });
+
+    describe("handleShowEvalLogFlameGraph", () => {
+      it("should call the flame graph callback for a local query", async () => {
+        queryHistoryManager = await createMockQueryHistory(allHistory);
+        await queryHistoryManager.handleShowEvalLogFlameGraph(
+          localQueryHistory[0],
+        );
+        expect(doShowEvalLogFlameGraphCallback).toHaveBeenCalledWith(
+          localQueryHistory[0],
+        );
+      });
+
+      it("should not call the flame graph callback for a variant analysis", async () => {
+        queryHistoryManager = await createMockQueryHistory(allHistory);
+        await queryHistoryManager.handleShowEvalLogFlameGraph(
+          variantAnalysisHistory[0],
+        );
+        expect(doShowEvalLogFlameGraphCallback).not.toBeCalled();
+      });
+    });
+
     describe("updateCompareWith", () => {
       it("should update compareWithItem when there is a single item", async () => {
         queryHistoryManager = await createMockQueryHistory([]);
@@ -919,7 +1092,10 @@ describe("QueryHistoryManager", () => {
     });
   });
 
-  async function createMockQueryHistory(allHistory: QueryHistoryInfo[]) {
+  async function createMockQueryHistory(
+    allHistory: QueryHistoryInfo[],
+    queryHistoryDirs = createMockQueryHistoryDirs(),
+  ) {
     const qhm = new QueryHistoryManager(
       mockApp,
       {} as QueryRunner,
@@ -927,7 +1103,7 @@ describe("QueryHistoryManager", () => {
       localQueriesResultsViewStub,
       variantAnalysisManagerStub,
       {} as EvalLogViewer,
-      createMockQueryHistoryDirs(),
+      queryHistoryDirs,
       {
         globalStorageUri: vscode.Uri.file(mockExtensionLocation),
         extensionPath: vscode.Uri.file("/x/y/z").fsPath,
@@ -940,6 +1116,8 @@ describe("QueryHistoryManager", () => {
       }),
       new LanguageContextStore(mockApp),
       doCompareCallback,
+      doComparePerformanceCallback,
+      doShowEvalLogFlameGraphCallback,
     );
     (qhm.treeDataProvider as any).history = [...allHistory];
     await vscode.workspace.saveAll();
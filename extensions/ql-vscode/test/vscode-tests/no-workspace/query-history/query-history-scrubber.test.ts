@@ -3,7 +3,10 @@ import { join } from "path";
 import * as vscode from "vscode";
 
 import { extLogger } from "../../../../src/common/logging/vscode";
-import { registerQueryHistoryScrubber } from "../../../../src/query-history/query-history-scrubber";
+import {
+  registerQueryHistoryScrubber,
+  setQueryDirectoryPinned,
+} from "../../../../src/query-history/query-history-scrubber";
 import { QueryHistoryManager } from "../../../../src/query-history/query-history-manager";
 import { dirSync } from "tmp-promise";
 import {
@@ -121,6 +124,21 @@ describe("query history scrubber", () => {
     expectDirectories(queryDir);
   });
 
+  it("should not scrub pinned directories", async () => {
+    const queryDir = createMockQueryDir(ONE_HOUR_IN_MS, TWO_HOURS_IN_MS);
+    await setQueryDirectoryPinned(
+      join(queryDir, toQueryDirName(ONE_HOUR_IN_MS)),
+      true,
+    );
+    registerScrubber(queryDir, createMockContext());
+
+    jest.advanceTimersByTime(TWO_HOURS_IN_MS + ONE_DAY_IN_MS);
+    await wait();
+
+    // should have deleted only the unpinned directory
+    expectDirectories(queryDir, toQueryDirName(ONE_HOUR_IN_MS));
+  });
+
   function expectDirectories(queryDir: string, ...dirNames: string[]) {
     const files = readdirSync(queryDir);
     expect(files.sort()).toEqual(dirNames.sort());
@@ -0,0 +1,159 @@
+import { join } from "path";
+import {
+  mkdirpSync,
+  pathExists,
+  readdir,
+  readFile,
+  readJson,
+  writeFileSync,
+  writeJsonSync,
+} from "fs-extra";
+import { CancellationTokenSource, Uri } from "vscode";
+import { dirSync } from "tmp-promise";
+import { zip } from "zip-a-folder";
+import { unzipFile } from "../../../../src/common/zip";
+import { DirResult } from "tmp";
+import {
+  exportRunBundle,
+  importRunBundle,
+} from "../../../../src/query-history/run-bundle";
+import {
+  InitialQueryInfo,
+  LocalQueryInfo,
+} from "../../../../src/query-results";
+import { QueryOutputDir } from "../../../../src/run-queries-shared";
+import { DatabaseInfo } from "../../../../src/common/interface-types";
+import { QueryInProgress } from "../../../../src/query-server/legacy";
+import { QueryResultType } from "../../../../src/query-server/legacy-messages";
+
+describe("run bundles", () => {
+  let tmpDir: DirResult;
+  let querySaveDir: string;
+  let query: LocalQueryInfo;
+
+  beforeEach(() => {
+    tmpDir = dirSync({
+      unsafeCleanup: true,
+    });
+
+    querySaveDir = join(tmpDir.name, "queries", "query.ql-abc");
+    mkdirpSync(querySaveDir);
+    writeFileSync(join(querySaveDir, "results.bqrs"), "results", "utf8");
+    writeFileSync(join(querySaveDir, "timestamp"), "0", "utf8");
+
+    query = new LocalQueryInfo(
+      {
+        databaseInfo: {
+          name: "db",
+          databaseUri: Uri.file(join(tmpDir.name, "db")).fsPath,
+        } as DatabaseInfo,
+        start: new Date(),
+        queryPath: "/path/to/query.ql",
+        queryText: "select 1",
+        isQuickQuery: false,
+        isQuickEval: false,
+        id: "query.ql-abc",
+        outputDir: new QueryOutputDir(querySaveDir),
+        tags: ["triage"],
+        querySuite: {
+          id: "suite-id",
+          name: "suite",
+          suitePath: "/path/to/suite.qls",
+        },
+      } as InitialQueryInfo,
+      {
+        dispose: () => {
+          /**/
+        },
+      } as CancellationTokenSource,
+    );
+    query.completeThisQuery({
+      query: new QueryInProgress(
+        querySaveDir,
+        Uri.file(join(tmpDir.name, "db")).fsPath,
+        true,
+        "queryDbscheme",
+        undefined,
+        { name: "vwx" },
+      ).queryEvalInfo,
+      successful: true,
+      message: "foo",
+      result: {
+        evaluationTime: 1,
+        queryId: 0,
+        runId: 0,
+        resultType: QueryResultType.SUCCESS,
+      },
+    });
+  });
+
+  afterEach(() => {
+    tmpDir.removeCallback();
+  });
+
+  it("should import an exported query into a new directory", async () => {
+    const bundlePath = join(tmpDir.name, "bundle.zip");
+    const importDir = join(tmpDir.name, "imported");
+    mkdirpSync(importDir);
+
+    await exportRunBundle(query, bundlePath);
+    const imported = await importRunBundle(bundlePath, importDir);
+
+    const importedSaveDir = imported.completedQuery?.query.querySaveDir;
+    expect(importedSaveDir?.startsWith(join(importDir, "query.ql-"))).toBe(
+      true,
+    );
+    expect(imported.initialInfo.outputDir?.querySaveDir).toEqual(
+      importedSaveDir,
+    );
+    expect(imported.initialInfo.id).not.toEqual(query.initialInfo.id);
+    expect(imported.initialInfo.querySuite).toBeUndefined();
+    expect(imported.initialInfo.queryText).toEqual("select 1");
+    expect(imported.tags).toEqual(["triage"]);
+    expect(
+      await readFile(
+        imported.completedQuery!.query.resultsPaths.resultsPath,
+        "utf8",
+      ),
+    ).toEqual("results");
+    expect(
+      await readFile(join(importedSaveDir!, "timestamp"), "utf8"),
+    ).not.toEqual("0");
+  });
+
+  it("should not import a bundle with paths outside of the query directory", async () => {
+    const bundlePath = join(tmpDir.name, "bundle.zip");
+    const importDir = join(tmpDir.name, "imported");
+    mkdirpSync(importDir);
+    await exportRunBundle(query, bundlePath);
+
+    // Craft a bundle whose output directory points outside of the query storage
+    const craftedDir = join(tmpDir.name, "crafted");
+    const craftedBundlePath = join(tmpDir.name, "crafted.zip");
+    const metadataPath = join(craftedDir, "query-history-item.json");
+    await unzipFile(bundlePath, craftedDir);
+    const metadata = await readJson(metadataPath);
+    metadata.item.completedQuery.query.querySaveDir = "query/../../..";
+    writeJsonSync(metadataPath, metadata);
+    await zip(craftedDir, craftedBundlePath);
+
+    await expect(importRunBundle(craftedBundlePath, importDir)).rejects.toThrow(
+      "Invalid path in query run bundle: query/../../..",
+    );
+    expect(await readdir(importDir)).toEqual([]);
+  });
+
+  it("should not export a query that has not completed", async () => {
+    const inProgress = new LocalQueryInfo(query.initialInfo, {
+      dispose: () => {
+        /**/
+      },
+    } as CancellationTokenSource);
+    const bundlePath = join(tmpDir.name, "bundle.zip");
+
+    await expect(exportRunBundle(inProgress, bundlePath)).rejects.toThrow(
+      "Only completed queries can be exported.",
+    );
+    expect(await pathExists(bundlePath)).toBe(false);
+  });
+});
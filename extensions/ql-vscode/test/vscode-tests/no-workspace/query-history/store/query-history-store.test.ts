@@ -1,5 +1,6 @@
 import {
   readQueryHistoryFromFile,
+  relocateLocalQuery,
   writeQueryHistoryToFile,
 } from "../../../../../src/query-history/store/query-history-store";
 import { join } from "path";
@@ -165,6 +166,57 @@ describe("write and read", () => {
     }
   });
 
+  it("should write and read tags", async () => {
+    const historyPath = join(tmpDir.name, "workspace-query-history.json");
+    infoSuccessRaw.tags = ["security", "triage"];
+    variantAnalysis1.tags = ["security"];
+
+    await writeQueryHistoryToFile(allHistory, historyPath);
+    const actual = await readQueryHistoryFromFile(historyPath);
+
+    expect(actual.map((item) => item.tags)).toEqual([
+      ["security", "triage"],
+      undefined,
+      undefined,
+      ["security"],
+      undefined,
+    ]);
+  });
+
+  it("should write and read pinned items", async () => {
+    const historyPath = join(tmpDir.name, "workspace-query-history.json");
+    infoSuccessInterpreted.pinned = true;
+    variantAnalysis2.pinned = true;
+
+    await writeQueryHistoryToFile(allHistory, historyPath);
+    const actual = await readQueryHistoryFromFile(historyPath);
+
+    expect(actual.map((item) => item.pinned)).toEqual([
+      undefined,
+      true,
+      undefined,
+      undefined,
+      true,
+    ]);
+  });
+
+  it("should relocate the files of a local query", () => {
+    const fromDir = infoSuccessRaw.completedQuery!.query.querySaveDir;
+    const toDir = join(tmpDir.name, "archive", "query-a");
+    infoSuccessRaw.pinned = true;
+
+    const relocated = relocateLocalQuery(infoSuccessRaw, fromDir, toDir);
+
+    expect(relocated.completedQuery?.query.querySaveDir).toEqual(toDir);
+    expect(relocated.completedQuery?.query.resultsPaths.resultsPath).toEqual(
+      join(toDir, "results.bqrs"),
+    );
+    expect(relocated.initialInfo.queryPath).toEqual(
+      infoSuccessRaw.initialInfo.queryPath,
+    );
+    expect(relocated.pinned).toBe(true);
+  });
+
   it("should remove remote queries from the history", async () => {
     const path = join(tmpDir.name, "query-history-with-remote.json");
     await writeFile(
@@ -225,7 +277,7 @@ describe("write and read", () => {
     writeFileSync(
       badPath,
       JSON.stringify({
-        version: 3,
+        version: 4,
         queries: allHistory,
       }),
       "utf8",
@@ -102,6 +102,8 @@ describe("Variant Analyses and QueryHistoryManager", () => {
       }),
       new LanguageContextStore(app),
       asyncNoop,
+      asyncNoop,
+      asyncNoop,
     );
     disposables.push(qhm);
 
@@ -174,7 +176,7 @@ describe("Variant Analyses and QueryHistoryManager", () => {
     expect(
       readJSONSync(join(STORAGE_DIR, "workspace-query-history.json")),
     ).toEqual({
-      version: 2,
+      version: 3,
       queries: [],
     });
   });